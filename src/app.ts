@@ -15,16 +15,27 @@ import { mongodb } from './database/mongodb';
 import { registerControllers } from './utils/route-loader';
 import { TerminalController } from './controllers/terminal.controller';
 import { TerminalApiController } from './controllers/terminal-api.controller';
+import { TerminalShareController } from './controllers/terminal-share.controller';
 import { DataApiController } from './controllers/data-api.controller';
 import { AlarmApiController } from './controllers/alarm-api.controller';
+import { AlarmRulesController } from './controllers/alarm-rules.controller';
+import { AlarmEscalationController } from './controllers/alarm-escalation.controller';
+import { WebhookController } from './controllers/webhook.controller';
+import { NotificationTemplateController } from './controllers/notification-template.controller';
+import { NotificationAdminController } from './controllers/notification-admin.controller';
+import { QueueAdminController } from './controllers/queue-admin.controller';
+import { SchedulerAdminController } from './controllers/scheduler-admin.controller';
 import { ProtocolApiController } from './controllers/protocol-api.controller';
 import { ConfigApiController } from './controllers/config-api.controller';
 import { DtuController } from './controllers/dtu.controller';
+import { DevicesController } from './controllers/devices.controller';
+import { NodeApiController } from './controllers/node-api.controller';
 import { AuthController } from './controllers/auth.controller';
 import { UserController } from './controllers/user.controller';
 import { setupAuthMiddleware } from './utils/auth-routes';
 import { webSocketService } from './services/websocket.service';
 import { socketIoService } from './services/socket-io.service';
+import { connectSocketIoCluster } from './services/socket-io-cluster';
 import { socketUserService } from './services/socket-user.service';
 import { terminalCache } from './repositories/terminal-cache';
 import { terminalRepository } from './repositories/terminal.repository';
@@ -158,9 +169,24 @@ export async function build(options: {
         // 不阻止应用启动，但记录错误
       }
 
+      // Join Socket.IO cluster (multi-instance deployment)
+      if (config.SOCKETIO_CLUSTER) {
+        app.log.info('Joining Socket.IO cluster...');
+        socketIoService.attachCluster(await connectSocketIoCluster());
+      }
+
       // Initialize Socket.IO (Node clients)
       socketIoService.initialize(app.io);
 
+      // Wire alarm rule evaluation into the query result pipeline
+      const services = getServiceContainer();
+      socketIoService.attachAlarmServices(
+        services.alarmRuleEngine,
+        services.alarmNotificationService,
+        services.alarmEscalationService
+      );
+      socketIoService.attachTimeSeriesWriter(services.timeSeriesWriter);
+
       // Initialize WebSocket (Browser users)
       await webSocketService.initialize(app.io);
 
@@ -172,6 +198,13 @@ export async function build(options: {
     app.addHook('onClose', async () => {
       app.log.info('Shutting down services...');
 
+      // Leave Socket.IO cluster (release scheduler leadership)
+      try {
+        await socketIoService.detachCluster();
+      } catch (error) {
+        app.log.error({ err: error }, 'Error leaving Socket.IO cluster');
+      }
+
       // Close application services
       try {
         await closeServices();
@@ -232,11 +265,21 @@ export async function build(options: {
   registerControllers(app, [
     TerminalController,
     TerminalApiController,
+    TerminalShareController,
     DataApiController,
     AlarmApiController,
+    AlarmRulesController,
+    AlarmEscalationController,
+    WebhookController,
+    NotificationTemplateController,
+    NotificationAdminController,
+    QueueAdminController,
+    SchedulerAdminController,
     ProtocolApiController,
     ConfigApiController,
     DtuController,
+    DevicesController,
+    NodeApiController,
     AuthController,
     UserController,
   ]);
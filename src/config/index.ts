@@ -53,6 +53,14 @@ const envSchema = z.object({
   QUEUE_POLL_INTERVAL: z.string().default('100').transform(Number),
   QUEUE_MAX_CONCURRENCY: z.string().default('10').transform(Number),
 
+  // Device Query
+  IMMEDIATE_QUERY_TIMEOUT: z.string().default('10000').transform(Number),
+
+  // Socket.IO Cluster (多实例部署，需要 Redis)
+  SOCKETIO_CLUSTER: z.string().default('false').transform(val => val === 'true'),
+  SOCKETIO_CLUSTER_PREFIX: z.string().default('uart-cluster'),
+  INSTANCE_ID: z.string().optional(),
+
   // Aliyun OSS
   ALIOSS_ID: z.string().optional(),
   ALIOSS_SECRET: z.string().optional(),
@@ -69,6 +77,28 @@ const envSchema = z.object({
   SMS_REGION_ID: z.string().optional(),
   SMS_SIGN_NAME: z.string().optional(),
 
+  // Notification Rate Limit (窗口内每个用户 / 设备 / 整个部署的最大通知数，0 表示不限制)
+  NOTIFY_RATE_WINDOW: z.string().default('3600').transform(Number),
+  NOTIFY_LIMIT_SMS_USER: z.string().default('20').transform(Number),
+  NOTIFY_LIMIT_SMS_DEVICE: z.string().default('10').transform(Number),
+  NOTIFY_LIMIT_SMS_TENANT: z.string().default('200').transform(Number),
+  NOTIFY_LIMIT_WECHAT_USER: z.string().default('60').transform(Number),
+  NOTIFY_LIMIT_WECHAT_DEVICE: z.string().default('30').transform(Number),
+  NOTIFY_LIMIT_WECHAT_TENANT: z.string().default('1000').transform(Number),
+  NOTIFY_LIMIT_EMAIL_USER: z.string().default('60').transform(Number),
+  NOTIFY_LIMIT_EMAIL_DEVICE: z.string().default('30').transform(Number),
+  NOTIFY_LIMIT_EMAIL_TENANT: z.string().default('1000').transform(Number),
+
+  // SMS Budget (每月短信条数上限，0 表示不限制；达到各预警比例时输出警告)
+  SMS_MONTHLY_BUDGET: z.string().default('0').transform(Number),
+  SMS_BUDGET_WARN_RATIOS: z
+    .string()
+    .default('0.8,0.9')
+    .transform(val => val.split(',').map(Number).filter(ratio => ratio > 0 && ratio < 1)),
+
+  // Webhook (允许投递到回环、私有等内网地址，仅接收方部署在内网时开启)
+  WEBHOOK_ALLOW_PRIVATE_NETWORK: z.string().default('false').transform(val => val === 'true'),
+
   // Tencent Map
   TENCETMAP_KEY: z.string().optional(),
   TENCETMAP_URL: z.string().optional(),
@@ -222,6 +252,34 @@ export const derivedConfig = {
     };
   },
 
+  /**
+   * 通知限流和短信预算配置
+   */
+  get notificationLimits() {
+    return {
+      windowSeconds: config.NOTIFY_RATE_WINDOW,
+      limits: {
+        sms: {
+          user: config.NOTIFY_LIMIT_SMS_USER,
+          device: config.NOTIFY_LIMIT_SMS_DEVICE,
+          tenant: config.NOTIFY_LIMIT_SMS_TENANT,
+        },
+        wechat: {
+          user: config.NOTIFY_LIMIT_WECHAT_USER,
+          device: config.NOTIFY_LIMIT_WECHAT_DEVICE,
+          tenant: config.NOTIFY_LIMIT_WECHAT_TENANT,
+        },
+        email: {
+          user: config.NOTIFY_LIMIT_EMAIL_USER,
+          device: config.NOTIFY_LIMIT_EMAIL_DEVICE,
+          tenant: config.NOTIFY_LIMIT_EMAIL_TENANT,
+        },
+      },
+      smsMonthlyBudget: config.SMS_MONTHLY_BUDGET,
+      smsBudgetWarnRatios: config.SMS_BUDGET_WARN_RATIOS,
+    };
+  },
+
   /**
    * Aliyun OSS 是否配置
    */
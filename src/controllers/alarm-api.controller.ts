@@ -1,14 +1,16 @@
 /**
  * Alarm API Controller (Phase 4.2 Day 3)
  *
- * 告警管理 API - 5 个端点
+ * 告警管理 API - 5 个端点 (另含详情、解决、统计辅助端点)
  * 对应老系统 api.controller.ts 中的告警相关端点
  */
 
-import { Controller, Get, Put, Post } from '../decorators/controller';
+import { Controller, Get, Put, Post, Delete } from '../decorators/controller';
 import { Params, Query, Body, User } from '../decorators/params';
+import { RequireDevicePermission } from '../decorators/device-permission';
 import { mongodb } from '../database/mongodb';
 import { AlarmApiService } from '../services/alarm-api.service';
+import { getServiceContainer } from '../services';
 import {
   AlarmIdParamsSchema,
   type AlarmIdParams,
@@ -16,12 +18,28 @@ import {
   type AlarmQuery,
   ConfirmAlarmRequestSchema,
   type ConfirmAlarmRequest,
+  ResolveAlarmRequestSchema,
+  type ResolveAlarmRequest,
   UnconfirmedCountQuerySchema,
   type UnconfirmedCountQuery,
   UpdateAlarmContactsRequestSchema,
   type UpdateAlarmContactsRequest,
+  UpdateAlarmLevelsRequestSchema,
+  type UpdateAlarmLevelsRequest,
+  UpdateNotificationLanguageRequestSchema,
+  type UpdateNotificationLanguageRequest,
+  UpdateQuietHoursRequestSchema,
+  type UpdateQuietHoursRequest,
+  UpdateDigestRequestSchema,
+  type UpdateDigestRequest,
+  AlarmMuteParamsSchema,
+  type AlarmMuteParams,
+  MuteAlarmRequestSchema,
+  type MuteAlarmRequest,
+  UnmuteAlarmQuerySchema,
+  type UnmuteAlarmQuery,
 } from '../schemas/alarm.schema';
-import type { UserDocument } from '../entities/mongodb';
+import { DevicePermissionLevel, type UserDocument, type WebhookEvent } from '../entities/mongodb';
 import { ObjectId } from 'mongodb';
 
 /**
@@ -37,6 +55,20 @@ export class AlarmApiController {
     this.alarmService = new AlarmApiService(mongodb.getDatabase());
   }
 
+  /**
+   * 推送告警状态变更到 Webhook 端点 (失败不影响接口响应)
+   */
+  private async publishAlarmEvent(event: WebhookEvent, alarmId: ObjectId): Promise<void> {
+    try {
+      const alarm = await this.alarmService.getAlarmById(alarmId);
+      if (alarm) {
+        await getServiceContainer().alarmNotificationService.sendWebhookEvent(event, alarm);
+      }
+    } catch (error) {
+      console.error(`[AlarmApiController] Failed to publish ${event}:`, error);
+    }
+  }
+
   // ============================================================================
   // 告警查询端点
   // ============================================================================
@@ -189,20 +221,23 @@ export class AlarmApiController {
       }
 
       const alarmId = new ObjectId(params.id);
-      const userId = currentUser.userId || currentUser.user;
+      const userId = currentUser.username;
       const comment = body.data.comment;
 
       // 确认告警
       const success = await this.alarmService.confirmAlarm(alarmId, userId, comment);
 
       if (!success) {
+        const reason = await this.alarmService.getTransitionError(alarmId, 'acknowledged');
         return {
           status: 'error',
-          message: '告警确认失败,可能已经被确认或不存在',
+          message: reason ? `告警确认失败: ${reason}` : '告警确认失败',
           data: null,
         };
       }
 
+      void this.publishAlarmEvent('alarm.acknowledged', alarmId);
+
       return {
         status: 'ok',
         message: '告警确认成功',
@@ -218,6 +253,68 @@ export class AlarmApiController {
     }
   }
 
+  /**
+   * 2.5 解决告警 (辅助端点)
+   *
+   * POST /api/alarms/:id/resolve
+   *
+   * active / acknowledged 告警可被手动解决，已解决告警不可重复解决
+   */
+  @Post('/:id/resolve')
+  async resolveAlarm(
+    @Params(AlarmIdParamsSchema) params: AlarmIdParams,
+    @Body(ResolveAlarmRequestSchema) body: ResolveAlarmRequest,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return {
+        status: 'error',
+        message: '未授权访问',
+        data: null,
+      };
+    }
+
+    try {
+      // 验证 ObjectId 格式
+      if (!ObjectId.isValid(params.id)) {
+        return {
+          status: 'error',
+          message: '无效的告警 ID 格式',
+          data: null,
+        };
+      }
+
+      const alarmId = new ObjectId(params.id);
+      const userId = currentUser.username;
+
+      const success = await this.alarmService.resolveAlarm(alarmId, userId, body.data.solution);
+
+      if (!success) {
+        const reason = await this.alarmService.getTransitionError(alarmId, 'resolved');
+        return {
+          status: 'error',
+          message: reason ? `告警解决失败: ${reason}` : '告警解决失败',
+          data: null,
+        };
+      }
+
+      void this.publishAlarmEvent('alarm.resolved', alarmId);
+
+      return {
+        status: 'ok',
+        message: '告警解决成功',
+        data: { alarmId: params.id, resolvedBy: userId },
+      };
+    } catch (error: any) {
+      console.error('[AlarmApiController] resolveAlarm error:', error);
+      return {
+        status: 'error',
+        message: error.message || '告警解决失败',
+        data: null,
+      };
+    }
+  }
+
   /**
    * 3. 获取未确认告警数量
    *
@@ -381,6 +478,289 @@ export class AlarmApiController {
     }
   }
 
+  /**
+   * 更新接收的告警级别
+   *
+   * PUT /api/alarms/config/levels
+   *
+   * 只接收指定级别的告警通知，空数组表示接收全部级别
+   */
+  @Put('/config/levels')
+  async updateAlarmLevels(
+    @Body(UpdateAlarmLevelsRequestSchema) body: UpdateAlarmLevelsRequest,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return {
+        status: 'error',
+        message: '未授权访问',
+        data: null,
+      };
+    }
+
+    try {
+      const levels = [...new Set(body.data.levels)];
+      const success = await this.alarmService.updateAlarmLevels(currentUser.username, levels);
+
+      if (!success) {
+        return {
+          status: 'error',
+          message: '更新告警级别失败',
+          data: null,
+        };
+      }
+
+      return {
+        status: 'ok',
+        message: '更新告警级别成功',
+        data: { alarmLevels: levels },
+      };
+    } catch (error: any) {
+      console.error('[AlarmApiController] updateAlarmLevels error:', error);
+      return {
+        status: 'error',
+        message: error.message || '更新告警级别失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 更新通知语言
+   *
+   * PUT /api/alarms/config/language
+   *
+   * 通知按该语言选择模板，没有该语言的模板时使用默认语言
+   */
+  @Put('/config/language')
+  async updateNotificationLanguage(
+    @Body(UpdateNotificationLanguageRequestSchema) body: UpdateNotificationLanguageRequest,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return {
+        status: 'error',
+        message: '未授权访问',
+        data: null,
+      };
+    }
+
+    try {
+      const { language } = body.data;
+      const success = await this.alarmService.updateNotificationLanguage(currentUser.username, language);
+
+      if (!success) {
+        return {
+          status: 'error',
+          message: '更新通知语言失败',
+          data: null,
+        };
+      }
+
+      return {
+        status: 'ok',
+        message: '更新通知语言成功',
+        data: { language },
+      };
+    } catch (error: any) {
+      console.error('[AlarmApiController] updateNotificationLanguage error:', error);
+      return {
+        status: 'error',
+        message: error.message || '更新通知语言失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 更新免打扰时段
+   *
+   * PUT /api/alarms/config/quiet-hours
+   *
+   * 时段内的非严重告警推迟到时段结束后发送 (严重告警默认照常发送)
+   */
+  @Put('/config/quiet-hours')
+  async updateQuietHours(
+    @Body(UpdateQuietHoursRequestSchema) body: UpdateQuietHoursRequest,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return {
+        status: 'error',
+        message: '未授权访问',
+        data: null,
+      };
+    }
+
+    try {
+      const quietHours = body.data;
+      const success = await this.alarmService.updateQuietHours(currentUser.username, quietHours);
+
+      if (!success) {
+        return {
+          status: 'error',
+          message: '更新免打扰时段失败',
+          data: null,
+        };
+      }
+
+      return {
+        status: 'ok',
+        message: '更新免打扰时段成功',
+        data: { quietHours },
+      };
+    } catch (error: any) {
+      console.error('[AlarmApiController] updateQuietHours error:', error);
+      return {
+        status: 'error',
+        message: error.message || '更新免打扰时段失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 更新通知汇总设置
+   *
+   * PUT /api/alarms/config/digest
+   *
+   * 开启后非严重告警在窗口内按渠道合并为一条汇总通知
+   */
+  @Put('/config/digest')
+  async updateDigestSettings(
+    @Body(UpdateDigestRequestSchema) body: UpdateDigestRequest,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return {
+        status: 'error',
+        message: '未授权访问',
+        data: null,
+      };
+    }
+
+    try {
+      const digest = body.data;
+      const success = await this.alarmService.updateDigestSettings(currentUser.username, digest);
+
+      if (!success) {
+        return {
+          status: 'error',
+          message: '更新通知汇总设置失败',
+          data: null,
+        };
+      }
+
+      return {
+        status: 'ok',
+        message: '更新通知汇总设置成功',
+        data: { digest },
+      };
+    } catch (error: any) {
+      console.error('[AlarmApiController] updateDigestSettings error:', error);
+      return {
+        status: 'error',
+        message: error.message || '更新通知汇总设置失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 静音设备告警
+   *
+   * PUT /api/alarms/config/mutes/:mac
+   *
+   * 不再接收该终端 (或指定挂载设备) 的告警通知，可设置截止时间
+   */
+  @Put('/config/mutes/:mac')
+  @RequireDevicePermission(DevicePermissionLevel.READ, { source: 'params' })
+  async muteDevice(
+    @Params(AlarmMuteParamsSchema) params: AlarmMuteParams,
+    @Body(MuteAlarmRequestSchema) body: MuteAlarmRequest,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return {
+        status: 'error',
+        message: '未授权访问',
+        data: null,
+      };
+    }
+
+    try {
+      const mutes = await this.alarmService.muteDevice(currentUser.username, {
+        mac: params.mac,
+        pid: body.data.pid,
+        until: body.data.until !== undefined ? new Date(body.data.until) : undefined,
+      });
+
+      return {
+        status: 'ok',
+        message: '设备告警已静音',
+        data: { mutes },
+      };
+    } catch (error: any) {
+      console.error('[AlarmApiController] muteDevice error:', error);
+      return {
+        status: 'error',
+        message: error.message || '静音设备告警失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 取消设备告警静音
+   *
+   * DELETE /api/alarms/config/mutes/:mac?pid=
+   *
+   * 不指定 pid 时取消该终端的全部静音
+   */
+  @Delete('/config/mutes/:mac')
+  async unmuteDevice(
+    @Params(AlarmMuteParamsSchema) params: AlarmMuteParams,
+    @Query(UnmuteAlarmQuerySchema) query: UnmuteAlarmQuery,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return {
+        status: 'error',
+        message: '未授权访问',
+        data: null,
+      };
+    }
+
+    try {
+      const removed = await this.alarmService.unmuteDevice(
+        currentUser.username,
+        params.mac,
+        query.pid
+      );
+
+      if (removed === 0) {
+        return {
+          status: 'error',
+          message: '该设备未静音',
+          data: null,
+        };
+      }
+
+      return {
+        status: 'ok',
+        message: '已取消设备告警静音',
+        data: { removed },
+      };
+    } catch (error: any) {
+      console.error('[AlarmApiController] unmuteDevice error:', error);
+      return {
+        status: 'error',
+        message: error.message || '取消设备告警静音失败',
+        data: null,
+      };
+    }
+  }
+
   /**
    * 6. 获取告警统计信息 (辅助端点)
    *
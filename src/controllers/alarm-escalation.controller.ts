@@ -0,0 +1,193 @@
+/**
+ * Alarm Escalation Controller
+ *
+ * 告警升级策略管理 API (仅管理员):
+ * - 获取策略列表 / 详情
+ * - 创建、更新、删除策略
+ *
+ * 策略通过告警规则的 escalationPolicyId 或 protocols 生效
+ */
+
+import { Controller, Get, Post, Put, Delete } from '../decorators/controller';
+import { Params, Body } from '../decorators/params';
+import type { AlarmEscalationService } from '../services/alarm-escalation.service';
+import { getServiceContainer } from '../services';
+import { createEscalationPolicy } from '../entities/mongodb';
+import { ObjectId } from 'mongodb';
+import {
+  CreateEscalationPolicyRequestSchema,
+  UpdateEscalationPolicyRequestSchema,
+  type CreateEscalationPolicyRequest,
+  type UpdateEscalationPolicyRequest,
+} from '../schemas/alarm-escalation.schema';
+
+/**
+ * Alarm Escalation Controller
+ */
+@Controller('/api/alarm-escalations')
+export class AlarmEscalationController {
+  /**
+   * 告警升级服务 (服务容器共享实例)
+   */
+  private get escalationService(): AlarmEscalationService {
+    return getServiceContainer().alarmEscalationService;
+  }
+
+  /**
+   * 获取策略列表
+   *
+   * GET /api/alarm-escalations
+   */
+  @Get('/')
+  async listPolicies() {
+    try {
+      const policies = await this.escalationService.getPolicies();
+
+      return {
+        status: 'ok',
+        data: { policies, total: policies.length },
+      };
+    } catch (error) {
+      console.error('[AlarmEscalationController] Error listing policies:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list policies',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 获取策略详情
+   *
+   * GET /api/alarm-escalations/:id
+   */
+  @Get('/:id')
+  async getPolicy(@Params('id') id: string) {
+    if (!ObjectId.isValid(id)) {
+      return { status: 'error', message: 'Invalid policy ID format', data: null };
+    }
+
+    try {
+      const [policy] = await this.escalationService.getPolicies({ _id: new ObjectId(id) });
+
+      if (!policy) {
+        return { status: 'error', message: 'Policy not found', data: null };
+      }
+
+      return { status: 'ok', data: policy };
+    } catch (error) {
+      console.error('[AlarmEscalationController] Error getting policy:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to get policy',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 创建策略
+   *
+   * POST /api/alarm-escalations
+   *
+   * Body: CreateEscalationPolicyRequest
+   */
+  @Post('/')
+  async createPolicy(@Body(CreateEscalationPolicyRequestSchema) body: CreateEscalationPolicyRequest) {
+    const { data } = body;
+
+    console.log('[AlarmEscalationController] Create policy:', data.name);
+
+    try {
+      const policy = createEscalationPolicy(data);
+      const policyId = await this.escalationService.addPolicy(policy);
+
+      return {
+        status: 'ok',
+        message: 'Policy created successfully',
+        data: { id: policyId.toString(), ...policy },
+      };
+    } catch (error) {
+      console.error('[AlarmEscalationController] Error creating policy:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to create policy',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 更新策略
+   *
+   * PUT /api/alarm-escalations/:id
+   *
+   * Body: UpdateEscalationPolicyRequest
+   */
+  @Put('/:id')
+  async updatePolicy(
+    @Params('id') id: string,
+    @Body(UpdateEscalationPolicyRequestSchema) body: UpdateEscalationPolicyRequest
+  ) {
+    if (!ObjectId.isValid(id)) {
+      return { status: 'error', message: 'Invalid policy ID format', data: null };
+    }
+
+    try {
+      const found = await this.escalationService.updatePolicy(id, body.data);
+
+      if (!found) {
+        return { status: 'error', message: 'Policy not found', data: null };
+      }
+
+      const [policy] = await this.escalationService.getPolicies({ _id: new ObjectId(id) });
+
+      return {
+        status: 'ok',
+        message: 'Policy updated successfully',
+        data: policy,
+      };
+    } catch (error) {
+      console.error('[AlarmEscalationController] Error updating policy:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to update policy',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 删除策略
+   *
+   * DELETE /api/alarm-escalations/:id
+   */
+  @Delete('/:id')
+  async deletePolicy(@Params('id') id: string) {
+    if (!ObjectId.isValid(id)) {
+      return { status: 'error', message: 'Invalid policy ID format', data: null };
+    }
+
+    try {
+      const deleted = await this.escalationService.deletePolicy(id);
+
+      if (!deleted) {
+        return { status: 'error', message: 'Policy not found', data: null };
+      }
+
+      return {
+        status: 'ok',
+        message: 'Policy deleted successfully',
+        data: { id },
+      };
+    } catch (error) {
+      console.error('[AlarmEscalationController] Error deleting policy:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to delete policy',
+        data: null,
+      };
+    }
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Alarm Rules Controller
  *
- * 告警规则管理 API:
+ * 告警规则管理 API (仅管理员):
  * - 获取规则列表
  * - 获取规则详情
  * - 创建规则
@@ -12,10 +12,10 @@
 
 import { Controller, Get, Post, Put, Delete } from '../decorators/controller';
 import { Params, Body, Query } from '../decorators/params';
-import { AlarmRuleEngineService } from '../services/alarm-rule-engine.service';
+import type { AlarmRuleEngineService } from '../services/alarm-rule-engine.service';
+import { getServiceContainer } from '../services';
 import type { AlarmRuleDocument } from '../entities/mongodb';
 import { ObjectId } from 'mongodb';
-import { mongodb } from '../database/mongodb';
 import {
   CreateRuleRequestSchema,
   UpdateRuleRequestSchema,
@@ -26,6 +26,7 @@ import {
   type ListRulesQuery,
   type BatchOperationRequest,
 } from '../schemas/alarm-rules.schema';
+import { validateAlarmExpression } from '../utils/alarm-expression';
 
 /**
  * 规则查询过滤器
@@ -50,11 +51,13 @@ interface RuleFilter {
  */
 @Controller('/api/alarm-rules')
 export class AlarmRulesController {
-  private alarmEngine: AlarmRuleEngineService;
-
-  constructor() {
-    // 初始化告警规则引擎
-    this.alarmEngine = new AlarmRuleEngineService(mongodb.getDatabase());
+  /**
+   * 告警规则引擎
+   *
+   * 使用服务容器中的共享实例，规则变更立即对实时数据评估生效
+   */
+  private get alarmEngine(): AlarmRuleEngineService {
+    return getServiceContainer().alarmRuleEngine;
   }
 
   /**
@@ -165,6 +168,18 @@ export class AlarmRulesController {
 
     console.log('[AlarmRulesController] Create rule:', data);
 
+    // 自定义规则表达式需通过沙箱白名单校验
+    if (data.type === 'custom') {
+      const validation = validateAlarmExpression(data.customScript!);
+      if (!validation.valid) {
+        return {
+          status: 'error',
+          message: `Invalid custom script: ${validation.error}`,
+          data: null,
+        };
+      }
+    }
+
     try {
       // 构建规则文档
       const now = new Date();
@@ -178,9 +193,15 @@ export class AlarmRulesController {
         paramName: data.paramName,
         threshold: data.threshold,
         constant: data.constant,
+        range: data.range,
         customScript: data.customScript,
         enabled: true,
         deduplicationWindow: data.deduplicationWindow || 300,
+        autoResolve: data.autoResolve,
+        hysteresis: data.hysteresis,
+        clearDelay: data.clearDelay,
+        notifyRecovery: data.notifyRecovery,
+        escalationPolicyId: data.escalationPolicyId,
         triggerCount: 0,
         createdBy: data.createdBy,
         createdAt: now,
@@ -222,6 +243,17 @@ export class AlarmRulesController {
 
     console.log(`[AlarmRulesController] Update rule: ${id}`, data);
 
+    if (data.customScript !== undefined) {
+      const validation = validateAlarmExpression(data.customScript);
+      if (!validation.valid) {
+        return {
+          status: 'error',
+          message: `Invalid custom script: ${validation.error}`,
+          data: null,
+        };
+      }
+    }
+
     try {
       // 验证 ID 格式
       if (!ObjectId.isValid(id)) {
@@ -563,6 +595,7 @@ export class AlarmRulesController {
         byType: {
           threshold: allRules.filter((r) => r.type === 'threshold').length,
           constant: allRules.filter((r) => r.type === 'constant').length,
+          range: allRules.filter((r) => r.type === 'range').length,
           offline: allRules.filter((r) => r.type === 'offline').length,
           timeout: allRules.filter((r) => r.type === 'timeout').length,
           custom: allRules.filter((r) => r.type === 'custom').length,
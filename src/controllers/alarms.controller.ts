@@ -11,6 +11,9 @@
 import { Controller, Get, Post } from '../decorators/controller';
 import { Params, Query, Body } from '../decorators/params';
 import type { Alarm } from '../services/alarm-rule-engine.service';
+import { ObjectId } from 'mongodb';
+import { mongodb } from '../database/mongodb';
+import { AlarmApiService } from '../services/alarm-api.service';
 import {
   ListAlarmsQuerySchema,
   type ListAlarmsQuery,
@@ -29,6 +32,12 @@ import {
  */
 @Controller('/api/alarms')
 export class AlarmsController {
+  private alarmService: AlarmApiService;
+
+  constructor() {
+    this.alarmService = new AlarmApiService(mongodb.getDatabase());
+  }
+
   /**
    * 获取告警列表
    *
@@ -96,11 +105,15 @@ export class AlarmsController {
     const { userId, comment } = body;
     console.log(`[AlarmsController] Acknowledge alarm: ${id} by ${userId}`);
 
-    // TODO: 更新告警状态为已确认
-    // 1. 查询告警
-    // 2. 更新 acknowledged = true
-    // 3. 记录确认人和时间
-    // 4. 记录备注
+    if (!ObjectId.isValid(id)) {
+      return { status: 'error', message: 'Invalid alarm ID format', data: null };
+    }
+
+    // 状态流转: 仅 active 告警可确认
+    const reason = await this.alarmService.getTransitionError(new ObjectId(id), 'acknowledged');
+    if (reason || !(await this.alarmService.confirmAlarm(new ObjectId(id), userId, comment))) {
+      return { status: 'error', message: reason ?? 'Failed to acknowledge alarm', data: null };
+    }
 
     return {
       status: 'ok',
@@ -130,11 +143,15 @@ export class AlarmsController {
     const { userId, solution } = body;
     console.log(`[AlarmsController] Resolve alarm: ${id} by ${userId}`);
 
-    // TODO: 更新告警状态为已解决
-    // 1. 查询告警
-    // 2. 更新 resolved = true
-    // 3. 记录解决人和时间
-    // 4. 记录解决方案
+    if (!ObjectId.isValid(id)) {
+      return { status: 'error', message: 'Invalid alarm ID format', data: null };
+    }
+
+    // 状态流转: active / acknowledged 告警可解决
+    const reason = await this.alarmService.getTransitionError(new ObjectId(id), 'resolved');
+    if (reason || !(await this.alarmService.resolveAlarm(new ObjectId(id), userId, solution))) {
+      return { status: 'error', message: reason ?? 'Failed to resolve alarm', data: null };
+    }
 
     return {
       status: 'ok',
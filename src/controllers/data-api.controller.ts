@@ -9,8 +9,8 @@ import { Controller, Get, Post } from '../decorators/controller';
 import { Params, Query, Body } from '../decorators/params';
 import { mongodb } from '../database/mongodb';
 import { DataApiService } from '../services/data-api.service';
-import { UserApiService } from '../services/user-api.service';
-import type { UserDocument } from '../entities/mongodb';
+import { DevicePermissionLevel, type UserDocument } from '../entities/mongodb';
+import { RequireDevicePermission } from '../decorators/device-permission';
 import {
   MacPidParamsSchema,
   type MacPidParams,
@@ -40,15 +40,15 @@ import {
  * - GET  /api/data/raw                       - 获取原始数据（分页）
  * - GET  /api/data/parsed                    - 获取解析数据（分页）
  * - POST /api/data/:mac/:pid/refresh-timeout - 设置刷新超时
+ *
+ * 权限：读取数据需要设备 READ 权限，设置刷新超时需要 WRITE 权限
  */
 @Controller('/api/data')
 export class DataApiController {
   private dataService: DataApiService;
-  private userService: UserApiService;
 
   constructor() {
     this.dataService = new DataApiService(mongodb.getDatabase());
-    this.userService = new UserApiService(mongodb.getDatabase());
   }
 
   /**
@@ -58,6 +58,7 @@ export class DataApiController {
    * 返回设备所有参数的最新值（单例数据）
    */
   @Get('/latest/:mac/:pid')
+  @RequireDevicePermission(DevicePermissionLevel.READ)
   async getLatestData(
     @Params(MacPidParamsSchema) params: MacPidParams,
     request: FastifyRequest,
@@ -74,16 +75,6 @@ export class DataApiController {
 
     const { mac, pid } = params;
 
-    // 检查权限
-    const isBound = await this.userService.isDeviceBound(user._id.toHexString(), mac);
-    if (!isBound && user.role !== 'admin') {
-      return reply.status(403).send({
-        status: 'error',
-        message: 'Device access denied',
-        data: null,
-      });
-    }
-
     // 获取最新数据
     const data = await this.dataService.getLatestData(mac, pid);
 
@@ -118,6 +109,7 @@ export class DataApiController {
    * - interval: 聚合间隔（秒，可选）
    */
   @Get('/history/:mac/:pid')
+  @RequireDevicePermission(DevicePermissionLevel.READ)
   async getHistoryData(
     @Params(MacPidParamsSchema) params: MacPidParams,
     @Query(HistoryDataQuerySchema) query: HistoryDataQuery,
@@ -136,16 +128,6 @@ export class DataApiController {
     const { mac, pid } = params;
     const { name, start, end, aggregate, interval } = query;
 
-    // 检查权限
-    const isBound = await this.userService.isDeviceBound(user._id.toHexString(), mac);
-    if (!isBound && user.role !== 'admin') {
-      return reply.status(403).send({
-        status: 'error',
-        message: 'Device access denied',
-        data: null,
-      });
-    }
-
     // 验证时间范围
     const timeValidation = validateTimeRange(start, end);
     if (!timeValidation.valid) {
@@ -246,6 +228,7 @@ export class DataApiController {
    * - interval: 聚合间隔（秒，可选）
    */
   @Get('/:mac/:pid/:name')
+  @RequireDevicePermission(DevicePermissionLevel.READ)
   async getSingleParamData(
     @Params(MacPidNameParamsSchema) params: MacPidNameParams,
     @Query(SingleParamHistoryQuerySchema) query: SingleParamHistoryQuery,
@@ -264,16 +247,6 @@ export class DataApiController {
     const { mac, pid, name } = params;
     const { start, end, aggregate, interval } = query;
 
-    // 检查权限
-    const isBound = await this.userService.isDeviceBound(user._id.toHexString(), mac);
-    if (!isBound && user.role !== 'admin') {
-      return reply.status(403).send({
-        status: 'error',
-        message: 'Device access denied',
-        data: null,
-      });
-    }
-
     // 验证时间范围
     const timeValidation = validateTimeRange(start, end);
     if (!timeValidation.valid) {
@@ -373,6 +346,7 @@ export class DataApiController {
    * - limit: 每页数量（可选，默认 100）
    */
   @Get('/raw')
+  @RequireDevicePermission(DevicePermissionLevel.READ)
   async getRawData(
     @Query(RawDataQuerySchema) query: RawDataQuery,
     request: FastifyRequest,
@@ -389,16 +363,6 @@ export class DataApiController {
 
     const { mac, pid, start, end, page, limit } = query;
 
-    // 检查权限
-    const isBound = await this.userService.isDeviceBound(user._id.toHexString(), mac);
-    if (!isBound && user.role !== 'admin') {
-      return reply.status(403).send({
-        status: 'error',
-        message: 'Device access denied',
-        data: null,
-      });
-    }
-
     // 验证时间范围
     const timeValidation = validateTimeRange(start, end);
     if (!timeValidation.valid) {
@@ -451,6 +415,7 @@ export class DataApiController {
    * - limit: 每页数量（可选，默认 100）
    */
   @Get('/parsed')
+  @RequireDevicePermission(DevicePermissionLevel.READ)
   async getParsedData(
     @Query(ParsedDataQuerySchema) query: ParsedDataQuery,
     request: FastifyRequest,
@@ -467,16 +432,6 @@ export class DataApiController {
 
     const { mac, pid, name, start, end, page, limit } = query;
 
-    // 检查权限
-    const isBound = await this.userService.isDeviceBound(user._id.toHexString(), mac);
-    if (!isBound && user.role !== 'admin') {
-      return reply.status(403).send({
-        status: 'error',
-        message: 'Device access denied',
-        data: null,
-      });
-    }
-
     // 验证时间范围
     const timeValidation = validateTimeRange(start, end);
     if (!timeValidation.valid) {
@@ -534,6 +489,7 @@ export class DataApiController {
    * 注意：此端点主要用于兼容老系统，新系统可能使用不同的机制
    */
   @Post('/:mac/:pid/refresh-timeout')
+  @RequireDevicePermission(DevicePermissionLevel.WRITE)
   async setRefreshTimeout(
     @Params(MacPidParamsSchema) params: MacPidParams,
     @Body(RefreshTimeoutRequestSchema) body: RefreshTimeoutRequest,
@@ -552,16 +508,6 @@ export class DataApiController {
     const { mac, pid } = params;
     const { interval } = body.data;
 
-    // 检查权限
-    const isBound = await this.userService.isDeviceBound(user._id.toHexString(), mac);
-    if (!isBound && user.role !== 'admin') {
-      return reply.status(403).send({
-        status: 'error',
-        message: 'Device access denied',
-        data: null,
-      });
-    }
-
     // TODO: 实现刷新超时逻辑（可能需要 Redis 或其他机制）
     // 这里先返回成功，具体实现取决于系统架构
 
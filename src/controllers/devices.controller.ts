@@ -6,10 +6,16 @@
  * - 获取设备详情
  * - 获取设备数据
  * - 手动查询设备
+ * - 查看 / 更新查询调度计划
  */
 
-import { Controller, Get, Post } from '../decorators/controller';
-import { Params, Query } from '../decorators/params';
+import { Controller, Get, Post, Put } from '../decorators/controller';
+import { Params, Query, Body, User } from '../decorators/params';
+import { RequireDevicePermission } from '../decorators/device-permission';
+import { DevicePermissionLevel, type UserDocument } from '../entities/mongodb';
+import { terminalService } from '../services/terminal.service';
+import { socketIoService } from '../services/socket-io.service';
+import { devicePermissionService } from '../services/device-permission.service';
 import {
   ListDevicesQuerySchema,
   type ListDevicesQuery,
@@ -17,6 +23,10 @@ import {
   type DeviceMacParams,
   GetDeviceDataQuerySchema,
   type GetDeviceDataQuery,
+  QueryDeviceQuerySchema,
+  type QueryDeviceQuery,
+  UpdateDeviceScheduleRequestSchema,
+  type UpdateDeviceScheduleRequest,
 } from '../schemas/devices.schema';
 
 /**
@@ -177,25 +187,170 @@ export class DevicesController {
   /**
    * 手动查询设备
    *
-   * POST /api/devices/:mac/query
+   * POST /api/devices/:mac/query?pid={pid}&timeout={timeout}
+   *
+   * 立即下发查询指令 (优先于调度循环) 并等待解析后的结果；
+   * 未指定 pid 时并发查询终端下全部挂载设备 (仅限授权范围内的挂载设备)
    */
   @Post('/:mac/query')
-  async queryDevice(@Params(DeviceMacParamsSchema) params: DeviceMacParams) {
+  @RequireDevicePermission(DevicePermissionLevel.READ, { source: 'params' })
+  async queryDevice(
+    @Params(DeviceMacParamsSchema) params: DeviceMacParams,
+    @Query(QueryDeviceQuerySchema) query: QueryDeviceQuery,
+    @User() currentUser?: UserDocument
+  ) {
     const { mac } = params;
-    console.log(`[DevicesController] Manual query: ${mac}`);
+    const { pid, timeout } = query;
+    console.log(`[DevicesController] Manual query: ${mac}, pid=${pid ?? 'all'}`);
 
-    // TODO: 触发手动查询
-    // 1. 检查设备是否在线
-    // 2. 发送查询指令到 Socket.IO 服务
-    // 3. 等待查询结果或超时
+    try {
+      const terminal = await terminalService.getTerminal(mac);
+      if (!terminal) {
+        return { status: 'error', message: '设备不存在', data: null };
+      }
 
-    return {
-      status: 'ok',
-      message: 'Query initiated',
-      data: {
-        mac,
-        queryId: `query-${Date.now()}`,
-      },
-    };
+      let pids = (terminal.mountDevs ?? []).map((dev) => dev.pid);
+      const access = currentUser ? await devicePermissionService.getDeviceAccess(currentUser, mac) : null;
+      if (access?.pids) {
+        pids = pids.filter((p) => access.pids!.includes(p));
+      }
+
+      if (pid !== undefined) {
+        if (!pids.includes(pid)) {
+          return { status: 'error', message: `设备未挂载 PID ${pid}`, data: null };
+        }
+        pids = [pid];
+      }
+
+      if (pids.length === 0) {
+        return { status: 'error', message: '设备没有可查询的挂载设备', data: null };
+      }
+
+      const results = await Promise.all(
+        pids.map(async (p) => ({ pid: p, ...(await socketIoService.queryMountDevNow(mac, p, timeout)) }))
+      );
+      const succeeded = results.filter((r) => r.ok === 1).length;
+
+      if (pid !== undefined) {
+        const [result] = results;
+        return result!.ok === 1
+          ? { status: 'ok', message: result!.msg, data: result!.data }
+          : { status: 'error', message: result!.msg, data: null };
+      }
+
+      return {
+        status: succeeded > 0 ? 'ok' : 'error',
+        message: `查询完成: ${succeeded}/${results.length} 成功`,
+        data: {
+          mac,
+          results: results.map((r) => ({
+            pid: r.pid,
+            ok: r.ok,
+            msg: r.msg,
+            result: r.data?.result ?? null,
+            timeStamp: r.data?.timeStamp,
+            useTime: r.data?.useTime,
+          })),
+        },
+      };
+    } catch (error) {
+      console.error('[DevicesController] Manual query failed:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : '查询失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 查看挂载设备查询调度状态
+   *
+   * GET /api/devices/:mac/schedule
+   *
+   * 返回每个挂载设备的优先级、实际查询间隔、超时退避和最近一次调度结论 (未下发时包含原因)
+   */
+  @Get('/:mac/schedule')
+  @RequireDevicePermission(DevicePermissionLevel.READ, { source: 'params' })
+  async getSchedule(
+    @Params(DeviceMacParamsSchema) params: DeviceMacParams,
+    @User() currentUser?: UserDocument
+  ) {
+    const { mac } = params;
+
+    try {
+      let schedules = socketIoService.getQuerySchedule(mac);
+      const access = currentUser ? await devicePermissionService.getDeviceAccess(currentUser, mac) : null;
+      if (access?.pids) {
+        schedules = schedules.filter((schedule) => access.pids!.includes(schedule.pid));
+      }
+
+      return {
+        status: 'ok',
+        data: {
+          mac,
+          // 集群模式下调度状态只在调度 Leader 实例上
+          active: socketIoService.isQueryScheduler(),
+          devices: schedules,
+        },
+      };
+    } catch (error) {
+      console.error('[DevicesController] Get schedule failed:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : '获取调度状态失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 更新挂载设备查询计划 (优先级 / 分时段查询计划)
+   *
+   * PUT /api/devices/:mac/schedule
+   */
+  @Put('/:mac/schedule')
+  @RequireDevicePermission(DevicePermissionLevel.WRITE, { source: 'params' })
+  async updateSchedule(
+    @Params(DeviceMacParamsSchema) params: DeviceMacParams,
+    @Body(UpdateDeviceScheduleRequestSchema) body: UpdateDeviceScheduleRequest,
+    @User() currentUser?: UserDocument
+  ) {
+    const { mac } = params;
+    const { pid, priority, pollSchedule } = body.data;
+
+    try {
+      const access = currentUser ? await devicePermissionService.getDeviceAccess(currentUser, mac) : null;
+      if (access?.pids && !access.pids.includes(pid)) {
+        return { status: 'error', message: `无权访问 PID ${pid}`, data: null };
+      }
+
+      const updated = await terminalService.updateMountDeviceSchedule(mac, pid, {
+        ...(priority !== undefined && { priority }),
+        ...(pollSchedule !== undefined && { pollSchedule }),
+      });
+      if (!updated) {
+        return { status: 'error', message: `设备未挂载 PID ${pid}`, data: null };
+      }
+
+      // 重新加载查询缓存，使新计划立即生效
+      await socketIoService.setTerminalMountDevCache(mac);
+
+      return {
+        status: 'ok',
+        message: '查询计划已更新',
+        data: {
+          mac,
+          device: socketIoService.getQuerySchedule(mac).find((schedule) => schedule.pid === pid) ?? null,
+        },
+      };
+    } catch (error) {
+      console.error('[DevicesController] Update schedule failed:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : '更新查询计划失败',
+        data: null,
+      };
+    }
   }
 }
@@ -4,14 +4,19 @@
  *
  * 架构层级：
  * Controller → Domain Service (terminalOperationService) → Entity + Infrastructure Service
+ *
+ * 设备权限：查询类操作需要 READ，控制类操作需要 WRITE，修改挂载/终端参数需要 ADMIN
  */
 
 import { Controller, Get, Post } from '../decorators/controller';
 import { Body, Query, Params, User } from '../decorators/params';
 import { Validate, type Validated } from '../decorators/validate';
+import { RequireDevicePermission } from '../decorators/device-permission';
+import { DevicePermissionLevel } from '../entities/mongodb/user-bind-device.entity';
 import { terminalOperationService } from '../domain/terminal-operation.service';
 import { terminalRepository } from '../repositories/terminal.repository';
 import { dtuOperationLogService } from '../services/dtu-operation-log.service';
+import { modbusWriteService } from '../services/modbus-write.service';
 import type { DtuOperationType } from '../types/socket-events';
 import { logger } from '../utils/logger';
 import {
@@ -27,6 +32,8 @@ import {
   type SetTerminalRequest,
   GetTerminalRequestSchema,
   type GetTerminalRequest,
+  WriteParameterRequestSchema,
+  type WriteParameterRequest,
   GetDtuLogsQuerySchema,
   type GetDtuLogsQuery,
   GetDtuStatsQuerySchema,
@@ -66,6 +73,7 @@ export class DtuController {
     OprateInstruct: 5000, // 透传指令 - 5 秒冷却
     setTerminal: 10000, // 设置终端 - 10 秒冷却
     getTerminal: 5000, // 获取终端 - 5 秒冷却
+    writeParameter: 3000, // 写入参数 - 3 秒冷却 (按设备 PID 计)
   };
 
   /**
@@ -110,6 +118,7 @@ export class DtuController {
    * POST /api/dtu/restart
    */
   @Post('/restart')
+  @RequireDevicePermission(DevicePermissionLevel.WRITE, { source: 'body' })
   @Validate(RestartDtuRequestSchema)
   async restartDtu(
     @Body() body: Validated<RestartDtuRequest>,
@@ -159,6 +168,7 @@ export class DtuController {
    * POST /api/dtu/restart485
    */
   @Post('/restart485')
+  @RequireDevicePermission(DevicePermissionLevel.WRITE, { source: 'body' })
   @Validate(Restart485RequestSchema)
   async restart485(
     @Body() body: Validated<Restart485Request>,
@@ -208,6 +218,7 @@ export class DtuController {
    * POST /api/dtu/updateMount
    */
   @Post('/updateMount')
+  @RequireDevicePermission(DevicePermissionLevel.ADMIN, { source: 'body' })
   @Validate(UpdateMountRequestSchema)
   async updateMount(
     @Body() body: Validated<UpdateMountRequest>,
@@ -257,6 +268,7 @@ export class DtuController {
    * POST /api/dtu/operate
    */
   @Post('/operate')
+  @RequireDevicePermission(DevicePermissionLevel.WRITE, { source: 'body' })
   @Validate(OperateInstructRequestSchema)
   async operateInstruct(
     @Body() body: Validated<OperateInstructRequest>,
@@ -306,6 +318,7 @@ export class DtuController {
    * POST /api/dtu/setTerminal
    */
   @Post('/setTerminal')
+  @RequireDevicePermission(DevicePermissionLevel.ADMIN, { source: 'body' })
   @Validate(SetTerminalRequestSchema)
   async setTerminal(
     @Body() body: Validated<SetTerminalRequest>,
@@ -355,6 +368,7 @@ export class DtuController {
    * POST /api/dtu/getTerminal
    */
   @Post('/getTerminal')
+  @RequireDevicePermission(DevicePermissionLevel.READ, { source: 'body' })
   @Validate(GetTerminalRequestSchema)
   async getTerminal(
     @Body() body: Validated<GetTerminalRequest>,
@@ -399,6 +413,53 @@ export class DtuController {
     }
   }
 
+  /**
+   * 写入设备参数 (Modbus 05/06/10)
+   * POST /api/dtu/write
+   */
+  @Post('/write')
+  @RequireDevicePermission(DevicePermissionLevel.WRITE, { source: 'body' })
+  @Validate(WriteParameterRequestSchema)
+  async writeParameter(
+    @Body() body: Validated<WriteParameterRequest>,
+    @User('userId') userId?: string
+  ): Promise<ApiResponse> {
+    try {
+      const { mac, pid, parameter, value, readBack } = body;
+
+      // 检查速率限制（同一终端的不同设备互不影响）
+      const rateLimit = this.checkRateLimit(`${mac}/${pid}`, 'writeParameter');
+      if (!rateLimit.allowed) {
+        return {
+          success: false,
+          message: `操作过于频繁，请在 ${rateLimit.remainingTime} 秒后重试`,
+        };
+      }
+
+      const operatedBy = userId || 'unknown';
+      const result = await modbusWriteService.writeParameter({
+        mac,
+        pid,
+        parameter,
+        value,
+        readBack,
+        operatedBy,
+      });
+
+      return {
+        success: result.ok === 1,
+        message: result.msg,
+        data: result.data,
+      };
+    } catch (error) {
+      logger.error('Failed to write parameter:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error',
+      };
+    }
+  }
+
   /**
    * 查询 DTU 操作日志
    * GET /api/dtu/logs
@@ -465,6 +526,7 @@ export class DtuController {
    * GET /api/dtu/:mac/recent
    */
   @Get('/:mac/recent')
+  @RequireDevicePermission(DevicePermissionLevel.READ, { source: 'params' })
   @Validate(GetRecentOperationsParamsSchema, 'params')
   async getRecentOperations(
     @Params() params: Validated<GetRecentOperationsParams>,
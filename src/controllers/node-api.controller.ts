@@ -0,0 +1,321 @@
+/**
+ * Node API Controller
+ *
+ * 节点运行状态 API (仅管理员):
+ * - 获取节点列表及当前状态
+ * - 获取节点详情 (运行信息 + 最近日志)
+ * - 获取节点连接数趋势
+ * - 获取节点挂载的终端列表
+ * - 获取节点日志 (连接 / 断开 / 启动失败 / 排空 / 故障转移)
+ * - 获取节点容量
+ * - 排空节点 (维护前将终端迁移到其他节点) / 取消排空
+ */
+
+import { Controller, Get, Post, Delete } from '../decorators/controller';
+import { Params, Query } from '../decorators/params';
+import { nodeService } from '../services/node.service';
+import { socketIoService } from '../services/socket-io.service';
+import { terminalService } from '../services/terminal.service';
+import type { NodeClient, NodeRunInfo } from '../types/entities';
+import { freeCapacity } from '../utils/node-balance.utils';
+import {
+  NodeNameParamsSchema,
+  NodeConnectionsQuerySchema,
+  NodeLogsQuerySchema,
+  type NodeNameParams,
+  type NodeConnectionsQuery,
+  type NodeLogsQuery,
+} from '../schemas/node.schema';
+
+/**
+ * 默认趋势时间范围 (24 小时)
+ */
+const DEFAULT_TREND_RANGE = 24 * 60 * 60 * 1000;
+
+/**
+ * 合并节点配置、在线状态和运行信息
+ * 集群模式下 Node 可能连接在其他实例上，在线状态从节点注册表获取
+ */
+async function toNodeStatus(node: NodeClient, runInfo?: Omit<NodeRunInfo, 'SocketMaps'> | null) {
+  const location = await socketIoService.findNode(node.Name);
+
+  return {
+    Name: node.Name,
+    IP: node.IP,
+    Port: node.Port,
+    MaxConnections: node.MaxConnections,
+    Connections: location?.Connections ?? node.Connections ?? 0,
+    online: !!location,
+    draining: !!node.Draining,
+    parseMode: location?.parseMode,
+    connectedAt: location?.connectedAt,
+    lastHeartbeat: location?.lastHeartbeat,
+    instanceId: location?.instanceId,
+    runInfo: runInfo ?? null,
+  };
+}
+
+/**
+ * Node API Controller
+ */
+@Controller('/api/nodes')
+export class NodeApiController {
+  /**
+   * 获取节点列表及当前状态
+   *
+   * GET /api/nodes
+   */
+  @Get('/')
+  async listNodes() {
+    try {
+      const [nodes, runInfos] = await Promise.all([
+        nodeService.getAllNodes(),
+        nodeService.getAllRunInfos(),
+      ]);
+      const runInfoByName = new Map(runInfos.map((info) => [info.NodeName, info]));
+
+      return {
+        status: 'ok',
+        data: {
+          nodes: await Promise.all(
+            nodes.map((node) => toNodeStatus(node, runInfoByName.get(node.Name)))
+          ),
+        },
+      };
+    } catch (error) {
+      console.error('[NodeApiController] Error listing nodes:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list nodes',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 获取节点容量 (终端迁移目标选择依据)
+   *
+   * GET /api/nodes/capacity
+   */
+  @Get('/capacity')
+  async getCapacity() {
+    try {
+      const capacities = await socketIoService.getNodeCapacities();
+
+      return {
+        status: 'ok',
+        data: {
+          nodes: capacities.map((node) => ({ ...node, free: freeCapacity(node) })),
+        },
+      };
+    } catch (error) {
+      console.error('[NodeApiController] Error getting node capacity:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to get node capacity',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 获取节点详情
+   *
+   * GET /api/nodes/:name
+   */
+  @Get('/:name')
+  async getNode(@Params(NodeNameParamsSchema) params: NodeNameParams) {
+    try {
+      const node = await nodeService.getNodeByName(params.name);
+      if (!node) {
+        return { status: 'error', message: '节点不存在', data: null };
+      }
+
+      const [runInfo, logs] = await Promise.all([
+        nodeService.getRunInfo(node.Name),
+        nodeService.getLogs(node.Name, { limit: 20 }),
+      ]);
+
+      return {
+        status: 'ok',
+        data: {
+          ...(await toNodeStatus(node, runInfo)),
+          logs,
+        },
+      };
+    } catch (error) {
+      console.error('[NodeApiController] Error getting node:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to get node',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 获取节点连接数趋势
+   *
+   * GET /api/nodes/:name/connections?startTime={start}&endTime={end}&limit={limit}
+   */
+  @Get('/:name/connections')
+  async getConnectionTrend(
+    @Params(NodeNameParamsSchema) params: NodeNameParams,
+    @Query(NodeConnectionsQuerySchema) query: NodeConnectionsQuery
+  ) {
+    const endTime = query.endTime ?? new Date();
+    const startTime = query.startTime ?? new Date(endTime.getTime() - DEFAULT_TREND_RANGE);
+
+    try {
+      const history = await nodeService.getRunInfoHistory(
+        params.name,
+        startTime,
+        endTime,
+        query.limit
+      );
+
+      return {
+        status: 'ok',
+        data: {
+          name: params.name,
+          startTime,
+          endTime,
+          points: history.map((item) => ({
+            time: item.updateTime,
+            Connections: item.Connections,
+            loadavg: item.loadavg,
+            freemem: item.freemem,
+          })),
+        },
+      };
+    } catch (error) {
+      console.error('[NodeApiController] Error getting connection trend:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to get connection trend',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 获取节点挂载的终端列表
+   *
+   * GET /api/nodes/:name/terminals
+   */
+  @Get('/:name/terminals')
+  async getNodeTerminals(@Params(NodeNameParamsSchema) params: NodeNameParams) {
+    try {
+      const terminals = await terminalService.getTerminalsByNode(params.name);
+
+      return {
+        status: 'ok',
+        data: {
+          terminals: terminals.map((terminal) => ({
+            DevMac: terminal.DevMac,
+            name: terminal.name,
+            ip: terminal.ip,
+            online: terminal.online,
+            uptime: terminal.uptime,
+            mountDevs: terminal.mountDevs?.length ?? 0,
+          })),
+          total: terminals.length,
+          online: terminals.filter((terminal) => terminal.online).length,
+        },
+      };
+    } catch (error) {
+      console.error('[NodeApiController] Error getting node terminals:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to get node terminals',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 获取节点日志
+   *
+   * GET /api/nodes/:name/logs?type={type}&limit={limit}
+   */
+  @Get('/:name/logs')
+  async getNodeLogs(
+    @Params(NodeNameParamsSchema) params: NodeNameParams,
+    @Query(NodeLogsQuerySchema) query: NodeLogsQuery
+  ) {
+    try {
+      const logs = await nodeService.getLogs(params.name, query);
+
+      return {
+        status: 'ok',
+        data: { logs },
+      };
+    } catch (error) {
+      console.error('[NodeApiController] Error getting node logs:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to get node logs',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 排空节点
+   * 节点不再作为迁移目标，在线终端按剩余容量迁移到其他节点
+   *
+   * POST /api/nodes/:name/drain
+   */
+  @Post('/:name/drain')
+  async drainNode(@Params(NodeNameParamsSchema) params: NodeNameParams) {
+    try {
+      const node = await nodeService.getNodeByName(params.name);
+      if (!node) {
+        return { status: 'error', message: '节点不存在', data: null };
+      }
+
+      const result = await socketIoService.drainNode(node.Name);
+
+      return {
+        status: 'ok',
+        message: `已迁移 ${result.relocated.length}/${result.total} 个终端`,
+        data: result,
+      };
+    } catch (error) {
+      console.error('[NodeApiController] Error draining node:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to drain node',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 取消节点排空
+   *
+   * DELETE /api/nodes/:name/drain
+   */
+  @Delete('/:name/drain')
+  async undrainNode(@Params(NodeNameParamsSchema) params: NodeNameParams) {
+    try {
+      const found = await socketIoService.undrainNode(params.name);
+      if (!found) {
+        return { status: 'error', message: '节点不存在', data: null };
+      }
+
+      return {
+        status: 'ok',
+        message: '已取消排空',
+        data: { name: params.name, draining: false },
+      };
+    } catch (error) {
+      console.error('[NodeApiController] Error undraining node:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to undrain node',
+        data: null,
+      };
+    }
+  }
+}
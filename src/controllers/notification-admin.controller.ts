@@ -0,0 +1,49 @@
+/**
+ * Notification Admin Controller
+ *
+ * 通知统计 API (仅管理员):
+ * - 发送、失败和被限流 / 短信预算抑制的通知数 (按渠道、抑制原因)
+ * - 本月短信预算用量
+ */
+
+import { Controller, Get } from '../decorators/controller';
+import { Query } from '../decorators/params';
+import { getServiceContainer } from '../services';
+import {
+  NotificationStatsQuerySchema,
+  type NotificationStatsQuery,
+} from '../schemas/notification-admin.schema';
+
+/**
+ * Notification Admin Controller
+ */
+@Controller('/api/admin/notifications')
+export class NotificationAdminController {
+  /**
+   * 获取通知统计
+   *
+   * GET /api/admin/notifications/stats?userId=&startTime=&endTime=
+   */
+  @Get('/stats')
+  async getStats(@Query(NotificationStatsQuerySchema) query: NotificationStatsQuery) {
+    try {
+      const stats = await getServiceContainer().alarmNotificationService.getNotificationStats(
+        query.userId,
+        query.startTime?.getTime(),
+        query.endTime?.getTime()
+      );
+
+      return {
+        status: 'ok',
+        data: stats,
+      };
+    } catch (error) {
+      console.error('[NotificationAdminController] Error getting notification stats:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to get notification stats',
+        data: null,
+      };
+    }
+  }
+}
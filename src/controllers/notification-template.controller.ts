@@ -0,0 +1,253 @@
+/**
+ * Notification Template Controller
+ *
+ * 通知模板管理 API (仅管理员):
+ * - 获取模板列表 / 详情
+ * - 创建、更新、删除模板
+ * - 预览模板渲染结果 (示例告警或指定告警)
+ *
+ * 模板按渠道、告警标签和语言匹配，未配置时使用内置模板
+ */
+
+import { Controller, Get, Post, Put, Delete } from '../decorators/controller';
+import { Params, Query, Body, User } from '../decorators/params';
+import { mongodb } from '../database/mongodb';
+import { NotificationTemplateService } from '../services/notification-template.service';
+import { getBuiltinTemplate } from '../services/notification/template-renderer';
+import {
+  Phase3Collections,
+  DEFAULT_TEMPLATE_LANGUAGE,
+  TEMPLATE_PLACEHOLDERS,
+  type UserDocument,
+} from '../entities/mongodb';
+import { ObjectId } from 'mongodb';
+import {
+  TemplateIdParamsSchema,
+  ListTemplatesQuerySchema,
+  CreateTemplateRequestSchema,
+  UpdateTemplateRequestSchema,
+  PreviewTemplateRequestSchema,
+  type TemplateIdParams,
+  type ListTemplatesQuery,
+  type CreateTemplateRequest,
+  type UpdateTemplateRequest,
+  type PreviewTemplateRequest,
+} from '../schemas/notification-template.schema';
+
+/**
+ * Notification Template Controller
+ */
+@Controller('/api/admin/notification-templates')
+export class NotificationTemplateController {
+  private templateService: NotificationTemplateService;
+  private collections: Phase3Collections;
+
+  constructor() {
+    const db = mongodb.getDatabase();
+    this.templateService = new NotificationTemplateService(db);
+    this.collections = new Phase3Collections(db);
+  }
+
+  /**
+   * 获取模板列表
+   *
+   * GET /api/admin/notification-templates?channel=&tag=&language=
+   */
+  @Get('/')
+  async listTemplates(@Query(ListTemplatesQuerySchema) query: ListTemplatesQuery) {
+    try {
+      const templates = await this.templateService.listTemplates(
+        Object.fromEntries(Object.entries(query).filter(([, value]) => value !== undefined))
+      );
+
+      return {
+        status: 'ok',
+        data: { templates, total: templates.length, placeholders: TEMPLATE_PLACEHOLDERS },
+      };
+    } catch (error) {
+      console.error('[NotificationTemplateController] Error listing templates:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : '获取模板列表失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 预览模板
+   *
+   * POST /api/admin/notification-templates/preview
+   */
+  @Post('/preview')
+  async previewTemplate(@Body(PreviewTemplateRequestSchema) body: PreviewTemplateRequest) {
+    const { id, alarmId, language, ...content } = body.data;
+
+    try {
+      const template = id ? await this.templateService.getTemplate(new ObjectId(id)) : null;
+
+      if (id && !template) {
+        return { status: 'error', message: '模板不存在', data: null };
+      }
+
+      const alarm = alarmId
+        ? await this.collections.alarms.findOne({ _id: new ObjectId(alarmId) })
+        : undefined;
+
+      if (alarmId && !alarm) {
+        return { status: 'error', message: '告警不存在', data: null };
+      }
+
+      const rendered = this.templateService.preview(
+        template ?? { subject: content.subject, body: content.body!, format: content.format ?? 'text' },
+        alarm ?? undefined,
+        language ?? template?.language
+      );
+
+      return { status: 'ok', data: rendered };
+    } catch (error) {
+      console.error('[NotificationTemplateController] Error previewing template:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : '预览模板失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 获取模板详情
+   *
+   * GET /api/admin/notification-templates/:id
+   */
+  @Get('/:id')
+  async getTemplate(@Params(TemplateIdParamsSchema) params: TemplateIdParams) {
+    try {
+      const template = await this.templateService.getTemplate(new ObjectId(params.id));
+
+      if (!template) {
+        return { status: 'error', message: '模板不存在', data: null };
+      }
+
+      return { status: 'ok', data: template };
+    } catch (error) {
+      console.error('[NotificationTemplateController] Error getting template:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : '获取模板失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 创建模板
+   *
+   * POST /api/admin/notification-templates
+   *
+   * 未指定标题时沿用该渠道内置模板的标题
+   */
+  @Post('/')
+  async createTemplate(
+    @Body(CreateTemplateRequestSchema) body: CreateTemplateRequest,
+    @User() currentUser?: UserDocument
+  ) {
+    const data = body.data;
+    const language = data.language ?? DEFAULT_TEMPLATE_LANGUAGE;
+    console.log('[NotificationTemplateController] Create template:', data.name);
+
+    try {
+      const template = await this.templateService.createTemplate({
+        ...data,
+        language,
+        subject: data.subject ?? getBuiltinTemplate(data.channel, language).subject,
+        createdBy: currentUser?.username ?? 'admin',
+      });
+
+      return {
+        status: 'ok',
+        message: '模板创建成功',
+        data: template,
+      };
+    } catch (error: any) {
+      console.error('[NotificationTemplateController] Error creating template:', error);
+      return {
+        status: 'error',
+        message: error?.code === 11000 ? '模板名称已存在' : error?.message || '创建模板失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 更新模板
+   *
+   * PUT /api/admin/notification-templates/:id
+   */
+  @Put('/:id')
+  async updateTemplate(
+    @Params(TemplateIdParamsSchema) params: TemplateIdParams,
+    @Body(UpdateTemplateRequestSchema) body: UpdateTemplateRequest
+  ) {
+    try {
+      const id = new ObjectId(params.id);
+      const existing = await this.templateService.getTemplate(id);
+
+      if (!existing) {
+        return { status: 'error', message: '模板不存在', data: null };
+      }
+
+      if (body.data.format === 'html' && existing.channel !== 'email') {
+        return { status: 'error', message: 'HTML format is only supported for email templates', data: null };
+      }
+
+      const template = await this.templateService.updateTemplate(id, body.data);
+
+      if (!template) {
+        return { status: 'error', message: '模板不存在', data: null };
+      }
+
+      return {
+        status: 'ok',
+        message: '模板更新成功',
+        data: template,
+      };
+    } catch (error: any) {
+      console.error('[NotificationTemplateController] Error updating template:', error);
+      return {
+        status: 'error',
+        message: error?.code === 11000 ? '模板名称已存在' : error?.message || '更新模板失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 删除模板
+   *
+   * DELETE /api/admin/notification-templates/:id
+   */
+  @Delete('/:id')
+  async deleteTemplate(@Params(TemplateIdParamsSchema) params: TemplateIdParams) {
+    try {
+      const deleted = await this.templateService.deleteTemplate(new ObjectId(params.id));
+
+      if (!deleted) {
+        return { status: 'error', message: '模板不存在', data: null };
+      }
+
+      return {
+        status: 'ok',
+        message: '模板删除成功',
+        data: { id: params.id },
+      };
+    } catch (error) {
+      console.error('[NotificationTemplateController] Error deleting template:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : '删除模板失败',
+        data: null,
+      };
+    }
+  }
+}
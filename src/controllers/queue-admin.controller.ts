@@ -0,0 +1,188 @@
+/**
+ * Queue Admin Controller
+ *
+ * 任务队列管理 API (仅管理员):
+ * - 获取队列列表和统计
+ * - 查询死信任务 (重试耗尽的失败任务)
+ * - 重新投递死信任务
+ * - 清除死信任务
+ *
+ * 用于短信/微信等通知渠道故障恢复后补发通知
+ */
+
+import { Controller, Get, Post } from '../decorators/controller';
+import { Params, Body, Query } from '../decorators/params';
+import type { QueueService } from '../services/queue/queue.interface';
+import { getServiceContainer } from '../services';
+import {
+  ListDeadLettersQuerySchema,
+  DeadLetterBatchRequestSchema,
+  type ListDeadLettersQuery,
+  type DeadLetterBatchRequest,
+} from '../schemas/queue-admin.schema';
+
+/**
+ * Queue Admin Controller
+ */
+@Controller('/api/admin/queues')
+export class QueueAdminController {
+  /**
+   * 队列服务 (服务容器共享实例)
+   */
+  private get queueService(): QueueService {
+    return getServiceContainer().queueService;
+  }
+
+  /**
+   * 获取队列列表和统计
+   *
+   * GET /api/admin/queues
+   */
+  @Get('/')
+  async listQueues() {
+    try {
+      const names = await this.queueService.getQueueNames();
+      const queues = await Promise.all(
+        names.map(async (name) => ({ name, stats: await this.queueService.getQueueStats(name) }))
+      );
+
+      return {
+        status: 'ok',
+        data: { queues },
+      };
+    } catch (error) {
+      console.error('[QueueAdminController] Error listing queues:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list queues',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 查询死信任务
+   *
+   * GET /api/admin/queues/:queue/dead-letters
+   *
+   * Query: name, page, limit
+   */
+  @Get('/:queue/dead-letters')
+  async listDeadLetters(
+    @Params('queue') queue: string,
+    @Query(ListDeadLettersQuerySchema) query: ListDeadLettersQuery
+  ) {
+    const { name, page, limit } = query;
+
+    try {
+      const { jobs, total } = await this.queueService.getDeadLetterJobs(queue, {
+        name,
+        limit,
+        offset: (page - 1) * limit,
+      });
+
+      return {
+        status: 'ok',
+        data: {
+          jobs,
+          total,
+          page,
+          limit,
+          hasMore: page * limit < total,
+        },
+      };
+    } catch (error) {
+      console.error('[QueueAdminController] Error listing dead letters:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list dead letters',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 重新投递死信任务
+   *
+   * POST /api/admin/queues/:queue/dead-letters/replay
+   *
+   * Body: { data: { ids?: string[] } } (不指定 ids 则重新投递该队列全部死信)
+   */
+  @Post('/:queue/dead-letters/replay')
+  async replayDeadLetters(
+    @Params('queue') queue: string,
+    @Body(DeadLetterBatchRequestSchema) body: DeadLetterBatchRequest
+  ) {
+    console.log(`[QueueAdminController] Replay dead letters: ${queue}`, body.data.ids ?? 'all');
+
+    try {
+      const ids = body.data.ids ?? (await this.getAllDeadLetterIds(queue));
+
+      const replayed: string[] = [];
+      const notFound: string[] = [];
+      for (const id of ids) {
+        if (await this.queueService.replayDeadLetterJob(queue, id)) {
+          replayed.push(id);
+        } else {
+          notFound.push(id);
+        }
+      }
+
+      return {
+        status: 'ok',
+        message: `Replayed ${replayed.length} jobs`,
+        data: { replayed, notFound },
+      };
+    } catch (error) {
+      console.error('[QueueAdminController] Error replaying dead letters:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to replay dead letters',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 清除死信任务
+   *
+   * POST /api/admin/queues/:queue/dead-letters/purge
+   *
+   * Body: { data: { ids?: string[] } } (不指定 ids 则清空该队列全部死信)
+   */
+  @Post('/:queue/dead-letters/purge')
+  async purgeDeadLetters(
+    @Params('queue') queue: string,
+    @Body(DeadLetterBatchRequestSchema) body: DeadLetterBatchRequest
+  ) {
+    console.log(`[QueueAdminController] Purge dead letters: ${queue}`, body.data.ids ?? 'all');
+
+    try {
+      const purged = await this.queueService.purgeDeadLetterJobs(queue, body.data.ids);
+
+      return {
+        status: 'ok',
+        message: `Purged ${purged} jobs`,
+        data: { purged },
+      };
+    } catch (error) {
+      console.error('[QueueAdminController] Error purging dead letters:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to purge dead letters',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 获取队列全部死信任务 ID
+   */
+  private async getAllDeadLetterIds(queue: string): Promise<string[]> {
+    const { total } = await this.queueService.getDeadLetterJobs(queue, { limit: 1 });
+    if (total === 0) return [];
+
+    const { jobs } = await this.queueService.getDeadLetterJobs(queue, { limit: total });
+    return jobs.map((job) => job.id);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Scheduler Admin Controller
+ *
+ * 查询调度状态 API (仅管理员):
+ * - 调度汇总 (按调度结论 / 优先级统计，退避中和等待结果的设备数)
+ * - 调度状态列表 (按调度结论过滤，超时次数多的设备在前)
+ *
+ * 集群模式下调度只在 Leader 实例上运行，其他实例返回 active: false
+ */
+
+import { Controller, Get } from '../decorators/controller';
+import { Query } from '../decorators/params';
+import { socketIoService } from '../services/socket-io.service';
+import { ListSchedulesQuerySchema, type ListSchedulesQuery } from '../schemas/scheduler-admin.schema';
+
+/**
+ * Scheduler Admin Controller
+ */
+@Controller('/api/admin/scheduler')
+export class SchedulerAdminController {
+  /**
+   * 获取调度汇总
+   *
+   * GET /api/admin/scheduler
+   */
+  @Get('/')
+  async getSummary() {
+    try {
+      return {
+        status: 'ok',
+        data: {
+          active: socketIoService.isQueryScheduler(),
+          ...socketIoService.getQuerySchedulerSummary(),
+        },
+      };
+    } catch (error) {
+      console.error('[SchedulerAdminController] Error getting scheduler summary:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to get scheduler summary',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 获取调度状态列表
+   *
+   * GET /api/admin/scheduler/devices?status={status}&limit={limit}
+   */
+  @Get('/devices')
+  async listSchedules(@Query(ListSchedulesQuerySchema) query: ListSchedulesQuery) {
+    try {
+      const devices = socketIoService.getQuerySchedules(query);
+
+      return {
+        status: 'ok',
+        data: {
+          active: socketIoService.isQueryScheduler(),
+          devices,
+          total: devices.length,
+        },
+      };
+    } catch (error) {
+      console.error('[SchedulerAdminController] Error listing schedules:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list schedules',
+        data: null,
+      };
+    }
+  }
+}
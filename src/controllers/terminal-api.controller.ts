@@ -8,8 +8,11 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { Controller, Get, Post, Put, Delete } from '../decorators/controller';
 import { Validate } from '../decorators/validate';
+import { RequireDevicePermission } from '../decorators/device-permission';
 import { mongodb } from '../database/mongodb';
 import { TerminalApiService } from '../services/terminal-api.service';
+import { devicePermissionService } from '../services/device-permission.service';
+import { DevicePermissionLevel } from '../entities/mongodb';
 import type {
   MacParams,
   UpdateTerminalRequest,
@@ -41,7 +44,7 @@ export class TerminalApiController {
    * GET /api/terminals - 获取用户绑定的终端列表
    *
    * 支持分页、过滤、关键词搜索
-   * 权限：需要认证，返回用户绑定的设备或管理员返回所有设备
+   * 权限：需要认证，返回用户绑定 (含未过期的分享授权) 的设备或管理员返回所有设备
    */
   @Get('/')
   @Validate(TerminalQuerySchema, 'query')
@@ -60,10 +63,10 @@ export class TerminalApiController {
 
       const query = request.query as TerminalQuery;
 
-      // 确定设备范围：管理员可以查看所有设备，普通用户只能查看绑定的设备
+      // 确定设备范围：管理员可以查看所有设备，普通用户只能查看绑定 (含分享授权) 的设备
       const deviceMacs = isAdmin(request)
         ? undefined // 管理员不限制 MAC 地址
-        : user.devices || [];
+        : await devicePermissionService.getAccessibleMacs(user);
 
       // 如果普通用户没有绑定任何设备，返回空列表
       if (!isAdmin(request) && (!deviceMacs || deviceMacs.length === 0)) {
@@ -132,9 +135,10 @@ export class TerminalApiController {
   /**
    * GET /api/terminals/:mac - 获取单个终端详情
    *
-   * 权限：需要认证 + 设备访问权限
+   * 权限：需要认证 + 设备 READ 权限
    */
   @Get('/:mac')
+  @RequireDevicePermission(DevicePermissionLevel.READ)
   async getTerminal(request: FastifyRequest, reply: FastifyReply) {
     try {
       const user = request.user;
@@ -150,18 +154,6 @@ export class TerminalApiController {
 
       const { mac } = request.params as MacParams;
 
-      // 权限检查：管理员或设备绑定用户
-      const hasAccess = isAdmin(request) || user.devices?.includes(mac);
-      if (!hasAccess) {
-        return reply.status(403).send({
-          status: 'error',
-          message: '没有访问此终端的权限',
-          code: 'DEVICE_ACCESS_DENIED',
-          timestamp: new Date().toISOString(),
-          requestId: request.id,
-        });
-      }
-
       // 查询终端
       const terminal = await this.terminalService.getTerminal(mac);
 
@@ -175,6 +167,12 @@ export class TerminalApiController {
         });
       }
 
+      // 仅分享了部分挂载设备时，只返回授权范围内的挂载设备
+      const access = await devicePermissionService.getDeviceAccess(user, mac);
+      if (access?.pids) {
+        terminal.mountDevs = terminal.mountDevs?.filter((dev) => access.pids!.includes(dev.pid));
+      }
+
       return reply.send({
         status: 'ok',
         data: terminal,
@@ -198,9 +196,10 @@ export class TerminalApiController {
    * PUT /api/terminals/:mac - 修改终端信息
    *
    * 可修改：名称、GPS 坐标、备注、共享状态
-   * 权限：需要认证 + 设备访问权限
+   * 权限：需要认证 + 设备 WRITE 权限
    */
   @Put('/:mac')
+  @RequireDevicePermission(DevicePermissionLevel.WRITE)
   @Validate(UpdateTerminalRequestSchema)
   async updateTerminal(request: FastifyRequest, reply: FastifyReply) {
     try {
@@ -218,18 +217,6 @@ export class TerminalApiController {
       const { mac } = request.params as MacParams;
       const { data } = request.body as UpdateTerminalRequest;
 
-      // 权限检查：管理员或设备绑定用户
-      const hasAccess = isAdmin(request) || user.devices?.includes(mac);
-      if (!hasAccess) {
-        return reply.status(403).send({
-          status: 'error',
-          message: '没有访问此终端的权限',
-          code: 'DEVICE_ACCESS_DENIED',
-          timestamp: new Date().toISOString(),
-          requestId: request.id,
-        });
-      }
-
       // 检查终端是否存在
       const exists = await this.terminalService.exists(mac);
       if (!exists) {
@@ -377,9 +364,10 @@ export class TerminalApiController {
   /**
    * DELETE /api/terminals/:mac/bind - 解绑终端
    *
-   * 权限：需要认证 + 设备访问权限
+   * 权限：需要认证 + 设备 READ 权限
    */
   @Delete('/:mac/bind')
+  @RequireDevicePermission(DevicePermissionLevel.READ)
   async unbindTerminal(request: FastifyRequest, reply: FastifyReply) {
     try {
       const user = request.user;
@@ -395,18 +383,6 @@ export class TerminalApiController {
 
       const { mac } = request.params as MacParams;
 
-      // 检查用户是否绑定了此设备
-      const hasAccess = isAdmin(request) || user.devices?.includes(mac);
-      if (!hasAccess) {
-        return reply.status(403).send({
-          status: 'error',
-          message: '您没有绑定此终端',
-          code: 'NOT_BOUND',
-          timestamp: new Date().toISOString(),
-          requestId: request.id,
-        });
-      }
-
       // 执行解绑
       const userId = user._id.toHexString();
       const success = await this.terminalService.unbindTerminal(userId, mac);
@@ -443,9 +419,10 @@ export class TerminalApiController {
   /**
    * POST /api/terminals/:mac/devices - 添加挂载设备
    *
-   * 权限：需要认证 + 设备访问权限
+   * 权限：需要认证 + 设备 ADMIN 权限
    */
   @Post('/:mac/devices')
+  @RequireDevicePermission(DevicePermissionLevel.ADMIN)
   @Validate(AddMountDeviceRequestSchema)
   async addMountDevice(request: FastifyRequest, reply: FastifyReply) {
     try {
@@ -463,18 +440,6 @@ export class TerminalApiController {
       const { mac } = request.params as MacParams;
       const { data } = request.body as AddMountDeviceRequest;
 
-      // 权限检查：管理员或设备绑定用户
-      const hasAccess = isAdmin(request) || user.devices?.includes(mac);
-      if (!hasAccess) {
-        return reply.status(403).send({
-          status: 'error',
-          message: '没有访问此终端的权限',
-          code: 'DEVICE_ACCESS_DENIED',
-          timestamp: new Date().toISOString(),
-          requestId: request.id,
-        });
-      }
-
       // 添加挂载设备
       const success = await this.terminalService.addMountDevice(mac, {
         pid: data.pid,
@@ -535,9 +500,10 @@ export class TerminalApiController {
   /**
    * DELETE /api/terminals/:mac/devices/:pid - 删除挂载设备
    *
-   * 权限：需要认证 + 设备访问权限
+   * 权限：需要认证 + 设备 ADMIN 权限
    */
   @Delete('/:mac/devices/:pid')
+  @RequireDevicePermission(DevicePermissionLevel.ADMIN)
   async removeMountDevice(request: FastifyRequest, reply: FastifyReply) {
     try {
       const user = request.user;
@@ -553,18 +519,6 @@ export class TerminalApiController {
 
       const { mac, pid } = request.params as MacPidParams;
 
-      // 权限检查：管理员或设备绑定用户
-      const hasAccess = isAdmin(request) || user.devices?.includes(mac);
-      if (!hasAccess) {
-        return reply.status(403).send({
-          status: 'error',
-          message: '没有访问此终端的权限',
-          code: 'DEVICE_ACCESS_DENIED',
-          timestamp: new Date().toISOString(),
-          requestId: request.id,
-        });
-      }
-
       // 检查挂载设备是否存在
       const mountDevice = await this.terminalService.getMountDevice(mac, pid);
       if (!mountDevice) {
@@ -612,9 +566,10 @@ export class TerminalApiController {
   /**
    * GET /api/terminals/:mac/status - 获取终端在线状态
    *
-   * 权限：需要认证 + 设备访问权限
+   * 权限：需要认证 + 设备 READ 权限
    */
   @Get('/:mac/status')
+  @RequireDevicePermission(DevicePermissionLevel.READ)
   async getTerminalStatus(request: FastifyRequest, reply: FastifyReply) {
     try {
       const user = request.user;
@@ -630,18 +585,6 @@ export class TerminalApiController {
 
       const { mac } = request.params as MacParams;
 
-      // 权限检查：管理员或设备绑定用户
-      const hasAccess = isAdmin(request) || user.devices?.includes(mac);
-      if (!hasAccess) {
-        return reply.status(403).send({
-          status: 'error',
-          message: '没有访问此终端的权限',
-          code: 'DEVICE_ACCESS_DENIED',
-          timestamp: new Date().toISOString(),
-          requestId: request.id,
-        });
-      }
-
       // 查询终端
       const terminal = await this.terminalService.getTerminal(mac);
 
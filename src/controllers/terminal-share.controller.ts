@@ -0,0 +1,158 @@
+/**
+ * Terminal Share Controller
+ *
+ * 终端分享邀请 API - 设备管理者创建/查看/撤销分享，接收者凭邀请码接受
+ */
+
+import { ObjectId } from 'mongodb';
+import { Controller, Get, Post, Delete } from '../decorators/controller';
+import { Params, Body, User } from '../decorators/params';
+import { RequireDevicePermission } from '../decorators/device-permission';
+import { mongodb } from '../database/mongodb';
+import { DeviceShareService, DeviceShareError } from '../services/device-share.service';
+import { DevicePermissionLevel, type UserDocument } from '../entities/mongodb';
+import {
+  MacParamsSchema,
+  type MacParams,
+  CreateShareRequestSchema,
+  type CreateShareRequest,
+  ShareIdParamsSchema,
+  type ShareIdParams,
+  ShareCodeParamsSchema,
+  type ShareCodeParams,
+} from '../schemas/terminal.schema';
+
+/**
+ * 终端分享控制器
+ */
+@Controller('/api/terminals')
+export class TerminalShareController {
+  private shareService: DeviceShareService;
+
+  constructor() {
+    this.shareService = new DeviceShareService(mongodb.getDatabase());
+  }
+
+  /**
+   * 创建分享邀请
+   *
+   * POST /api/terminals/:mac/shares
+   *
+   * 可分享整个终端或指定挂载设备，权限级别为只读或读写，可设置过期时间
+   * 权限：需要认证 + 设备 ADMIN 权限
+   */
+  @Post('/:mac/shares')
+  @RequireDevicePermission(DevicePermissionLevel.ADMIN, { source: 'params' })
+  async createShare(
+    @Params(MacParamsSchema) params: MacParams,
+    @Body(CreateShareRequestSchema) body: CreateShareRequest,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return { status: 'error', message: '未授权访问', data: null };
+    }
+
+    try {
+      const share = await this.shareService.createInvitation({
+        ownerId: new ObjectId(currentUser._id),
+        mac: params.mac,
+        permissionLevel: body.data.permissionLevel as DevicePermissionLevel,
+        pids: body.data.pids,
+        expiresAt: body.data.expiresAt,
+        remark: body.data.remark,
+      });
+
+      return { status: 'ok', message: '分享邀请已创建', data: share };
+    } catch (error: any) {
+      return this.handleError('createShare', error, '创建分享邀请失败');
+    }
+  }
+
+  /**
+   * 获取终端的分享邀请列表
+   *
+   * GET /api/terminals/:mac/shares
+   *
+   * 权限：需要认证 + 设备 ADMIN 权限
+   */
+  @Get('/:mac/shares')
+  @RequireDevicePermission(DevicePermissionLevel.ADMIN, { source: 'params' })
+  async listShares(@Params(MacParamsSchema) params: MacParams) {
+    try {
+      const shares = await this.shareService.listShares(params.mac);
+      return { status: 'ok', data: { shares, total: shares.length } };
+    } catch (error: any) {
+      return this.handleError('listShares', error, '获取分享列表失败');
+    }
+  }
+
+  /**
+   * 撤销分享邀请 (同时移除已接受者的访问权限)
+   *
+   * DELETE /api/terminals/:mac/shares/:shareId
+   *
+   * 权限：需要认证 + 设备 ADMIN 权限
+   */
+  @Delete('/:mac/shares/:shareId')
+  @RequireDevicePermission(DevicePermissionLevel.ADMIN, { source: 'params' })
+  async revokeShare(@Params(ShareIdParamsSchema) params: ShareIdParams) {
+    try {
+      const revokedGrants = await this.shareService.revokeShare(
+        params.mac,
+        new ObjectId(params.shareId)
+      );
+      return { status: 'ok', message: '分享已撤销', data: { shareId: params.shareId, revokedGrants } };
+    } catch (error: any) {
+      return this.handleError('revokeShare', error, '撤销分享失败');
+    }
+  }
+
+  /**
+   * 接受分享邀请
+   *
+   * POST /api/terminals/shares/:code/accept
+   *
+   * 权限：需要认证
+   */
+  @Post('/shares/:code/accept')
+  async acceptShare(
+    @Params(ShareCodeParamsSchema) params: ShareCodeParams,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return { status: 'error', message: '未授权访问', data: null };
+    }
+
+    try {
+      const binding = await this.shareService.acceptInvitation(
+        params.code,
+        new ObjectId(currentUser._id)
+      );
+
+      return {
+        status: 'ok',
+        message: '已接受分享',
+        data: {
+          mac: binding.deviceMac,
+          permissionLevel: binding.permissionLevel,
+          pids: binding.pids,
+          expiresAt: binding.expiresAt,
+        },
+      };
+    } catch (error: any) {
+      return this.handleError('acceptShare', error, '接受分享失败');
+    }
+  }
+
+  /**
+   * 统一错误响应 (可预期的分享错误返回错误码)
+   */
+  private handleError(action: string, error: any, fallback: string) {
+    if (error instanceof DeviceShareError) {
+      return { status: 'error', message: error.message, code: error.code, data: null };
+    }
+
+    console.error(`[TerminalShareController] ${action} error:`, error);
+    return { status: 'error', message: error.message || fallback, data: null };
+  }
+}
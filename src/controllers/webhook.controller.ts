@@ -0,0 +1,291 @@
+/**
+ * Webhook Controller
+ *
+ * Webhook 端点管理 API:
+ * - 获取端点列表 / 详情 / 投递记录
+ * - 创建、更新、删除端点
+ *
+ * 普通用户管理自己的端点 (只推送其绑定设备的告警)，
+ * 管理员可查看全部端点并创建接收全部告警的全局端点
+ */
+
+import { Controller, Get, Post, Put, Delete } from '../decorators/controller';
+import { Params, Query, Body, User } from '../decorators/params';
+import { mongodb } from '../database/mongodb';
+import { WebhookApiService, maskWebhookSecret } from '../services/webhook-api.service';
+import { webhookService } from '../services/notification/webhook.service';
+import { UserRole, type UserDocument, type WebhookEndpointDocument } from '../entities/mongodb';
+import { ObjectId } from 'mongodb';
+import {
+  WebhookIdParamsSchema,
+  CreateWebhookRequestSchema,
+  UpdateWebhookRequestSchema,
+  WebhookDeliveriesQuerySchema,
+  type WebhookIdParams,
+  type CreateWebhookRequest,
+  type UpdateWebhookRequest,
+  type WebhookDeliveriesQuery,
+} from '../schemas/webhook.schema';
+
+/**
+ * Webhook Controller
+ */
+@Controller('/api/webhooks')
+export class WebhookController {
+  private webhookApiService: WebhookApiService;
+
+  constructor() {
+    this.webhookApiService = new WebhookApiService(mongodb.getDatabase());
+  }
+
+  /**
+   * 获取当前用户可管理的端点 (自己的端点，管理员可管理全部端点)
+   */
+  private async findManagedEndpoint(
+    id: string,
+    currentUser: UserDocument
+  ): Promise<WebhookEndpointDocument | null> {
+    const endpoint = await this.webhookApiService.getEndpoint(new ObjectId(id));
+
+    if (!endpoint) {
+      return null;
+    }
+
+    return currentUser.role === UserRole.ADMIN || endpoint.owner === currentUser.username
+      ? endpoint
+      : null;
+  }
+
+  /**
+   * 获取端点列表
+   *
+   * GET /api/webhooks
+   */
+  @Get('/')
+  async listWebhooks(@User() currentUser?: UserDocument) {
+    if (!currentUser) {
+      return { status: 'error', message: '未授权访问', data: null };
+    }
+
+    try {
+      const endpoints = await this.webhookApiService.listEndpoints(
+        currentUser.role === UserRole.ADMIN ? undefined : currentUser.username
+      );
+
+      return {
+        status: 'ok',
+        data: { webhooks: endpoints.map(maskWebhookSecret), total: endpoints.length },
+      };
+    } catch (error) {
+      console.error('[WebhookController] Error listing webhooks:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : '获取 Webhook 列表失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 获取端点详情
+   *
+   * GET /api/webhooks/:id
+   */
+  @Get('/:id')
+  async getWebhook(
+    @Params(WebhookIdParamsSchema) params: WebhookIdParams,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return { status: 'error', message: '未授权访问', data: null };
+    }
+
+    try {
+      const endpoint = await this.findManagedEndpoint(params.id, currentUser);
+
+      if (!endpoint) {
+        return { status: 'error', message: 'Webhook 不存在', data: null };
+      }
+
+      return { status: 'ok', data: maskWebhookSecret(endpoint) };
+    } catch (error) {
+      console.error('[WebhookController] Error getting webhook:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : '获取 Webhook 失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 创建端点
+   *
+   * POST /api/webhooks
+   *
+   * 签名密钥只在创建时返回；接收地址必须解析到公网地址
+   */
+  @Post('/')
+  async createWebhook(
+    @Body(CreateWebhookRequestSchema) body: CreateWebhookRequest,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return { status: 'error', message: '未授权访问', data: null };
+    }
+
+    const { global, macs, ...data } = body.data;
+
+    if (global && currentUser.role !== UserRole.ADMIN) {
+      return { status: 'error', message: '只有管理员可以创建全局 Webhook', data: null };
+    }
+
+    console.log('[WebhookController] Create webhook:', data.name);
+
+    try {
+      await webhookService.assertPublicUrl(data.url);
+
+      const endpoint = await this.webhookApiService.createEndpoint({
+        ...data,
+        secret: data.secret ?? webhookService.generateSecret(),
+        macs: macs?.map((mac) => mac.toUpperCase()),
+        owner: global ? undefined : currentUser.username,
+        createdBy: currentUser.username,
+      });
+
+      return {
+        status: 'ok',
+        message: 'Webhook 创建成功',
+        data: endpoint,
+      };
+    } catch (error) {
+      console.error('[WebhookController] Error creating webhook:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : '创建 Webhook 失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 更新端点
+   *
+   * PUT /api/webhooks/:id
+   */
+  @Put('/:id')
+  async updateWebhook(
+    @Params(WebhookIdParamsSchema) params: WebhookIdParams,
+    @Body(UpdateWebhookRequestSchema) body: UpdateWebhookRequest,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return { status: 'error', message: '未授权访问', data: null };
+    }
+
+    try {
+      if (!(await this.findManagedEndpoint(params.id, currentUser))) {
+        return { status: 'error', message: 'Webhook 不存在', data: null };
+      }
+
+      const { macs, ...update } = body.data;
+      if (update.url !== undefined) {
+        await webhookService.assertPublicUrl(update.url);
+      }
+
+      const endpoint = await this.webhookApiService.updateEndpoint(new ObjectId(params.id), {
+        ...update,
+        ...(macs !== undefined && { macs: macs.map((mac) => mac.toUpperCase()) }),
+      });
+
+      if (!endpoint) {
+        return { status: 'error', message: 'Webhook 不存在', data: null };
+      }
+
+      return {
+        status: 'ok',
+        message: 'Webhook 更新成功',
+        data: maskWebhookSecret(endpoint),
+      };
+    } catch (error) {
+      console.error('[WebhookController] Error updating webhook:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : '更新 Webhook 失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 删除端点
+   *
+   * DELETE /api/webhooks/:id
+   */
+  @Delete('/:id')
+  async deleteWebhook(
+    @Params(WebhookIdParamsSchema) params: WebhookIdParams,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return { status: 'error', message: '未授权访问', data: null };
+    }
+
+    try {
+      if (!(await this.findManagedEndpoint(params.id, currentUser))) {
+        return { status: 'error', message: 'Webhook 不存在', data: null };
+      }
+
+      await this.webhookApiService.deleteEndpoint(new ObjectId(params.id));
+
+      return {
+        status: 'ok',
+        message: 'Webhook 删除成功',
+        data: { id: params.id },
+      };
+    } catch (error) {
+      console.error('[WebhookController] Error deleting webhook:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : '删除 Webhook 失败',
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * 获取投递记录
+   *
+   * GET /api/webhooks/:id/deliveries?limit=
+   */
+  @Get('/:id/deliveries')
+  async getDeliveries(
+    @Params(WebhookIdParamsSchema) params: WebhookIdParams,
+    @Query(WebhookDeliveriesQuerySchema) query: WebhookDeliveriesQuery,
+    @User() currentUser?: UserDocument
+  ) {
+    if (!currentUser) {
+      return { status: 'error', message: '未授权访问', data: null };
+    }
+
+    try {
+      if (!(await this.findManagedEndpoint(params.id, currentUser))) {
+        return { status: 'error', message: 'Webhook 不存在', data: null };
+      }
+
+      const deliveries = await this.webhookApiService.getDeliveries(new ObjectId(params.id), query.limit);
+
+      return {
+        status: 'ok',
+        data: { deliveries, total: deliveries.length },
+      };
+    } catch (error) {
+      console.error('[WebhookController] Error getting deliveries:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : '获取投递记录失败',
+        data: null,
+      };
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * 设备权限装饰器
+ * 为 Controller 方法声明所需的设备权限级别，由路由加载器在处理函数之前校验
+ */
+
+import type { DevicePermissionLevel } from '../entities/mongodb/user-bind-device.entity';
+
+/**
+ * 设备 MAC 来源
+ */
+export type DeviceMacSource = 'params' | 'body' | 'query';
+
+/**
+ * 设备权限要求
+ */
+export interface DevicePermissionRequirement {
+  /** 需要的权限级别 */
+  level: DevicePermissionLevel;
+  /** MAC 来源（默认依次查找 params → body → query） */
+  source?: DeviceMacSource;
+  /** MAC 字段名（默认: mac），同来源的 pid 字段用于校验挂载设备授权范围 */
+  key?: string;
+}
+
+/**
+ * 全局设备权限元数据存储
+ * key: Controller 类构造函数
+ * value: Map<方法名, DevicePermissionRequirement>
+ */
+export const DEVICE_PERMISSION_METADATA = new Map<Function, Map<string, DevicePermissionRequirement>>();
+
+/**
+ * @RequireDevicePermission 装饰器
+ * 要求当前用户拥有目标设备的指定权限级别（管理员直接通过）
+ *
+ * 未认证返回 401，缺少 MAC 返回 400，权限不足返回 403
+ *
+ * @param level - 需要的权限级别
+ * @param options - MAC 来源配置
+ *
+ * @example
+ * ```typescript
+ * @Post('/restart')
+ * @RequireDevicePermission(DevicePermissionLevel.WRITE, { source: 'body' })
+ * async restart(@Body() body: RestartRequest) {}
+ * ```
+ */
+export function RequireDevicePermission(
+  level: DevicePermissionLevel,
+  options: Omit<DevicePermissionRequirement, 'level'> = {}
+): MethodDecorator {
+  return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) {
+    const constructor = target.constructor;
+
+    let controllerMetadata = DEVICE_PERMISSION_METADATA.get(constructor);
+    if (!controllerMetadata) {
+      controllerMetadata = new Map<string, DevicePermissionRequirement>();
+      DEVICE_PERMISSION_METADATA.set(constructor, controllerMetadata);
+    }
+
+    controllerMetadata.set(propertyKey as string, { level, ...options });
+
+    return descriptor;
+  };
+}
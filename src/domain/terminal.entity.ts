@@ -160,6 +160,34 @@ export class TerminalEntity {
   }
 
   /**
+   * 更新挂载设备查询计划
+   * @param pid - 设备 PID
+   * @param schedule - 查询优先级和分时段查询计划
+   */
+  setMountDeviceSchedule(
+    pid: number,
+    schedule: Pick<MountDevice, 'priority' | 'pollSchedule'>
+  ): this {
+    const mountDev = this.data.mountDevs?.find((d) => d.pid === pid);
+    if (!mountDev) {
+      logger.warn(`Mount device not found: ${this.mac}/${pid}`);
+      return this;
+    }
+
+    Object.assign(mountDev, schedule);
+
+    // 记录变更
+    const existingChanges = this.mountDevChanges.get(pid) || {};
+    this.mountDevChanges.set(pid, {
+      ...existingChanges,
+      ...schedule,
+    });
+
+    this.isDirty = true;
+    return this;
+  }
+
+    /**
    * 更新 ICCID 信息
    * @param iccidInfo - ICCID 信息（部分字段）
    */
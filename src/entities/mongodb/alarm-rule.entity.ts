@@ -13,7 +13,7 @@ import type { AlarmLevel } from './alarm.entity';
 /**
  * 规则类型
  */
-export type AlarmRuleType = 'threshold' | 'constant' | 'offline' | 'timeout' | 'custom';
+export type AlarmRuleType = 'threshold' | 'constant' | 'range' | 'offline' | 'timeout' | 'custom';
 
 /**
  * 阈值条件 (对齐现有 Uart.Threshold)
@@ -34,7 +34,7 @@ export interface ConstantCondition {
 }
 
 /**
- * 范围条件
+ * 范围条件 (数据点值 operator value 成立时触发告警)
  */
 export interface RangeCondition {
   /** 操作符 */
@@ -80,7 +80,7 @@ export interface AlarmRuleDocument {
   /** 范围条件 */
   range?: RangeCondition;
 
-  /** 自定义脚本条件 (JavaScript 表达式) */
+  /** 自定义脚本条件 (沙箱表达式, 见 utils/alarm-expression) */
   customScript?: string;
 
   /** 是否启用 */
@@ -89,6 +89,21 @@ export interface AlarmRuleDocument {
   /** 去重窗口 (秒) - 同一规则在此窗口内只触发一次告警 */
   deduplicationWindow: number;
 
+  /** 是否在条件清除后自动恢复告警 (默认 true) */
+  autoResolve?: boolean;
+
+  /** 恢复回差 (threshold / range) - 值需回到阈值内侧该距离才视为恢复,避免临界值抖动 */
+  hysteresis?: number;
+
+  /** 恢复延迟 (秒) - 条件持续清除该时长后才自动恢复,默认 0 */
+  clearDelay?: number;
+
+  /** 自动恢复时是否发送恢复通知 (默认 false) */
+  notifyRecovery?: boolean;
+
+  /** 告警升级策略 ID (优先于按协议匹配的策略) */
+  escalationPolicyId?: string;
+
   /** 最后触发时间 */
   lastTriggeredAt?: Date;
 
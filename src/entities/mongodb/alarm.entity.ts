@@ -19,6 +19,35 @@ export type AlarmLevel = 'info' | 'warning' | 'error' | 'critical';
  */
 export type AlarmStatus = 'active' | 'acknowledged' | 'resolved' | 'auto_resolved';
 
+/**
+ * 告警状态流转 (key: 当前状态, value: 允许的目标状态)
+ *
+ * active → acknowledged → resolved / auto_resolved
+ * resolved / auto_resolved 为终态
+ */
+export const ALARM_STATUS_TRANSITIONS: Record<AlarmStatus, AlarmStatus[]> = {
+  active: ['acknowledged', 'resolved', 'auto_resolved'],
+  acknowledged: ['resolved', 'auto_resolved'],
+  resolved: [],
+  auto_resolved: [],
+};
+
+/**
+ * 检查告警状态是否允许流转
+ */
+export function canTransitionAlarm(from: AlarmStatus, to: AlarmStatus): boolean {
+  return ALARM_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * 获取允许流转到目标状态的来源状态 (用于更新条件)
+ */
+export function alarmStatusesAllowing(to: AlarmStatus): AlarmStatus[] {
+  return (Object.keys(ALARM_STATUS_TRANSITIONS) as AlarmStatus[]).filter((from) =>
+    canTransitionAlarm(from, to)
+  );
+}
+
 /**
  * 告警标签 (对齐现有 tag 字段)
  */
@@ -61,6 +90,12 @@ export interface AlarmDocument {
   /** 当前值 (Phase 3 新增) */
   currentValue?: number | string | boolean;
 
+  /** 单位 */
+  unit?: string;
+
+  /** 阈值/正常值描述 (如 10 - 50) */
+  threshold?: string;
+
   /** 告警消息 (对齐现有 msg) */
   msg: string;
 
@@ -7,7 +7,7 @@
  * - 单例数据缓存 (SingleData)
  */
 
-import type { ObjectId } from 'mongodb';
+import type { CreateCollectionOptions, ObjectId } from 'mongodb';
 
 /**
  * 原始数据记录
@@ -102,6 +102,18 @@ export const DATA_RECORD_INDEXES = [
   },
 ];
 
+/**
+ * 解析数据集合选项
+ * 新建时使用时间序列集合，过期由集合级 expireAfterSeconds 处理
+ */
+export const PARSED_DATA_COLLECTION_OPTIONS: CreateCollectionOptions = {
+  timeseries: {
+    timeField: 'timestamp',
+    granularity: 'seconds',
+  },
+  expireAfterSeconds: 60 * 60 * 24 * 90, // 90天自动过期
+};
+
 /**
  * 解析数据索引
  */
@@ -115,6 +127,7 @@ export const PARSED_DATA_INDEXES = [
     name: 'parsed_data_mac_pid_timestamp_idx',
   },
   {
+    // 仅用于已存在的普通集合 (时间序列集合跳过 TTL 索引)
     key: { createdAt: 1 },
     name: 'parsed_data_createdAt_idx',
     expireAfterSeconds: 60 * 60 * 24 * 90, // 90天自动过期
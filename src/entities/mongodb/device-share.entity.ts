@@ -0,0 +1,148 @@
+/**
+ * 设备分享邀请实体
+ *
+ * 设备管理者为终端 (或指定的挂载设备) 生成分享邀请，
+ * 接收者接受后获得对应权限级别的设备绑定 (user_bind_devices)
+ */
+
+import { ObjectId } from 'mongodb';
+import { DevicePermissionLevel } from './user-bind-device.entity';
+
+/**
+ * 分享邀请状态
+ */
+export enum DeviceShareStatus {
+  PENDING = 'pending',   // 待接受
+  ACCEPTED = 'accepted', // 已接受 (已生成授权)
+  REVOKED = 'revoked',   // 已撤销
+}
+
+/**
+ * 设备分享邀请文档接口
+ */
+export interface DeviceShareDocument {
+  _id: ObjectId;
+
+  /** 邀请码 (随机生成，接收者凭邀请码接受) */
+  code: string;
+
+  /** 创建者用户 ID */
+  ownerId: ObjectId;
+
+  /** 设备 MAC 地址 */
+  deviceMac: string;
+
+  /** 授权的挂载设备 PID (为空表示整个终端) */
+  pids?: number[];
+
+  /** 授权的权限级别 (不允许分享 ADMIN) */
+  permissionLevel: DevicePermissionLevel;
+
+  /** 邀请状态 */
+  status: DeviceShareStatus;
+
+  /** 授权过期时间 (为空表示永久有效) */
+  expiresAt?: Date;
+
+  /** 备注 */
+  remark?: string;
+
+  /** 接收者用户 ID */
+  recipientId?: ObjectId;
+
+  /** 接受时间 */
+  acceptedAt?: Date;
+
+  /** 撤销时间 */
+  revokedAt?: Date;
+
+  /** 创建时间 */
+  createdAt: Date;
+
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 创建分享邀请参数
+ */
+export interface CreateDeviceShareParams {
+  code: string;
+  ownerId: ObjectId;
+  deviceMac: string;
+  pids?: number[];
+  permissionLevel: DevicePermissionLevel;
+  expiresAt?: Date;
+  remark?: string;
+}
+
+/**
+ * 创建分享邀请
+ *
+ * @param data - 邀请数据
+ * @returns 邀请文档 (不含 _id)
+ */
+export function createDeviceShare(
+  data: CreateDeviceShareParams
+): Omit<DeviceShareDocument, '_id'> {
+  const now = new Date();
+  return {
+    code: data.code,
+    ownerId: data.ownerId,
+    deviceMac: data.deviceMac.toUpperCase(), // MAC 地址统一大写
+    pids: data.pids,
+    permissionLevel: data.permissionLevel,
+    status: DeviceShareStatus.PENDING,
+    expiresAt: data.expiresAt,
+    remark: data.remark,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * 检查分享邀请是否已过期
+ *
+ * @param share - 分享邀请
+ * @param now - 当前时间
+ */
+export function isDeviceShareExpired(
+  share: Pick<DeviceShareDocument, 'expiresAt'>,
+  now: Date = new Date()
+): boolean {
+  return !!share.expiresAt && share.expiresAt.getTime() <= now.getTime();
+}
+
+/**
+ * 集合名称
+ */
+export const DEVICE_SHARE_COLLECTION = 'device_shares';
+
+/**
+ * 集合索引
+ */
+export const DEVICE_SHARE_INDEXES = [
+  // 唯一索引：邀请码
+  {
+    key: { code: 1 },
+    name: 'idx_device_share_code',
+    unique: true,
+  },
+  // 设备 + 状态索引 (查询设备的分享列表)
+  {
+    key: { deviceMac: 1, status: 1 },
+    name: 'idx_device_share_mac_status',
+  },
+  // 创建者索引
+  {
+    key: { ownerId: 1 },
+    name: 'idx_device_share_owner',
+  },
+  // TTL 索引：过期邀请自动删除 (对应授权由绑定集合的 TTL 索引同时清理)
+  {
+    key: { expiresAt: 1 },
+    name: 'idx_device_share_expires',
+    expireAfterSeconds: 0,
+    sparse: true,
+  },
+] as const;
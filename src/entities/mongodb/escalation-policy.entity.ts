@@ -0,0 +1,101 @@
+/**
+ * Escalation Policy Entity (MongoDB)
+ *
+ * 告警升级策略实体 - 告警在指定时间内未确认时逐级通知
+ * Collection: alarm.escalationpolicies
+ *
+ * 策略可通过 AlarmRuleDocument.escalationPolicyId 绑定到规则,
+ * 或通过 protocols 绑定到协议 (规则绑定优先)
+ */
+
+import type { ObjectId } from 'mongodb';
+import type { AlarmLevel } from './alarm.entity';
+import type { NotificationChannel } from './notification-log.entity';
+
+/**
+ * 升级层级
+ */
+export interface EscalationTier {
+  /** 告警触发后多少分钟仍未确认时通知该层级 */
+  afterMinutes: number;
+
+  /** 通知用户 (对应 user.alarmsetups 的 user 字段) */
+  users: string[];
+
+  /** 通知渠道 (为空则使用用户配置的全部渠道) */
+  channels?: NotificationChannel[];
+
+  /** 重复通知间隔 (分钟),不设置则只通知一次 */
+  repeatMinutes?: number;
+
+  /** 该层级最多通知次数 (含首次),默认 1 */
+  maxNotifications?: number;
+}
+
+/**
+ * 升级策略文档
+ */
+export interface EscalationPolicyDocument {
+  /** MongoDB _id */
+  _id?: ObjectId;
+
+  /** 策略名称 */
+  name: string;
+
+  /** 策略描述 */
+  description?: string;
+
+  /** 适用的告警级别 (默认 error / critical) */
+  levels: AlarmLevel[];
+
+  /** 绑定的协议 (规则未绑定策略时按协议匹配) */
+  protocols?: string[];
+
+  /** 升级层级 */
+  tiers: EscalationTier[];
+
+  /** 是否启用 */
+  enabled: boolean;
+
+  /** 创建人用户 ID */
+  createdBy: string;
+
+  /** 创建时间 */
+  createdAt: Date;
+
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 升级策略集合名称
+ */
+export const ESCALATION_POLICY_COLLECTION = 'alarm.escalationpolicies';
+
+/**
+ * 升级策略索引定义
+ */
+export const ESCALATION_POLICY_INDEXES = [
+  // 协议匹配索引
+  { key: { protocols: 1, enabled: 1 }, name: 'protocols_enabled_idx' },
+
+  // 名称索引
+  { key: { name: 1 }, name: 'name_idx' },
+];
+
+/**
+ * 创建升级策略的辅助函数
+ */
+export function createEscalationPolicy(
+  policy: Omit<EscalationPolicyDocument, '_id' | 'levels' | 'enabled' | 'createdAt' | 'updatedAt'> &
+    Partial<Pick<EscalationPolicyDocument, 'levels'>>
+): EscalationPolicyDocument {
+  const now = new Date();
+  return {
+    ...policy,
+    levels: policy.levels ?? ['error', 'critical'],
+    enabled: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
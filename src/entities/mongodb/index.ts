@@ -13,9 +13,24 @@ export * from './alarm.entity';
 // Notification Log
 export * from './notification-log.entity';
 
+// Escalation Policy (告警升级策略)
+export * from './escalation-policy.entity';
+
 // User Alarm Setup (对齐现有 UserAlarmSetup)
 export * from './user-alarm-setup.entity';
 
+// Webhook Endpoint (Webhook 通知端点)
+export * from './webhook-endpoint.entity';
+
+// Notification Template (通知模板)
+export * from './notification-template.entity';
+
+// Notification Digest (通知汇总)
+export * from './notification-digest.entity';
+
+// Notification Usage (通知限流计数 / 月度用量)
+export * from './notification-usage.entity';
+
 // User (认证系统)
 export * from './user.entity';
 
@@ -28,6 +43,9 @@ export * from './login-log.entity';
 // User Bind Device (用户设备绑定)
 export * from './user-bind-device.entity';
 
+// Device Share (设备分享邀请)
+export * from './device-share.entity';
+
 // Terminal (终端设备)
 export * from './terminal.entity';
 
@@ -51,11 +69,39 @@ import {
   NOTIFICATION_LOG_INDEXES,
   type NotificationLogDocument,
 } from './notification-log.entity';
+import {
+  ESCALATION_POLICY_COLLECTION,
+  ESCALATION_POLICY_INDEXES,
+  type EscalationPolicyDocument,
+} from './escalation-policy.entity';
 import {
   USER_ALARM_SETUP_COLLECTION,
   USER_ALARM_SETUP_INDEXES,
   type UserAlarmSetupDocument,
 } from './user-alarm-setup.entity';
+import {
+  WEBHOOK_ENDPOINT_COLLECTION,
+  WEBHOOK_ENDPOINT_INDEXES,
+  type WebhookEndpointDocument,
+} from './webhook-endpoint.entity';
+import {
+  NOTIFICATION_TEMPLATE_COLLECTION,
+  NOTIFICATION_TEMPLATE_INDEXES,
+  type NotificationTemplateDocument,
+} from './notification-template.entity';
+import {
+  NOTIFICATION_DIGEST_COLLECTION,
+  NOTIFICATION_DIGEST_INDEXES,
+  type NotificationDigestDocument,
+} from './notification-digest.entity';
+import {
+  NOTIFICATION_RATE_COUNTER_COLLECTION,
+  NOTIFICATION_RATE_COUNTER_INDEXES,
+  NOTIFICATION_USAGE_COLLECTION,
+  NOTIFICATION_USAGE_INDEXES,
+  type NotificationRateCounterDocument,
+  type NotificationUsageDocument,
+} from './notification-usage.entity';
 
 import {
   USER_COLLECTION,
@@ -81,6 +127,12 @@ import {
   type UserBindDeviceDocument,
 } from './user-bind-device.entity';
 
+import {
+  DEVICE_SHARE_COLLECTION,
+  DEVICE_SHARE_INDEXES,
+  type DeviceShareDocument,
+} from './device-share.entity';
+
 import {
   TERMINAL_COLLECTION,
   TERMINAL_INDEXES,
@@ -91,6 +143,7 @@ import {
   DATA_RECORD_COLLECTION,
   DATA_RECORD_INDEXES,
   PARSED_DATA_COLLECTION,
+  PARSED_DATA_COLLECTION_OPTIONS,
   PARSED_DATA_INDEXES,
   SINGLE_DATA_COLLECTION,
   SINGLE_DATA_INDEXES,
@@ -108,7 +161,7 @@ import {
   type UserProtocolConfigDocument,
 } from './protocol.entity';
 
-import type { Db, IndexDescription } from 'mongodb';
+import type { CreateCollectionOptions, Db, IndexDescription } from 'mongodb';
 
 /**
  * 集合配置
@@ -116,6 +169,8 @@ import type { Db, IndexDescription } from 'mongodb';
 export interface CollectionConfig {
   name: string;
   indexes: IndexDescription[];
+  /** 创建集合选项 (如时间序列集合) */
+  options?: CreateCollectionOptions;
 }
 
 /**
@@ -134,10 +189,34 @@ export const PHASE3_COLLECTIONS: CollectionConfig[] = [
     name: NOTIFICATION_LOG_COLLECTION,
     indexes: NOTIFICATION_LOG_INDEXES as unknown as IndexDescription[],
   },
+  {
+    name: ESCALATION_POLICY_COLLECTION,
+    indexes: ESCALATION_POLICY_INDEXES as unknown as IndexDescription[],
+  },
   {
     name: USER_ALARM_SETUP_COLLECTION,
     indexes: USER_ALARM_SETUP_INDEXES as unknown as IndexDescription[],
   },
+  {
+    name: WEBHOOK_ENDPOINT_COLLECTION,
+    indexes: WEBHOOK_ENDPOINT_INDEXES as unknown as IndexDescription[],
+  },
+  {
+    name: NOTIFICATION_TEMPLATE_COLLECTION,
+    indexes: NOTIFICATION_TEMPLATE_INDEXES as unknown as IndexDescription[],
+  },
+  {
+    name: NOTIFICATION_DIGEST_COLLECTION,
+    indexes: NOTIFICATION_DIGEST_INDEXES as unknown as IndexDescription[],
+  },
+  {
+    name: NOTIFICATION_RATE_COUNTER_COLLECTION,
+    indexes: NOTIFICATION_RATE_COUNTER_INDEXES as unknown as IndexDescription[],
+  },
+  {
+    name: NOTIFICATION_USAGE_COLLECTION,
+    indexes: NOTIFICATION_USAGE_INDEXES as unknown as IndexDescription[],
+  },
   {
     name: USER_COLLECTION,
     indexes: USER_INDEXES as unknown as IndexDescription[],
@@ -154,6 +233,10 @@ export const PHASE3_COLLECTIONS: CollectionConfig[] = [
     name: USER_BIND_DEVICE_COLLECTION,
     indexes: USER_BIND_DEVICE_INDEXES as unknown as IndexDescription[],
   },
+  {
+    name: DEVICE_SHARE_COLLECTION,
+    indexes: DEVICE_SHARE_INDEXES as unknown as IndexDescription[],
+  },
   {
     name: TERMINAL_COLLECTION,
     indexes: TERMINAL_INDEXES as unknown as IndexDescription[],
@@ -165,6 +248,7 @@ export const PHASE3_COLLECTIONS: CollectionConfig[] = [
   {
     name: PARSED_DATA_COLLECTION,
     indexes: PARSED_DATA_INDEXES as unknown as IndexDescription[],
+    options: PARSED_DATA_COLLECTION_OPTIONS,
   },
   {
     name: SINGLE_DATA_COLLECTION,
@@ -193,7 +277,7 @@ export async function initializePhase3Collections(db: Db): Promise<void> {
 
     // 确保集合存在
     try {
-      await db.createCollection(config.name);
+      await db.createCollection(config.name, config.options);
       console.log(`[Phase3] Created collection: ${config.name}`);
     } catch (error: any) {
       // 集合已存在，忽略错误
@@ -202,8 +286,18 @@ export async function initializePhase3Collections(db: Db): Promise<void> {
       }
     }
 
+    // 时间序列集合不支持 TTL 索引 (由集合级 expireAfterSeconds 处理)
+    const isTimeSeries = await db
+      .listCollections({ name: config.name, type: 'timeseries' }, { nameOnly: true })
+      .hasNext()
+      .catch(() => false);
+
     // 创建索引
     for (const index of config.indexes) {
+      if (isTimeSeries && index.expireAfterSeconds !== undefined) {
+        continue;
+      }
+
       try {
         await collection.createIndex(index.key, {
           name: index.name,
@@ -245,10 +339,34 @@ export class Phase3Collections {
     return this.db.collection<NotificationLogDocument>(NOTIFICATION_LOG_COLLECTION);
   }
 
+  get escalationPolicies() {
+    return this.db.collection<EscalationPolicyDocument>(ESCALATION_POLICY_COLLECTION);
+  }
+
   get userAlarmSetups() {
     return this.db.collection<UserAlarmSetupDocument>(USER_ALARM_SETUP_COLLECTION);
   }
 
+  get webhookEndpoints() {
+    return this.db.collection<WebhookEndpointDocument>(WEBHOOK_ENDPOINT_COLLECTION);
+  }
+
+  get notificationTemplates() {
+    return this.db.collection<NotificationTemplateDocument>(NOTIFICATION_TEMPLATE_COLLECTION);
+  }
+
+  get notificationDigests() {
+    return this.db.collection<NotificationDigestDocument>(NOTIFICATION_DIGEST_COLLECTION);
+  }
+
+  get notificationRateCounters() {
+    return this.db.collection<NotificationRateCounterDocument>(NOTIFICATION_RATE_COUNTER_COLLECTION);
+  }
+
+  get notificationUsage() {
+    return this.db.collection<NotificationUsageDocument>(NOTIFICATION_USAGE_COLLECTION);
+  }
+
   get users() {
     return this.db.collection<UserDocument>(USER_COLLECTION);
   }
@@ -265,6 +383,10 @@ export class Phase3Collections {
     return this.db.collection<UserBindDeviceDocument>(USER_BIND_DEVICE_COLLECTION);
   }
 
+  get deviceShares() {
+    return this.db.collection<DeviceShareDocument>(DEVICE_SHARE_COLLECTION);
+  }
+
   get terminals() {
     return this.db.collection<TerminalDocument>(TERMINAL_COLLECTION);
   }
@@ -0,0 +1,109 @@
+/**
+ * Notification Digest Entity (MongoDB)
+ *
+ * 通知汇总 - 用户开启汇总后，非严重告警按渠道累积，窗口结束时合并为一条通知发送
+ * Collection: notification.digests
+ *
+ * 每个用户每个渠道同时只有一条 open 状态的汇总；发送时转为 sending，
+ * 之后到达的告警进入新的汇总，发送成功后删除
+ */
+
+import type { ObjectId } from 'mongodb';
+import type { AlarmDocument, AlarmLevel, AlarmTag } from './alarm.entity';
+import type { TemplateChannel } from './notification-template.entity';
+
+/**
+ * 汇总状态
+ */
+export type DigestStatus = 'open' | 'sending';
+
+/**
+ * 汇总中的告警
+ */
+export interface DigestAlarmEntry {
+  /** 告警 ID */
+  alarmId?: string;
+  /** 告警级别 */
+  level: AlarmLevel;
+  /** 告警标签 */
+  tag: AlarmTag;
+  /** 终端 MAC */
+  mac: string;
+  /** 设备名称 */
+  devName?: string;
+  /** 挂载设备 PID */
+  pid: number | string;
+  /** 协议名称 */
+  protocol: string;
+  /** 告警消息 */
+  msg: string;
+  /** 触发时间 */
+  triggeredAt: Date;
+}
+
+/**
+ * 通知汇总文档
+ */
+export interface NotificationDigestDocument {
+  /** MongoDB _id */
+  _id?: ObjectId;
+
+  /** 用户 (对应 user.alarmsetups 的 user 字段) */
+  user: string;
+
+  /** 通知渠道 */
+  channel: TemplateChannel;
+
+  /** 状态 */
+  status: DigestStatus;
+
+  /** 累积的告警 */
+  alarms: DigestAlarmEntry[];
+
+  /** 计划发送时间 */
+  flushAt: Date;
+
+  /** 创建时间 */
+  createdAt: Date;
+
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 通知汇总集合名称
+ */
+export const NOTIFICATION_DIGEST_COLLECTION = 'notification.digests';
+
+/**
+ * 通知汇总索引定义
+ */
+export const NOTIFICATION_DIGEST_INDEXES = [
+  // 每个用户每个渠道只有一条 open 汇总 (并发告警 upsert 时保证唯一)
+  {
+    key: { user: 1, channel: 1 },
+    name: 'user_channel_open_idx',
+    unique: true,
+    partialFilterExpression: { status: 'open' },
+  },
+
+  // 计划发送时间索引 (排查积压)
+  { key: { flushAt: 1 }, name: 'flush_at_idx' },
+];
+
+/**
+ * 将告警转换为汇总条目
+ */
+export function toDigestEntry(alarm: AlarmDocument): DigestAlarmEntry {
+  return {
+    alarmId: alarm._id?.toString(),
+    level: alarm.level,
+    tag: alarm.tag,
+    mac: alarm.mac,
+    devName: alarm.devName,
+    pid: alarm.pid,
+    protocol: alarm.protocol,
+    msg: alarm.msg,
+    triggeredAt: alarm.triggeredAt,
+  };
+}
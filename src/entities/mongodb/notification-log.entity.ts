@@ -5,14 +5,21 @@
  * - 微信模板消息
  * - 阿里云短信
  * - 邮件通知
+ * - Webhook 推送
  */
 
 import { ObjectId } from 'mongodb';
+import type { SuppressReason } from './notification-usage.entity';
 
 /**
  * 通知类型
  */
-export type NotificationType = 'wechat' | 'sms' | 'email';
+export type NotificationType = 'wechat' | 'sms' | 'email' | 'webhook';
+
+/**
+ * 通知渠道 (用户通知偏好、升级策略)
+ */
+export type NotificationChannel = NotificationType;
 
 /**
  * 通知日志文档
@@ -24,13 +31,13 @@ export interface NotificationLogDocument {
   /** 通知类型 */
   type: NotificationType;
 
-  /** 用户 ID */
-  userId: ObjectId;
+  /** 用户 ID（告警设置按老系统用户名关联时为用户名） */
+  userId: ObjectId | string;
 
   /** 关联的告警 ID（可选） */
   alarmId?: ObjectId;
 
-  /** 接收者（手机号/邮箱/OpenID） */
+  /** 接收者（手机号/邮箱/OpenID/Webhook URL） */
   recipient: string | string[];
 
   /** 发送参数 */
@@ -48,6 +55,9 @@ export interface NotificationLogDocument {
   /** 错误详情（如果失败） */
   errorDetails?: any;
 
+  /** 被限流或短信预算抑制的原因（未实际发送） */
+  suppressed?: SuppressReason;
+
   /** 创建时间 */
   createdAt: Date;
 }
@@ -112,6 +122,50 @@ export function createEmailLog(
   };
 }
 
+/**
+ * 创建 Webhook 通知日志
+ */
+export function createWebhookLog(
+  userId: ObjectId | string,
+  url: string,
+  params: Record<string, any>,
+  alarmId?: ObjectId
+): NotificationLogDocument {
+  return {
+    type: 'webhook',
+    userId,
+    recipient: url,
+    params,
+    success: false,
+    createdAt: new Date(),
+    alarmId,
+  };
+}
+
+/**
+ * 创建被抑制的通知日志（超出限流或短信预算，未实际发送）
+ */
+export function createSuppressedLog(
+  type: NotificationType,
+  userId: ObjectId | string,
+  recipient: string | string[],
+  reason: SuppressReason,
+  params: Record<string, any>,
+  alarmId?: ObjectId
+): NotificationLogDocument {
+  return {
+    type,
+    userId,
+    recipient,
+    params,
+    success: false,
+    suppressed: reason,
+    error: reason === 'budget' ? 'SMS monthly budget exhausted' : `Rate limited (${reason})`,
+    createdAt: new Date(),
+    alarmId,
+  };
+}
+
 /**
  * 标记日志为成功
  */
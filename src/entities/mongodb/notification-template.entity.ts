@@ -0,0 +1,130 @@
+/**
+ * Notification Template Entity (MongoDB)
+ *
+ * 通知模板 - 按渠道、告警标签和语言定制微信/短信/邮件的通知内容
+ * Collection: notification.templates
+ *
+ * 匹配顺序: 标签 + 语言 → 通用模板 + 语言 → 默认语言，均未配置时使用内置模板
+ */
+
+import type { ObjectId } from 'mongodb';
+import type { AlarmTag } from './alarm.entity';
+import type { NotificationChannel } from './notification-log.entity';
+
+/**
+ * 模板渠道 (Webhook 推送固定 JSON 结构，不使用模板)
+ */
+export type TemplateChannel = Exclude<NotificationChannel, 'webhook'>;
+
+/**
+ * 模板格式 (html 仅用于邮件)
+ */
+export type TemplateFormat = 'text' | 'html';
+
+/**
+ * 默认语言 (用户未设置语言或该语言没有模板时使用)
+ */
+export const DEFAULT_TEMPLATE_LANGUAGE = 'zh-CN';
+
+/**
+ * 模板占位符 (模板中写作 {{name}})
+ */
+export const TEMPLATE_PLACEHOLDERS = [
+  'devName', // 设备名称 (未设置时为 MAC)
+  'mac', // 终端 MAC
+  'pid', // 挂载设备 PID
+  'protocol', // 协议名称
+  'param', // 参数名称
+  'value', // 当前值
+  'unit', // 单位
+  'threshold', // 阈值/正常值描述
+  'time', // 触发时间 (按语言格式化)
+  'level', // 告警级别 (按语言翻译)
+  'msg', // 告警消息
+] as const;
+
+/**
+ * 模板占位符名称
+ */
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+/**
+ * 通知模板文档
+ */
+export interface NotificationTemplateDocument {
+  /** MongoDB _id */
+  _id?: ObjectId;
+
+  /** 模板名称 (唯一) */
+  name: string;
+
+  /** 通知渠道 */
+  channel: TemplateChannel;
+
+  /** 告警标签 (为空表示该渠道的通用模板) */
+  tag?: AlarmTag;
+
+  /** 语言 (如 zh-CN、en-US) */
+  language: string;
+
+  /** 标题 (邮件主题 / 微信模板消息首行，短信不使用) */
+  subject?: string;
+
+  /** 正文 (邮件正文 / 微信模板消息内容字段 / 短信 message 参数) */
+  body: string;
+
+  /** 正文格式 */
+  format: TemplateFormat;
+
+  /** 服务商模板 ID (微信 template_id / 短信 TemplateCode，为空使用系统配置) */
+  externalTemplateId?: string;
+
+  /** 是否启用 */
+  enabled: boolean;
+
+  /** 创建人 (用户名) */
+  createdBy: string;
+
+  /** 创建时间 */
+  createdAt: Date;
+
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 通知模板集合名称
+ */
+export const NOTIFICATION_TEMPLATE_COLLECTION = 'notification.templates';
+
+/**
+ * 通知模板索引定义
+ */
+export const NOTIFICATION_TEMPLATE_INDEXES = [
+  // 模板名称唯一
+  { key: { name: 1 }, name: 'name_unique_idx', unique: true },
+
+  // 模板匹配索引
+  { key: { channel: 1, language: 1, tag: 1, enabled: 1 }, name: 'channel_language_tag_idx' },
+];
+
+/**
+ * 创建通知模板的辅助函数
+ */
+export function createNotificationTemplate(
+  template: Omit<
+    NotificationTemplateDocument,
+    '_id' | 'language' | 'format' | 'enabled' | 'createdAt' | 'updatedAt'
+  > &
+    Partial<Pick<NotificationTemplateDocument, 'language' | 'format'>>
+): NotificationTemplateDocument {
+  const now = new Date();
+  return {
+    ...template,
+    language: template.language ?? DEFAULT_TEMPLATE_LANGUAGE,
+    format: template.format ?? 'text',
+    enabled: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Notification Usage Entity (MongoDB)
+ *
+ * 通知限流和用量统计:
+ * - notification.rate_counters: 固定时间窗口内各限流维度的发送次数 (窗口过期后自动删除)
+ * - notification.usage: 每月各渠道的发送量和被抑制数量 (短信按号码计费，用于月度预算)
+ *
+ * 计数保存在 MongoDB 中，多实例部署时共享同一份限额
+ */
+
+import type { ObjectId } from 'mongodb';
+import type { NotificationChannel } from './notification-log.entity';
+
+/**
+ * 限流维度
+ *
+ * - user: 单个用户
+ * - device: 单个终端 (MAC)
+ * - tenant: 整个部署 (当前为单租户部署，所有用户共享同一限额)
+ */
+export type RateLimitScope = 'user' | 'device' | 'tenant';
+
+/**
+ * 通知被抑制的原因 (触发的限流维度或短信月度预算)
+ */
+export type SuppressReason = RateLimitScope | 'budget';
+
+/**
+ * 限流计数文档
+ */
+export interface NotificationRateCounterDocument {
+  /** MongoDB _id */
+  _id?: ObjectId;
+
+  /** 计数键 (渠道:维度:标识) */
+  key: string;
+
+  /** 窗口开始时间 */
+  windowStart: Date;
+
+  /** 窗口内已发送次数 */
+  count: number;
+
+  /** 过期时间 (窗口结束) */
+  expireAt: Date;
+}
+
+/**
+ * 月度用量文档
+ */
+export interface NotificationUsageDocument {
+  /** MongoDB _id */
+  _id?: ObjectId;
+
+  /** 通知渠道 */
+  channel: NotificationChannel;
+
+  /** 统计月份 (YYYY-MM) */
+  period: string;
+
+  /** 已发送数量 (短信为号码数) */
+  sent: number;
+
+  /** 被限流或预算抑制的通知数 */
+  suppressed: number;
+
+  /** 已发出的预算预警比例 (每月每个比例只预警一次) */
+  budgetWarnings?: number[];
+
+  /** 创建时间 */
+  createdAt: Date;
+
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 限流计数集合名称
+ */
+export const NOTIFICATION_RATE_COUNTER_COLLECTION = 'notification.rate_counters';
+
+/**
+ * 月度用量集合名称
+ */
+export const NOTIFICATION_USAGE_COLLECTION = 'notification.usage';
+
+/**
+ * 限流计数索引定义
+ */
+export const NOTIFICATION_RATE_COUNTER_INDEXES = [
+  // 每个计数键每个窗口一条记录
+  { key: { key: 1, windowStart: 1 }, name: 'key_window_idx', unique: true },
+
+  // 窗口结束后自动删除
+  { key: { expireAt: 1 }, name: 'expire_at_idx', expireAfterSeconds: 0 },
+];
+
+/**
+ * 月度用量索引定义
+ */
+export const NOTIFICATION_USAGE_INDEXES = [
+  { key: { channel: 1, period: 1 }, name: 'channel_period_idx', unique: true },
+];
+
+/**
+ * 获取统计月份 (服务器本地时间，YYYY-MM)
+ */
+export function getUsagePeriod(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
@@ -6,6 +6,7 @@
  */
 
 import type { ObjectId } from 'mongodb';
+import type { AlarmLevel } from './alarm.entity';
 
 /**
  * 阈值告警设置 (对齐现有 Uart.Threshold)
@@ -43,6 +44,46 @@ export interface DevConstant {
   AlarmStat?: ConstantAlarmStat[];
 }
 
+/**
+ * 告警静音设置
+ */
+export interface AlarmMute {
+  /** 终端 MAC 地址 */
+  mac: string;
+  /** 挂载设备 PID (为空表示整个终端) */
+  pid?: number;
+  /** 静音截止时间 (为空表示一直静音) */
+  until?: Date;
+  /** 创建时间 */
+  createdAt: Date;
+}
+
+/**
+ * 免打扰时段 (时段内的非严重告警推迟到时段结束后发送)
+ */
+export interface QuietHours {
+  /** 是否启用 */
+  enabled: boolean;
+  /** 开始时间 (HH:mm) */
+  start: string;
+  /** 结束时间 (HH:mm，早于开始时间表示跨午夜) */
+  end: string;
+  /** 时区 (IANA 名称，如 Asia/Shanghai，为空使用服务器时区) */
+  timezone?: string;
+  /** 严重告警是否不受免打扰限制 (默认 true) */
+  allowCritical?: boolean;
+}
+
+/**
+ * 通知汇总设置 (非严重告警在时间窗口内合并为一条汇总通知)
+ */
+export interface DigestSettings {
+  /** 是否启用 */
+  enabled: boolean;
+  /** 汇总窗口 (分钟) */
+  windowMinutes: number;
+}
+
 /**
  * 用户告警设置文档 (对齐现有 UserAlarmSetup)
  */
@@ -65,6 +106,21 @@ export interface UserAlarmSetupDocument {
   /** 协议设置 */
   ProtocolSetup: DevConstant[];
 
+  /** 接收的告警级别 (为空表示接收全部级别) */
+  alarmLevels?: AlarmLevel[];
+
+  /** 静音的设备 */
+  mutes?: AlarmMute[];
+
+  /** 通知语言 (选择通知模板，为空使用默认语言) */
+  language?: string;
+
+  /** 免打扰时段 */
+  quietHours?: QuietHours;
+
+  /** 通知汇总设置 */
+  digest?: DigestSettings;
+
   /** 创建时间 */
   createdAt?: Date;
 
@@ -104,6 +160,71 @@ export function createUserAlarmSetup(user: string): UserAlarmSetupDocument {
   };
 }
 
+/**
+ * 检查用户是否静音了指定设备的告警
+ *
+ * @param setup - 用户告警设置
+ * @param mac - 终端 MAC 地址
+ * @param pid - 挂载设备 PID
+ * @param now - 当前时间 (过期的静音不生效)
+ */
+export function isAlarmMuted(
+  setup: Pick<UserAlarmSetupDocument, 'mutes'>,
+  mac: string,
+  pid: number | string,
+  now: Date = new Date()
+): boolean {
+  const normalizedMac = mac.toUpperCase();
+  return (setup.mutes ?? []).some(
+    (mute) =>
+      mute.mac.toUpperCase() === normalizedMac &&
+      (mute.pid === undefined || mute.pid === Number(pid)) &&
+      (!mute.until || new Date(mute.until).getTime() > now.getTime())
+  );
+}
+
+/**
+ * 获取当前免打扰时段的剩余时间
+ *
+ * @param quietHours - 免打扰时段
+ * @param now - 当前时间
+ * @returns 距时段结束的毫秒数 (不在时段内返回 0)
+ */
+export function getQuietHoursRemaining(quietHours: QuietHours | undefined, now: Date = new Date()): number {
+  if (!quietHours?.enabled) {
+    return 0;
+  }
+
+  const toMinutes = (time: string) => {
+    const [hour, minute] = time.split(':').map(Number);
+    return hour! * 60 + minute!;
+  };
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) {
+    return 0;
+  }
+
+  // 按用户时区取当前时分
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: quietHours.timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const current =
+    Number(parts.find((part) => part.type === 'hour')!.value) * 60 +
+    Number(parts.find((part) => part.type === 'minute')!.value);
+
+  const inWindow = start < end ? current >= start && current < end : current >= start || current < end;
+  if (!inWindow) {
+    return 0;
+  }
+
+  const minutes = (end - current + 24 * 60) % (24 * 60);
+  return minutes * 60_000 - (now.getSeconds() * 1000 + now.getMilliseconds());
+}
+
 /**
  * 添加协议设置的辅助函数
  */
@@ -46,6 +46,15 @@ export interface UserBindDeviceDocument {
   /** 是否启用 */
   isActive: boolean;
 
+  /** 授权的挂载设备 PID (为空表示整个终端) */
+  pids?: number[];
+
+  /** 授权过期时间 (为空表示永久有效，过期记录由 TTL 索引清理) */
+  expiresAt?: Date;
+
+  /** 来源分享邀请 ID (通过分享邀请获得的授权) */
+  shareId?: ObjectId;
+
   /** 最后访问时间 */
   lastAccessAt?: Date;
 
@@ -66,6 +75,9 @@ export interface CreateUserBindDeviceParams {
   deviceRemark?: string;
   isPrimary?: boolean;
   permissionLevel?: DevicePermissionLevel;
+  pids?: number[];
+  expiresAt?: Date;
+  shareId?: ObjectId;
 }
 
 /**
@@ -87,6 +99,9 @@ export function createUserBindDevice(
     isPrimary: data.isPrimary ?? false,
     permissionLevel: data.permissionLevel ?? DevicePermissionLevel.READ,
     isActive: true,
+    pids: data.pids,
+    expiresAt: data.expiresAt,
+    shareId: data.shareId,
     lastAccessAt: undefined,
     createdAt: now,
     updatedAt: now,
@@ -150,18 +165,55 @@ export function buildUserBindDeviceUpdate(
 export function hasDevicePermission(
   binding: UserBindDeviceDocument,
   requiredLevel: DevicePermissionLevel
+): boolean {
+  if (!isBindingEffective(binding)) {
+    return false;
+  }
+
+  return isPermissionLevelSufficient(binding.permissionLevel, requiredLevel);
+}
+
+/**
+ * 检查绑定记录当前是否生效 (已启用且未过期)
+ *
+ * TTL 索引按分钟级周期清理，过期到删除之间的记录需要在这里排除
+ *
+ * @param binding - 绑定记录
+ * @param now - 当前时间
+ * @returns 是否生效
+ */
+export function isBindingEffective(
+  binding: Pick<UserBindDeviceDocument, 'isActive' | 'expiresAt'>,
+  now: Date = new Date()
 ): boolean {
   if (!binding.isActive) {
     return false;
   }
 
-  const levelOrder = {
-    [DevicePermissionLevel.READ]: 1,
-    [DevicePermissionLevel.WRITE]: 2,
-    [DevicePermissionLevel.ADMIN]: 3,
-  };
+  return !binding.expiresAt || binding.expiresAt.getTime() > now.getTime();
+}
+
+/**
+ * 权限级别排序 (高级别包含低级别的全部权限)
+ */
+const PERMISSION_LEVEL_ORDER: Record<DevicePermissionLevel, number> = {
+  [DevicePermissionLevel.READ]: 1,
+  [DevicePermissionLevel.WRITE]: 2,
+  [DevicePermissionLevel.ADMIN]: 3,
+};
 
-  return levelOrder[binding.permissionLevel] >= levelOrder[requiredLevel];
+/**
+ * 检查权限级别是否满足要求
+ *
+ * @param level - 拥有的权限级别
+ * @param requiredLevel - 需要的权限级别
+ * @returns 是否满足
+ */
+export function isPermissionLevelSufficient(
+  level: DevicePermissionLevel,
+  requiredLevel: DevicePermissionLevel
+): boolean {
+  return (PERMISSION_LEVEL_ORDER[level] ?? 0) >= PERMISSION_LEVEL_ORDER[requiredLevel];
 }
 
 /**
@@ -244,4 +296,17 @@ export const USER_BIND_DEVICE_INDEXES = [
     key: { boundAt: -1 },
     name: 'idx_user_bind_device_bound_time',
   },
+  // 分享邀请索引 (撤销邀请时删除对应授权)
+  {
+    key: { shareId: 1 },
+    name: 'idx_user_bind_device_share',
+    sparse: true,
+  },
+  // TTL 索引：授权到期自动删除
+  {
+    key: { expiresAt: 1 },
+    name: 'idx_user_bind_device_expires',
+    expireAfterSeconds: 0,
+    sparse: true,
+  },
 ] as const;
@@ -0,0 +1,125 @@
+/**
+ * Webhook Endpoint Entity (MongoDB)
+ *
+ * Webhook 通知端点 - 告警事件 (触发、确认、解决) 以 JSON POST 到注册的 HTTPS 地址
+ * Collection: notification.webhooks
+ *
+ * 用户注册的端点只接收其绑定设备的告警，管理员注册的全局端点 (无 owner) 接收全部告警
+ */
+
+import type { ObjectId } from 'mongodb';
+import type { AlarmLevel } from './alarm.entity';
+
+/**
+ * Webhook 事件类型
+ */
+export type WebhookEvent = 'alarm.triggered' | 'alarm.acknowledged' | 'alarm.resolved';
+
+/**
+ * 全部 Webhook 事件
+ */
+export const WEBHOOK_EVENTS: readonly WebhookEvent[] = [
+  'alarm.triggered',
+  'alarm.acknowledged',
+  'alarm.resolved',
+];
+
+/**
+ * Webhook 端点文档
+ */
+export interface WebhookEndpointDocument {
+  /** MongoDB _id */
+  _id?: ObjectId;
+
+  /** 端点名称 */
+  name: string;
+
+  /** 接收地址 (HTTPS) */
+  url: string;
+
+  /** 签名密钥 (HMAC-SHA256) */
+  secret: string;
+
+  /** 订阅的事件 */
+  events: WebhookEvent[];
+
+  /** 所属用户 (对应 user.alarmsetups 的 user 字段)，为空表示管理员配置的全局端点 */
+  owner?: string;
+
+  /** 只接收这些终端的告警 (为空表示不限) */
+  macs?: string[];
+
+  /** 只接收这些级别的告警 (为空表示全部级别) */
+  levels?: AlarmLevel[];
+
+  /** 是否启用 */
+  enabled: boolean;
+
+  /** 创建人 (用户名) */
+  createdBy: string;
+
+  /** 最近一次投递时间 */
+  lastDeliveryAt?: Date;
+
+  /** 最近一次投递是否成功 */
+  lastDeliverySuccess?: boolean;
+
+  /** 创建时间 */
+  createdAt: Date;
+
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * Webhook 端点集合名称
+ */
+export const WEBHOOK_ENDPOINT_COLLECTION = 'notification.webhooks';
+
+/**
+ * Webhook 端点索引定义
+ */
+export const WEBHOOK_ENDPOINT_INDEXES = [
+  // 事件匹配索引
+  { key: { events: 1, enabled: 1 }, name: 'events_enabled_idx' },
+
+  // 用户端点查询索引
+  { key: { owner: 1 }, name: 'owner_idx', sparse: true },
+];
+
+/**
+ * 创建 Webhook 端点的辅助函数
+ */
+export function createWebhookEndpoint(
+  endpoint: Omit<WebhookEndpointDocument, '_id' | 'events' | 'enabled' | 'createdAt' | 'updatedAt'> &
+    Partial<Pick<WebhookEndpointDocument, 'events'>>
+): WebhookEndpointDocument {
+  const now = new Date();
+  return {
+    ...endpoint,
+    events: endpoint.events ?? [...WEBHOOK_EVENTS],
+    enabled: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * 检查端点是否接收该告警事件
+ */
+export function isWebhookSubscribed(
+  endpoint: Pick<WebhookEndpointDocument, 'enabled' | 'events' | 'macs' | 'levels'>,
+  event: WebhookEvent,
+  alarm: { mac: string; level: AlarmLevel }
+): boolean {
+  if (!endpoint.enabled || !endpoint.events.includes(event)) {
+    return false;
+  }
+
+  const mac = alarm.mac.toUpperCase();
+  if (endpoint.macs?.length && !endpoint.macs.some((item) => item.toUpperCase() === mac)) {
+    return false;
+  }
+
+  return !endpoint.levels?.length || endpoint.levels.includes(alarm.level);
+}
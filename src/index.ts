@@ -17,6 +17,7 @@ import { TerminalController } from './controllers/terminal.controller';
 import { DtuController } from './controllers/dtu.controller';
 import { socketService } from './services/socket.service';
 import { socketIoService } from './services/socket-io.service';
+import { connectSocketIoCluster } from './services/socket-io-cluster';
 import { webSocketService } from './services/websocket.service';
 import { metricsService } from './services/metrics.service';
 
@@ -196,6 +197,10 @@ async function start() {
 
     // 4. 初始化 Socket.IO (Node 客户端)
     console.log('🔌 正在初始化 Socket.IO (Node 客户端)...');
+    if (config.SOCKETIO_CLUSTER) {
+      socketIoService.attachCluster(await connectSocketIoCluster());
+      console.log('✅ 已加入 Socket.IO 集群 (Redis)');
+    }
     socketIoService.initialize(app.io);
     console.log('✅ Socket.IO (Node 客户端) 初始化完成');
 
@@ -237,6 +242,7 @@ async function start() {
 
         // 2. 关闭 Socket.IO 和 WebSocket 连接
         console.log('🔌 正在关闭 Socket.IO...');
+        await socketIoService.detachCluster();
         socketIoService.cleanup();
         console.log('✅ Socket.IO (Node 客户端) 已关闭');
 
@@ -14,6 +14,9 @@ import {
   sanitizeUser,
 } from '../utils/jwt';
 import type { UserDocument, Permission } from '../entities/mongodb/user.entity';
+import type { DevicePermissionLevel } from '../entities/mongodb/user-bind-device.entity';
+import type { DevicePermissionRequirement } from '../decorators/device-permission';
+import { devicePermissionService } from '../services/device-permission.service';
 // FastifyRequest 类型扩展在 types.ts 中定义
 
 /**
@@ -238,6 +241,106 @@ export function requireDeviceAccess(deviceMac?: string) {
   };
 }
 
+/**
+ * 按权限要求的来源配置查找请求字段
+ */
+function resolveRequestField(
+  request: FastifyRequest,
+  requirement: Omit<DevicePermissionRequirement, 'level'>,
+  key: string
+): unknown {
+  const sources = requirement.source
+    ? [requirement.source]
+    : (['params', 'body', 'query'] as const);
+
+  for (const source of sources) {
+    const value = (request[source] as Record<string, unknown> | undefined)?.[key];
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 从请求中获取目标设备 MAC
+ */
+function resolveDeviceMac(
+  request: FastifyRequest,
+  requirement: Omit<DevicePermissionRequirement, 'level'>
+): string | undefined {
+  const value = resolveRequestField(request, requirement, requirement.key ?? 'mac');
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * 从请求中获取目标挂载设备 PID (与 MAC 同来源，路由参数为字符串)
+ */
+function resolveDevicePid(
+  request: FastifyRequest,
+  requirement: Omit<DevicePermissionRequirement, 'level'>
+): number | undefined {
+  const value = Number(resolveRequestField(request, requirement, 'pid'));
+  return Number.isInteger(value) ? value : undefined;
+}
+
+/**
+ * 创建设备权限级别中间件工厂
+ *
+ * 需在认证中间件之后执行 (依赖 request.user)，管理员直接通过
+ * 请求中包含 pid 时 (与 MAC 同来源) 同时校验挂载设备授权范围
+ *
+ * @param level - 需要的权限级别
+ * @param requirement - MAC 来源配置
+ * @returns 设备权限检查中间件
+ */
+export function requireDevicePermission(
+  level: DevicePermissionLevel,
+  requirement: Omit<DevicePermissionRequirement, 'level'> = {}
+) {
+  return async function (request: FastifyRequest, reply: FastifyReply) {
+    const user = request.user;
+    if (!user) {
+      return reply.status(401).send({
+        status: 'error',
+        message: 'Authentication required',
+        code: 'AUTH_REQUIRED',
+      });
+    }
+
+    const deviceMac = resolveDeviceMac(request, requirement);
+    if (!deviceMac) {
+      return reply.status(400).send({
+        status: 'error',
+        message: 'Device MAC address is required',
+        code: 'DEVICE_MAC_REQUIRED',
+      });
+    }
+
+    const pid = resolveDevicePid(request, requirement);
+    const allowed = await devicePermissionService.authorize(user, deviceMac, level, pid);
+    if (!allowed) {
+      logAuthAction('DEVICE_PERMISSION_DENIED', user._id?.toString(), {
+        device: deviceMac,
+        pid,
+        required: level,
+        ip: request.ip,
+      });
+
+      return reply.status(403).send({
+        status: 'error',
+        message: 'Device access denied',
+        code: 'DEVICE_ACCESS_DENIED',
+        details: {
+          device: deviceMac,
+          required: level,
+        },
+      });
+    }
+  };
+}
+
 /**
  * 可选认证中间件 (用户可能登录也可能未登录)
  */
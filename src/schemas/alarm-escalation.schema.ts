@@ -0,0 +1,57 @@
+/**
+ * Alarm Escalation Policies API 数据结构和验证 Schema
+ */
+
+import { z } from 'zod';
+import { AlarmLevelSchema } from './alarm-rules.schema';
+
+/**
+ * 通知渠道 Schema
+ */
+export const NotificationChannelSchema = z.enum(['wechat', 'sms', 'email']);
+
+/**
+ * 升级层级 Schema
+ */
+export const EscalationTierSchema = z.object({
+  afterMinutes: z.number().int().positive().describe('未确认多少分钟后通知'),
+  users: z.array(z.string().min(1)).min(1, '通知用户不能为空'),
+  channels: z.array(NotificationChannelSchema).optional(),
+  repeatMinutes: z.number().int().positive().optional(),
+  maxNotifications: z.number().int().positive().max(100).optional(),
+});
+
+/**
+ * 创建升级策略请求体 Schema
+ */
+export const CreateEscalationPolicyRequestSchema = z.object({
+  data: z.object({
+    name: z.string().min(1, '策略名称不能为空'),
+    description: z.string().optional(),
+    levels: z.array(AlarmLevelSchema).min(1).optional(),
+    protocols: z.array(z.string().min(1)).optional(),
+    tiers: z.array(EscalationTierSchema).min(1, '升级层级不能为空'),
+    createdBy: z.string().min(1, '创建人不能为空'),
+  }),
+});
+
+/**
+ * 更新升级策略请求体 Schema
+ */
+export const UpdateEscalationPolicyRequestSchema = z.object({
+  data: z.object({
+    name: z.string().min(1).optional(),
+    description: z.string().optional(),
+    levels: z.array(AlarmLevelSchema).min(1).optional(),
+    protocols: z.array(z.string().min(1)).optional(),
+    tiers: z.array(EscalationTierSchema).min(1).optional(),
+    enabled: z.boolean().optional(),
+  }),
+});
+
+/**
+ * 类型导出
+ */
+export type EscalationTierInput = z.infer<typeof EscalationTierSchema>;
+export type CreateEscalationPolicyRequest = z.infer<typeof CreateEscalationPolicyRequestSchema>;
+export type UpdateEscalationPolicyRequest = z.infer<typeof UpdateEscalationPolicyRequestSchema>;
@@ -11,6 +11,7 @@ import { stringToBoolean, stringToPositiveInt } from './common.schema';
 export const AlarmRuleTypeSchema = z.enum([
   'threshold',
   'constant',
+  'range',
   'offline',
   'timeout',
   'custom',
@@ -36,6 +37,14 @@ export const ConstantConditionSchema = z.object({
   alarmStat: z.array(z.string()).min(1, '正常值列表不能为空'),
 });
 
+/**
+ * 范围条件 Schema
+ */
+export const RangeConditionSchema = z.object({
+  operator: z.enum(['>', '<', '>=', '<=', '==', '!=']).describe('操作符'),
+  value: z.union([z.number(), z.string()]).describe('目标值'),
+});
+
 /**
  * 创建规则请求体 Schema
  */
@@ -51,8 +60,14 @@ export const CreateRuleRequestSchema = z
       paramName: z.string().optional(),
       threshold: ThresholdConditionSchema.optional(),
       constant: ConstantConditionSchema.optional(),
+      range: RangeConditionSchema.optional(),
       customScript: z.string().optional(),
       deduplicationWindow: z.number().int().positive().optional().default(300),
+      autoResolve: z.boolean().optional(),
+      hysteresis: z.number().nonnegative().optional(),
+      clearDelay: z.number().int().nonnegative().optional(),
+      notifyRecovery: z.boolean().optional(),
+      escalationPolicyId: z.string().optional(),
       createdBy: z.string().min(1, '创建人不能为空'),
     }),
   })
@@ -66,6 +81,10 @@ export const CreateRuleRequestSchema = z
       if (data.data.type === 'constant' && !data.data.constant) {
         return false;
       }
+      // range 类型必须有 paramName 和 range 条件
+      if (data.data.type === 'range' && (!data.data.paramName || !data.data.range)) {
+        return false;
+      }
       // custom 类型必须有 customScript
       if (data.data.type === 'custom' && !data.data.customScript) {
         return false;
@@ -90,8 +109,14 @@ export const UpdateRuleRequestSchema = z.object({
     paramName: z.string().optional(),
     threshold: ThresholdConditionSchema.optional(),
     constant: ConstantConditionSchema.optional(),
+    range: RangeConditionSchema.optional(),
     customScript: z.string().optional(),
     deduplicationWindow: z.number().int().positive().optional(),
+    autoResolve: z.boolean().optional(),
+    hysteresis: z.number().nonnegative().optional(),
+    clearDelay: z.number().int().nonnegative().optional(),
+    notifyRecovery: z.boolean().optional(),
+    escalationPolicyId: z.string().optional(),
     enabled: z.boolean().optional(),
     updatedBy: z.string().optional(),
   }),
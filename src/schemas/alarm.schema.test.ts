@@ -9,6 +9,7 @@ import {
   AlarmQuerySchema,
   AlarmIdParamsSchema,
   ConfirmAlarmRequestSchema,
+  ResolveAlarmRequestSchema,
   UnconfirmedCountQuerySchema,
   UpdateAlarmContactsRequestSchema,
   BatchAlarmOperationRequestSchema,
@@ -144,6 +145,20 @@ describe('ConfirmAlarmRequestSchema', () => {
   });
 });
 
+describe('ResolveAlarmRequestSchema', () => {
+  test('should validate with and without solution', () => {
+    expect(ResolveAlarmRequestSchema.safeParse({ data: { solution: 'Replaced sensor' } }).success).toBe(true);
+    expect(ResolveAlarmRequestSchema.safeParse({ data: {} }).success).toBe(true);
+  });
+
+  test('should reject solution exceeding 500 characters', () => {
+    const result = ResolveAlarmRequestSchema.safeParse({
+      data: { solution: 'a'.repeat(501) },
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
 describe('UnconfirmedCountQuerySchema', () => {
   test('should validate with MAC filter', () => {
     const result = UnconfirmedCountQuerySchema.safeParse({ mac: 'AABBCCDDEEFF' });
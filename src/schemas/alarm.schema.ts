@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import { TemplateLanguageSchema } from './notification-template.schema';
 
 /**
  * 告警 ID 路径参数 Schema
@@ -97,6 +98,17 @@ export const ConfirmAlarmRequestSchema = z.object({
 });
 export type ConfirmAlarmRequest = z.infer<typeof ConfirmAlarmRequestSchema>;
 
+/**
+ * 解决告警请求 Schema
+ * 用于 POST /api/alarms/:id/resolve
+ */
+export const ResolveAlarmRequestSchema = z.object({
+  data: z.object({
+    solution: z.string().max(500, 'Solution cannot exceed 500 characters').optional(),
+  }),
+});
+export type ResolveAlarmRequest = z.infer<typeof ResolveAlarmRequestSchema>;
+
 /**
  * 未确认告警计数查询参数 Schema
  * 用于 GET /api/alarms/unconfirmed/count
@@ -146,6 +158,121 @@ export const UpdateAlarmContactsRequestSchema = z.object({
 });
 export type UpdateAlarmContactsRequest = z.infer<typeof UpdateAlarmContactsRequestSchema>;
 
+/**
+ * 更新接收告警级别请求 Schema
+ * 用于 PUT /api/alarms/config/levels
+ */
+export const UpdateAlarmLevelsRequestSchema = z.object({
+  data: z.object({
+    // 空数组表示接收全部级别
+    levels: z.array(z.enum(['info', 'warning', 'error', 'critical'])).max(4),
+  }),
+});
+export type UpdateAlarmLevelsRequest = z.infer<typeof UpdateAlarmLevelsRequestSchema>;
+
+/**
+ * 更新通知语言请求 Schema
+ * 用于 PUT /api/alarms/config/language
+ */
+export const UpdateNotificationLanguageRequestSchema = z.object({
+  data: z.object({
+    // 选择对应语言的通知模板
+    language: TemplateLanguageSchema,
+  }),
+});
+export type UpdateNotificationLanguageRequest = z.infer<typeof UpdateNotificationLanguageRequestSchema>;
+
+/**
+ * 时间 (HH:mm) Schema
+ */
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
+/**
+ * 更新免打扰时段请求 Schema
+ * 用于 PUT /api/alarms/config/quiet-hours
+ */
+export const UpdateQuietHoursRequestSchema = z.object({
+  data: z
+    .object({
+      enabled: z.boolean(),
+      // 结束时间早于开始时间表示跨午夜 (如 22:00 - 07:00)
+      start: TimeOfDaySchema,
+      end: TimeOfDaySchema,
+      // IANA 时区名称，不指定时使用服务器时区
+      timezone: z
+        .string()
+        .refine((timeZone) => {
+          try {
+            new Intl.DateTimeFormat('en-US', { timeZone });
+            return true;
+          } catch {
+            return false;
+          }
+        }, 'Invalid timezone')
+        .optional(),
+      // 严重告警是否不受免打扰限制
+      allowCritical: z.boolean().default(true),
+    })
+    .refine((data) => data.start !== data.end, {
+      message: 'Start and end time must differ',
+      path: ['end'],
+    }),
+});
+export type UpdateQuietHoursRequest = z.infer<typeof UpdateQuietHoursRequestSchema>;
+
+/**
+ * 更新通知汇总请求 Schema
+ * 用于 PUT /api/alarms/config/digest
+ */
+export const UpdateDigestRequestSchema = z.object({
+  data: z.object({
+    enabled: z.boolean(),
+    // 汇总窗口 (分钟)
+    windowMinutes: z.number().int().min(5).max(24 * 60).default(30),
+  }),
+});
+export type UpdateDigestRequest = z.infer<typeof UpdateDigestRequestSchema>;
+
+/**
+ * 告警静音设备路径参数 Schema
+ */
+export const AlarmMuteParamsSchema = z.object({
+  mac: z.string().regex(/^[0-9A-Fa-f]{12}$/, 'Invalid MAC address format'),
+});
+export type AlarmMuteParams = z.infer<typeof AlarmMuteParamsSchema>;
+
+/**
+ * 静音设备告警请求 Schema
+ * 用于 PUT /api/alarms/config/mutes/:mac
+ */
+export const MuteAlarmRequestSchema = z.object({
+  data: z.object({
+    // 不指定时静音整个终端
+    pid: z.number().int().min(0).optional(),
+
+    // 静音截止时间 (毫秒时间戳)，不指定时一直静音
+    until: z
+      .number()
+      .int()
+      .refine((val) => val > Date.now(), 'Mute end time must be in the future')
+      .optional(),
+  }),
+});
+export type MuteAlarmRequest = z.infer<typeof MuteAlarmRequestSchema>;
+
+/**
+ * 取消告警静音查询参数 Schema
+ * 用于 DELETE /api/alarms/config/mutes/:mac
+ */
+export const UnmuteAlarmQuerySchema = z.object({
+  pid: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : undefined))
+    .pipe(z.number().int().min(0).optional()),
+});
+export type UnmuteAlarmQuery = z.infer<typeof UnmuteAlarmQuerySchema>;
+
 /**
  * 批量操作告警请求 Schema
  * 用于批量确认或解决告警
@@ -35,3 +35,59 @@ export const GetDeviceDataQuerySchema = z.object({
   limit: stringToPositiveInt('100', 1000),
 });
 export type GetDeviceDataQuery = z.infer<typeof GetDeviceDataQuerySchema>;
+
+/**
+ * POST /api/devices/:mac/query - 即时查询参数
+ * - pid: 查询指定设备，省略时查询终端下全部挂载设备
+ * - timeout: 等待结果的超时时间 (ms)，省略时使用 IMMEDIATE_QUERY_TIMEOUT
+ */
+export const QueryDeviceQuerySchema = z.object({
+  pid: z
+    .string()
+    .optional()
+    .transform((val) => (val === undefined ? undefined : parseInt(val, 10)))
+    .pipe(z.number().int().min(0, 'PID 必须为非负整数').optional()),
+  timeout: z
+    .string()
+    .optional()
+    .transform((val) => (val === undefined ? undefined : parseInt(val, 10)))
+    .pipe(
+      z
+        .number()
+        .int()
+        .min(1000, '超时时间不能小于 1000ms')
+        .max(60000, '超时时间不能超过 60000ms')
+        .optional()
+    ),
+});
+export type QueryDeviceQuery = z.infer<typeof QueryDeviceQuerySchema>;
+
+/**
+ * 分时段查询计划 (服务器本地时间 HH:mm，end 小于 start 时跨零点)
+ */
+const PollScheduleWindowSchema = z.object({
+  start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, '开始时间格式应为 HH:mm'),
+  end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, '结束时间格式应为 HH:mm'),
+  intervalFactor: z
+    .number()
+    .min(0.1, '间隔倍数不能小于 0.1')
+    .max(100, '间隔倍数不能超过 100'),
+});
+
+/**
+ * PUT /api/devices/:mac/schedule - 更新挂载设备查询计划
+ * - priority: 查询优先级
+ * - pollSchedule: 分时段查询计划 (空数组表示清除)
+ */
+export const UpdateDeviceScheduleRequestSchema = z.object({
+  data: z
+    .object({
+      pid: z.number().int().min(0, 'PID 必须为非负整数'),
+      priority: z.enum(['high', 'normal', 'low']).optional(),
+      pollSchedule: z.array(PollScheduleWindowSchema).max(24, '最多 24 个时段').optional(),
+    })
+    .refine((data) => data.priority !== undefined || data.pollSchedule !== undefined, {
+      message: '至少需要提供 priority 或 pollSchedule',
+    }),
+});
+export type UpdateDeviceScheduleRequest = z.infer<typeof UpdateDeviceScheduleRequestSchema>;
@@ -16,6 +16,7 @@ export const DtuOperationTypeSchema = z.enum([
   'OprateInstruct',
   'setTerminal',
   'getTerminal',
+  'writeParameter',
 ]);
 
 /**
@@ -116,6 +117,18 @@ export const GetTerminalRequestSchema = z.object({
 });
 export type GetTerminalRequest = z.infer<typeof GetTerminalRequestSchema>;
 
+/**
+ * POST /api/dtu/write - 写入设备参数
+ */
+export const WriteParameterRequestSchema = z.object({
+  mac: MacAddressSchema,
+  pid: z.number().int().min(0, 'PID 不能为负数').max(255, 'PID 不能大于 255'),
+  parameter: z.string().min(1, '参数名称不能为空'),
+  value: z.number(),
+  readBack: z.boolean().optional().default(true),
+});
+export type WriteParameterRequest = z.infer<typeof WriteParameterRequestSchema>;
+
 // ========================================
 // GET Endpoints Query Schemas
 // ========================================
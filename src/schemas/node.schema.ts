@@ -0,0 +1,37 @@
+/**
+ * Node API 数据结构和验证 Schema
+ */
+
+import { z } from 'zod';
+import { stringToDate, stringToPositiveInt } from './common.schema';
+
+/**
+ * 节点名称路径参数 Schema
+ */
+export const NodeNameParamsSchema = z.object({
+  name: z.string().min(1, '节点名称不能为空'),
+});
+
+/**
+ * 节点连接数趋势查询参数 Schema (时间范围默认最近 24 小时)
+ */
+export const NodeConnectionsQuerySchema = z.object({
+  startTime: stringToDate(),
+  endTime: stringToDate(),
+  limit: stringToPositiveInt('1440', 10000),
+});
+
+/**
+ * 节点日志查询参数 Schema
+ */
+export const NodeLogsQuerySchema = z.object({
+  type: z.enum(['连接', '断开', 'TcpServer启动失败', '排空', '故障转移']).optional().describe('按日志类型过滤'),
+  limit: stringToPositiveInt('50', 500),
+});
+
+/**
+ * 类型导出
+ */
+export type NodeNameParams = z.infer<typeof NodeNameParamsSchema>;
+export type NodeConnectionsQuery = z.infer<typeof NodeConnectionsQuerySchema>;
+export type NodeLogsQuery = z.infer<typeof NodeLogsQuerySchema>;
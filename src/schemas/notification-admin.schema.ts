@@ -0,0 +1,18 @@
+/**
+ * Notification Admin API 数据结构和验证 Schema
+ */
+
+import { z } from 'zod';
+import { TimeRangeSchema } from './common.schema';
+
+/**
+ * 通知统计查询参数 Schema
+ */
+export const NotificationStatsQuerySchema = TimeRangeSchema.extend({
+  userId: z.string().min(1).optional().describe('按用户过滤 (告警设置中的用户名)'),
+});
+
+/**
+ * 类型导出
+ */
+export type NotificationStatsQuery = z.infer<typeof NotificationStatsQuerySchema>;
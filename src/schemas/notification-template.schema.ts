@@ -0,0 +1,130 @@
+/**
+ * Notification Templates API 数据结构和验证 Schema
+ */
+
+import { z } from 'zod';
+import { findUnknownPlaceholders } from '../services/notification/template-renderer';
+
+/**
+ * 模板渠道 Schema
+ */
+export const TemplateChannelSchema = z.enum(['wechat', 'sms', 'email']);
+
+/**
+ * 告警标签 Schema
+ */
+export const TemplateTagSchema = z.enum(['Threshold', 'AlarmStat', 'ups', 'timeout', 'offline', 'custom']);
+
+/**
+ * 语言 Schema (如 zh-CN、en-US、en)
+ */
+export const TemplateLanguageSchema = z
+  .string()
+  .regex(/^[a-z]{2,3}(-[A-Z][A-Za-z]{1,3})?$/, 'Invalid language tag (expected e.g. zh-CN, en-US)');
+
+/**
+ * 模板格式 Schema
+ */
+export const TemplateFormatSchema = z.enum(['text', 'html']);
+
+/**
+ * 模板文本 Schema (只允许支持的占位符)
+ */
+const templateText = (max: number) =>
+  z
+    .string()
+    .max(max)
+    .superRefine((text, ctx) => {
+      const unknown = findUnknownPlaceholders(text);
+      if (unknown.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown placeholders: ${unknown.join(', ')}`,
+        });
+      }
+    });
+
+/**
+ * 模板 ID 路径参数 Schema
+ */
+export const TemplateIdParamsSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid template ID format'),
+});
+
+/**
+ * 模板列表查询参数 Schema
+ */
+export const ListTemplatesQuerySchema = z.object({
+  channel: TemplateChannelSchema.optional(),
+  tag: TemplateTagSchema.optional(),
+  language: TemplateLanguageSchema.optional(),
+});
+
+/**
+ * 创建模板请求体 Schema
+ */
+export const CreateTemplateRequestSchema = z.object({
+  data: z
+    .object({
+      name: z.string().min(1, '模板名称不能为空').max(100),
+      channel: TemplateChannelSchema,
+      // 不指定时作为该渠道的通用模板
+      tag: TemplateTagSchema.optional(),
+      language: TemplateLanguageSchema.optional(),
+      subject: templateText(200).optional(),
+      body: templateText(10000).pipe(z.string().min(1, '模板正文不能为空')),
+      format: TemplateFormatSchema.optional(),
+      externalTemplateId: z.string().min(1).max(100).optional(),
+    })
+    .refine((data) => data.format !== 'html' || data.channel === 'email', {
+      message: 'HTML format is only supported for email templates',
+      path: ['format'],
+    }),
+});
+
+/**
+ * 更新模板请求体 Schema
+ */
+export const UpdateTemplateRequestSchema = z.object({
+  data: z.object({
+    name: z.string().min(1).max(100).optional(),
+    tag: TemplateTagSchema.optional(),
+    language: TemplateLanguageSchema.optional(),
+    subject: templateText(200).optional(),
+    body: templateText(10000).pipe(z.string().min(1)).optional(),
+    format: TemplateFormatSchema.optional(),
+    externalTemplateId: z.string().min(1).max(100).optional(),
+    enabled: z.boolean().optional(),
+  }),
+});
+
+/**
+ * 预览模板请求体 Schema
+ *
+ * 指定 id 预览已保存的模板，否则预览请求中的模板内容；
+ * 指定 alarmId 使用真实告警渲染，否则使用示例告警
+ */
+export const PreviewTemplateRequestSchema = z.object({
+  data: z
+    .object({
+      id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid template ID format').optional(),
+      subject: templateText(200).optional(),
+      body: templateText(10000).optional(),
+      format: TemplateFormatSchema.optional(),
+      language: TemplateLanguageSchema.optional(),
+      alarmId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid alarm ID format').optional(),
+    })
+    .refine((data) => data.id !== undefined || data.body !== undefined, {
+      message: 'Either id or body is required',
+      path: ['body'],
+    }),
+});
+
+/**
+ * 类型导出
+ */
+export type TemplateIdParams = z.infer<typeof TemplateIdParamsSchema>;
+export type ListTemplatesQuery = z.infer<typeof ListTemplatesQuerySchema>;
+export type CreateTemplateRequest = z.infer<typeof CreateTemplateRequestSchema>;
+export type UpdateTemplateRequest = z.infer<typeof UpdateTemplateRequestSchema>;
+export type PreviewTemplateRequest = z.infer<typeof PreviewTemplateRequestSchema>;
@@ -0,0 +1,32 @@
+/**
+ * Queue Admin API 数据结构和验证 Schema
+ */
+
+import { z } from 'zod';
+import { stringToPositiveInt } from './common.schema';
+
+/**
+ * 死信任务列表查询参数 Schema
+ */
+export const ListDeadLettersQuerySchema = z.object({
+  name: z.string().min(1).optional().describe('按任务名称过滤'),
+  limit: stringToPositiveInt('20', 100),
+  page: stringToPositiveInt('1'),
+});
+
+/**
+ * 死信任务批量操作请求体 Schema (ids 为空则作用于整个队列)
+ */
+export const DeadLetterBatchRequestSchema = z.object({
+  data: z
+    .object({
+      ids: z.array(z.string().min(1)).min(1).optional(),
+    })
+    .default({}),
+});
+
+/**
+ * 类型导出
+ */
+export type ListDeadLettersQuery = z.infer<typeof ListDeadLettersQuerySchema>;
+export type DeadLetterBatchRequest = z.infer<typeof DeadLetterBatchRequestSchema>;
@@ -0,0 +1,32 @@
+/**
+ * Scheduler Admin API 数据结构和验证 Schema
+ */
+
+import { z } from 'zod';
+import { stringToPositiveInt } from './common.schema';
+
+/**
+ * 调度状态列表查询参数 Schema
+ */
+export const ListSchedulesQuerySchema = z.object({
+  status: z
+    .enum([
+      'sent',
+      'not_due',
+      'backoff',
+      'awaiting_result',
+      'bus_busy',
+      'bus_share',
+      'immediate_query',
+      'device_busy',
+      'skipped',
+    ])
+    .optional()
+    .describe('按最近一次调度结论过滤'),
+  limit: stringToPositiveInt('100', 1000),
+});
+
+/**
+ * 类型导出
+ */
+export type ListSchedulesQuery = z.infer<typeof ListSchedulesQuerySchema>;
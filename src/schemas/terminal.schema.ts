@@ -9,6 +9,7 @@ import {
   MacAddressSchema,
   PaginationSchema,
   stringToBoolean,
+  stringToDate,
   stringToPositiveInt,
 } from './common.schema';
 
@@ -197,6 +198,40 @@ export const TerminalStatsQuerySchema = z.object({
 });
 export type TerminalStatsQuery = z.infer<typeof TerminalStatsQuerySchema>;
 
+// ============================================================================
+// 设备分享 Schemas
+// ============================================================================
+
+/**
+ * POST /api/terminals/:mac/shares - 创建分享邀请
+ */
+export const CreateShareRequestSchema = z.object({
+  data: z.object({
+    permissionLevel: z.enum(['read', 'write']),
+    pids: z.array(z.number().int().positive('PID 必须为正整数')).max(255).optional(),
+    expiresAt: stringToDate(),
+    remark: z.string().max(200, '备注不能超过 200 个字符').optional(),
+  }),
+});
+export type CreateShareRequest = z.infer<typeof CreateShareRequestSchema>;
+
+/**
+ * DELETE /api/terminals/:mac/shares/:shareId - 撤销分享邀请路由参数
+ */
+export const ShareIdParamsSchema = z.object({
+  mac: MacAddressSchema,
+  shareId: z.string().regex(/^[0-9a-fA-F]{24}$/, '无效的分享 ID'),
+});
+export type ShareIdParams = z.infer<typeof ShareIdParamsSchema>;
+
+/**
+ * POST /api/terminals/shares/:code/accept - 接受分享邀请路由参数
+ */
+export const ShareCodeParamsSchema = z.object({
+  code: z.string().min(1, '邀请码不能为空').max(64, '邀请码格式错误'),
+});
+export type ShareCodeParams = z.infer<typeof ShareCodeParamsSchema>;
+
 // ============================================================================
 // 辅助验证函数
 // ============================================================================
@@ -0,0 +1,89 @@
+/**
+ * Webhook Endpoints API 数据结构和验证 Schema
+ */
+
+import { z } from 'zod';
+import { AlarmLevelSchema } from './alarm-rules.schema';
+
+/**
+ * Webhook 事件 Schema
+ */
+export const WebhookEventSchema = z.enum(['alarm.triggered', 'alarm.acknowledged', 'alarm.resolved']);
+
+/**
+ * Webhook 接收地址 Schema (仅允许 HTTPS)
+ */
+export const WebhookUrlSchema = z
+  .string()
+  .url('Invalid webhook URL')
+  .refine((url) => url.startsWith('https://'), 'Webhook URL must use HTTPS');
+
+/**
+ * 签名密钥 Schema
+ */
+export const WebhookSecretSchema = z.string().min(16, '签名密钥至少 16 个字符').max(128);
+
+/**
+ * 终端 MAC 列表 Schema
+ */
+const WebhookMacsSchema = z
+  .array(z.string().regex(/^[0-9A-Fa-f]{12}$/, 'Invalid MAC address format'))
+  .max(100);
+
+/**
+ * Webhook 端点 ID 路径参数 Schema
+ */
+export const WebhookIdParamsSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid webhook ID format'),
+});
+
+/**
+ * 创建 Webhook 端点请求体 Schema
+ */
+export const CreateWebhookRequestSchema = z.object({
+  data: z.object({
+    name: z.string().min(1, '端点名称不能为空').max(100),
+    url: WebhookUrlSchema,
+    // 不指定时自动生成，仅在创建时返回一次
+    secret: WebhookSecretSchema.optional(),
+    events: z.array(WebhookEventSchema).min(1).optional(),
+    macs: WebhookMacsSchema.optional(),
+    levels: z.array(AlarmLevelSchema).optional(),
+    // 全局端点接收全部设备的告警 (仅管理员)
+    global: z.boolean().optional(),
+  }),
+});
+
+/**
+ * 更新 Webhook 端点请求体 Schema
+ */
+export const UpdateWebhookRequestSchema = z.object({
+  data: z.object({
+    name: z.string().min(1).max(100).optional(),
+    url: WebhookUrlSchema.optional(),
+    secret: WebhookSecretSchema.optional(),
+    events: z.array(WebhookEventSchema).min(1).optional(),
+    macs: WebhookMacsSchema.optional(),
+    levels: z.array(AlarmLevelSchema).optional(),
+    enabled: z.boolean().optional(),
+  }),
+});
+
+/**
+ * 投递记录查询参数 Schema
+ */
+export const WebhookDeliveriesQuerySchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 20))
+    .pipe(z.number().int().min(1).max(100)),
+});
+
+/**
+ * 类型导出
+ */
+export type WebhookIdParams = z.infer<typeof WebhookIdParamsSchema>;
+export type CreateWebhookRequest = z.infer<typeof CreateWebhookRequestSchema>;
+export type UpdateWebhookRequest = z.infer<typeof UpdateWebhookRequestSchema>;
+export type WebhookDeliveriesQuery = z.infer<typeof WebhookDeliveriesQuerySchema>;
@@ -8,9 +8,16 @@ import type { Db, ObjectId } from 'mongodb';
 import {
   Phase3Collections,
   type AlarmDocument,
+  type AlarmLevel,
+  type AlarmMute,
+  type AlarmStatus,
+  type DigestSettings,
+  type QuietHours,
   type UserAlarmSetupDocument,
   acknowledgeAlarm,
   resolveAlarm,
+  alarmStatusesAllowing,
+  canTransitionAlarm,
 } from '../entities/mongodb';
 
 /**
@@ -239,6 +246,26 @@ export class AlarmApiService {
   // 告警操作
   // ============================================================================
 
+  /**
+   * 检查告警状态流转 (见 ALARM_STATUS_TRANSITIONS)
+   * @param id 告警 ID
+   * @param to 目标状态
+   * @returns 不允许流转的原因，允许时返回 null
+   */
+  async getTransitionError(id: ObjectId, to: AlarmStatus): Promise<string | null> {
+    const alarm = await this.collections.alarms.findOne({ _id: id });
+
+    if (!alarm) {
+      return '告警不存在';
+    }
+
+    if (!canTransitionAlarm(alarm.status, to)) {
+      return `告警当前状态为 ${alarm.status}，不能变更为 ${to}`;
+    }
+
+    return null;
+  }
+
   /**
    * 确认告警
    * @param id 告警 ID
@@ -254,7 +281,7 @@ export class AlarmApiService {
     const update = acknowledgeAlarm(userId, comment);
 
     const result = await this.collections.alarms.updateOne(
-      { _id: id, status: 'active' },
+      { _id: id, status: { $in: alarmStatusesAllowing('acknowledged') } },
       { $set: update }
     );
 
@@ -276,7 +303,7 @@ export class AlarmApiService {
     const update = acknowledgeAlarm(userId, comment);
 
     const result = await this.collections.alarms.updateMany(
-      { _id: { $in: ids }, status: 'active' },
+      { _id: { $in: ids }, status: { $in: alarmStatusesAllowing('acknowledged') } },
       { $set: update }
     );
 
@@ -298,7 +325,7 @@ export class AlarmApiService {
     const update = resolveAlarm(userId, solution);
 
     const result = await this.collections.alarms.updateOne(
-      { _id: id, status: { $in: ['active', 'acknowledged'] } },
+      { _id: id, status: { $in: alarmStatusesAllowing('resolved') } },
       { $set: update }
     );
 
@@ -320,7 +347,7 @@ export class AlarmApiService {
     const update = resolveAlarm(userId, solution);
 
     const result = await this.collections.alarms.updateMany(
-      { _id: { $in: ids }, status: { $in: ['active', 'acknowledged'] } },
+      { _id: { $in: ids }, status: { $in: alarmStatusesAllowing('resolved') } },
       { $set: update }
     );
 
@@ -385,6 +412,125 @@ export class AlarmApiService {
     return result.matchedCount > 0 || result.upsertedCount > 0;
   }
 
+  /**
+   * 更新接收的告警级别
+   * @param user 用户名
+   * @param levels 告警级别 (空数组表示接收全部级别)
+   * @returns 是否成功
+   */
+  async updateAlarmLevels(user: string, levels: AlarmLevel[]): Promise<boolean> {
+    const result = await this.collections.userAlarmSetups.updateOne(
+      { user },
+      { $set: { alarmLevels: levels, updatedAt: new Date() } },
+      { upsert: true }
+    );
+
+    return result.matchedCount > 0 || result.upsertedCount > 0;
+  }
+
+  /**
+   * 更新通知语言
+   * @param user 用户名
+   * @param language 语言 (如 zh-CN、en-US)
+   * @returns 是否成功
+   */
+  async updateNotificationLanguage(user: string, language: string): Promise<boolean> {
+    const result = await this.collections.userAlarmSetups.updateOne(
+      { user },
+      { $set: { language, updatedAt: new Date() } },
+      { upsert: true }
+    );
+
+    return result.matchedCount > 0 || result.upsertedCount > 0;
+  }
+
+  /**
+   * 更新免打扰时段
+   * @param user 用户名
+   * @param quietHours 免打扰时段
+   * @returns 是否成功
+   */
+  async updateQuietHours(user: string, quietHours: QuietHours): Promise<boolean> {
+    const result = await this.collections.userAlarmSetups.updateOne(
+      { user },
+      { $set: { quietHours, updatedAt: new Date() } },
+      { upsert: true }
+    );
+
+    return result.matchedCount > 0 || result.upsertedCount > 0;
+  }
+
+  /**
+   * 更新通知汇总设置
+   * @param user 用户名
+   * @param digest 汇总设置
+   * @returns 是否成功
+   */
+  async updateDigestSettings(user: string, digest: DigestSettings): Promise<boolean> {
+    const result = await this.collections.userAlarmSetups.updateOne(
+      { user },
+      { $set: { digest, updatedAt: new Date() } },
+      { upsert: true }
+    );
+
+    return result.matchedCount > 0 || result.upsertedCount > 0;
+  }
+
+  /**
+   * 静音设备告警 (同一设备重复静音时覆盖原设置)
+   * @param user 用户名
+   * @param mute 静音设置
+   * @returns 更新后的静音列表
+   */
+  async muteDevice(user: string, mute: Omit<AlarmMute, 'createdAt'>): Promise<AlarmMute[]> {
+    const setup = await this.collections.userAlarmSetups.findOne({ user });
+    const mac = mute.mac.toUpperCase();
+
+    const mutes: AlarmMute[] = [
+      ...(setup?.mutes ?? []).filter((item) => !(item.mac === mac && item.pid === mute.pid)),
+      { ...mute, mac, createdAt: new Date() },
+    ];
+
+    await this.collections.userAlarmSetups.updateOne(
+      { user },
+      { $set: { mutes, updatedAt: new Date() } },
+      { upsert: true }
+    );
+
+    return mutes;
+  }
+
+  /**
+   * 取消设备告警静音
+   * @param user 用户名
+   * @param mac 终端 MAC
+   * @param pid 挂载设备 PID (不指定时取消该终端的全部静音)
+   * @returns 取消的静音数量
+   */
+  async unmuteDevice(user: string, mac: string, pid?: number): Promise<number> {
+    const setup = await this.collections.userAlarmSetups.findOne({ user });
+    if (!setup?.mutes?.length) {
+      return 0;
+    }
+
+    const normalizedMac = mac.toUpperCase();
+    const mutes = setup.mutes.filter(
+      (item) => !(item.mac === normalizedMac && (pid === undefined || item.pid === pid))
+    );
+
+    const removed = setup.mutes.length - mutes.length;
+    if (removed === 0) {
+      return 0;
+    }
+
+    await this.collections.userAlarmSetups.updateOne(
+      { user },
+      { $set: { mutes, updatedAt: new Date() } }
+    );
+
+    return removed;
+  }
+
   // ============================================================================
   // 告警检查（内部使用）
   // ============================================================================
@@ -0,0 +1,207 @@
+/**
+ * Alarm Escalation Service
+ *
+ * 负责告警升级：
+ * - 告警触发时按规则/协议匹配升级策略
+ * - 通过队列延迟任务在 N 分钟后检查告警是否已确认
+ * - 未确认则通知对应层级，按间隔重复直到次数上限
+ * - 告警确认/解决后停止升级
+ *
+ * 使用 MongoDB 实体持久化升级策略
+ */
+
+import { ObjectId, type Db } from 'mongodb';
+import {
+  Phase3Collections,
+  type AlarmDocument,
+  type EscalationPolicyDocument,
+} from '../entities/mongodb';
+import type { QueueService } from './queue/queue.interface';
+import type { AlarmNotificationService } from './alarm-notification.service';
+
+/**
+ * 升级任务队列名称
+ */
+export const ESCALATION_QUEUE = 'escalations';
+
+/**
+ * 升级任务数据
+ */
+export interface EscalationJob {
+  /** 告警 ID */
+  alarmId: string;
+  /** 升级策略 ID */
+  policyId: string;
+  /** 层级序号 (从 0 开始) */
+  tierIndex: number;
+  /** 该层级第几次通知 (从 1 开始) */
+  sequence: number;
+}
+
+/**
+ * 升级任务处理结果
+ */
+export interface EscalationResult {
+  /** 是否发送了升级通知 */
+  notified: boolean;
+  /** 未通知的原因 */
+  reason?: string;
+}
+
+/**
+ * Alarm Escalation Service
+ */
+export class AlarmEscalationService {
+  /** MongoDB 集合访问器 */
+  private collections: Phase3Collections;
+
+  constructor(
+    db: Db,
+    private queueService: QueueService,
+    private notificationService: AlarmNotificationService
+  ) {
+    this.collections = new Phase3Collections(db);
+
+    // 注册升级任务处理器
+    this.queueService.registerProcessor<EscalationJob>(ESCALATION_QUEUE, (job) =>
+      this.processEscalation(job.data)
+    );
+
+    console.log('[AlarmEscalation] Service initialized');
+  }
+
+  /**
+   * 为新触发的告警安排升级任务
+   *
+   * @param alarm - 已持久化的告警
+   * @returns 使用的升级策略，无匹配策略时返回 null
+   */
+  async scheduleEscalation(alarm: AlarmDocument): Promise<EscalationPolicyDocument | null> {
+    if (!alarm._id) return null;
+
+    const policy = await this.findPolicy(alarm);
+    if (!policy) return null;
+
+    for (let tierIndex = 0; tierIndex < policy.tiers.length; tierIndex++) {
+      await this.enqueue(
+        { alarmId: alarm._id.toString(), policyId: policy._id!.toString(), tierIndex, sequence: 1 },
+        policy.tiers[tierIndex]!.afterMinutes
+      );
+    }
+
+    console.log(
+      `[AlarmEscalation] Scheduled ${policy.tiers.length} tiers for alarm ${alarm._id} (policy: ${policy.name})`
+    );
+
+    return policy;
+  }
+
+  /**
+   * 处理升级任务
+   *
+   * 告警已确认/解决或策略被禁用时停止升级
+   */
+  async processEscalation(job: EscalationJob): Promise<EscalationResult> {
+    const alarm = await this.collections.alarms.findOne({ _id: new ObjectId(job.alarmId) });
+    if (!alarm) {
+      return { notified: false, reason: 'alarm not found' };
+    }
+
+    if (alarm.status !== 'active') {
+      console.log(`[AlarmEscalation] Alarm ${job.alarmId} is ${alarm.status}, escalation stopped`);
+      return { notified: false, reason: `alarm ${alarm.status}` };
+    }
+
+    const policy = await this.collections.escalationPolicies.findOne({
+      _id: new ObjectId(job.policyId),
+    });
+    const tier = policy?.tiers[job.tierIndex];
+    if (!policy || !policy.enabled || !tier) {
+      return { notified: false, reason: 'policy disabled' };
+    }
+
+    await this.notificationService.sendEscalationNotification(alarm, tier, job.tierIndex, job.sequence);
+
+    // 安排下一次重复通知
+    if (tier.repeatMinutes && job.sequence < (tier.maxNotifications ?? 1)) {
+      await this.enqueue({ ...job, sequence: job.sequence + 1 }, tier.repeatMinutes);
+    }
+
+    return { notified: true };
+  }
+
+  /**
+   * 获取升级策略列表
+   */
+  async getPolicies(filter: Partial<EscalationPolicyDocument> = {}): Promise<EscalationPolicyDocument[]> {
+    return await this.collections.escalationPolicies.find(filter).toArray();
+  }
+
+  /**
+   * 添加升级策略
+   */
+  async addPolicy(policy: EscalationPolicyDocument): Promise<ObjectId> {
+    const result = await this.collections.escalationPolicies.insertOne(policy);
+    console.log(`[AlarmEscalation] Added policy: ${policy.name} (${result.insertedId})`);
+    return result.insertedId;
+  }
+
+  /**
+   * 更新升级策略
+   *
+   * @returns 是否找到策略
+   */
+  async updatePolicy(id: string, updates: Partial<EscalationPolicyDocument>): Promise<boolean> {
+    const result = await this.collections.escalationPolicies.updateOne(
+      { _id: new ObjectId(id) },
+      { $set: { ...updates, updatedAt: new Date() } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * 删除升级策略 (已排队的升级任务在执行时因策略不存在而停止)
+   *
+   * @returns 是否删除
+   */
+  async deletePolicy(id: string): Promise<boolean> {
+    const result = await this.collections.escalationPolicies.deleteOne({ _id: new ObjectId(id) });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * 匹配告警的升级策略
+   *
+   * 规则绑定的策略优先，其次按协议匹配；策略需启用且包含告警级别
+   */
+  private async findPolicy(alarm: AlarmDocument): Promise<EscalationPolicyDocument | null> {
+    if (alarm.parentId && ObjectId.isValid(alarm.parentId)) {
+      const rule = await this.collections.alarmRules.findOne({ _id: new ObjectId(alarm.parentId) });
+      if (rule?.escalationPolicyId && ObjectId.isValid(rule.escalationPolicyId)) {
+        const policy = await this.collections.escalationPolicies.findOne({
+          _id: new ObjectId(rule.escalationPolicyId),
+          enabled: true,
+        });
+        if (policy) {
+          return policy.levels.includes(alarm.level) ? policy : null;
+        }
+      }
+    }
+
+    return await this.collections.escalationPolicies.findOne({
+      protocols: alarm.protocol,
+      levels: alarm.level,
+      enabled: true,
+    });
+  }
+
+  /**
+   * 加入延迟任务
+   */
+  private async enqueue(job: EscalationJob, delayMinutes: number): Promise<void> {
+    await this.queueService.addJob(ESCALATION_QUEUE, 'alarm_escalation', job, {
+      delay: delayMinutes * 60 * 1000,
+      attempts: 3,
+    });
+  }
+}
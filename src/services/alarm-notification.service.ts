@@ -5,33 +5,78 @@
  * - 微信模板消息
  * - 短信通知
  * - 邮件通知
+ * - Webhook 推送 (告警触发、确认、解决事件，签名后经队列指数退避重试)
+ * - 按渠道、告警标签和用户语言渲染通知模板
+ * - 告警恢复通知
+ * - 告警升级通知
+ * - 按设备所有权、告警级别和静音设置筛选接收人
+ * - 免打扰时段 (推迟到时段结束) 和非严重告警汇总 (窗口内合并为一条通知)
+ * - 按用户、设备和整个部署限流，短信月度预算 (超出时记录日志，不再发送)
  * - 通知去重
  * - 通知日志持久化
  *
  * 使用 MongoDB 实体持久化数据
  */
 
-import type { Db, ObjectId } from 'mongodb';
+import { ObjectId, type Db } from 'mongodb';
 import {
   Phase3Collections,
   type AlarmDocument,
   type AlarmLevel,
+  type AlarmTag,
+  type DigestAlarmEntry,
+  type DigestSettings,
+  type QuietHours,
+  type SuppressReason,
+  type TemplateChannel,
+  type EscalationTier,
   type NotificationChannel,
+  type UserAlarmSetupDocument,
+  type WebhookEndpointDocument,
+  type WebhookEvent,
   createWechatLog,
   createSmsLog,
   createEmailLog,
+  createWebhookLog,
+  createSuppressedLog,
+  createAlarm,
+  getQuietHoursRemaining,
+  toDigestEntry,
   markLogSuccess,
   markLogError,
+  isAlarmMuted,
+  isWebhookSubscribed,
+  UserRole,
 } from '../entities/mongodb';
+import { DevicePermissionService } from './device-permission.service';
+import { NotificationTemplateService, type RenderedNotification } from './notification-template.service';
+import { NotificationLimiterService, type SmsBudgetStatus } from './notification-limiter.service';
 import type { QueueService } from './queue/queue.interface';
 import { wechatService, type WechatTemplateParams } from './notification/wechat.service';
 import { smsService, type SmsParams } from './notification/sms.service';
 import { emailService, type EmailParams } from './notification/email.service';
+import { webhookService, WebhookDeliveryError } from './notification/webhook.service';
+import { formatDigestMessage } from './notification/template-renderer';
 
 // Type aliases for consistency
 type WechatParams = WechatTemplateParams;
 type MailParams = EmailParams;
 
+/**
+ * 全部告警级别 (用户未设置级别过滤时接收全部)
+ */
+const ALL_ALARM_LEVELS: AlarmLevel[] = ['info', 'warning', 'error', 'critical'];
+
+/**
+ * Webhook 最大投递次数 (含首次)
+ */
+const WEBHOOK_MAX_ATTEMPTS = 6;
+
+/**
+ * Webhook 重试退避基础间隔 (毫秒)，依次为 5s、10s、20s、40s、80s
+ */
+const WEBHOOK_BACKOFF = 5000;
+
 /**
  * 用户通知偏好
  */
@@ -48,6 +93,12 @@ export interface UserNotificationPreference {
   phones: string[];
   /** 邮箱列表 */
   emails: string[];
+  /** 通知语言 (为空使用默认语言) */
+  language?: string;
+  /** 免打扰时段 */
+  quietHours?: QuietHours;
+  /** 通知汇总设置 */
+  digest?: DigestSettings;
 }
 
 /**
@@ -65,7 +116,17 @@ export interface NotificationJob {
     wechatOpenIds?: string[];
     phones?: string[];
     emails?: string[];
+    /** Webhook 端点 ID (投递时重新读取端点，停用或删除后不再投递) */
+    webhookId?: string;
   };
+  /** Webhook 事件类型 (仅 webhook 渠道) */
+  event?: WebhookEvent;
+  /** 通知语言 (选择通知模板) */
+  language?: string;
+  /** 汇总 ID (汇总任务发送时读取累积的告警，alarm 为汇总的首条告警) */
+  digestId?: string;
+  /** 免打扰时段 (汇总任务发送前重新检查) */
+  quietHours?: QuietHours;
 }
 
 /**
@@ -82,6 +143,8 @@ export interface NotificationResult {
   sentAt: Date;
   /** 日志 ID */
   logId?: ObjectId;
+  /** 被限流或短信预算抑制的原因 (未发送，不再重试) */
+  suppressed?: SuppressReason;
 }
 
 /**
@@ -94,6 +157,15 @@ export class AlarmNotificationService {
   /** 队列服务 */
   private queueService?: QueueService;
 
+  /** 设备权限服务 (解析设备所有者) */
+  private devicePermissions: DevicePermissionService;
+
+  /** 通知模板服务 */
+  private templates: NotificationTemplateService;
+
+  /** 通知限流和短信预算 */
+  private limiter: NotificationLimiterService;
+
   /** 通知去重缓存 (key: userId:alarmId, value: last sent time) */
   private notificationCache: Map<string, number> = new Map();
 
@@ -103,12 +175,20 @@ export class AlarmNotificationService {
   constructor(db: Db, queueService?: QueueService) {
     this.collections = new Phase3Collections(db);
     this.queueService = queueService;
+    this.devicePermissions = new DevicePermissionService(db);
+    this.templates = new NotificationTemplateService(db);
+    this.limiter = new NotificationLimiterService(db);
 
     // 注册通知处理器
     if (this.queueService) {
-      this.queueService.registerProcessor('notifications', (job) =>
-        this.processNotification(job.data as NotificationJob)
-      );
+      this.queueService.registerProcessor('notifications', async (job) => {
+        const result = await this.processNotification(job.data as NotificationJob, job.attempts ?? 0);
+        // 发送失败时抛出，由队列重试，重试耗尽后进入死信
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        return result;
+      });
     }
 
     console.log('[AlarmNotification] Service initialized');
@@ -122,6 +202,106 @@ export class AlarmNotificationService {
   async sendAlarmNotification(alarm: AlarmDocument): Promise<void> {
     console.log(`[AlarmNotification] Processing alarm: ${alarm.msg}`);
 
+    await this.notifySubscribers(alarm, alarm._id?.toString() || '');
+    await this.sendWebhookEvent('alarm.triggered', alarm);
+  }
+
+  /**
+   * 发送告警恢复通知
+   *
+   * 使用恢复说明 (resolutionNote) 作为消息内容，与告警通知分开去重
+   *
+   * @param alarm - 已恢复的告警对象
+   */
+  async sendRecoveryNotification(alarm: AlarmDocument): Promise<void> {
+    const msg = alarm.resolutionNote || `${alarm.msg} 已恢复正常`;
+    console.log(`[AlarmNotification] Processing recovery: ${msg}`);
+
+    await this.notifySubscribers({ ...alarm, msg }, `${alarm._id?.toString() || ''}:recovery`);
+    await this.sendWebhookEvent('alarm.resolved', alarm);
+  }
+
+  /**
+   * 推送告警事件到 Webhook 端点
+   *
+   * 用户注册的端点只接收其绑定设备的告警，全局端点接收全部告警；
+   * 每个端点一个队列任务，失败后按指数退避重试
+   *
+   * @param event - 事件类型
+   * @param alarm - 告警对象
+   */
+  async sendWebhookEvent(event: WebhookEvent, alarm: AlarmDocument): Promise<void> {
+    try {
+      const endpoints = (
+        await this.collections.webhookEndpoints.find({ enabled: true, events: event }).toArray()
+      ).filter((endpoint) => isWebhookSubscribed(endpoint, event, alarm));
+
+      if (endpoints.length === 0) {
+        return;
+      }
+
+      const owners = [...new Set(endpoints.flatMap((endpoint) => (endpoint.owner ? [endpoint.owner] : [])))];
+      const numericPid = Number(alarm.pid);
+      const deviceOwners = new Set(
+        await this.devicePermissions.filterDeviceOwners(
+          owners,
+          alarm.mac,
+          Number.isInteger(numericPid) ? numericPid : undefined
+        )
+      );
+
+      for (const endpoint of endpoints) {
+        if (endpoint.owner && !deviceOwners.has(endpoint.owner)) {
+          continue;
+        }
+        await this.queueWebhook(event, alarm, endpoint);
+      }
+    } catch (error) {
+      console.error(`[AlarmNotification] Error dispatching ${event} webhooks:`, error);
+    }
+  }
+
+  /**
+   * 发送告警升级通知
+   *
+   * 通知升级层级指定的用户 (不经过订阅匹配和去重)
+   *
+   * @param alarm - 未确认的告警对象
+   * @param tier - 升级层级
+   * @param tierIndex - 层级序号 (从 0 开始)
+   * @param sequence - 该层级第几次通知 (从 1 开始)
+   */
+  async sendEscalationNotification(
+    alarm: AlarmDocument,
+    tier: EscalationTier,
+    tierIndex: number,
+    sequence: number
+  ): Promise<void> {
+    const msg = `【升级 L${tierIndex + 1}${sequence > 1 ? ` 第${sequence}次` : ''}】${alarm.msg} (未确认)`;
+    console.log(`[AlarmNotification] Processing escalation: ${msg}`);
+
+    const userSetups = await this.collections.userAlarmSetups
+      .find({ user: { $in: tier.users } })
+      .toArray();
+
+    for (const user of userSetups.map((setup) => this.toNotificationPreference(setup))) {
+      const channels = tier.channels?.length
+        ? user.channels.filter((channel) => tier.channels!.includes(channel))
+        : user.channels;
+
+      for (const channel of channels) {
+        await this.queueNotification({ ...alarm, msg }, user, channel);
+      }
+    }
+  }
+
+  /**
+   * 向订阅用户分发通知
+   *
+   * @param alarm - 告警对象
+   * @param dedupId - 去重标识
+   */
+  private async notifySubscribers(alarm: AlarmDocument, dedupId: string): Promise<void> {
     // 1. 获取订阅该设备告警的用户
     const subscribers = await this.getAlarmSubscribers(alarm.mac, alarm.pid, alarm.protocol);
 
@@ -133,6 +313,7 @@ export class AlarmNotificationService {
     console.log(`[AlarmNotification] Found ${subscribers.length} subscribers`);
 
     // 2. 为每个用户创建通知任务
+    const now = new Date();
     for (const user of subscribers) {
       // 检查用户是否订阅该告警级别
       if (!user.alarmLevels.includes(alarm.level)) {
@@ -143,25 +324,34 @@ export class AlarmNotificationService {
       }
 
       // 检查去重
-      if (!this.shouldSendNotification(user.userId, alarm._id?.toString() || '')) {
+      if (!this.shouldSendNotification(user.userId, dedupId)) {
         console.log(`[AlarmNotification] Notification deduplicated for user ${user.userId}`);
         continue;
       }
 
+      // 免打扰时段内推迟发送，开启汇总时非严重告警合并发送
+      const quietDelay = this.getQuietDelay(user, alarm.level, now);
+      const digest = user.digest?.enabled && alarm.level !== 'critical';
+
       // 根据用户偏好选择通知渠道
       for (const channel of user.channels) {
-        await this.queueNotification(alarm, user, channel);
+        if (digest && channel !== 'webhook') {
+          await this.addToDigest(alarm, user, channel, quietDelay);
+        } else {
+          await this.queueNotification(alarm, user, channel, quietDelay);
+        }
       }
 
       // 记录通知发送时间
-      this.recordNotificationSent(user.userId, alarm._id?.toString() || '');
+      this.recordNotificationSent(user.userId, dedupId);
     }
   }
 
   /**
    * 获取告警订阅用户 (从 MongoDB 查询)
    *
-   * 查询 user.alarmsetups 集合,找到订阅了该协议的用户
+   * 查询 user.alarmsetups 集合找到订阅了该协议的用户，
+   * 只保留绑定了该设备 (含挂载设备授权范围) 且未静音该设备的用户
    */
   private async getAlarmSubscribers(
     mac: string,
@@ -180,26 +370,31 @@ export class AlarmNotificationService {
 
       console.log(`[AlarmNotification] Found ${userSetups.length} potential subscribers`);
 
-      // 转换为 UserNotificationPreference 格式
-      const subscribers: UserNotificationPreference[] = userSetups.map((setup) => {
-        // 确定启用的通知渠道
-        const channels: NotificationChannel[] = [];
-        if (setup.wxs && setup.wxs.length > 0) channels.push('wechat');
-        if (setup.tels && setup.tels.length > 0) channels.push('sms');
-        if (setup.mails && setup.mails.length > 0) channels.push('email');
-
-        // 默认订阅所有级别的告警
-        const alarmLevels: AlarmLevel[] = ['info', 'warning', 'error', 'critical'];
-
-        return {
-          userId: setup.user,
-          channels,
-          alarmLevels,
-          wechatOpenIds: setup.wxs || [],
-          phones: setup.tels || [],
-          emails: setup.mails || [],
-        };
-      });
+      if (userSetups.length === 0) {
+        return [];
+      }
+
+      // 与设备绑定取交集
+      const numericPid = Number(pid);
+      const owners = new Set(
+        await this.devicePermissions.filterDeviceOwners(
+          userSetups.map((setup) => setup.user),
+          mac,
+          Number.isInteger(numericPid) ? numericPid : undefined
+        )
+      );
+
+      const now = new Date();
+      const subscribers = userSetups
+        .filter((setup) => owners.has(setup.user))
+        .filter((setup) => {
+          if (isAlarmMuted(setup, mac, pid, now)) {
+            console.log(`[AlarmNotification] User ${setup.user} muted ${mac}:${pid}`);
+            return false;
+          }
+          return true;
+        })
+        .map((setup) => this.toNotificationPreference(setup));
 
       return subscribers;
     } catch (error) {
@@ -208,13 +403,54 @@ export class AlarmNotificationService {
     }
   }
 
+  /**
+   * 将用户告警设置转换为通知偏好
+   */
+  private toNotificationPreference(setup: UserAlarmSetupDocument): UserNotificationPreference {
+    // 确定启用的通知渠道
+    const channels: NotificationChannel[] = [];
+    if (setup.wxs && setup.wxs.length > 0) channels.push('wechat');
+    if (setup.tels && setup.tels.length > 0) channels.push('sms');
+    if (setup.mails && setup.mails.length > 0) channels.push('email');
+
+    // 未设置级别过滤时订阅所有级别的告警
+    const alarmLevels = setup.alarmLevels?.length ? setup.alarmLevels : ALL_ALARM_LEVELS;
+
+    return {
+      userId: setup.user,
+      channels,
+      alarmLevels,
+      wechatOpenIds: setup.wxs || [],
+      phones: setup.tels || [],
+      emails: setup.mails || [],
+      language: setup.language,
+      quietHours: setup.quietHours,
+      digest: setup.digest,
+    };
+  }
+
+  /**
+   * 获取免打扰推迟时间 (毫秒)
+   *
+   * 严重告警默认不受免打扰限制 (用户可关闭 allowCritical)
+   */
+  private getQuietDelay(user: UserNotificationPreference, level: AlarmLevel, now: Date): number {
+    if (level === 'critical' && user.quietHours?.allowCritical !== false) {
+      return 0;
+    }
+    return getQuietHoursRemaining(user.quietHours, now);
+  }
+
   /**
    * 将通知任务加入队列
+   *
+   * @param delay - 推迟发送时间 (毫秒，免打扰时段)
    */
   private async queueNotification(
     alarm: AlarmDocument,
     user: UserNotificationPreference,
-    channel: NotificationChannel
+    channel: NotificationChannel,
+    delay = 0
   ): Promise<void> {
     const job: NotificationJob = {
       alarm,
@@ -225,6 +461,7 @@ export class AlarmNotificationService {
         phones: user.phones,
         emails: user.emails,
       },
+      language: user.language,
     };
 
     if (this.queueService) {
@@ -232,51 +469,279 @@ export class AlarmNotificationService {
       await this.queueService.addJob('notifications', 'alarm_notification', job, {
         priority: this.getPriority(alarm.level),
         attempts: 3, // 重试 3 次
+        delay: delay || undefined,
       });
 
       console.log(
-        `[AlarmNotification] Queued ${channel} notification for user ${user.userId}`
+        `[AlarmNotification] Queued ${channel} notification for user ${user.userId}` +
+          (delay ? ` (quiet hours, deferred ${Math.ceil(delay / 60_000)} min)` : '')
       );
     } else {
-      // 无队列服务，直接处理
+      // 无队列服务，直接处理 (无法推迟)
+      await this.processNotification(job);
+    }
+  }
+
+  /**
+   * 将告警加入用户汇总
+   *
+   * 首条告警创建汇总并加入延迟任务 (汇总窗口和免打扰时段结束后发送)，
+   * 后续告警追加到同一汇总
+   *
+   * @param quietDelay - 免打扰推迟时间 (毫秒)
+   */
+  private async addToDigest(
+    alarm: AlarmDocument,
+    user: UserNotificationPreference,
+    channel: TemplateChannel,
+    quietDelay: number
+  ): Promise<void> {
+    if (!this.queueService) {
+      // 无队列服务时无法延迟发送，按单条通知处理
+      await this.queueNotification(alarm, user, channel, quietDelay);
+      return;
+    }
+
+    const now = new Date();
+    const delay = Math.max(user.digest!.windowMinutes * 60_000, quietDelay);
+    const append = () =>
+      this.collections.notificationDigests.updateOne(
+        { user: user.userId, channel, status: 'open' },
+        {
+          $push: { alarms: toDigestEntry(alarm) },
+          $set: { updatedAt: now },
+          $setOnInsert: { flushAt: new Date(now.getTime() + delay), createdAt: now },
+        },
+        { upsert: true }
+      );
+
+    // 并发创建时唯一索引冲突，重试一次追加到已创建的汇总
+    const result = await append().catch((error) => {
+      if (error?.code === 11000) {
+        return append();
+      }
+      throw error;
+    });
+
+    if (!result.upsertedId) {
+      console.log(`[AlarmNotification] Added alarm to ${channel} digest for user ${user.userId}`);
+      return;
+    }
+
+    const job: NotificationJob = {
+      alarm,
+      userId: user.userId,
+      channel,
+      contact: {
+        wechatOpenIds: user.wechatOpenIds,
+        phones: user.phones,
+        emails: user.emails,
+      },
+      language: user.language,
+      digestId: result.upsertedId.toString(),
+      quietHours: user.quietHours,
+    };
+
+    await this.queueService.addJob('notifications', 'digest_notification', job, {
+      priority: this.getPriority(alarm.level),
+      attempts: 3,
+      delay,
+    });
+
+    console.log(
+      `[AlarmNotification] Opened ${channel} digest for user ${user.userId}, ` +
+        `sending in ${Math.ceil(delay / 60_000)} min`
+    );
+  }
+
+  /**
+   * 发送汇总通知
+   *
+   * 仍在免打扰时段内时推迟到时段结束 (期间的告警继续追加到同一汇总)；
+   * 发送成功后删除汇总，失败时保留汇总由队列重试
+   */
+  private async processDigest(job: NotificationJob, attempt: number): Promise<NotificationResult> {
+    const digestId = new ObjectId(job.digestId);
+    const quietDelay = getQuietHoursRemaining(job.quietHours);
+
+    if (quietDelay > 0 && this.queueService) {
+      const result = await this.collections.notificationDigests.updateOne(
+        { _id: digestId, status: 'open' },
+        { $set: { flushAt: new Date(Date.now() + quietDelay), updatedAt: new Date() } }
+      );
+
+      if (result.matchedCount > 0) {
+        await this.queueService.addJob('notifications', 'digest_notification', job, {
+          priority: this.getPriority(job.alarm.level),
+          attempts: 3,
+          delay: quietDelay,
+        });
+        console.log(`[AlarmNotification] Digest ${job.digestId} deferred by quiet hours`);
+        return { success: true, channel: job.channel, sentAt: new Date() };
+      }
+    }
+
+    // 转为发送中，之后到达的告警进入新的汇总
+    await this.collections.notificationDigests.updateOne(
+      { _id: digestId, status: 'open' },
+      { $set: { status: 'sending', updatedAt: new Date() } }
+    );
+
+    const digest = await this.collections.notificationDigests.findOne({ _id: digestId });
+    if (!digest || digest.alarms.length === 0) {
+      console.log(`[AlarmNotification] Digest ${job.digestId} already sent, skipping`);
+      return { success: true, channel: job.channel, sentAt: new Date() };
+    }
+
+    console.log(`[AlarmNotification] Sending ${job.channel} digest of ${digest.alarms.length} alarms`);
+
+    const result = await this.processNotification(
+      {
+        ...job,
+        alarm: this.buildDigestAlarm(digest.alarms, job.language),
+        digestId: undefined,
+      },
+      attempt
+    );
+
+    if (result.success) {
+      await this.collections.notificationDigests.deleteOne({ _id: digestId });
+    }
+
+    return result;
+  }
+
+  /**
+   * 将汇总构造为告警 (用于模板渲染)
+   *
+   * 级别取最高级别，各告警一致的字段保留原值，消息为汇总列表
+   */
+  private buildDigestAlarm(entries: DigestAlarmEntry[], language?: string): AlarmDocument {
+    const first = entries[0]!;
+    const uniform = (key: keyof DigestAlarmEntry): string | undefined => {
+      const values = new Set(entries.map((entry) => String(entry[key] ?? '')));
+      return values.size === 1 ? [...values][0] : undefined;
+    };
+
+    return createAlarm({
+      type: 'digest',
+      level: entries.reduce<AlarmLevel>(
+        (max, entry) =>
+          ALL_ALARM_LEVELS.indexOf(entry.level) > ALL_ALARM_LEVELS.indexOf(max) ? entry.level : max,
+        first.level
+      ),
+      tag: (uniform('tag') as AlarmTag | undefined) ?? 'custom',
+      mac: uniform('mac') ?? [...new Set(entries.map((entry) => entry.mac))].join(', '),
+      devName: uniform('devName') || undefined,
+      pid: uniform('pid') ?? '',
+      protocol: uniform('protocol') ?? '',
+      msg: formatDigestMessage(entries, language),
+      timeStamp: new Date(first.triggeredAt).getTime(),
+      triggeredAt: new Date(first.triggeredAt),
+    });
+  }
+
+  /**
+   * 将 Webhook 投递任务加入队列
+   */
+  private async queueWebhook(
+    event: WebhookEvent,
+    alarm: AlarmDocument,
+    endpoint: WebhookEndpointDocument
+  ): Promise<void> {
+    const job: NotificationJob = {
+      alarm,
+      userId: endpoint.owner ?? endpoint.createdBy,
+      channel: 'webhook',
+      contact: { webhookId: endpoint._id!.toString() },
+      event,
+    };
+
+    if (this.queueService) {
+      await this.queueService.addJob('notifications', 'webhook_notification', job, {
+        priority: this.getPriority(alarm.level),
+        attempts: WEBHOOK_MAX_ATTEMPTS,
+        backoff: WEBHOOK_BACKOFF,
+      });
+
+      console.log(`[AlarmNotification] Queued ${event} webhook for endpoint ${endpoint.name}`);
+    } else {
       await this.processNotification(job);
     }
   }
 
   /**
    * 处理通知任务
+   *
+   * @param attempt - 已尝试次数 (队列重试时大于 0)
    */
-  private async processNotification(job: NotificationJob): Promise<NotificationResult> {
-    const { alarm, userId, channel, contact } = job;
+  private async processNotification(job: NotificationJob, attempt = 0): Promise<NotificationResult> {
+    if (job.digestId) {
+      return await this.processDigest(job, attempt);
+    }
+
+    const { alarm, userId, channel, contact, language } = job;
 
     console.log(`[AlarmNotification] Processing ${channel} notification for user ${userId}`);
 
     let logId: ObjectId | undefined;
 
+    // 短信按号码计数 (预算)，其他渠道按条计数
+    const units = channel === 'sms' ? (contact.phones?.length ?? 0) : 1;
+    const limitTarget = { userId, mac: alarm.mac };
+    const acquiredAt = new Date();
+    let acquired = false;
+
     try {
+      if (channel !== 'webhook' && units > 0) {
+        // 只在首次尝试时检查限额，重试沿用首次的许可，不会被转为抑制
+        if (attempt === 0) {
+          const reason = await this.limiter.acquire(channel, limitTarget, units, acquiredAt);
+          if (reason) {
+            return await this.recordSuppressed(job, reason);
+          }
+        } else {
+          await this.limiter.consume(channel, limitTarget, acquiredAt);
+        }
+        acquired = true;
+      }
+
       switch (channel) {
         case 'wechat':
           if (!contact.wechatOpenIds || contact.wechatOpenIds.length === 0) {
             throw new Error('No WeChat OpenID available');
           }
-          logId = await this.sendWeChatNotification(alarm, userId, contact.wechatOpenIds);
+          logId = await this.sendWeChatNotification(alarm, userId, contact.wechatOpenIds, language);
           break;
         case 'sms':
           if (!contact.phones || contact.phones.length === 0) {
             throw new Error('No phone number available');
           }
-          logId = await this.sendSmsNotification(alarm, userId, contact.phones);
+          logId = await this.sendSmsNotification(alarm, userId, contact.phones, language);
           break;
         case 'email':
           if (!contact.emails || contact.emails.length === 0) {
             throw new Error('No email address available');
           }
-          logId = await this.sendEmailNotification(alarm, userId, contact.emails);
+          logId = await this.sendEmailNotification(alarm, userId, contact.emails, language);
+          break;
+        case 'webhook':
+          if (!contact.webhookId || !job.event) {
+            throw new Error('No webhook endpoint available');
+          }
+          logId = await this.sendWebhookNotification(alarm, userId, job.event, contact.webhookId);
           break;
       }
 
       console.log(`[AlarmNotification] ${channel} notification sent successfully`);
 
+      if (logId) {
+        // 已发送，计数失败时不能让队列重试 (会重复发送)
+        await this.limiter.recordSent(channel, units).catch((error) => {
+          console.error('[AlarmNotification] Failed to record notification usage:', error);
+        });
+      }
+
       return {
         success: true,
         channel,
@@ -287,6 +752,13 @@ export class AlarmNotificationService {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`[AlarmNotification] Failed to send ${channel} notification:`, error);
 
+      // 未发出的通知释放额度，重试时重新计数
+      if (acquired && channel !== 'webhook') {
+        await this.limiter.release(channel, limitTarget, acquiredAt).catch((releaseError) => {
+          console.error('[AlarmNotification] Failed to release notification quota:', releaseError);
+        });
+      }
+
       // 记录失败日志
       if (logId) {
         await this.markNotificationFailed(logId, error, false);
@@ -302,6 +774,35 @@ export class AlarmNotificationService {
     }
   }
 
+  /**
+   * 记录被抑制的通知 (视为处理完成，不由队列重试)
+   */
+  private async recordSuppressed(job: NotificationJob, reason: SuppressReason): Promise<NotificationResult> {
+    const { alarm, userId, channel, contact } = job;
+    const recipient =
+      channel === 'sms' ? contact.phones! : channel === 'email' ? contact.emails! : contact.wechatOpenIds![0]!;
+    const alarmId = alarm._id?.toString();
+
+    const result = await this.collections.notificationLogs.insertOne(
+      createSuppressedLog(
+        channel,
+        userId,
+        recipient,
+        reason,
+        { mac: alarm.mac, level: alarm.level, msg: alarm.msg },
+        alarmId && ObjectId.isValid(alarmId) ? new ObjectId(alarmId) : undefined
+      )
+    );
+
+    return {
+      success: true,
+      channel,
+      sentAt: new Date(),
+      logId: result.insertedId,
+      suppressed: reason,
+    };
+  }
+
   /**
    * 发送微信通知并持久化日志
    *
@@ -310,12 +811,13 @@ export class AlarmNotificationService {
   private async sendWeChatNotification(
     alarm: AlarmDocument,
     userId: string,
-    openIds: string[]
+    openIds: string[],
+    language?: string
   ): Promise<ObjectId> {
     console.log(`[AlarmNotification] Sending WeChat notification to ${openIds.join(', ')}`);
 
     // 格式化消息
-    const params = this.formatWeChatMessage(alarm);
+    const params = this.formatWeChatMessage(await this.templates.render('wechat', alarm, language));
 
     // 创建通知日志
     const alarmId = alarm._id ? alarm._id.toString() : undefined;
@@ -344,7 +846,7 @@ export class AlarmNotificationService {
       // 标记为成功
       await this.collections.notificationLogs.updateOne(
         { _id: logId },
-        { $set: markLogSuccess(responseData) }
+        { $set: markLogSuccess(log, responseData) }
       );
 
       return logId;
@@ -356,19 +858,19 @@ export class AlarmNotificationService {
   }
 
   /**
-   * 格式化微信消息
+   * 格式化微信消息 (模板标题作为首行，正文作为告警内容字段)
    */
-  private formatWeChatMessage(alarm: AlarmDocument): WechatParams {
+  private formatWeChatMessage(rendered: RenderedNotification): WechatParams {
     return {
       touser: '', // 将由调用方填充
-      template_id: 'ALARM_TEMPLATE_ID',
+      template_id: rendered.externalTemplateId ?? 'ALARM_TEMPLATE_ID',
       data: {
-        first: { value: `【${this.getLevelText(alarm.level)}】${alarm.msg}` },
-        keyword1: { value: alarm.mac },
-        keyword2: { value: String(alarm.pid) },
-        keyword3: { value: alarm.msg },
-        keyword4: { value: alarm.triggeredAt.toLocaleString('zh-CN') },
-        remark: { value: '请及时处理' },
+        first: { value: rendered.subject },
+        keyword1: { value: rendered.variables.devName },
+        keyword2: { value: rendered.variables.pid },
+        keyword3: { value: rendered.body },
+        keyword4: { value: rendered.variables.time },
+        remark: { value: rendered.remark },
       },
     };
   }
@@ -381,18 +883,20 @@ export class AlarmNotificationService {
   private async sendSmsNotification(
     alarm: AlarmDocument,
     userId: string,
-    phones: string[]
+    phones: string[],
+    language?: string
   ): Promise<ObjectId> {
     console.log(`[AlarmNotification] Sending SMS notification to ${phones.join(', ')}`);
 
-    // 格式化短信参数
+    // 格式化短信参数 (短信正文由服务商模板决定，模板正文作为 message 参数)
+    const rendered = await this.templates.render('sms', alarm, language);
     const params: SmsParams = {
       SignName: '告警通知',
-      TemplateCode: 'SMS_ALARM_TEMPLATE',
+      TemplateCode: rendered.externalTemplateId ?? 'SMS_ALARM_TEMPLATE',
       TemplateParam: JSON.stringify({
-        level: this.getLevelText(alarm.level),
-        message: alarm.msg,
-        time: alarm.triggeredAt.toLocaleString('zh-CN'),
+        level: rendered.variables.level,
+        message: rendered.body,
+        time: rendered.variables.time,
       }),
     };
 
@@ -417,7 +921,7 @@ export class AlarmNotificationService {
       // 标记为成功
       await this.collections.notificationLogs.updateOne(
         { _id: logId },
-        { $set: markLogSuccess(responseData) }
+        { $set: markLogSuccess(log, responseData) }
       );
 
       return logId;
@@ -436,26 +940,18 @@ export class AlarmNotificationService {
   private async sendEmailNotification(
     alarm: AlarmDocument,
     userId: string,
-    emails: string[]
+    emails: string[],
+    language?: string
   ): Promise<ObjectId> {
     console.log(`[AlarmNotification] Sending Email notification to ${emails.join(', ')}`);
 
     // 格式化邮件参数
-    const subject = `【告警通知】${alarm.msg}`;
-    const html = `
-      <h2>${alarm.msg}</h2>
-      <p><strong>告警级别:</strong> ${this.getLevelText(alarm.level)}</p>
-      <p><strong>设备信息:</strong> ${alarm.mac} - ${alarm.pid}</p>
-      <p><strong>协议:</strong> ${alarm.protocol}</p>
-      <p><strong>触发时间:</strong> ${alarm.triggeredAt.toLocaleString('zh-CN')}</p>
-      <p>请及时登录系统查看详情并处理。</p>
-    `;
-
+    const rendered = await this.templates.render('email', alarm, language);
     const params: MailParams = {
       from: 'noreply@example.com',
       to: emails[0]!,
-      subject,
-      html,
+      subject: rendered.subject,
+      ...(rendered.format === 'html' ? { html: rendered.body } : { text: rendered.body }),
     };
 
     // 创建通知日志
@@ -468,12 +964,18 @@ export class AlarmNotificationService {
       // 调用邮件服务
       const response = await emailService.sendMail(params);
 
-      console.log('[AlarmNotification] Email sent:', response);
+      const responseData = {
+        Message: response.response,
+        RequestId: response.messageId,
+        BizId: response.messageId,
+      };
+
+      console.log('[AlarmNotification] Email sent:', responseData);
 
       // 标记为成功
       await this.collections.notificationLogs.updateOne(
         { _id: logId },
-        { $set: markLogSuccess(mockResponse) }
+        { $set: markLogSuccess(log, responseData) }
       );
 
       return logId;
@@ -484,6 +986,126 @@ export class AlarmNotificationService {
     }
   }
 
+  /**
+   * 投递 Webhook 并持久化日志
+   *
+   * 端点已删除或停用时跳过 (不再重试)
+   * 非管理员的端点只记录状态码，不记录响应内容和网络错误 (避免借投递记录探测内网)
+   *
+   * @returns 通知日志 ID
+   */
+  private async sendWebhookNotification(
+    alarm: AlarmDocument,
+    userId: string,
+    event: WebhookEvent,
+    webhookId: string
+  ): Promise<ObjectId | undefined> {
+    const endpointId = new ObjectId(webhookId);
+    const endpoint = await this.collections.webhookEndpoints.findOne({ _id: endpointId });
+
+    if (!endpoint?.enabled) {
+      console.log(`[AlarmNotification] Webhook endpoint ${webhookId} removed or disabled, skipping`);
+      return undefined;
+    }
+
+    console.log(`[AlarmNotification] Sending ${event} webhook to ${endpoint.url}`);
+
+    // 投递 ID 在重试之间保持不变
+    const alarmId = alarm._id ? alarm._id.toString() : undefined;
+    const deliveryId = `${alarmId ?? alarm.timeStamp}:${event}:${webhookId}`;
+    const payload = this.formatWebhookPayload(event, alarm, deliveryId);
+
+    // 创建通知日志
+    const log = createWebhookLog(
+      userId,
+      endpoint.url,
+      { endpointId: webhookId, event, deliveryId, payload },
+      alarmId && ObjectId.isValid(alarmId) ? new ObjectId(alarmId) : undefined
+    );
+    const result = await this.collections.notificationLogs.insertOne(log);
+    const logId = result.insertedId;
+    const recordDetails =
+      !endpoint.owner ||
+      (await this.collections.users.findOne({ username: endpoint.owner }))?.role === UserRole.ADMIN;
+
+    try {
+      const response = await webhookService.deliver({
+        url: endpoint.url,
+        secret: endpoint.secret,
+        event,
+        deliveryId,
+        payload,
+      });
+
+      // 标记为成功
+      await this.collections.notificationLogs.updateOne(
+        { _id: logId },
+        { $set: markLogSuccess(log, recordDetails ? response : { status: response.status }) }
+      );
+      await this.collections.webhookEndpoints.updateOne(
+        { _id: endpointId },
+        { $set: { lastDeliveryAt: new Date(), lastDeliverySuccess: true } }
+      );
+
+      return logId;
+    } catch (error) {
+      // 标记为失败
+      await this.markNotificationFailed(
+        logId,
+        recordDetails ? error : this.redactWebhookError(error),
+        true
+      );
+      await this.collections.webhookEndpoints.updateOne(
+        { _id: endpointId },
+        { $set: { lastDeliveryAt: new Date(), lastDeliverySuccess: false } }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 去掉 Webhook 投递错误中的响应内容和网络错误信息，只保留状态码
+   */
+  private redactWebhookError(error: unknown): WebhookDeliveryError {
+    if (!(error instanceof WebhookDeliveryError)) {
+      return new WebhookDeliveryError('Webhook delivery failed');
+    }
+    if (error.status === undefined) {
+      return error;
+    }
+    return new WebhookDeliveryError(`Webhook responded with HTTP ${error.status}`, error.status);
+  }
+
+  /**
+   * 格式化 Webhook 请求体
+   */
+  private formatWebhookPayload(event: WebhookEvent, alarm: AlarmDocument, deliveryId: string) {
+    return {
+      id: deliveryId,
+      event,
+      timestamp: new Date().toISOString(),
+      alarm: {
+        id: alarm._id?.toString(),
+        mac: alarm.mac,
+        pid: alarm.pid,
+        devName: alarm.devName,
+        protocol: alarm.protocol,
+        level: alarm.level,
+        tag: alarm.tag,
+        msg: alarm.msg,
+        status: alarm.status,
+        paramName: alarm.paramName,
+        currentValue: alarm.currentValue,
+        triggeredAt: alarm.triggeredAt,
+        acknowledgedAt: alarm.acknowledgedAt,
+        acknowledgedBy: alarm.acknowledgedBy,
+        resolvedAt: alarm.resolvedAt,
+        resolvedBy: alarm.resolvedBy,
+        resolutionNote: alarm.resolutionNote,
+      },
+    };
+  }
+
   /**
    * 标记通知发送失败
    */
@@ -540,27 +1162,11 @@ export class AlarmNotificationService {
     }
   }
 
-  /**
-   * 获取告警级别文本
-   */
-  private getLevelText(level: AlarmLevel): string {
-    switch (level) {
-      case 'critical':
-        return '严重';
-      case 'error':
-        return '错误';
-      case 'warning':
-        return '警告';
-      case 'info':
-        return '信息';
-      default:
-        return '未知';
-    }
-  }
-
   /**
    * 获取通知统计
    *
+   * 被限流或短信预算抑制的通知单独统计 (不计入失败)
+   *
    * @param userId - 用户 ID
    * @param startTime - 开始时间戳
    * @param endTime - 结束时间戳
@@ -573,31 +1179,48 @@ export class AlarmNotificationService {
     total: number;
     sent: number;
     failed: number;
+    suppressed: number;
     byChannel: Record<NotificationChannel, number>;
+    suppressedByReason: Record<SuppressReason, number>;
+    smsBudget: SmsBudgetStatus;
   }> {
     const filter: any = {};
 
     if (userId) filter.userId = userId;
     if (startTime || endTime) {
-      filter.timeStamp = {};
-      if (startTime) filter.timeStamp.$gte = startTime;
-      if (endTime) filter.timeStamp.$lte = endTime;
+      filter.createdAt = {};
+      if (startTime) filter.createdAt.$gte = new Date(startTime);
+      if (endTime) filter.createdAt.$lte = new Date(endTime);
     }
 
-    const logs = await this.collections.notificationLogs.find(filter).toArray();
-
-    const stats = {
-      total: logs.length,
-      sent: logs.filter((l) => l.status === 'sent').length,
-      failed: logs.filter((l) => l.status === 'failed').length,
-      byChannel: {
-        wechat: logs.filter((l) => l.channel === 'wechat').length,
-        sms: logs.filter((l) => l.channel === 'sms').length,
-        email: logs.filter((l) => l.channel === 'email').length,
-        webhook: logs.filter((l) => l.channel === 'webhook').length,
-      },
-    };
+    const count = (extra: Record<string, unknown> = {}) =>
+      this.collections.notificationLogs.countDocuments({ ...filter, ...extra });
+    const channels: NotificationChannel[] = ['wechat', 'sms', 'email', 'webhook'];
+    const reasons: SuppressReason[] = ['user', 'device', 'tenant', 'budget'];
 
-    return stats;
+    const [total, sent, suppressed, channelCounts, reasonCounts, smsBudget] = await Promise.all([
+      count(),
+      count({ success: true }),
+      count({ suppressed: { $exists: true } }),
+      Promise.all(channels.map((type) => count({ type }))),
+      Promise.all(reasons.map((reason) => count({ suppressed: reason }))),
+      this.limiter.getSmsBudget(),
+    ]);
+
+    return {
+      total,
+      sent,
+      failed: total - sent - suppressed,
+      suppressed,
+      byChannel: Object.fromEntries(channels.map((channel, i) => [channel, channelCounts[i]!])) as Record<
+        NotificationChannel,
+        number
+      >,
+      suppressedByReason: Object.fromEntries(reasons.map((reason, i) => [reason, reasonCounts[i]!])) as Record<
+        SuppressReason,
+        number
+      >,
+      smsBudget,
+    };
   }
 }
@@ -4,9 +4,11 @@
  * 负责告警规则的评估和触发：
  * - 阈值告警（temperature > 80℃） - 对齐现有 Threshold
  * - 常量告警（status not in normalValues） - 对齐现有 AlarmStat
- * - 离线告警
- * - 自定义规则（脚本执行）
+ * - 范围告警（value operator target）
+ * - 离线/超时告警（由设备状态事件驱动）
+ * - 自定义规则（沙箱表达式）
  * - 告警去重
+ * - 条件清除后自动恢复（auto_resolved，支持回差和恢复延迟）
  *
  * 使用 MongoDB 实体持久化数据
  */
@@ -14,13 +16,22 @@
 import type { Db } from 'mongodb';
 import { ObjectId } from 'mongodb';
 import type { ParsedData } from './data-parsing.service';
+import { logger } from '../utils/logger';
 import {
   Phase3Collections,
   type AlarmRuleDocument,
   type AlarmDocument,
+  type RangeCondition,
   createAlarm,
+  resolveAlarm,
+  alarmStatusesAllowing,
   updateRuleTrigger,
 } from '../entities/mongodb';
+import {
+  compileAlarmExpression,
+  evaluateAlarmExpression,
+  type CompiledAlarmExpression,
+} from '../utils/alarm-expression';
 
 /**
  * 告警评估结果
@@ -30,6 +41,38 @@ export interface AlarmEvaluationResult {
   triggered: boolean;
   /** 触发的告警列表 */
   alarms: AlarmDocument[];
+  /** 处于告警状态的参数名称 (包含被去重的告警) */
+  alarmParams: string[];
+  /** 条件清除后自动恢复的告警 */
+  resolved: ResolvedAlarm[];
+}
+
+/**
+ * 自动恢复的告警
+ */
+export interface ResolvedAlarm {
+  /** 恢复后的告警 (status: auto_resolved) */
+  alarm: AlarmDocument;
+  /** 是否发送恢复通知 (规则 notifyRecovery) */
+  notifyRecovery: boolean;
+}
+
+/**
+ * 设备状态事件 (驱动 offline / timeout 规则)
+ */
+export interface DeviceStatusEvent {
+  /** 事件类型 */
+  type: 'offline' | 'timeout';
+  /** 终端 MAC */
+  mac: string;
+  /** 设备 PID */
+  pid: number;
+  /** 设备协议 */
+  protocol?: string;
+  /** 事件描述 */
+  msg: string;
+  /** 事件时间戳 */
+  timestamp?: number;
 }
 
 /**
@@ -45,6 +88,15 @@ export class AlarmRuleEngineService {
   /** 告警去重缓存 (key: mac:pid:ruleId, value: last trigger time) */
   private deduplicationCache: Map<string, number> = new Map();
 
+  /** 存在未恢复告警的规则 (key: mac:pid:ruleId) */
+  private activeAlarmKeys: Set<string> = new Set();
+
+  /** 条件开始清除的时间 (key: mac:pid:ruleId, 用于恢复延迟) */
+  private clearingSince: Map<string, number> = new Map();
+
+  /** 自定义规则表达式编译缓存 (key: 表达式源码) */
+  private expressionCache: Map<string, CompiledAlarmExpression> = new Map();
+
   constructor(db: Db) {
     this.collections = new Phase3Collections(db);
 
@@ -52,6 +104,27 @@ export class AlarmRuleEngineService {
     this.loadRules().catch(error => {
       console.error('[AlarmRuleEngine] Failed to load rules:', error);
     });
+
+    // 加载未恢复的告警 (用于自动恢复)
+    this.loadActiveAlarms().catch(error => {
+      console.error('[AlarmRuleEngine] Failed to load active alarms:', error);
+    });
+  }
+
+  /**
+   * 从 MongoDB 加载未恢复的规则告警
+   */
+  private async loadActiveAlarms(): Promise<void> {
+    const alarms = await this.collections.alarms
+      .find({
+        parentId: { $exists: true },
+        status: { $in: alarmStatusesAllowing('auto_resolved') },
+      })
+      .toArray();
+
+    for (const alarm of alarms) {
+      this.activeAlarmKeys.add(this.getAlarmKey(alarm.mac, alarm.pid, alarm.parentId));
+    }
   }
 
   /**
@@ -87,43 +160,257 @@ export class AlarmRuleEngineService {
    */
   async evaluateData(data: ParsedData): Promise<AlarmEvaluationResult> {
     const alarms: AlarmDocument[] = [];
+    const alarmParams = new Set<string>();
+    const resolved: ResolvedAlarm[] = [];
 
-    console.log(`[AlarmRuleEngine] Evaluating ${this.rulesCache.size} rules for ${data.mac}:${data.pid}`);
+    // 每次查询结果都会评估，逐次日志只在 debug 级别输出
+    logger.debug(`[AlarmRuleEngine] Evaluating ${this.rulesCache.size} rules for ${data.mac}:${data.pid}`);
 
     for (const rule of this.rulesCache.values()) {
-      if (!rule.enabled) continue;
-
-      // 检查规则是否适用于该协议
-      if (rule.protocol && rule.protocol !== data.protocol) continue;
-
-      // 检查规则是否适用于该设备
-      if (rule.pid && rule.pid !== data.pid) continue;
+      if (!this.isRuleApplicable(rule, data.protocol, data.pid)) continue;
 
       // 评估规则
       const alarm = await this.evaluateRule(rule, data);
       if (alarm) {
-        // 检查去重
-        if (this.shouldTriggerAlarm(alarm, rule)) {
+        if (alarm.paramName) {
+          alarmParams.add(alarm.paramName);
+        }
+
+        if (await this.triggerAlarm(alarm, rule)) {
           alarms.push(alarm);
-          this.recordAlarmTrigger(alarm, rule);
+        }
+      } else if (this.isConditionCleared(rule, data)) {
+        resolved.push(
+          ...(await this.autoResolve(rule, data.mac, data.pid, this.getRecoveryNote(rule, data)))
+        );
+      }
+    }
 
-          // 持久化告警到 MongoDB
-          await this.persistAlarm(alarm);
+    if (alarms.length > 0 || resolved.length > 0) {
+      console.log(
+        `[AlarmRuleEngine] Triggered ${alarms.length} alarms, resolved ${resolved.length} for ${data.mac}:${data.pid}`
+      );
+    }
 
-          // 更新规则触发统计
-          await this.updateRuleTriggerStats(rule._id!);
-        } else {
-          console.log(`[AlarmRuleEngine] Alarm deduplicated: ${rule.name}`);
-        }
+    return {
+      triggered: alarms.length > 0,
+      alarms,
+      alarmParams: Array.from(alarmParams),
+      resolved,
+    };
+  }
+
+  /**
+   * 评估设备状态事件 (离线 / 超时)
+   *
+   * 与事件类型相同的 offline / timeout 规则会触发告警，同样经过去重
+   *
+   * @param event - 设备状态事件
+   * @returns 告警评估结果
+   */
+  async evaluateEvent(event: DeviceStatusEvent): Promise<AlarmEvaluationResult> {
+    const alarms: AlarmDocument[] = [];
+
+    for (const rule of this.rulesCache.values()) {
+      if (rule.type !== event.type) continue;
+      if (!this.isRuleApplicable(rule, event.protocol, event.pid)) continue;
+
+      const alarm = createAlarm({
+        parentId: rule._id?.toString(),
+        type: rule.type,
+        level: rule.level,
+        tag: event.type,
+        mac: event.mac,
+        pid: event.pid,
+        protocol: event.protocol ?? rule.protocol ?? '',
+        msg: `${rule.name}: ${event.msg}`,
+        timeStamp: event.timestamp ?? Date.now(),
+        triggeredAt: new Date(),
+      });
+
+      if (await this.triggerAlarm(alarm, rule)) {
+        alarms.push(alarm);
       }
     }
 
-    console.log(`[AlarmRuleEngine] Triggered ${alarms.length} alarms`);
+    if (alarms.length > 0) {
+      console.log(`[AlarmRuleEngine] Triggered ${alarms.length} ${event.type} alarms for ${event.mac}:${event.pid}`);
+    }
 
     return {
       triggered: alarms.length > 0,
       alarms,
+      alarmParams: [],
+      resolved: [],
+    };
+  }
+
+  /**
+   * 检查规则是否适用于指定协议和设备
+   */
+  private isRuleApplicable(rule: AlarmRuleDocument, protocol: string | undefined, pid: number): boolean {
+    if (!rule.enabled) return false;
+
+    // 检查规则是否适用于该协议
+    if (rule.protocol && rule.protocol !== protocol) return false;
+
+    // 检查规则是否适用于该设备
+    if (rule.pid && String(rule.pid) !== String(pid)) return false;
+
+    return true;
+  }
+
+  /**
+   * 去重后持久化告警并更新规则触发统计
+   *
+   * @returns 是否触发 (false 表示被去重)
+   */
+  private async triggerAlarm(alarm: AlarmDocument, rule: AlarmRuleDocument): Promise<boolean> {
+    // 条件再次成立，取消恢复计时
+    const key = this.getAlarmKey(alarm.mac, alarm.pid, rule._id?.toString());
+    this.clearingSince.delete(key);
+
+    // 检查去重
+    if (!this.shouldTriggerAlarm(alarm, rule)) {
+      logger.debug(`[AlarmRuleEngine] Alarm deduplicated: ${rule.name}`);
+      return false;
+    }
+
+    this.recordAlarmTrigger(alarm, rule);
+
+    // 持久化告警到 MongoDB
+    await this.persistAlarm(alarm);
+
+    // 更新规则触发统计
+    await this.updateRuleTriggerStats(rule._id!);
+
+    this.activeAlarmKeys.add(key);
+
+    return true;
+  }
+
+  /**
+   * 自动恢复规则在该设备上未恢复的告警
+   *
+   * 条件需持续清除 clearDelay 秒；恢复后重置去重，条件再次成立时立即告警
+   */
+  private async autoResolve(
+    rule: AlarmRuleDocument,
+    mac: string,
+    pid: number,
+    note: string
+  ): Promise<ResolvedAlarm[]> {
+    const ruleId = rule._id?.toString();
+    const key = this.getAlarmKey(mac, pid, ruleId);
+    if (!ruleId || rule.autoResolve === false || !this.activeAlarmKeys.has(key)) return [];
+
+    const now = Date.now();
+    const since = this.clearingSince.get(key) ?? now;
+    if (now - since < (rule.clearDelay ?? 0) * 1000) {
+      this.clearingSince.set(key, since);
+      return [];
+    }
+
+    this.clearingSince.delete(key);
+    this.activeAlarmKeys.delete(key);
+    this.deduplicationCache.delete(key);
+
+    const filter = {
+      parentId: ruleId,
+      mac,
+      pid,
+      status: { $in: alarmStatusesAllowing('auto_resolved') },
     };
+    const alarms = await this.collections.alarms.find(filter).toArray();
+    if (alarms.length === 0) return [];
+
+    const update = resolveAlarm('system', note, true);
+    await this.collections.alarms.updateMany(
+      { ...filter, _id: { $in: alarms.map((alarm) => alarm._id!) } },
+      { $set: update }
+    );
+
+    console.log(`[AlarmRuleEngine] Auto resolved ${alarms.length} alarms: ${rule.name} (${mac}:${pid})`);
+
+    return alarms.map((alarm) => ({
+      alarm: { ...alarm, ...update },
+      notifyRecovery: rule.notifyRecovery === true,
+    }));
+  }
+
+  /**
+   * 检查规则条件是否已清除
+   *
+   * 数据点缺失或无效时无法判断，视为未清除；
+   * offline / timeout 规则在收到设备数据时清除
+   */
+  private isConditionCleared(rule: AlarmRuleDocument, data: ParsedData): boolean {
+    if (rule.type === 'offline' || rule.type === 'timeout') return true;
+
+    if (rule.type === 'custom') {
+      if (!rule.customScript) return false;
+      try {
+        const values = new Map<string, number | string>();
+        for (const point of data.dataPoints) {
+          if (point.isValid) values.set(point.name, point.value);
+        }
+        return evaluateAlarmExpression(this.getCompiledExpression(rule.customScript), values) === false;
+      } catch {
+        return false;
+      }
+    }
+
+    const dataPoint = data.dataPoints.find((p) => p.name === rule.paramName);
+    if (!dataPoint || !dataPoint.isValid) return false;
+
+    const hysteresis = rule.hysteresis ?? 0;
+
+    switch (rule.type) {
+      case 'threshold': {
+        if (!rule.threshold) return false;
+        const value = Number(dataPoint.value);
+        return value >= rule.threshold.min + hysteresis && value <= rule.threshold.max - hysteresis;
+      }
+      case 'constant':
+        return !!rule.constant && rule.constant.alarmStat.includes(String(dataPoint.value));
+      case 'range': {
+        if (!rule.range) return false;
+        const { operator, value: target } = rule.range;
+        // 回差: 将目标值向恢复方向平移
+        let clearTarget = target;
+        if (typeof target === 'number') {
+          if (operator === '>' || operator === '>=') clearTarget = target - hysteresis;
+          if (operator === '<' || operator === '<=') clearTarget = target + hysteresis;
+        }
+        return !this.compareRange(dataPoint.value, operator, clearTarget);
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 生成恢复说明 (如 "temperature 已恢复正常 (当前值: 25)")
+   */
+  private getRecoveryNote(rule: AlarmRuleDocument, data: ParsedData): string {
+    if (rule.type === 'offline' || rule.type === 'timeout') {
+      return `${rule.name}: 设备已恢复通信`;
+    }
+
+    const dataPoint = rule.paramName
+      ? data.dataPoints.find((p) => p.name === rule.paramName)
+      : undefined;
+
+    return dataPoint
+      ? `${rule.paramName} 已恢复正常 (当前值: ${dataPoint.value})`
+      : `${rule.name} 已恢复正常`;
+  }
+
+  /**
+   * 告警状态键 (去重和自动恢复共用)
+   */
+  private getAlarmKey(mac: string, pid: number | string, ruleId?: string): string {
+    return `${mac}:${pid}:${ruleId}`;
   }
 
   /**
@@ -135,6 +422,12 @@ export class AlarmRuleEngineService {
         return this.evaluateThresholdRule(rule, data);
       case 'constant':
         return this.evaluateConstantRule(rule, data);
+      case 'range':
+        return this.evaluateRangeRule(rule, data);
+      case 'offline':
+      case 'timeout':
+        // 由 evaluateEvent 处理
+        return null;
       case 'custom':
         return this.evaluateCustomRule(rule, data);
       default:
@@ -171,6 +464,8 @@ export class AlarmRuleEngineService {
       protocol: data.protocol,
       paramName: rule.paramName,
       currentValue: value,
+      unit: dataPoint.unit,
+      threshold: `${min} - ${max}`,
       msg: `${rule.name}: ${rule.paramName} = ${value} (阈值: ${min} - ${max})`,
       timeStamp: Date.now(),
       triggeredAt: new Date(),
@@ -204,20 +499,142 @@ export class AlarmRuleEngineService {
       protocol: data.protocol,
       paramName: rule.paramName,
       currentValue: value,
+      unit: dataPoint.unit,
+      threshold: alarmStat.join(', '),
       msg: `${rule.name}: ${rule.paramName} = ${value} (正常值: ${alarmStat.join(', ')})`,
       timeStamp: Date.now(),
       triggeredAt: new Date(),
     });
   }
 
+  /**
+   * 评估范围规则
+   *
+   * 两侧均为数值时按数值比较；否则仅支持 == / != 文本比较
+   */
+  private evaluateRangeRule(rule: AlarmRuleDocument, data: ParsedData): AlarmDocument | null {
+    if (!rule.paramName || !rule.range) return null;
+
+    const dataPoint = data.dataPoints.find((p) => p.name === rule.paramName);
+    if (!dataPoint || !dataPoint.isValid) return null;
+
+    const value = dataPoint.value;
+    const { operator, value: target } = rule.range;
+
+    if (!this.compareRange(value, operator, target)) return null;
+
+    return createAlarm({
+      parentId: rule._id?.toString(),
+      type: 'range',
+      level: rule.level,
+      tag: 'Threshold',
+      mac: data.mac,
+      pid: data.pid,
+      protocol: data.protocol,
+      paramName: rule.paramName,
+      currentValue: value,
+      unit: dataPoint.unit,
+      threshold: `${operator} ${target}`,
+      msg: `${rule.name}: ${rule.paramName} = ${value} (条件: ${operator} ${target})`,
+      timeStamp: Date.now(),
+      triggeredAt: new Date(),
+    });
+  }
+
+  /**
+   * 比较范围条件
+   */
+  private compareRange(
+    value: number | string,
+    operator: RangeCondition['operator'],
+    target: number | string
+  ): boolean {
+    const left = Number(value);
+    const right = Number(target);
+    const numeric = value !== '' && target !== '' && Number.isFinite(left) && Number.isFinite(right);
+
+    if (!numeric) {
+      if (operator === '==') return String(value) === String(target);
+      if (operator === '!=') return String(value) !== String(target);
+      return false;
+    }
+
+    switch (operator) {
+      case '>':
+        return left > right;
+      case '<':
+        return left < right;
+      case '>=':
+        return left >= right;
+      case '<=':
+        return left <= right;
+      case '==':
+        return left === right;
+      case '!=':
+        return left !== right;
+      default:
+        return false;
+    }
+  }
+
   /**
    * 评估自定义规则
    *
-   * TODO: 实现安全的脚本执行环境
+   * customScript 为 mathjs 表达式 (见 utils/alarm-expression)，结果为真时触发告警；
+   * 引用的数据点缺失或无效时不评估
    */
-  private evaluateCustomRule(_rule: AlarmRuleDocument, _data: ParsedData): AlarmDocument | null {
-    console.warn('[AlarmRuleEngine] Custom rule evaluation not implemented yet');
-    return null;
+  private evaluateCustomRule(rule: AlarmRuleDocument, data: ParsedData): AlarmDocument | null {
+    if (!rule.customScript) return null;
+
+    const values = new Map<string, number | string>();
+    for (const point of data.dataPoints) {
+      if (point.isValid) {
+        values.set(point.name, point.value);
+      }
+    }
+
+    let triggered: boolean | null;
+    let expression: CompiledAlarmExpression;
+    try {
+      expression = this.getCompiledExpression(rule.customScript);
+      triggered = evaluateAlarmExpression(expression, values);
+    } catch (error) {
+      console.error(`[AlarmRuleEngine] Custom rule ${rule.name} evaluation failed:`, error);
+      return null;
+    }
+
+    if (!triggered) return null;
+
+    const referenced = [...expression.symbols, ...expression.quotedSymbols];
+    const detail = referenced.map((name) => `${name} = ${values.get(name)}`).join(', ');
+    const paramName = rule.paramName ?? referenced[0];
+
+    return createAlarm({
+      parentId: rule._id?.toString(),
+      type: 'custom',
+      level: rule.level,
+      tag: 'custom',
+      mac: data.mac,
+      pid: data.pid,
+      protocol: data.protocol,
+      paramName,
+      currentValue: paramName !== undefined ? values.get(paramName) : undefined,
+      msg: `${rule.name}: ${rule.customScript} (${detail})`,
+      timeStamp: Date.now(),
+      triggeredAt: new Date(),
+    });
+  }
+
+  /**
+   * 获取编译后的自定义规则表达式 (带缓存)
+   */
+  private getCompiledExpression(source: string): CompiledAlarmExpression {
+    let expression = this.expressionCache.get(source);
+    if (!expression) {
+      expression = compileAlarmExpression(source);
+      this.expressionCache.set(source, expression);
+    }
+    return expression;
   }
 
   /**
@@ -226,7 +643,7 @@ export class AlarmRuleEngineService {
   private shouldTriggerAlarm(alarm: AlarmDocument, rule: AlarmRuleDocument): boolean {
     if (!rule.deduplicationWindow) return true;
 
-    const key = `${alarm.mac}:${alarm.pid}:${rule._id?.toString()}`;
+    const key = this.getAlarmKey(alarm.mac, alarm.pid, rule._id?.toString());
     const lastTrigger = this.deduplicationCache.get(key);
 
     if (!lastTrigger) return true;
@@ -241,7 +658,7 @@ export class AlarmRuleEngineService {
    * 记录告警触发时间
    */
   private recordAlarmTrigger(alarm: AlarmDocument, rule: AlarmRuleDocument): void {
-    const key = `${alarm.mac}:${alarm.pid}:${rule._id?.toString()}`;
+    const key = this.getAlarmKey(alarm.mac, alarm.pid, rule._id?.toString());
     this.deduplicationCache.set(key, Date.now());
   }
 
@@ -258,10 +675,9 @@ export class AlarmRuleEngineService {
    * 更新规则触发统计
    */
   private async updateRuleTriggerStats(ruleId: ObjectId): Promise<void> {
-    await this.collections.alarmRules.updateOne(
-      { _id: ruleId },
-      { $set: updateRuleTrigger() }
-    );
+    // $inc 不能嵌套在 $set 中，需拆分为独立的更新操作符
+    const { $inc, ...fields } = updateRuleTrigger();
+    await this.collections.alarmRules.updateOne({ _id: ruleId }, { $set: fields, $inc });
   }
 
   /**
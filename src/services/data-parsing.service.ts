@@ -3,9 +3,10 @@
  *
  * 负责解析设备查询结果数据：
  * - RS232 协议解析 (使用 RS232Parser 策略)
- * - RS485/Modbus 协议解析 (使用 RS485Parser 策略)
+ * - RS485/Modbus 协议解析 (使用 RS485Parser 策略，含非标协议 scriptEnd)
  * - 数据类型转换 (bit2, utf8, hex/short, float)
  * - 数据验证和质量评分
+ * - 从协议文档加载指令和状态映射 (server 解析模式)
  */
 
 import type { IProtocolParser, ParsingContext } from './parsers';
@@ -15,6 +16,8 @@ import type {
   ProtocolInstruct,
   ParsedArgument,
 } from './data-parsing.types';
+import type { Protocol } from './protocol.service';
+import { parseStateUnit, toProtocolInstruct } from '../utils/data-parsing.utils';
 
 // 重新导出类型以保持向后兼容
 export type {
@@ -23,6 +26,8 @@ export type {
   ProtocolInstruct,
   FormResize,
   ParsedArgument,
+  ParsedData,
+  ParsedDataPoint,
 } from './data-parsing.types';
 
 /**
@@ -52,6 +57,13 @@ export class DataParsingService {
    */
   private stateMapCache: Map<string, Map<string, string>> = new Map();
 
+  /**
+   * 协议级响应脚本缓存 (非标协议)
+   * 键: 协议名称
+   * 值: scriptEnd 脚本
+   */
+  private protocolScriptCache: Map<string, string> = new Map();
+
   /**
    * 解析器策略映射
    * 键: 通讯类型 (232 或 485)
@@ -73,9 +85,11 @@ export class DataParsingService {
    * 使用策略模式根据通讯类型选择对应的解析器
    *
    * @param queryResult - 查询结果
+   * @param contentToName - 本次查询的指令内容到名称映射 (不指定时使用共享映射；
+   *   不同协议可能生成相同的指令内容，并发解析时应按协议传入)
    * @returns 解析后的数据点数组
    */
-  async parse(queryResult: QueryResult): Promise<ParsedArgument[]> {
+  async parse(queryResult: QueryResult, contentToName?: Map<string, string>): Promise<ParsedArgument[]> {
     const { type, contents, protocol, pid } = queryResult;
 
     // 获取对应的解析器策略
@@ -90,8 +104,9 @@ export class DataParsingService {
       protocol,
       pid,
       protocolInstructMap: this.protocolInstructCache,
-      contentToNameMap: this.contentToNameCache,
+      contentToNameMap: contentToName ?? this.contentToNameCache,
       stateMapCache: this.stateMapCache,
+      protocolScriptMap: this.protocolScriptCache,
     };
 
     // 使用策略执行解析
@@ -102,6 +117,46 @@ export class DataParsingService {
   }
 
 
+  /**
+   * 从协议文档加载解析配置
+   *
+   * - 指令配置 (instruct) → 协议指令缓存
+   * - 协议级 scriptEnd → 响应脚本缓存
+   * - 状态数据点的 `{值:描述|...}` 单位 → 状态映射表
+   *
+   * 协议更新后重新调用即可覆盖旧配置
+   *
+   * @param protocol - 协议文档 (device.protocols)
+   */
+  public loadProtocol(protocol: Protocol): void {
+    const instructMap = new Map<string, ProtocolInstruct>();
+
+    for (const instruct of protocol.instruct.map(toProtocolInstruct)) {
+      instructMap.set(instruct.name, instruct);
+
+      for (const field of instruct.formResize) {
+        if (!field.isState || !field.unit || this.stateMapCache.has(field.unit)) continue;
+
+        const stateMap = parseStateUnit(field.unit);
+        if (stateMap) {
+          this.stateMapCache.set(field.unit, stateMap);
+        }
+      }
+    }
+
+    this.setProtocolInstruct(protocol.Protocol, instructMap);
+    this.setProtocolScript(protocol.Protocol, protocol.scriptEnd);
+  }
+
+  /**
+   * 协议是否已加载
+   *
+   * @param protocolName - 协议名称
+   */
+  public hasProtocol(protocolName: string): boolean {
+    return this.protocolInstructCache.has(protocolName);
+  }
+
   /**
    * 设置协议指令缓存 (用于测试或手动配置)
    *
@@ -115,6 +170,20 @@ export class DataParsingService {
     this.protocolInstructCache.set(protocolName, instructMap);
   }
 
+  /**
+   * 设置协议级响应脚本 (Protocol.scriptEnd)
+   *
+   * @param protocolName - 协议名称
+   * @param scriptEnd - 响应校验/提取脚本，为空时清除
+   */
+  public setProtocolScript(protocolName: string, scriptEnd?: string): void {
+    if (scriptEnd) {
+      this.protocolScriptCache.set(protocolName, scriptEnd);
+    } else {
+      this.protocolScriptCache.delete(protocolName);
+    }
+  }
+
   /**
    * 设置指令内容到名称的映射 (用于测试或手动配置)
    *
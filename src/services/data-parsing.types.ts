@@ -34,6 +34,23 @@ export interface QueryResult {
   useTime: number;
 }
 
+/**
+ * 寄存器字节序 (A 为最高字节)
+ *
+ * - ABCD: 大端 (Modbus 标准)
+ * - CDAB: 字交换 (低字在前，字内大端)
+ * - BADC: 字内字节交换
+ * - DCBA: 小端
+ *
+ * 16 位数据只区分字内字节序 (ABCD/CDAB 相同, BADC/DCBA 相同)
+ */
+export type RegisterByteOrder = 'ABCD' | 'CDAB' | 'BADC' | 'DCBA';
+
+/**
+ * 定宽寄存器数据类型
+ */
+export type RegisterDataType = 'int16' | 'uint16' | 'int32' | 'uint32' | 'float' | 'double';
+
 /**
  * 协议指令定义
  */
@@ -42,8 +59,17 @@ export interface ProtocolInstruct {
   name: string;
   /** 是否非标协议 */
   noStandard?: boolean;
-  /** 返回数据类型 */
-  resultType: 'bit2' | 'utf8' | 'hex' | 'short' | 'float';
+  /** 非标协议响应校验/提取脚本 (未配置时使用协议级 scriptEnd) */
+  scriptEnd?: string;
+  /**
+   * 返回数据类型
+   *
+   * hex/short 为有符号大端整数，宽度由 regx 决定 (老协议)；
+   * 定宽类型见 RegisterDataType
+   */
+  resultType: 'bit2' | 'utf8' | 'hex' | 'short' | RegisterDataType;
+  /** 寄存器字节序 (默认 ABCD)，数据点可单独覆盖 */
+  byteOrder?: RegisterByteOrder;
   /** 是否裁剪开头 */
   shift?: boolean;
   /** 裁剪开头字节数 */
@@ -74,6 +100,10 @@ export interface FormResize {
   isState: boolean;
   /** 系数 (字符串表示,如 "0.1" 或 "1") */
   bl?: string;
+  /** 数据类型 (覆盖指令的 resultType，bit2/utf8 指令不支持) */
+  dataType?: RegisterDataType;
+  /** 字节序 (覆盖指令的 byteOrder) */
+  byteOrder?: RegisterByteOrder;
 }
 
 /**
@@ -92,6 +122,36 @@ export interface ParsedArgument {
   issimulate: boolean;
 }
 
+/**
+ * 告警评估用的数据点
+ */
+export interface ParsedDataPoint {
+  /** 数据点名称 */
+  name: string;
+  /** 数据点值 (可转换为数值时为 number) */
+  value: number | string;
+  /** 单位 */
+  unit?: string;
+  /** 值是否有效 (空值/无法解析时为 false) */
+  isValid: boolean;
+}
+
+/**
+ * 解析后的设备数据 (告警规则引擎输入)
+ */
+export interface ParsedData {
+  /** 终端 MAC 地址 */
+  mac: string;
+  /** 设备 PID */
+  pid: number;
+  /** 协议名称 */
+  protocol: string;
+  /** 数据时间戳 */
+  timestamp: number;
+  /** 数据点列表 */
+  dataPoints: ParsedDataPoint[];
+}
+
 /**
  * 解析上下文 - 提供解析器所需的共享数据
  */
@@ -110,4 +170,7 @@ export interface ParsingContext {
 
   /** 状态映射缓存: Map<unit, Map<value, label>> */
   stateMapCache: Map<string, Map<string, string>>;
+
+  /** 协议级响应脚本: Map<protocol, scriptEnd> (非标协议) */
+  protocolScriptMap?: Map<string, string>;
 }
@@ -0,0 +1,320 @@
+/**
+ * Device Permission Service
+ * 设备级权限校验 (REST 路由与 /user 命名空间订阅共用)
+ *
+ * 权限来源 (按优先级):
+ * 1. 管理员角色: 拥有全部设备的全部权限
+ * 2. 用户设备绑定记录 (user_bind_devices.permissionLevel，含分享邀请授权，过期即失效)
+ * 3. 用户 devices 列表 / user.terminalBindings (老系统绑定方式，无绑定记录时视为设备所有者)
+ *
+ * 告警通知等按设备所有权分发的场景只认用户自身的绑定，管理员角色不视为拥有全部设备
+ */
+
+import { ObjectId, type Db } from 'mongodb';
+import { mongodb } from '../database/mongodb';
+import {
+  Phase3Collections,
+  DevicePermissionLevel,
+  UserRole,
+  buildUserBindDeviceQuery,
+  isBindingEffective,
+  isPermissionLevelSufficient,
+  type UserDocument,
+} from '../entities/mongodb';
+import { logger } from '../utils/logger';
+
+/**
+ * 权限校验主体 (认证后的用户信息)
+ */
+export type DevicePermissionSubject = Pick<UserDocument, '_id' | 'role' | 'devices'>;
+
+/**
+ * 用户对设备的访问权限
+ */
+export interface DeviceAccess {
+  /** 权限级别 */
+  level: DevicePermissionLevel;
+  /** 授权的挂载设备 PID (为空表示整个终端) */
+  pids?: number[];
+}
+
+/**
+ * 老系统绑定 (仅在 devices 列表中) 的权限级别
+ *
+ * 老系统只有终端所有者能绑定设备，保持原有的完全控制权限
+ */
+export const LEGACY_BINDING_LEVEL = DevicePermissionLevel.ADMIN;
+
+/**
+ * 老系统 WebSocket 用户绑定集合 ({ userId, mac })
+ */
+const LEGACY_TERMINAL_BINDING_COLLECTION = 'user.terminalBindings';
+
+/**
+ * 老系统用户绑定设备集合 ({ user: 用户名, UTs: 终端 MAC 列表 })
+ */
+const LEGACY_USER_BIND_DEVICE_COLLECTION = 'user.binddevices';
+
+/**
+ * 老系统用户绑定设备文档
+ */
+interface LegacyUserBindDevice {
+  user: string;
+  UTs?: string[];
+}
+
+/**
+ * 检查访问权限是否满足要求 (含挂载设备范围)
+ */
+function isDeviceAccessSufficient(
+  access: DeviceAccess,
+  requiredLevel: DevicePermissionLevel,
+  pid?: number
+): boolean {
+  if (!isPermissionLevelSufficient(access.level, requiredLevel)) {
+    return false;
+  }
+
+  if (!access.pids) {
+    return true;
+  }
+
+  return pid === undefined
+    ? requiredLevel === DevicePermissionLevel.READ
+    : access.pids.includes(pid);
+}
+
+/**
+ * 设备权限服务
+ */
+export class DevicePermissionService {
+  private db?: Db;
+
+  /**
+   * @param db - 数据库实例 (默认使用全局连接，延迟获取)
+   */
+  constructor(db?: Db) {
+    this.db = db;
+  }
+
+  private get collections(): Phase3Collections {
+    return new Phase3Collections(this.db ?? mongodb.getDatabase());
+  }
+
+  /**
+   * 获取用户对设备的访问权限
+   *
+   * @param user - 用户
+   * @param mac - 设备 MAC 地址
+   * @returns 权限级别和授权的挂载设备 PID，无权限返回 null
+   */
+  async getDeviceAccess(
+    user: DevicePermissionSubject,
+    mac: string
+  ): Promise<DeviceAccess | null> {
+    if (user.role === UserRole.ADMIN) {
+      return { level: DevicePermissionLevel.ADMIN };
+    }
+
+    return this.getBindingAccess(user, mac);
+  }
+
+  /**
+   * 获取用户自身绑定的设备访问权限 (不含管理员角色)
+   *
+   * @param user - 用户
+   * @param mac - 设备 MAC 地址
+   * @returns 权限级别和授权的挂载设备 PID，未绑定返回 null
+   */
+  async getBindingAccess(
+    user: Pick<UserDocument, '_id' | 'devices'>,
+    mac: string
+  ): Promise<DeviceAccess | null> {
+    const binding = await this.collections.userBindDevices.findOne(
+      buildUserBindDeviceQuery({ userId: new ObjectId(user._id), deviceMac: mac })
+    );
+
+    if (binding) {
+      return isBindingEffective(binding)
+        ? { level: binding.permissionLevel, pids: binding.pids?.length ? binding.pids : undefined }
+        : null;
+    }
+
+    const normalizedMac = mac.toUpperCase();
+    if (user.devices?.some((device) => device.toUpperCase() === normalizedMac)) {
+      return { level: LEGACY_BINDING_LEVEL };
+    }
+
+    return null;
+  }
+
+  /**
+   * 获取用户对设备的权限级别
+   *
+   * @param user - 用户
+   * @param mac - 设备 MAC 地址
+   * @returns 权限级别，无权限返回 null
+   */
+  async getPermissionLevel(
+    user: DevicePermissionSubject,
+    mac: string
+  ): Promise<DevicePermissionLevel | null> {
+    return (await this.getDeviceAccess(user, mac))?.level ?? null;
+  }
+
+  /**
+   * 检查用户是否拥有设备的指定权限
+   *
+   * 仅授权部分挂载设备时：指定 pid 的请求要求 pid 在授权范围内，
+   * 未指定 pid 的终端级请求只允许 READ (查看时按授权范围过滤挂载设备)
+   *
+   * @param user - 用户
+   * @param mac - 设备 MAC 地址
+   * @param requiredLevel - 需要的权限级别
+   * @param pid - 挂载设备 PID (可选)
+   */
+  async authorize(
+    user: DevicePermissionSubject,
+    mac: string,
+    requiredLevel: DevicePermissionLevel,
+    pid?: number
+  ): Promise<boolean> {
+    try {
+      const access = await this.getDeviceAccess(user, mac);
+      return access !== null && isDeviceAccessSufficient(access, requiredLevel, pid);
+    } catch (error) {
+      logger.error(`[DevicePermission] Failed to check ${mac} for user ${user._id}:`, error);
+      return false; // 出错时默认拒绝访问
+    }
+  }
+
+  /**
+   * 获取用户可访问的设备 MAC 列表 (老系统 devices 列表 + 生效中的绑定记录)
+   *
+   * @param user - 用户
+   * @returns 去重后的 MAC 列表 (大写)
+   */
+  async getAccessibleMacs(user: DevicePermissionSubject): Promise<string[]> {
+    const bindings = await this.collections.userBindDevices
+      .find(buildUserBindDeviceQuery({ userId: new ObjectId(user._id) }))
+      .toArray();
+
+    const macs = new Set((user.devices ?? []).map((device) => device.toUpperCase()));
+    for (const binding of bindings) {
+      if (isBindingEffective(binding)) {
+        macs.add(binding.deviceMac);
+      } else {
+        macs.delete(binding.deviceMac); // 绑定记录优先于 devices 列表
+      }
+    }
+
+    return [...macs];
+  }
+
+  /**
+   * 从一组用户名中筛选绑定了设备的用户 (告警通知按设备所有权分发)
+   *
+   * 绑定来源:
+   * 1. 新系统用户: 绑定记录优先 (过期或未授权该 pid 即不是所有者)，其次 devices 列表和终端 bindUsers
+   * 2. 老系统 user.binddevices 的 UTs 列表 (按用户名关联，也适用于尚未迁移的用户)
+   *
+   * 停用的账户不返回
+   *
+   * @param usernames - 候选用户名
+   * @param mac - 设备 MAC 地址
+   * @param pid - 挂载设备 PID (仅授权部分挂载设备时校验)
+   * @returns 绑定了设备的用户名 (保持传入顺序)
+   */
+  async filterDeviceOwners(usernames: string[], mac: string, pid?: number): Promise<string[]> {
+    if (usernames.length === 0) {
+      return [];
+    }
+
+    const normalizedMac = mac.toUpperCase();
+    const [users, terminal, legacyBindings] = await Promise.all([
+      this.collections.users.find({ username: { $in: usernames } }).toArray(),
+      this.collections.terminals.findOne({ DevMac: mac }, { projection: { bindUsers: 1 } }),
+      (this.db ?? mongodb.getDatabase())
+        .collection<LegacyUserBindDevice>(LEGACY_USER_BIND_DEVICE_COLLECTION)
+        .find({ user: { $in: usernames } })
+        .toArray(),
+    ]);
+
+    const legacyOwners = new Set(
+      legacyBindings
+        .filter((binding) => binding.UTs?.some((ut) => ut.toUpperCase() === normalizedMac))
+        .map((binding) => binding.user)
+    );
+    const bindUsers = new Set(terminal?.bindUsers ?? []);
+
+    const owners = new Set<string>();
+    const migratedUsers = new Set<string>();
+
+    for (const user of users) {
+      migratedUsers.add(user.username);
+      if (!user.isActive) {
+        continue;
+      }
+
+      // 老系统绑定视同 devices 列表，绑定记录仍然优先
+      const legacyOwner = legacyOwners.has(user.username) || bindUsers.has(user._id.toHexString());
+      const access = await this.getBindingAccess(
+        legacyOwner ? { _id: user._id, devices: [...(user.devices ?? []), normalizedMac] } : user,
+        mac
+      );
+
+      if (access && (pid === undefined || !access.pids || access.pids.includes(pid))) {
+        owners.add(user.username);
+      }
+    }
+
+    for (const username of legacyOwners) {
+      if (!migratedUsers.has(username)) {
+        owners.add(username);
+      }
+    }
+
+    return usernames.filter((username) => owners.has(username));
+  }
+
+  /**
+   * 按用户 ID 检查设备权限 (WebSocket 等只持有用户 ID 的场景)
+   *
+   * 每次重新读取用户，角色变更和账户停用立即生效；
+   * 用户没有绑定记录时兼容老系统的 user.terminalBindings 绑定
+   *
+   * @param pid - 挂载设备 PID (可选，仅授权部分挂载设备时按授权范围检查)
+   */
+  async authorizeUserId(
+    userId: string,
+    mac: string,
+    requiredLevel: DevicePermissionLevel,
+    pid?: number
+  ): Promise<boolean> {
+    try {
+      if (ObjectId.isValid(userId)) {
+        const user = await this.collections.users.findOne({ _id: new ObjectId(userId) });
+        if (user && !user.isActive) {
+          return false;
+        }
+
+        const access = user ? await this.getDeviceAccess(user, mac) : null;
+        if (access !== null) {
+          return isDeviceAccessSufficient(access, requiredLevel, pid);
+        }
+      }
+
+      const legacyBinding = await (this.db ?? mongodb.getDatabase())
+        .collection(LEGACY_TERMINAL_BINDING_COLLECTION)
+        .findOne({ userId, mac });
+
+      return legacyBinding !== null && isPermissionLevelSufficient(LEGACY_BINDING_LEVEL, requiredLevel);
+    } catch (error) {
+      logger.error(`[DevicePermission] Failed to check ${mac} for user ${userId}:`, error);
+      return false; // 出错时默认拒绝访问
+    }
+  }
+}
+
+// 导出单例
+export const devicePermissionService = new DevicePermissionService();
@@ -0,0 +1,240 @@
+/**
+ * Device Share Service
+ * 设备分享邀请 (创建 → 接受 → 撤销)
+ *
+ * - 设备管理者 (ADMIN 权限) 为终端或指定挂载设备创建邀请，最高授予 WRITE 权限
+ * - 接收者凭邀请码接受，生成带 shareId 的用户设备绑定记录
+ * - 撤销邀请同时删除由该邀请生成的授权
+ * - 过期的邀请和授权由 TTL 索引自动清理，清理前由权限检查排除
+ */
+
+import { randomBytes } from 'crypto';
+import { ObjectId, type Db } from 'mongodb';
+import {
+  Phase3Collections,
+  DevicePermissionLevel,
+  DeviceShareStatus,
+  buildUserBindDeviceQuery,
+  createDeviceShare,
+  createUserBindDevice,
+  isBindingEffective,
+  isDeviceShareExpired,
+  type DeviceShareDocument,
+  type UserBindDeviceDocument,
+} from '../entities/mongodb';
+import { logger } from '../utils/logger';
+
+/**
+ * 邀请码随机字节数 (base64url 编码后 16 个字符)
+ */
+const SHARE_CODE_BYTES = 12;
+
+/**
+ * 可通过分享授予的权限级别
+ */
+const SHAREABLE_LEVELS: DevicePermissionLevel[] = [
+  DevicePermissionLevel.READ,
+  DevicePermissionLevel.WRITE,
+];
+
+/**
+ * 分享邀请错误 (邀请无效、已过期等可预期错误)
+ */
+export class DeviceShareError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'DeviceShareError';
+  }
+}
+
+/**
+ * 创建分享邀请参数
+ */
+export interface CreateShareInvitationParams {
+  ownerId: ObjectId; // 创建者
+  mac: string; // 终端 MAC
+  permissionLevel: DevicePermissionLevel; // 授权级别 (READ / WRITE)
+  pids?: number[]; // 授权的挂载设备 (为空表示整个终端)
+  expiresAt?: Date; // 授权过期时间
+  remark?: string;
+}
+
+/**
+ * 设备分享服务
+ */
+export class DeviceShareService {
+  private collections: Phase3Collections;
+
+  constructor(db: Db) {
+    this.collections = new Phase3Collections(db);
+  }
+
+  /**
+   * 创建分享邀请
+   *
+   * @returns 邀请文档 (含邀请码)
+   */
+  async createInvitation(params: CreateShareInvitationParams): Promise<DeviceShareDocument> {
+    const { ownerId, permissionLevel, expiresAt, remark } = params;
+    const mac = params.mac.toUpperCase();
+
+    if (!SHAREABLE_LEVELS.includes(permissionLevel)) {
+      throw new DeviceShareError('只能分享只读或读写权限', 'INVALID_PERMISSION_LEVEL');
+    }
+
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new DeviceShareError('过期时间必须晚于当前时间', 'INVALID_EXPIRY');
+    }
+
+    const terminal = await this.collections.terminals.findOne({ DevMac: mac });
+    if (!terminal) {
+      throw new DeviceShareError('终端不存在', 'TERMINAL_NOT_FOUND');
+    }
+
+    const pids = params.pids?.length ? [...new Set(params.pids)] : undefined;
+    const missing = pids?.filter((pid) => !terminal.mountDevs?.some((dev) => dev.pid === pid));
+    if (missing?.length) {
+      throw new DeviceShareError(`挂载设备不存在: ${missing.join(', ')}`, 'MOUNT_DEVICE_NOT_FOUND');
+    }
+
+    const share = createDeviceShare({
+      code: randomBytes(SHARE_CODE_BYTES).toString('base64url'),
+      ownerId,
+      deviceMac: mac,
+      pids,
+      permissionLevel,
+      expiresAt,
+      remark,
+    });
+
+    const result = await this.collections.deviceShares.insertOne(share as DeviceShareDocument);
+    logger.info(
+      `[DeviceShare] ${ownerId} shared ${share.deviceMac} (${permissionLevel}${pids ? `, pids ${pids.join(',')}` : ''})`
+    );
+
+    return { ...share, _id: result.insertedId };
+  }
+
+  /**
+   * 接受分享邀请
+   *
+   * 邀请只能接受一次；接收者已通过其他方式 (直接绑定) 拥有设备时不覆盖原有权限
+   *
+   * @param code - 邀请码
+   * @param recipientId - 接收者用户 ID
+   * @returns 生成的设备绑定记录
+   */
+  async acceptInvitation(code: string, recipientId: ObjectId): Promise<UserBindDeviceDocument> {
+    const share = await this.collections.deviceShares.findOne({ code });
+    if (!share) {
+      throw new DeviceShareError('分享邀请不存在', 'SHARE_NOT_FOUND');
+    }
+
+    if (share.status === DeviceShareStatus.REVOKED) {
+      throw new DeviceShareError('分享邀请已撤销', 'SHARE_REVOKED');
+    }
+
+    if (share.status === DeviceShareStatus.ACCEPTED) {
+      throw new DeviceShareError('分享邀请已被接受', 'SHARE_ALREADY_ACCEPTED');
+    }
+
+    if (isDeviceShareExpired(share)) {
+      throw new DeviceShareError('分享邀请已过期', 'SHARE_EXPIRED');
+    }
+
+    if (share.ownerId.equals(recipientId)) {
+      throw new DeviceShareError('不能接受自己创建的分享', 'SHARE_SELF_ACCEPT');
+    }
+
+    const bindingQuery = buildUserBindDeviceQuery({
+      userId: recipientId,
+      deviceMac: share.deviceMac,
+    });
+
+    const existing = await this.collections.userBindDevices.findOne(bindingQuery);
+    if (existing && !existing.shareId && isBindingEffective(existing)) {
+      throw new DeviceShareError('已拥有该设备的访问权限', 'DEVICE_ALREADY_BOUND');
+    }
+
+    // 状态条件更新，防止同一邀请被并发接受
+    const now = new Date();
+    const updated = await this.collections.deviceShares.updateOne(
+      { _id: share._id, status: DeviceShareStatus.PENDING },
+      {
+        $set: {
+          status: DeviceShareStatus.ACCEPTED,
+          recipientId,
+          acceptedAt: now,
+          updatedAt: now,
+        },
+      }
+    );
+    if (updated.modifiedCount === 0) {
+      throw new DeviceShareError('分享邀请已被接受', 'SHARE_ALREADY_ACCEPTED');
+    }
+
+    // 替换之前的分享授权或已失效的绑定
+    if (existing) {
+      await this.collections.userBindDevices.deleteOne({ _id: existing._id });
+    }
+
+    const binding = createUserBindDevice({
+      userId: recipientId,
+      deviceMac: share.deviceMac,
+      permissionLevel: share.permissionLevel,
+      pids: share.pids,
+      expiresAt: share.expiresAt,
+      shareId: share._id,
+    });
+
+    const result = await this.collections.userBindDevices.insertOne(binding as UserBindDeviceDocument);
+    logger.info(`[DeviceShare] ${recipientId} accepted share ${share._id} for ${share.deviceMac}`);
+
+    return { ...binding, _id: result.insertedId };
+  }
+
+  /**
+   * 获取终端的分享邀请列表 (最新在前，已过期的由 TTL 清理)
+   *
+   * @param mac - 终端 MAC
+   */
+  async listShares(mac: string): Promise<DeviceShareDocument[]> {
+    return await this.collections.deviceShares
+      .find({ deviceMac: mac.toUpperCase() })
+      .sort({ createdAt: -1 })
+      .toArray();
+  }
+
+  /**
+   * 撤销分享邀请并删除由该邀请生成的授权
+   *
+   * @param mac - 终端 MAC
+   * @param shareId - 邀请 ID
+   * @returns 删除的授权数量
+   */
+  async revokeShare(mac: string, shareId: ObjectId): Promise<number> {
+    const share = await this.collections.deviceShares.findOne({
+      _id: shareId,
+      deviceMac: mac.toUpperCase(),
+    });
+    if (!share) {
+      throw new DeviceShareError('分享邀请不存在', 'SHARE_NOT_FOUND');
+    }
+
+    if (share.status !== DeviceShareStatus.REVOKED) {
+      const now = new Date();
+      await this.collections.deviceShares.updateOne(
+        { _id: shareId },
+        { $set: { status: DeviceShareStatus.REVOKED, revokedAt: now, updatedAt: now } }
+      );
+    }
+
+    const result = await this.collections.userBindDevices.deleteMany({ shareId });
+    logger.info(`[DeviceShare] Revoked share ${shareId} for ${share.deviceMac} (${result.deletedCount} grants)`);
+
+    return result.deletedCount;
+  }
+}
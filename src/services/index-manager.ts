@@ -377,12 +377,33 @@ export class IndexManager {
         ],
       },
 
-      // ============ 其他集合 (4个) ============
+      // ============ 其他集合 (7个) ============
       {
         collection: 'node.clients',
         indexes: [{ key: { Name: 1 }, options: { unique: true } }],
       },
 
+      {
+        collection: 'node.runinfos',
+        indexes: [{ key: { NodeName: 1 }, options: { unique: true } }],
+      },
+
+      {
+        collection: 'log.noderuninfos',
+        indexes: [
+          { key: { NodeName: 1, updateTime: -1 } },
+          { key: { updateTime: 1 }, options: { expireAfterSeconds: 2592000 } }, // 30 天
+        ],
+      },
+
+      {
+        collection: 'log.nodes',
+        indexes: [
+          { key: { Name: 1, timeStamp: -1 } },
+          { key: { timeStamp: 1 }, options: { expireAfterSeconds: 7776000 } }, // 90 天
+        ],
+      },
+
       {
         collection: 'terminal.registers',
         indexes: [{ key: { DevMac: 1 }, options: { unique: true } }],
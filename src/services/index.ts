@@ -3,15 +3,23 @@
  *
  * 集中管理应用服务的创建和生命周期：
  * - 队列服务 (SQLite/BullMQ)
+ * - 告警规则引擎
  * - 告警通知服务
+ * - 告警升级服务
+ * - 时间序列数据写入
  * - 服务依赖注入
  */
 
 import type { Db } from 'mongodb';
 import { SQLiteQueueService } from './queue/sqlite-queue.service';
+import { BullMQQueueService } from './queue/bullmq-queue.service';
 import type { QueueService } from './queue/queue.interface';
 import { AlarmNotificationService } from './alarm-notification.service';
-import { config } from '../config';
+import { AlarmRuleEngineService } from './alarm-rule-engine.service';
+import { AlarmEscalationService } from './alarm-escalation.service';
+import { TimeSeriesWriterService } from './time-series-writer.service';
+import { queueMetrics } from './metrics/queue-metrics';
+import { config, derivedConfig } from '../config';
 
 /**
  * 应用服务容器
@@ -23,12 +31,27 @@ export class ServiceContainer {
   /** 告警通知服务 */
   public alarmNotificationService: AlarmNotificationService;
 
+  /** 告警规则引擎 */
+  public alarmRuleEngine: AlarmRuleEngineService;
+
+  /** 告警升级服务 */
+  public alarmEscalationService: AlarmEscalationService;
+
+  /** 时间序列数据写入服务 */
+  public timeSeriesWriter: TimeSeriesWriterService;
+
   private constructor(
     queueService: QueueService,
-    alarmNotificationService: AlarmNotificationService
+    alarmNotificationService: AlarmNotificationService,
+    alarmRuleEngine: AlarmRuleEngineService,
+    alarmEscalationService: AlarmEscalationService,
+    timeSeriesWriter: TimeSeriesWriterService
   ) {
     this.queueService = queueService;
     this.alarmNotificationService = alarmNotificationService;
+    this.alarmRuleEngine = alarmRuleEngine;
+    this.alarmEscalationService = alarmEscalationService;
+    this.timeSeriesWriter = timeSeriesWriter;
   }
 
   /**
@@ -48,19 +71,48 @@ export class ServiceContainer {
         pollInterval?: number;
         maxConcurrency?: number;
       };
+      /** BullMQ 队列配置 */
+      bullmqConfig?: {
+        prefix?: string;
+        maxConcurrency?: number;
+      };
     } = {}
   ): Promise<ServiceContainer> {
     console.log('[ServiceContainer] Initializing services...');
 
-    // 1. 创建队列服务
+    // 1. 创建队列服务（死信数量等指标从队列服务读取）
     const queueService = await this.createQueueService(options);
+    queueMetrics.attachQueueService(queueService);
 
     // 2. 创建告警通知服务（注入队列服务）
     const alarmNotificationService = new AlarmNotificationService(db, queueService);
 
+    // 3. 创建告警规则引擎（全局共享规则缓存）
+    const alarmRuleEngine = new AlarmRuleEngineService(db);
+
+    // 4. 创建告警升级服务（延迟任务走队列服务）
+    const alarmEscalationService = new AlarmEscalationService(
+      db,
+      queueService,
+      alarmNotificationService
+    );
+
+    // 5. 创建时间序列写入服务（批量写入参数历史数据）
+    const timeSeriesWriter = new TimeSeriesWriterService(db, {
+      batchSize: config.BATCH_WRITE_SIZE,
+      flushInterval: config.BATCH_WRITE_INTERVAL,
+    });
+    timeSeriesWriter.start();
+
     console.log('[ServiceContainer] All services initialized successfully');
 
-    return new ServiceContainer(queueService, alarmNotificationService);
+    return new ServiceContainer(
+      queueService,
+      alarmNotificationService,
+      alarmRuleEngine,
+      alarmEscalationService,
+      timeSeriesWriter
+    );
   }
 
   /**
@@ -73,6 +125,10 @@ export class ServiceContainer {
       pollInterval?: number;
       maxConcurrency?: number;
     };
+    bullmqConfig?: {
+      prefix?: string;
+      maxConcurrency?: number;
+    };
   }): Promise<QueueService> {
     const queueType = options.queueType || config.QUEUE_TYPE;
 
@@ -88,7 +144,16 @@ export class ServiceContainer {
       return new SQLiteQueueService(sqliteConfig);
     }
 
-    // TODO: BullMQ implementation
+    if (queueType === 'bullmq') {
+      console.log('[ServiceContainer] Creating BullMQ queue service');
+
+      return new BullMQQueueService({
+        connection: derivedConfig.redisConfig,
+        prefix: options.bullmqConfig?.prefix,
+        maxConcurrency: options.bullmqConfig?.maxConcurrency || config.QUEUE_MAX_CONCURRENCY,
+      });
+    }
+
     throw new Error(`Queue type "${queueType}" not implemented yet`);
   }
 
@@ -99,6 +164,14 @@ export class ServiceContainer {
     console.log('[ServiceContainer] Closing services...');
 
     try {
+      await this.timeSeriesWriter.stop();
+      console.log('[ServiceContainer] Time series writer closed');
+    } catch (error) {
+      console.error('[ServiceContainer] Error closing time series writer:', error);
+    }
+
+    try {
+      queueMetrics.attachQueueService(null);
       await this.queueService.close();
       console.log('[ServiceContainer] Queue service closed');
     } catch (error) {
@@ -0,0 +1,76 @@
+/**
+ * Notification Prometheus 指标
+ *
+ * 监控通知发送量、限流抑制次数和短信月度预算用量
+ */
+
+import type { Counter, Gauge } from 'prom-client';
+import { metricsService } from '../metrics.service';
+
+/**
+ * Notification 指标集合
+ */
+export class NotificationMetrics {
+  /** 已发送通知数 (按渠道，短信按号码计) */
+  public readonly sentTotal: Counter<'channel'>;
+
+  /** 被抑制的通知数 (按渠道和原因: user / device / tenant / budget) */
+  public readonly suppressedTotal: Counter<'channel' | 'reason'>;
+
+  /** 本月已发送短信数 */
+  public readonly smsBudgetUsed: Gauge;
+
+  /** 短信月度预算 (0 表示不限制) */
+  public readonly smsBudgetLimit: Gauge;
+
+  constructor() {
+    this.sentTotal = metricsService.createCounter({
+      name: 'notifications_sent_total',
+      help: 'Total notifications sent by channel (SMS counted per phone number)',
+      labelNames: ['channel'],
+    });
+
+    this.suppressedTotal = metricsService.createCounter({
+      name: 'notifications_suppressed_total',
+      help: 'Total notifications suppressed by rate limits or the SMS budget',
+      labelNames: ['channel', 'reason'],
+    });
+
+    this.smsBudgetUsed = metricsService.createGauge({
+      name: 'sms_budget_used',
+      help: 'Number of SMS sent in the current month',
+    });
+
+    this.smsBudgetLimit = metricsService.createGauge({
+      name: 'sms_budget_limit',
+      help: 'Monthly SMS budget (0 = unlimited)',
+    });
+  }
+
+  /**
+   * 记录发送成功
+   */
+  recordSent(channel: string, count = 1): void {
+    this.sentTotal.inc({ channel }, count);
+  }
+
+  /**
+   * 记录被抑制的通知
+   */
+  recordSuppressed(channel: string, reason: string): void {
+    this.suppressedTotal.inc({ channel, reason });
+  }
+
+  /**
+   * 更新短信预算用量
+   */
+  updateSmsBudget(used: number, limit: number): void {
+    this.smsBudgetUsed.set(used);
+    this.smsBudgetLimit.set(limit);
+  }
+}
+
+/**
+ * Notification 指标单例
+ */
+export const notificationMetrics = new NotificationMetrics();
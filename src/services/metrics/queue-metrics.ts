@@ -0,0 +1,72 @@
+/**
+ * Queue Prometheus 指标
+ *
+ * 监控任务队列积压和死信数量 (抓取指标时从队列服务读取)
+ */
+
+import type { Gauge } from 'prom-client';
+import { metricsService } from '../metrics.service';
+import type { QueueService } from '../queue/queue.interface';
+
+/**
+ * Queue 指标集合
+ */
+export class QueueMetrics {
+  /** 各队列待处理任务数 */
+  public readonly pendingJobs: Gauge<'queue'>;
+
+  /** 各队列死信任务数 (重试耗尽的失败任务) */
+  public readonly deadLetterJobs: Gauge<'queue'>;
+
+  /** 指标来源队列服务 */
+  private queueService: QueueService | null = null;
+
+  constructor() {
+    const metrics = this;
+
+    // 先注册的指标先被抓取，统一在此刷新两个指标
+    this.pendingJobs = metricsService.createGauge({
+      name: 'queue_pending_jobs',
+      help: 'Number of pending jobs by queue',
+      labelNames: ['queue'],
+      async collect() {
+        await metrics.collect();
+      },
+    });
+
+    this.deadLetterJobs = metricsService.createGauge({
+      name: 'queue_dead_letter_jobs',
+      help: 'Number of dead letter (permanently failed) jobs by queue',
+      labelNames: ['queue'],
+    });
+  }
+
+  /**
+   * 绑定队列服务 (传入 null 解除绑定)
+   */
+  attachQueueService(queueService: QueueService | null): void {
+    this.queueService = queueService;
+  }
+
+  /**
+   * 从队列服务读取最新统计
+   */
+  async collect(): Promise<void> {
+    if (!this.queueService) return;
+
+    try {
+      for (const queue of await this.queueService.getQueueNames()) {
+        const stats = await this.queueService.getQueueStats(queue);
+        this.pendingJobs.set({ queue }, stats.pending);
+        this.deadLetterJobs.set({ queue }, stats.failed);
+      }
+    } catch (error) {
+      console.error('[QueueMetrics] Failed to collect queue stats:', error);
+    }
+  }
+}
+
+/**
+ * Queue 指标单例
+ */
+export const queueMetrics = new QueueMetrics();
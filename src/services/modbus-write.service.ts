@@ -0,0 +1,192 @@
+/**
+ * Modbus Write Service
+ * 设备参数写入 (设定值下发)
+ *
+ * 写入流程:
+ * 1. 根据协议数据点定义推导寄存器地址、数据类型和字节序
+ * 2. 反算系数并生成 05/06/10 写指令 (PID + CRC 由 InstructQuery 补全)
+ * 3. 通过 SocketIoService 下发并校验响应回显 (需要 server 解析模式的 Node 回传原始帧)
+ * 4. 可选回读寄存器确认写入值
+ * 5. 记录 DTU 操作日志 (含写入前后的值)
+ */
+
+import { socketIoService } from './socket-io.service';
+import { terminalService } from './terminal.service';
+import { protocolService } from './protocol.service';
+import { resultService } from './result.service';
+import { dtuOperationLogService } from './dtu-operation-log.service';
+import { toProtocolInstruct } from '../utils/data-parsing.utils';
+import {
+  ModbusWriteError,
+  buildReadInstruct,
+  buildWriteInstruct,
+  decodeReadResponse,
+  extractResponseFrame,
+  fromRawValue,
+  resolveWritableRegister,
+  verifyWriteResponse,
+  type WritableRegister,
+} from '../utils/modbus-write.utils';
+import { logger } from '../utils/logger';
+
+/**
+ * 参数写入请求
+ */
+export interface WriteParameterParams {
+  mac: string; // 终端 MAC
+  pid: number; // 设备 PID
+  parameter: string; // 数据点名称
+  value: number; // 写入值 (显示值，应用系数前)
+  readBack?: boolean; // 是否回读确认 (默认 true)
+  operatedBy: string; // 操作人
+}
+
+/**
+ * 参数写入结果
+ */
+export interface WriteParameterResult {
+  ok: number; // 1 成功，0 失败
+  msg: string; // 结果消息
+  data?: {
+    parameter: string;
+    instruct: string; // 写指令内容 (不含 PID 和 CRC)
+    before: string | null; // 写入前的值 (最新查询结果)
+    after: number | null; // 回读值 (未回读时为 null)
+    useTime: number;
+  };
+}
+
+/**
+ * 回读值与写入值的允许误差 (浮点/系数换算)
+ */
+const READ_BACK_TOLERANCE = 1e-3;
+
+class ModbusWriteService {
+  /**
+   * 写入设备参数
+   */
+  async writeParameter(params: WriteParameterParams): Promise<WriteParameterResult> {
+    const { mac, pid, parameter, value, readBack = true, operatedBy } = params;
+    const startTime = Date.now();
+
+    let protocol: string | undefined;
+    let instruct: string | undefined;
+    let before: string | null = null;
+    let after: number | null = null;
+    let raw: unknown;
+
+    const finish = async (ok: boolean, msg: string): Promise<WriteParameterResult> => {
+      const useTime = Date.now() - startTime;
+
+      await dtuOperationLogService.log({
+        mac,
+        operation: 'writeParameter',
+        content: { pid, protocol, parameter, value, instruct },
+        success: ok,
+        message: msg,
+        data: { before, after, raw },
+        operatedBy,
+        useTime,
+        error: ok ? undefined : msg,
+      });
+
+      return {
+        ok: ok ? 1 : 0,
+        msg,
+        data: instruct ? { parameter, instruct, before, after, useTime } : undefined,
+      };
+    };
+
+    try {
+      const terminal = await terminalService.getTerminal(mac);
+      if (!terminal) {
+        return finish(false, '设备不存在');
+      }
+
+      const mountDev = terminal.mountDevs?.find((dev) => dev.pid === pid);
+      if (!mountDev) {
+        return finish(false, `设备未挂载 PID ${pid}`);
+      }
+      protocol = mountDev.protocol;
+
+      const protocolObj = await protocolService.getProtocol(protocol);
+      if (!protocolObj) {
+        return finish(false, '协议不存在');
+      }
+      if (protocolObj.Type !== 485) {
+        return finish(false, '仅支持 485 协议写入');
+      }
+
+      const node = terminal.mountNode ? await socketIoService.findNode(terminal.mountNode) : null;
+      if (!node) {
+        return finish(false, '设备所在节点离线');
+      }
+      // client 解析模式的 Node 只回传解析后的结果，没有原始响应帧，无法校验写入和回读
+      if (node.parseMode !== 'server') {
+        return finish(false, `参数写入需要 server 解析模式的 Node (${node.Name} 为 ${node.parseMode} 模式)`);
+      }
+
+      const register = resolveWritableRegister(protocolObj.instruct.map(toProtocolInstruct), parameter);
+      const writeInstruct = buildWriteInstruct(register, value);
+      instruct = writeInstruct.content;
+
+      const latest = await resultService.getLatestResult(mac, pid);
+      before = latest?.result?.find((item) => item.name === parameter)?.parseValue ?? null;
+
+      logger.info(`[ModbusWrite] ${mac}/${pid} ${parameter} = ${value} (${instruct})`);
+
+      const writeResult = await socketIoService.InstructQuery(mac, protocol, pid, instruct);
+      raw = writeResult.data;
+      if (writeResult.ok !== 1) {
+        return finish(false, writeResult.msg || '写入失败');
+      }
+
+      const writeError = verifyWriteResponse(pid, writeInstruct, extractResponseFrame(writeResult.data));
+      if (writeError) {
+        return finish(false, writeError);
+      }
+
+      if (!readBack) {
+        return finish(true, '写入成功');
+      }
+
+      after = await this.readBack(mac, protocol, pid, register);
+      if (after === null) {
+        return finish(false, '写入成功，回读失败');
+      }
+
+      const expected = register.kind === 'coil' ? writeInstruct.rawValue : value;
+      if (Math.abs(after - expected) > READ_BACK_TOLERANCE * Math.max(1, Math.abs(expected))) {
+        return finish(false, `回读值 ${after} 与写入值 ${expected} 不一致`);
+      }
+
+      return finish(true, '写入成功');
+    } catch (error) {
+      if (!(error instanceof ModbusWriteError)) {
+        logger.error(`[ModbusWrite] Failed to write ${mac}/${pid} ${parameter}:`, error);
+      }
+      return finish(false, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 回读寄存器 (返回应用系数后的值)
+   */
+  private async readBack(
+    mac: string,
+    protocol: string,
+    pid: number,
+    register: WritableRegister
+  ): Promise<number | null> {
+    const result = await socketIoService.InstructQuery(mac, protocol, pid, buildReadInstruct(register));
+    if (result.ok !== 1) {
+      return null;
+    }
+
+    const rawValue = decodeReadResponse(pid, register, extractResponseFrame(result.data));
+    return rawValue === undefined ? null : fromRawValue(rawValue, register.bl);
+  }
+}
+
+// 导出单例
+export const modbusWriteService = new ModbusWriteService();
@@ -6,7 +6,14 @@
 
 import { mongodb } from '../database/mongodb';
 import { Collection } from 'mongodb';
-import type { NodeClient } from '../types/entities';
+import type {
+  NodeClient,
+  NodeRunInfo,
+  NodeRunInfoHistory,
+  NodeLog,
+  NodeLogType,
+} from '../types/entities';
+import { logger } from '../utils/logger';
 
 /**
  * Node 客户端服务类
@@ -20,6 +27,27 @@ export class NodeService {
     return mongodb.getCollection<NodeClient>('node.clients');
   }
 
+  /**
+   * 获取节点运行信息集合 (每个节点一条当前状态)
+   */
+  private get runInfoCollection(): Collection<NodeRunInfo> {
+    return mongodb.getCollection<NodeRunInfo>('node.runinfos');
+  }
+
+  /**
+   * 获取节点运行信息历史集合
+   */
+  private get runInfoHistoryCollection(): Collection<NodeRunInfoHistory> {
+    return mongodb.getCollection<NodeRunInfoHistory>('log.noderuninfos');
+  }
+
+  /**
+   * 获取节点日志集合
+   */
+  private get logCollection(): Collection<NodeLog> {
+    return mongodb.getCollection<NodeLog>('log.nodes');
+  }
+
   /**
    * 根据节点名称获取 Node 客户端
    * @param name - 节点名称
@@ -148,6 +176,114 @@ export class NodeService {
 
     return result?.Connections || 0;
   }
+
+  /**
+   * 设置 Node 排空状态
+   * @param name - 节点名称
+   * @param draining - 是否排空
+   * @returns 节点是否存在
+   */
+  async setDraining(name: string, draining: boolean): Promise<boolean> {
+    const result = await this.collection.updateOne(
+      { Name: name },
+      { $set: { Draining: draining } }
+    );
+
+    return result.matchedCount > 0;
+  }
+
+  // ==================== 运行信息 ====================
+
+  /**
+   * 保存节点运行信息 (覆盖当前状态并追加历史快照)
+   * @param runInfo - 运行信息
+   */
+  async saveRunInfo(runInfo: Omit<NodeRunInfo, '_id'>): Promise<void> {
+    await Promise.all([
+      this.runInfoCollection.updateOne(
+        { NodeName: runInfo.NodeName },
+        { $set: runInfo },
+        { upsert: true }
+      ),
+      this.runInfoHistoryCollection.insertOne({
+        NodeName: runInfo.NodeName,
+        Connections: runInfo.Connections,
+        loadavg: runInfo.loadavg,
+        totalmem: runInfo.totalmem,
+        freemem: runInfo.freemem,
+        uptime: runInfo.uptime,
+        updateTime: runInfo.updateTime,
+      }),
+    ]);
+  }
+
+  /**
+   * 获取节点当前运行信息
+   * @param name - 节点名称
+   */
+  async getRunInfo(name: string): Promise<NodeRunInfo | null> {
+    return await this.runInfoCollection.findOne({ NodeName: name });
+  }
+
+  /**
+   * 获取所有节点当前运行信息 (不含 SocketMaps)
+   */
+  async getAllRunInfos(): Promise<Omit<NodeRunInfo, 'SocketMaps'>[]> {
+    return await this.runInfoCollection
+      .find({}, { projection: { SocketMaps: 0 } })
+      .toArray();
+  }
+
+  /**
+   * 获取节点运行信息历史 (按时间升序)
+   * @param name - 节点名称
+   * @param startTime - 开始时间
+   * @param endTime - 结束时间
+   * @param limit - 最大条数
+   */
+  async getRunInfoHistory(
+    name: string,
+    startTime: Date,
+    endTime: Date,
+    limit: number
+  ): Promise<NodeRunInfoHistory[]> {
+    return await this.runInfoHistoryCollection
+      .find({ NodeName: name, updateTime: { $gte: startTime, $lte: endTime } })
+      .sort({ updateTime: 1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  // ==================== 节点日志 ====================
+
+  /**
+   * 记录节点日志
+   * 日志记录失败不影响主流程，只记录错误不抛出异常
+   * @param log - 日志内容
+   */
+  async saveLog(log: Omit<NodeLog, '_id' | 'timeStamp'>): Promise<void> {
+    try {
+      await this.logCollection.insertOne({ ...log, timeStamp: new Date() });
+    } catch (error) {
+      logger.error(`Failed to save node log: ${log.Name} - ${log.type}`, error);
+    }
+  }
+
+  /**
+   * 查询节点日志 (按时间倒序)
+   * @param name - 节点名称
+   * @param options - 日志类型和最大条数
+   */
+  async getLogs(
+    name: string,
+    options: { type?: NodeLogType; limit: number }
+  ): Promise<NodeLog[]> {
+    return await this.logCollection
+      .find({ Name: name, ...(options.type && { type: options.type }) })
+      .sort({ timeStamp: -1 })
+      .limit(options.limit)
+      .toArray();
+  }
 }
 
 /**
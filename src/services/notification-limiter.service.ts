@@ -0,0 +1,319 @@
+/**
+ * Notification Limiter Service
+ *
+ * 通知限流和短信预算：
+ * - 按渠道限制固定时间窗口内每个用户、每个设备和整个部署的通知数
+ * - 发送失败时释放额度，队列重试不再检查限额 (不会被转为抑制)
+ * - 短信月度预算 (按号码计数)，达到预警比例时输出警告，用尽后不再发送短信
+ * - 记录月度发送量和被抑制数量，同步到 Prometheus 指标
+ *
+ * 计数保存在 MongoDB 中，多实例共享；检查和计数之间不加锁，并发时可能略微超出限额
+ */
+
+import type { Db } from 'mongodb';
+import {
+  Phase3Collections,
+  getUsagePeriod,
+  type NotificationChannel,
+  type NotificationUsageDocument,
+  type RateLimitScope,
+  type SuppressReason,
+  type TemplateChannel,
+} from '../entities/mongodb';
+import { derivedConfig } from '../config';
+import { notificationMetrics } from './metrics/notification-metrics';
+
+/**
+ * 限流和预算配置
+ */
+export interface NotificationLimitOptions {
+  /** 限流窗口 (秒) */
+  windowSeconds: number;
+  /** 各渠道各维度窗口内的最大通知数 (0 表示不限制) */
+  limits: Record<TemplateChannel, Record<RateLimitScope, number>>;
+  /** 短信月度预算 (条，0 表示不限制) */
+  smsMonthlyBudget: number;
+  /** 预算预警比例 (用尽时总会预警) */
+  smsBudgetWarnRatios: number[];
+}
+
+/**
+ * 限流对象
+ */
+export interface LimitTarget {
+  /** 用户 ID */
+  userId: string;
+  /** 终端 MAC */
+  mac?: string;
+}
+
+/**
+ * 短信预算状态
+ */
+export interface SmsBudgetStatus {
+  /** 统计月份 (YYYY-MM) */
+  period: string;
+  /** 月度预算 (0 表示不限制) */
+  limit: number;
+  /** 本月已发送 */
+  used: number;
+  /** 剩余条数 (不限制时为空) */
+  remaining: number | null;
+  /** 本月被抑制的短信通知数 */
+  suppressed: number;
+  /** 本月已发出的预警比例 */
+  warnings: number[];
+}
+
+/**
+ * 整个部署共享限额的计数标识
+ */
+const TENANT_ID = '*';
+
+/**
+ * Notification Limiter Service
+ */
+export class NotificationLimiterService {
+  private collections: Phase3Collections;
+
+  constructor(
+    db: Db,
+    private options: NotificationLimitOptions = derivedConfig.notificationLimits
+  ) {
+    this.collections = new Phase3Collections(db);
+  }
+
+  /**
+   * 申请发送额度
+   *
+   * 未超出限额时计入各维度的窗口计数；超出时记录抑制并返回原因
+   *
+   * @param channel - 通知渠道
+   * @param target - 限流对象
+   * @param units - 短信号码数 (用于预算检查)
+   * @returns 被抑制的原因，允许发送时为 null
+   */
+  async acquire(
+    channel: TemplateChannel,
+    target: LimitTarget,
+    units = 1,
+    now: Date = new Date()
+  ): Promise<SuppressReason | null> {
+    if (channel === 'sms' && this.options.smsMonthlyBudget > 0) {
+      const usage = await this.collections.notificationUsage.findOne({
+        channel: 'sms',
+        period: getUsagePeriod(now),
+      });
+
+      if ((usage?.sent ?? 0) + units > this.options.smsMonthlyBudget) {
+        await this.suppress(channel, 'budget', target, now);
+        return 'budget';
+      }
+    }
+
+    const windowStart = this.getWindowStart(now);
+    const counters = this.getCounters(channel, target);
+
+    for (const { scope, key } of counters) {
+      const counter = await this.collections.notificationRateCounters.findOne({ key, windowStart });
+
+      if ((counter?.count ?? 0) >= this.options.limits[channel][scope]) {
+        await this.suppress(channel, scope, target, now);
+        return scope;
+      }
+    }
+
+    await this.consume(channel, target, now);
+    return null;
+  }
+
+  /**
+   * 计入窗口计数 (不检查限额)
+   *
+   * 用于队列重试：首次尝试已通过限流检查，重试不应再被抑制
+   *
+   * @param channel - 通知渠道
+   * @param target - 限流对象
+   */
+  async consume(channel: TemplateChannel, target: LimitTarget, now: Date = new Date()): Promise<void> {
+    const windowMs = this.options.windowSeconds * 1000;
+    const windowStart = this.getWindowStart(now);
+
+    for (const { key } of this.getCounters(channel, target)) {
+      const increment = () =>
+        this.collections.notificationRateCounters.updateOne(
+          { key, windowStart },
+          {
+            $inc: { count: 1 },
+            $setOnInsert: { expireAt: new Date(windowStart.getTime() + windowMs) },
+          },
+          { upsert: true }
+        );
+
+      // 并发创建计数时唯一索引冲突，重试一次累加到已创建的计数
+      await increment().catch((error) => {
+        if (error?.code === 11000) {
+          return increment();
+        }
+        throw error;
+      });
+    }
+  }
+
+  /**
+   * 释放发送额度
+   *
+   * 发送失败时调用，未发出的通知不占用窗口计数
+   *
+   * @param channel - 通知渠道
+   * @param target - 限流对象
+   * @param acquiredAt - 申请额度的时间 (确定所在窗口)
+   */
+  async release(channel: TemplateChannel, target: LimitTarget, acquiredAt: Date): Promise<void> {
+    const windowStart = this.getWindowStart(acquiredAt);
+
+    for (const { key } of this.getCounters(channel, target)) {
+      await this.collections.notificationRateCounters.updateOne(
+        { key, windowStart, count: { $gt: 0 } },
+        { $inc: { count: -1 } }
+      );
+    }
+  }
+
+  /**
+   * 记录发送成功
+   *
+   * 短信同时检查预算用量，达到预警比例时输出警告 (每月每个比例一次)
+   *
+   * @param channel - 通知渠道
+   * @param units - 发送数量 (短信为号码数)
+   */
+  async recordSent(channel: NotificationChannel, units = 1, now: Date = new Date()): Promise<void> {
+    const period = getUsagePeriod(now);
+    await this.collections.notificationUsage.updateOne(
+      { channel, period },
+      {
+        $inc: { sent: units, suppressed: 0 },
+        $set: { updatedAt: now },
+        $setOnInsert: { createdAt: now },
+      },
+      { upsert: true }
+    );
+    notificationMetrics.recordSent(channel, units);
+
+    if (channel === 'sms') {
+      const usage = await this.collections.notificationUsage.findOne({ channel, period });
+      if (usage) {
+        await this.checkBudgetWarnings(usage);
+      }
+    }
+  }
+
+  /**
+   * 获取短信预算状态
+   */
+  async getSmsBudget(now: Date = new Date()): Promise<SmsBudgetStatus> {
+    const period = getUsagePeriod(now);
+    const usage = await this.collections.notificationUsage.findOne({ channel: 'sms', period });
+    const limit = this.options.smsMonthlyBudget;
+    const used = usage?.sent ?? 0;
+
+    notificationMetrics.updateSmsBudget(used, limit);
+
+    return {
+      period,
+      limit,
+      used,
+      remaining: limit > 0 ? Math.max(0, limit - used) : null,
+      suppressed: usage?.suppressed ?? 0,
+      warnings: usage?.budgetWarnings ?? [],
+    };
+  }
+
+  /**
+   * 计算所在限流窗口的起始时间
+   */
+  private getWindowStart(now: Date): Date {
+    const windowMs = this.options.windowSeconds * 1000;
+    return new Date(Math.floor(now.getTime() / windowMs) * windowMs);
+  }
+
+  /**
+   * 获取启用限额的各维度计数标识
+   */
+  private getCounters(
+    channel: TemplateChannel,
+    target: LimitTarget
+  ): Array<{ scope: RateLimitScope; key: string }> {
+    const ids: Record<RateLimitScope, string | undefined> = {
+      user: target.userId,
+      device: target.mac,
+      tenant: TENANT_ID,
+    };
+
+    return (Object.keys(ids) as RateLimitScope[])
+      .filter((scope) => this.options.limits[channel][scope] > 0 && ids[scope])
+      .map((scope) => ({ scope, key: `${channel}:${scope}:${ids[scope]}` }));
+  }
+
+  /**
+   * 记录被抑制的通知
+   */
+  private async suppress(
+    channel: TemplateChannel,
+    reason: SuppressReason,
+    target: LimitTarget,
+    now: Date
+  ): Promise<void> {
+    await this.collections.notificationUsage.updateOne(
+      { channel, period: getUsagePeriod(now) },
+      {
+        $inc: { sent: 0, suppressed: 1 },
+        $set: { updatedAt: now },
+        $setOnInsert: { createdAt: now },
+      },
+      { upsert: true }
+    );
+    notificationMetrics.recordSuppressed(channel, reason);
+
+    const limit =
+      reason === 'budget'
+        ? `monthly budget ${this.options.smsMonthlyBudget}`
+        : `${reason} limit ${this.options.limits[channel][reason]}/${this.options.windowSeconds}s`;
+    console.warn(
+      `[NotificationLimiter] Suppressed ${channel} notification for user ${target.userId}` +
+        `${target.mac ? ` (device ${target.mac})` : ''}: ${limit}`
+    );
+  }
+
+  /**
+   * 检查短信预算预警
+   */
+  private async checkBudgetWarnings(usage: NotificationUsageDocument): Promise<void> {
+    const limit = this.options.smsMonthlyBudget;
+    notificationMetrics.updateSmsBudget(usage.sent, limit);
+
+    if (limit <= 0) return;
+
+    const ratios = [...new Set([...this.options.smsBudgetWarnRatios, 1])].sort((a, b) => a - b);
+
+    for (const ratio of ratios) {
+      if (usage.sent < limit * ratio || usage.budgetWarnings?.includes(ratio)) {
+        continue;
+      }
+
+      // 多实例并发时只由标记成功的实例预警
+      const result = await this.collections.notificationUsage.updateOne(
+        { _id: usage._id, budgetWarnings: { $ne: ratio } },
+        { $push: { budgetWarnings: ratio } }
+      );
+      if (result.matchedCount === 0) continue;
+
+      console.warn(
+        ratio >= 1
+          ? `[NotificationLimiter] SMS budget exhausted for ${usage.period}: ${usage.sent}/${limit}, further SMS will be suppressed`
+          : `[NotificationLimiter] SMS budget ${Math.round(ratio * 100)}% used for ${usage.period}: ${usage.sent}/${limit}`
+      );
+    }
+  }
+}
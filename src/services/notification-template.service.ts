@@ -0,0 +1,224 @@
+/**
+ * Notification Template Service
+ *
+ * 通知模板服务层：
+ * - 模板增删改查
+ * - 按渠道、告警标签和语言匹配模板 (无匹配时使用内置模板)
+ * - 渲染通知内容和预览
+ */
+
+import type { Db, Filter, ObjectId } from 'mongodb';
+import {
+  Phase3Collections,
+  DEFAULT_TEMPLATE_LANGUAGE,
+  createAlarm,
+  createNotificationTemplate,
+  type AlarmDocument,
+  type NotificationTemplateDocument,
+  type TemplateChannel,
+} from '../entities/mongodb';
+import {
+  getBuiltinTemplate,
+  renderNotification,
+  type RenderedTemplate,
+  type TemplateContent,
+} from './notification/template-renderer';
+
+/**
+ * 可更新的模板字段
+ */
+export type NotificationTemplateUpdate = Partial<
+  Pick<
+    NotificationTemplateDocument,
+    'name' | 'channel' | 'tag' | 'language' | 'subject' | 'body' | 'format' | 'externalTemplateId' | 'enabled'
+  >
+>;
+
+/**
+ * 渲染后的通知 (附带使用的模板)
+ */
+export interface RenderedNotification extends RenderedTemplate {
+  /** 使用的模板 ID (内置模板为空) */
+  templateId?: string;
+  /** 实际使用的语言 */
+  language: string;
+}
+
+/**
+ * 预览使用的示例告警
+ */
+export function createSampleAlarm(): AlarmDocument {
+  return createAlarm({
+    type: 'threshold',
+    level: 'warning',
+    tag: 'Threshold',
+    mac: 'AABBCCDDEEFF',
+    devName: 'Sample device',
+    pid: 1,
+    protocol: 'Sample protocol',
+    paramName: 'Temperature',
+    currentValue: 38.5,
+    unit: '℃',
+    threshold: '0 - 35',
+    msg: 'Temperature = 38.5 (0 - 35)',
+    timeStamp: Date.now(),
+    triggeredAt: new Date(),
+  });
+}
+
+/**
+ * Notification Template Service
+ */
+export class NotificationTemplateService {
+  private collections: Phase3Collections;
+
+  constructor(db: Db) {
+    this.collections = new Phase3Collections(db);
+  }
+
+  /**
+   * 获取模板列表
+   * @param filter 过滤条件 (渠道、标签、语言)
+   * @returns 模板列表 (按渠道、语言排序)
+   */
+  async listTemplates(
+    filter: Pick<Filter<NotificationTemplateDocument>, 'channel' | 'tag' | 'language'> = {}
+  ): Promise<NotificationTemplateDocument[]> {
+    return await this.collections.notificationTemplates
+      .find(filter)
+      .sort({ channel: 1, language: 1, tag: 1 })
+      .toArray();
+  }
+
+  /**
+   * 获取模板详情
+   * @param id 模板 ID
+   */
+  async getTemplate(id: ObjectId): Promise<NotificationTemplateDocument | null> {
+    return await this.collections.notificationTemplates.findOne({ _id: id });
+  }
+
+  /**
+   * 创建模板
+   * @param template 模板信息
+   * @returns 创建的模板
+   */
+  async createTemplate(
+    template: Parameters<typeof createNotificationTemplate>[0]
+  ): Promise<NotificationTemplateDocument> {
+    const document = createNotificationTemplate(template);
+    const result = await this.collections.notificationTemplates.insertOne(document);
+    return { ...document, _id: result.insertedId };
+  }
+
+  /**
+   * 更新模板
+   * @param id 模板 ID
+   * @param update 更新内容
+   * @returns 更新后的模板 (不存在返回 null)
+   */
+  async updateTemplate(
+    id: ObjectId,
+    update: NotificationTemplateUpdate
+  ): Promise<NotificationTemplateDocument | null> {
+    const result = await this.collections.notificationTemplates.updateOne(
+      { _id: id },
+      { $set: { ...update, updatedAt: new Date() } }
+    );
+
+    return result.matchedCount > 0 ? await this.getTemplate(id) : null;
+  }
+
+  /**
+   * 删除模板
+   * @param id 模板 ID
+   * @returns 是否删除
+   */
+  async deleteTemplate(id: ObjectId): Promise<boolean> {
+    const result = await this.collections.notificationTemplates.deleteOne({ _id: id });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * 匹配模板
+   *
+   * 优先级: 标签 + 语言 → 通用 + 语言 → 标签 + 默认语言 → 通用 + 默认语言 → 内置模板
+   *
+   * @param channel 通知渠道
+   * @param alarm 告警对象 (按 tag 匹配)
+   * @param language 语言
+   * @returns 匹配的模板 (无匹配返回 null)
+   */
+  async resolveTemplate(
+    channel: TemplateChannel,
+    alarm: Pick<AlarmDocument, 'tag'>,
+    language: string = DEFAULT_TEMPLATE_LANGUAGE
+  ): Promise<NotificationTemplateDocument | null> {
+    const languages = [...new Set([language, DEFAULT_TEMPLATE_LANGUAGE])];
+    const candidates = await this.collections.notificationTemplates
+      .find({ channel, enabled: true, language: { $in: languages } })
+      .toArray();
+
+    for (const lang of languages) {
+      const match =
+        candidates.find((template) => template.language === lang && template.tag === alarm.tag) ??
+        candidates.find((template) => template.language === lang && !template.tag);
+      if (match) {
+        return match;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 渲染告警通知
+   *
+   * 查询模板失败时使用内置模板，保证通知照常发送
+   *
+   * @param channel 通知渠道
+   * @param alarm 告警对象
+   * @param language 用户语言 (为空使用默认语言)
+   */
+  async render(
+    channel: TemplateChannel,
+    alarm: AlarmDocument,
+    language: string = DEFAULT_TEMPLATE_LANGUAGE
+  ): Promise<RenderedNotification> {
+    let template: NotificationTemplateDocument | null = null;
+    try {
+      template = await this.resolveTemplate(channel, alarm, language);
+    } catch (error) {
+      console.error(`[NotificationTemplate] Failed to resolve ${channel} template:`, error);
+    }
+
+    if (!template) {
+      return {
+        ...renderNotification(getBuiltinTemplate(channel, language), alarm, language),
+        language,
+      };
+    }
+
+    // 回退到默认语言模板时按模板语言格式化时间和级别
+    return {
+      ...renderNotification(template, alarm, template.language),
+      templateId: template._id?.toString(),
+      language: template.language,
+    };
+  }
+
+  /**
+   * 预览模板渲染结果
+   *
+   * @param template 模板内容
+   * @param alarm 告警对象 (为空使用示例告警)
+   * @param language 语言
+   */
+  preview(
+    template: TemplateContent,
+    alarm: AlarmDocument = createSampleAlarm(),
+    language: string = DEFAULT_TEMPLATE_LANGUAGE
+  ): RenderedTemplate {
+    return renderNotification(template, alarm, language);
+  }
+}
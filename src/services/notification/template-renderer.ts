@@ -0,0 +1,270 @@
+/**
+ * Notification Template Renderer
+ *
+ * 通知模板渲染：
+ * - 从告警提取占位符变量 (级别、时间按语言本地化)
+ * - 替换模板中的 {{name}} 占位符，HTML 模板自动转义变量
+ * - 内置各渠道的默认模板 (zh-CN / en-US)
+ * - 汇总通知的消息内容
+ */
+
+import type { AlarmDocument, AlarmLevel } from '../../entities/mongodb/alarm.entity';
+import type { DigestAlarmEntry } from '../../entities/mongodb/notification-digest.entity';
+import {
+  DEFAULT_TEMPLATE_LANGUAGE,
+  TEMPLATE_PLACEHOLDERS,
+  type TemplateChannel,
+  type TemplateFormat,
+  type TemplatePlaceholder,
+} from '../../entities/mongodb/notification-template.entity';
+
+/**
+ * 模板内容
+ */
+export interface TemplateContent {
+  /** 标题 */
+  subject?: string;
+  /** 正文 */
+  body: string;
+  /** 正文格式 */
+  format: TemplateFormat;
+  /** 服务商模板 ID */
+  externalTemplateId?: string;
+}
+
+/**
+ * 渲染结果
+ */
+export interface RenderedTemplate {
+  /** 标题 */
+  subject: string;
+  /** 正文 */
+  body: string;
+  /** 正文格式 */
+  format: TemplateFormat;
+  /** 服务商模板 ID */
+  externalTemplateId?: string;
+  /** 占位符变量 */
+  variables: Record<TemplatePlaceholder, string>;
+  /** 结尾提示语 (微信模板消息 remark) */
+  remark: string;
+}
+
+/**
+ * 语言文本
+ */
+interface LocaleText {
+  levels: Record<AlarmLevel, string>;
+  remark: string;
+  /** 汇总标题 */
+  digest: string;
+  /** 汇总省略条目 */
+  digestMore: string;
+}
+
+/**
+ * 内置语言文本
+ */
+const LOCALE_TEXT: Record<string, LocaleText> = {
+  'zh-CN': {
+    levels: { critical: '严重', error: '错误', warning: '警告', info: '信息' },
+    remark: '请及时处理',
+    digest: '共 {{count}} 条告警',
+    digestMore: '…… 另有 {{count}} 条',
+  },
+  'en-US': {
+    levels: { critical: 'Critical', error: 'Error', warning: 'Warning', info: 'Info' },
+    remark: 'Please handle it promptly',
+    digest: '{{count}} alarms',
+    digestMore: '... and {{count}} more',
+  },
+};
+
+/**
+ * 内置默认模板 (数据库中没有匹配的模板时使用)
+ */
+export const BUILTIN_TEMPLATES: Record<string, Record<TemplateChannel, TemplateContent>> = {
+  'zh-CN': {
+    wechat: { subject: '【{{level}}】{{msg}}', body: '{{msg}}', format: 'text' },
+    sms: { body: '{{msg}}', format: 'text' },
+    email: {
+      subject: '【告警通知】{{msg}}',
+      body: [
+        '<h2>{{msg}}</h2>',
+        '<p><strong>告警级别:</strong> {{level}}</p>',
+        '<p><strong>设备信息:</strong> {{devName}} ({{mac}} - {{pid}})</p>',
+        '<p><strong>协议:</strong> {{protocol}}</p>',
+        '<p><strong>触发时间:</strong> {{time}}</p>',
+        '<p>请及时登录系统查看详情并处理。</p>',
+      ].join('\n'),
+      format: 'html',
+    },
+  },
+  'en-US': {
+    wechat: { subject: '[{{level}}] {{msg}}', body: '{{msg}}', format: 'text' },
+    sms: { body: '{{msg}}', format: 'text' },
+    email: {
+      subject: '[Alarm] {{msg}}',
+      body: [
+        '<h2>{{msg}}</h2>',
+        '<p><strong>Level:</strong> {{level}}</p>',
+        '<p><strong>Device:</strong> {{devName}} ({{mac}} - {{pid}})</p>',
+        '<p><strong>Protocol:</strong> {{protocol}}</p>',
+        '<p><strong>Triggered at:</strong> {{time}}</p>',
+        '<p>Please sign in to review and handle the alarm.</p>',
+      ].join('\n'),
+      format: 'html',
+    },
+  },
+};
+
+/**
+ * 汇总消息最多列出的告警数
+ */
+const DIGEST_MAX_LINES = 10;
+
+/**
+ * 占位符匹配 ({{name}}，允许两侧空白)
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * 匹配内置语言 (精确匹配优先，其次按主语言匹配，如 en-GB → en-US)
+ */
+export function resolveBuiltinLanguage(language: string): string {
+  if (LOCALE_TEXT[language]) {
+    return language;
+  }
+
+  const primary = language.split('-')[0]!.toLowerCase();
+  return (
+    Object.keys(LOCALE_TEXT).find((key) => key.split('-')[0]!.toLowerCase() === primary) ??
+    DEFAULT_TEMPLATE_LANGUAGE
+  );
+}
+
+/**
+ * 获取内置默认模板
+ */
+export function getBuiltinTemplate(channel: TemplateChannel, language: string): TemplateContent {
+  return BUILTIN_TEMPLATES[resolveBuiltinLanguage(language)]![channel];
+}
+
+/**
+ * 获取告警级别文本
+ */
+export function getLevelText(level: AlarmLevel, language: string = DEFAULT_TEMPLATE_LANGUAGE): string {
+  return LOCALE_TEXT[resolveBuiltinLanguage(language)]!.levels[level] ?? level;
+}
+
+/**
+ * 从告警提取占位符变量
+ *
+ * 告警经队列序列化后 triggeredAt 可能为字符串，统一转换为 Date 再格式化
+ */
+export function buildTemplateVariables(
+  alarm: AlarmDocument,
+  language: string = DEFAULT_TEMPLATE_LANGUAGE
+): Record<TemplatePlaceholder, string> {
+  return {
+    devName: alarm.devName || alarm.mac,
+    mac: alarm.mac,
+    pid: String(alarm.pid),
+    protocol: alarm.protocol,
+    param: alarm.paramName ?? '',
+    value: alarm.currentValue === undefined ? '' : String(alarm.currentValue),
+    unit: alarm.unit ?? '',
+    threshold: alarm.threshold ?? '',
+    time: new Date(alarm.triggeredAt).toLocaleString(language),
+    level: getLevelText(alarm.level, language),
+    msg: alarm.msg,
+  };
+}
+
+/**
+ * 转义 HTML 特殊字符
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * 替换模板占位符 (未知占位符原样保留)
+ *
+ * @param source - 模板文本
+ * @param variables - 占位符变量
+ * @param html - 是否转义变量 (HTML 模板)
+ */
+export function renderTemplate(
+  source: string,
+  variables: Partial<Record<string, string>>,
+  html = false
+): string {
+  return source.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      return match;
+    }
+    return html ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * 查找模板中不支持的占位符
+ */
+export function findUnknownPlaceholders(source: string): string[] {
+  const known = new Set<string>(TEMPLATE_PLACEHOLDERS);
+  const names = [...source.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]!);
+  return [...new Set(names.filter((name) => !known.has(name)))];
+}
+
+/**
+ * 渲染告警通知
+ *
+ * @param template - 模板内容
+ * @param alarm - 告警对象
+ * @param language - 语言
+ */
+export function renderNotification(
+  template: TemplateContent,
+  alarm: AlarmDocument,
+  language: string = DEFAULT_TEMPLATE_LANGUAGE
+): RenderedTemplate {
+  const variables = buildTemplateVariables(alarm, language);
+
+  return {
+    subject: renderTemplate(template.subject ?? '', variables),
+    body: renderTemplate(template.body, variables, template.format === 'html'),
+    format: template.format,
+    externalTemplateId: template.externalTemplateId,
+    variables,
+    remark: LOCALE_TEXT[resolveBuiltinLanguage(language)]!.remark,
+  };
+}
+
+/**
+ * 格式化汇总消息 (标题 + 每条告警一行，超出部分只显示数量)
+ *
+ * @param entries - 汇总中的告警
+ * @param language - 语言
+ */
+export function formatDigestMessage(
+  entries: DigestAlarmEntry[],
+  language: string = DEFAULT_TEMPLATE_LANGUAGE
+): string {
+  const text = LOCALE_TEXT[resolveBuiltinLanguage(language)]!;
+  const lines = entries
+    .slice(0, DIGEST_MAX_LINES)
+    .map((entry, index) => `${index + 1}. [${text.levels[entry.level]}] ${entry.devName || entry.mac}: ${entry.msg}`);
+
+  if (entries.length > DIGEST_MAX_LINES) {
+    lines.push(renderTemplate(text.digestMore, { count: String(entries.length - DIGEST_MAX_LINES) }));
+  }
+
+  return [renderTemplate(text.digest, { count: String(entries.length) }), ...lines].join('\n');
+}
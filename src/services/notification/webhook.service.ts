@@ -0,0 +1,259 @@
+/**
+ * Webhook Service
+ *
+ * Webhook 推送服务：
+ * - JSON POST 投递
+ * - HMAC-SHA256 签名
+ * - 请求超时
+ * - 拒绝解析到回环、私有、链路本地和云厂商元数据地址的接收地址 (注册和投递时各检查一次)，不跟随重定向
+ *
+ * 签名算法: HMAC-SHA256(secret, `${timestamp}.${body}`)，十六进制编码后以 `sha256=` 前缀放在
+ * X-Webhook-Signature 头中。接收方使用同一密钥校验签名，并拒绝时间戳过旧的请求以防重放
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { config } from '../../config';
+
+/**
+ * 签名请求头
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+/**
+ * 时间戳请求头 (Unix 秒)
+ */
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+/**
+ * 事件类型请求头
+ */
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+
+/**
+ * 投递 ID 请求头 (重试时保持不变，接收方可据此去重)
+ */
+export const WEBHOOK_DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+/**
+ * Webhook 投递参数
+ */
+export interface WebhookDeliveryParams {
+  /** 接收地址 */
+  url: string;
+  /** 签名密钥 */
+  secret: string;
+  /** 事件类型 */
+  event: string;
+  /** 投递 ID */
+  deliveryId: string;
+  /** 请求体 (序列化为 JSON) */
+  payload: unknown;
+}
+
+/**
+ * Webhook 投递响应
+ */
+export interface WebhookDeliveryResponse {
+  /** HTTP 状态码 */
+  status: number;
+  /** 响应内容 (截断) */
+  body: string;
+  /** 耗时 (毫秒) */
+  duration: number;
+}
+
+/**
+ * 响应内容最大记录长度
+ */
+const MAX_RESPONSE_BODY_LENGTH = 1024;
+
+/**
+ * 禁止投递的地址段
+ *
+ * 回环、私有、运营商级 NAT (含阿里云元数据 100.100.100.200)、链路本地 (含 169.254.169.254)、
+ * 组播和保留地址；IPv4 映射的 IPv6 地址按 IPv4 规则检查
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * 是否为可投递的公网地址
+ *
+ * @param address - IP 地址
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Webhook 投递错误 (地址被拒绝或接收方返回非 2xx)
+ */
+export class WebhookDeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+/**
+ * Webhook Service
+ */
+export class WebhookService {
+  /** 请求超时 (毫秒) */
+  private readonly timeout: number;
+  /** 是否允许投递到内网地址 (接收方部署在内网时开启) */
+  private readonly allowPrivateNetwork: boolean;
+
+  constructor(options?: { timeout?: number; allowPrivateNetwork?: boolean }) {
+    this.timeout = options?.timeout ?? 10000;
+    this.allowPrivateNetwork = options?.allowPrivateNetwork ?? config.WEBHOOK_ALLOW_PRIVATE_NETWORK;
+
+    console.log(`[WebhookService] Initialized (timeout: ${this.timeout}ms)`);
+  }
+
+  /**
+   * 生成签名密钥
+   */
+  generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+  }
+
+  /**
+   * 计算签名
+   *
+   * @param secret - 签名密钥
+   * @param timestamp - Unix 时间戳 (秒)
+   * @param body - 请求体原文
+   * @returns `sha256=` 前缀的十六进制签名
+   */
+  sign(secret: string, timestamp: number, body: string): string {
+    const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `sha256=${digest}`;
+  }
+
+  /**
+   * 校验签名 (常量时间比较)
+   */
+  verify(secret: string, timestamp: number, body: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(secret, timestamp, body));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * 检查接收地址只解析到公网地址
+   *
+   * 解析和请求之间 DNS 记录仍可能变化，因此投递前会再次检查
+   *
+   * @param url - 接收地址
+   * @throws {WebhookDeliveryError} 无法解析或解析到内网地址
+   */
+  async assertPublicUrl(url: string): Promise<void> {
+    if (this.allowPrivateNetwork) {
+      return;
+    }
+
+    const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+    const addresses = isIP(hostname)
+      ? [hostname]
+      : await lookup(hostname, { all: true, verbatim: true }).then(
+          (results) => results.map((result) => result.address),
+          () => []
+        );
+
+    if (addresses.length === 0) {
+      throw new WebhookDeliveryError(`Cannot resolve webhook host ${hostname}`);
+    }
+
+    const blocked = addresses.find((address) => !isPublicAddress(address));
+    if (blocked) {
+      throw new WebhookDeliveryError(`Webhook host ${hostname} resolves to non-public address ${blocked}`);
+    }
+  }
+
+  /**
+   * 投递事件
+   *
+   * 地址被拒绝、重定向、非 2xx 响应、超时和网络错误均抛出，由调用方 (队列) 重试
+   *
+   * @param params - 投递参数
+   * @returns 响应信息
+   */
+  async deliver(params: WebhookDeliveryParams): Promise<WebhookDeliveryResponse> {
+    const body = JSON.stringify(params.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startTime = Date.now();
+
+    await this.assertPublicUrl(params.url);
+
+    const response = await fetch(params.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'uartserver-webhook/1.0',
+        [WEBHOOK_EVENT_HEADER]: params.event,
+        [WEBHOOK_DELIVERY_HEADER]: params.deliveryId,
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: this.sign(params.secret, timestamp, body),
+      },
+      body,
+      // 重定向目标未经地址检查，不跟随
+      redirect: 'manual',
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    const text = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+
+    if (response.status >= 300 && response.status < 400) {
+      throw new WebhookDeliveryError(`Webhook responded with redirect HTTP ${response.status}`, response.status);
+    }
+    if (!response.ok) {
+      throw new WebhookDeliveryError(`Webhook responded with HTTP ${response.status}: ${text}`, response.status);
+    }
+
+    console.log(`[WebhookService] Delivered ${params.event} to ${params.url} (HTTP ${response.status})`);
+
+    return {
+      status: response.status,
+      body: text,
+      duration: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * 全局 Webhook 服务实例
+ */
+export const webhookService = new WebhookService();
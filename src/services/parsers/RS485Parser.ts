@@ -6,6 +6,8 @@
  * - 功能码匹配
  * - 数据长度校验
  * - 支持多种数据类型: bit2, utf8, hex/short, float
+ * - 定宽类型 int16/uint16/int32/uint32/float/double 与字节序 ABCD/CDAB/BADC/DCBA
+ * - 非标协议由 scriptEnd 脚本校验和提取数据 (见 response-script.ts)
  */
 
 import type {
@@ -13,18 +15,27 @@ import type {
   ParsingContext,
 } from './IProtocolParser';
 import type {
+  FormResize,
   InstructQueryResult,
   ParsedArgument,
   ProtocolInstruct,
 } from '../data-parsing.types';
-import { parseCoefficient, hexToSingle } from '../../utils/data-parsing.utils';
+import {
+  parseCoefficient,
+  hexToSingle,
+  parseRegx,
+  readRegisterValue,
+  toBigEndian,
+} from '../../utils/data-parsing.utils';
+import { runResponseScript } from './response-script';
 
 export class RS485Parser implements IProtocolParser {
   async parse(
     contents: InstructQueryResult[],
     context: ParsingContext
   ): Promise<ParsedArgument[]> {
-    const { protocol, pid, protocolInstructMap, contentToNameMap, stateMapCache } = context;
+    const { protocol, pid, protocolInstructMap, contentToNameMap, stateMapCache, protocolScriptMap } =
+      context;
 
     if (pid === undefined) {
       console.error('RS485 解析需要 PID');
@@ -38,8 +49,10 @@ export class RS485Parser implements IProtocolParser {
       return [];
     }
 
-    // 过滤有效的查询结果 (仅支持标准 Modbus 协议)
+    // 过滤有效的查询结果
     const resultFilter: InstructQueryResult[] = [];
+    // 非标协议脚本提取的数据 (跳过 shift/pop 裁剪)
+    const scriptData = new Map<InstructQueryResult, number[]>();
 
     await Promise.all(
       contents.map(async (el) => {
@@ -54,9 +67,26 @@ export class RS485Parser implements IProtocolParser {
           return;
         }
 
-        // 仅支持标准 Modbus 协议
+        // 非标协议: 由 scriptEnd 校验和提取
         if (protocolInstruct.noStandard) {
-          console.warn(`非标协议暂不支持: ${instructName}`);
+          const script = protocolInstruct.scriptEnd || protocolScriptMap?.get(protocol);
+          if (!script) {
+            console.warn(`非标协议缺少 scriptEnd: ${instructName}`);
+            return;
+          }
+
+          const scriptResult = runResponseScript(script, el.content, el.buffer.data, pid);
+          if (!scriptResult.accepted) {
+            if (scriptResult.error) {
+              console.error(`scriptEnd 执行错误: ${instructName}`, scriptResult.error);
+            }
+            return;
+          }
+
+          if (scriptResult.data) {
+            scriptData.set(el, scriptResult.data);
+          }
+          resultFilter.push(el);
           return;
         }
 
@@ -91,7 +121,7 @@ export class RS485Parser implements IProtocolParser {
           ? el.buffer.data.length - (instructs.popNum || 0)
           : el.buffer.data.length - 2;
 
-        const data = el.buffer.data.slice(startIdx, endIdx);
+        const data = scriptData.get(el) ?? el.buffer.data.slice(startIdx, endIdx);
 
         let bufferData: number[] = [];
 
@@ -136,9 +166,11 @@ export class RS485Parser implements IProtocolParser {
             issimulate: field.isState || false,
           };
 
-          const { start, end, step } = this.parseRegex(field.regx!);
+          const { start, end, step } = parseRegx(field.regx!);
+          const valueType = this.getValueType(instructs, field);
+          const byteOrder = field.byteOrder ?? instructs.byteOrder;
 
-          switch (instructs.resultType) {
+          switch (valueType) {
             case 'bit2':
               // 布尔值 (线圈状态)
               try {
@@ -160,26 +192,15 @@ export class RS485Parser implements IProtocolParser {
 
             case 'hex':
             case 'short':
-              // 整数 (大端序)
+              // 有符号整数 (默认大端序，宽度由 regx 决定)
               if (buffer.length < end || start < 0) {
                 result.value = undefined;
                 break;
               }
 
               try {
-                const rawValue = buffer.readIntBE(start, step);
-                const coefficient = field.bl || '1';
-                const convertedValue = parseCoefficient(coefficient, rawValue);
-
-                // 当应用了系数（非 "1"）时，保持小数格式以表明这是缩放后的值
-                result.value =
-                  typeof convertedValue === 'string'
-                    ? convertedValue
-                    : coefficient !== '1'
-                    ? convertedValue.toFixed(1)
-                    : Number.isInteger(convertedValue)
-                    ? convertedValue.toString()
-                    : convertedValue.toFixed(1);
+                const rawValue = toBigEndian(buffer.subarray(start, start + step), byteOrder).readIntBE(0, step);
+                result.value = this.formatInteger(rawValue, field.bl);
               } catch (error) {
                 console.error('整数解析错误:', {
                   start,
@@ -191,10 +212,32 @@ export class RS485Parser implements IProtocolParser {
               }
               break;
 
+            case 'int16':
+            case 'uint16':
+            case 'int32':
+            case 'uint32': {
+              // 定宽整数 (宽度由类型决定，regx 只提供起始位置)
+              const rawValue = readRegisterValue(buffer, start, valueType, byteOrder);
+              result.value = rawValue === undefined ? undefined : this.formatInteger(rawValue, field.bl);
+              break;
+            }
+
             case 'float':
-              // IEEE 754 单精度浮点数
-              result.value = hexToSingle(buffer.slice(start, end)).toFixed(2);
+              // IEEE 754 单精度浮点数 (float 指令沿用 regx 截取，数据点覆盖时按 4 字节定宽读取)
+              if (field.dataType) {
+                const rawValue = readRegisterValue(buffer, start, 'float', byteOrder);
+                result.value = rawValue === undefined ? undefined : rawValue.toFixed(2);
+              } else {
+                result.value = hexToSingle(toBigEndian(buffer.slice(start, end), byteOrder)).toFixed(2);
+              }
+              break;
+
+            case 'double': {
+              // IEEE 754 双精度浮点数
+              const rawValue = readRegisterValue(buffer, start, 'double', byteOrder);
+              result.value = rawValue === undefined ? undefined : rawValue.toFixed(2);
               break;
+            }
           }
 
           // 应用状态映射
@@ -214,40 +257,36 @@ export class RS485Parser implements IProtocolParser {
   }
 
   /**
-   * 解析正则表达式格式的索引
-   *
-   * 重要：老系统使用 1-based 索引（人类友好），需转换为 0-based（数组索引）
-   *
-   * @param regx 格式: "1" | "1-2" | "1-4-2"
-   * @returns { start, end, step }
+   * 数据点的实际数据类型
    *
-   * @example
-   * "1"     → { start: 0, end: 1, step: 1 }    // 第1个字节
-   * "1-2"   → { start: 0, end: 2, step: 2 }    // 第1个字节开始，读2字节
-   * "3-2"   → { start: 2, end: 4, step: 2 }    // 第3个字节开始，读2字节
-   * "1-4-2" → { start: 0, end: 4, step: 2 }    // 第1个字节开始，到第4个，步长2
+   * 数据点的 dataType 覆盖指令的 resultType (bit2/utf8 指令按字节预处理，不可覆盖)
    */
-  private parseRegex(regx: string): { start: number; end: number; step: number } {
-    const parts = regx.split('-').map((p) => parseInt(p, 10));
-
-    if (parts.length === 1) {
-      // 单索引: "1" → start=0, end=1, step=1
-      const start = parts[0] - 1; // 1-based → 0-based
-      return { start, end: start + 1, step: 1 };
-    } else if (parts.length === 2) {
-      // 双参数: "1-2" → start=0, end=2, step=2
-      const start = parts[0] - 1; // 1-based → 0-based
-      const len = parts[1];
-      return { start, end: start + len, step: len };
-    } else if (parts.length === 3) {
-      // 三参数: "1-4-2" → start=0, end=4, step=2 (自定义step)
-      const start = parts[0] - 1; // 1-based → 0-based
-      const end = parts[1];
-      const step = parts[2];
-      return { start, end, step };
+  private getValueType(
+    instructs: ProtocolInstruct,
+    field: FormResize
+  ): ProtocolInstruct['resultType'] {
+    if (instructs.resultType === 'bit2' || instructs.resultType === 'utf8') {
+      return instructs.resultType;
     }
+    return field.dataType ?? instructs.resultType;
+  }
 
-    return { start: 0, end: 0, step: 0 };
+  /**
+   * 格式化整数值 (应用系数)
+   *
+   * 当应用了系数（非 "1"）时，保持小数格式以表明这是缩放后的值
+   */
+  private formatInteger(rawValue: number, bl?: string): string {
+    const coefficient = bl || '1';
+    const convertedValue = parseCoefficient(coefficient, rawValue);
+
+    return typeof convertedValue === 'string'
+      ? convertedValue
+      : coefficient !== '1'
+      ? convertedValue.toFixed(1)
+      : Number.isInteger(convertedValue)
+      ? convertedValue.toString()
+      : convertedValue.toFixed(1);
   }
 
   /**
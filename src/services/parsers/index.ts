@@ -5,3 +5,5 @@
 export type { IProtocolParser, ParsingContext } from './IProtocolParser';
 export { RS232Parser } from './RS232Parser';
 export { RS485Parser } from './RS485Parser';
+export { runResponseScript, RESPONSE_SCRIPT_TIMEOUT } from './response-script';
+export type { ResponseScriptResult } from './response-script';
@@ -0,0 +1,115 @@
+/**
+ * 非标协议响应脚本 (scriptEnd) 沙箱
+ *
+ * 非标协议 (noStandard) 的响应帧格式由厂商决定，无法按 Modbus 规则校验，
+ * 由协议配置的 scriptEnd 脚本完成校验和数据提取。
+ *
+ * 脚本为函数体，参数:
+ * - content: 查询指令 (十六进制字符串)
+ * - arr: 响应数据 (字节数组)
+ * - pid: 设备 PID
+ *
+ * 返回值:
+ * - true: 校验通过，数据按指令的 shift/pop 规则裁剪
+ * - number[]: 校验通过，直接作为解析数据 (不再裁剪)
+ * - 其他 (false/undefined/异常/超时): 丢弃该结果
+ *
+ * @example
+ * ```javascript
+ * // 校验帧头 0x7E，取第 2 字节开始的数据
+ * return arr[0] === 0x7e ? arr.slice(1, -1) : false
+ * ```
+ *
+ * 脚本在独立 vm 上下文中执行 (无 require/process/Buffer)，并限制执行时间。
+ * 上下文只传入原始值，响应数据在上下文内构造为数组：宿主对象的 constructor
+ * 指向宿主的 Function，可借此拿到宿主的 process。返回值同样在上下文内序列化为
+ * JSON 字符串再交给宿主解析，宿主不调用沙箱对象上的任何方法 (脚本可以替换
+ * 返回数组的 map 等方法，拿到宿主回调并在超时限制之外执行)
+ */
+
+import vm from 'node:vm';
+
+/**
+ * 脚本执行超时 (ms)
+ */
+export const RESPONSE_SCRIPT_TIMEOUT = 50;
+
+/**
+ * 脚本执行结果
+ */
+export type ResponseScriptResult =
+  | { accepted: false; error?: string }
+  | { accepted: true; data?: number[] };
+
+/**
+ * 已编译脚本缓存
+ * 键: 脚本源码
+ */
+const compiledScripts = new Map<string, vm.Script>();
+
+/**
+ * 编译脚本 (带缓存)
+ */
+function compile(script: string): vm.Script {
+  let compiled = compiledScripts.get(script);
+  if (!compiled) {
+    compiled = new vm.Script(
+      `JSON.stringify((function (content, arr, pid) {\n${script}\n})(content, JSON.parse(bytes), pid))`,
+      { filename: 'scriptEnd.js' }
+    );
+    compiledScripts.set(script, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * 执行响应脚本
+ *
+ * @param script scriptEnd 脚本 (函数体)
+ * @param content 查询指令
+ * @param data 响应数据
+ * @param pid 设备 PID
+ */
+export function runResponseScript(
+  script: string,
+  content: string,
+  data: number[],
+  pid?: number
+): ResponseScriptResult {
+  let result: unknown;
+
+  try {
+    // 每次执行使用新上下文，脚本之间无法共享状态
+    // 全局对象无原型 (this.constructor 不指向宿主 Object)，只挂载原始值
+    const sandbox = vm.createContext(Object.create(null));
+    Object.assign(sandbox, { content, bytes: JSON.stringify(data), pid });
+    result = compile(script).runInContext(sandbox, { timeout: RESPONSE_SCRIPT_TIMEOUT });
+  } catch (error) {
+    return { accepted: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  // 脚本可以替换上下文内的 JSON.stringify，非字符串一律丢弃
+  if (typeof result !== 'string') {
+    return { accepted: false };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(result);
+  } catch {
+    return { accepted: false };
+  }
+
+  if (value === true) {
+    return { accepted: true };
+  }
+
+  if (Array.isArray(value)) {
+    if (value.every((byte) => Number.isInteger(byte) && byte >= 0 && byte <= 0xff)) {
+      return { accepted: true, data: value };
+    }
+    return { accepted: false, error: 'scriptEnd 返回的数组包含非字节值' };
+  }
+
+  return { accepted: false };
+}
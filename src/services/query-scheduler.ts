@@ -0,0 +1,486 @@
+/**
+ * 查询调度器
+ *
+ * 维护每个挂载设备的调度状态，决定每轮调度循环下发哪些查询:
+ * - 优先级: high / normal / low，影响同一 DTU 内的串口分配权重、下发顺序和超时退避上限
+ * - 分时段查询计划: 按服务器本地时间放大或缩小查询间隔 (如夜间降频)
+ * - 超时退避: 连续超时的设备查询间隔按 2^n 增长，收到结果后恢复
+ * - 串口公平分配: 同一 DTU 的挂载设备共享串口，每轮最多下发一条查询；
+ *   按实测 useTime / 权重累计串口占用时间，到期设备中占用最少的优先
+ *
+ * 调度器只保存内存状态，不访问数据库；每个设备最近一次调度结论 (含未下发原因) 供 API 查询
+ */
+
+import type { PollScheduleWindow, QueryPriority } from '../types/entities';
+
+/**
+ * 优先级配置
+ * - weight: 串口分配权重 (占用时间按权重折算) 和同轮下发顺序
+ * - maxBackoff: 超时退避的最大间隔倍数
+ */
+export const PRIORITY_PROFILES: Record<QueryPriority, { weight: number; maxBackoff: number }> = {
+  high: { weight: 4, maxBackoff: 4 },
+  normal: { weight: 2, maxBackoff: 16 },
+  low: { weight: 1, maxBackoff: 32 },
+};
+
+/** 等待查询结果的最短时间 (ms)，超过后视为超时 */
+const MIN_PENDING_TIMEOUT = 10000;
+
+/** 等待查询结果的最长时间 (ms) */
+const MAX_PENDING_TIMEOUT = 60000;
+
+/** 尚无实测数据时的预计查询耗时 (ms) */
+const DEFAULT_USE_TIME = 1000;
+
+/** 查询耗时指数移动平均系数 */
+const USE_TIME_ALPHA = 0.3;
+
+/**
+ * 调度结论
+ */
+export type ScheduleStatus =
+  | 'sent' // 已下发
+  | 'not_due' // 未到查询间隔
+  | 'backoff' // 超时退避中
+  | 'awaiting_result' // 等待上一次查询结果
+  | 'bus_busy' // 同一 DTU 的其他设备正在占用串口
+  | 'bus_share' // 本轮串口分配给了同一 DTU 的其他设备
+  | 'immediate_query' // 即时查询进行中
+  | 'device_busy' // Node 上报 DTU 忙碌
+  | 'skipped'; // 其他原因 (协议缺失 / 节点离线等)
+
+/**
+ * 调度结论记录
+ */
+export interface ScheduleDecision {
+  status: ScheduleStatus;
+  reason: string;
+  at: Date;
+}
+
+/**
+ * 挂载设备调度状态
+ */
+export interface DeviceScheduleState {
+  mac: string;
+  pid: number;
+  priority: QueryPriority;
+  pollSchedule: PollScheduleWindow[];
+  /** 基础查询间隔 (ms)，由指令数量和 minQueryLimit 计算 */
+  baseInterval: number;
+  /** 连续超时次数 */
+  consecutiveTimeouts: number;
+  /** 实测查询耗时 (ms，指数移动平均) */
+  avgUseTime?: number;
+  /** 累计串口占用时间 (按权重折算，用于公平分配) */
+  busTime: number;
+  lastEmit?: Date;
+  lastResult?: Date;
+  /** 已下发但尚未返回结果的查询下发时间 */
+  pendingSince?: Date;
+  lastDecision?: ScheduleDecision;
+}
+
+/**
+ * 调度状态快照 (API 返回)
+ */
+export interface DeviceScheduleSnapshot extends DeviceScheduleState {
+  /** 当前时段的间隔倍数 */
+  scheduleFactor: number;
+  /** 超时退避倍数 */
+  backoffFactor: number;
+  /** 实际查询间隔 (ms) */
+  effectiveInterval: number;
+  /** 下次到期时间 */
+  nextDueAt?: Date;
+}
+
+/**
+ * 挂载设备调度配置
+ */
+export interface DeviceScheduleOptions {
+  baseInterval: number;
+  priority?: QueryPriority;
+  pollSchedule?: PollScheduleWindow[];
+  lastEmit?: Date;
+  lastRecord?: Date;
+}
+
+/**
+ * 阻止 DTU 本轮查询的原因 (即时查询 / DTU 忙碌)
+ */
+export type TerminalBlocker = (mac: string) => Omit<ScheduleDecision, 'at'> | undefined;
+
+/**
+ * 查询调度器
+ */
+export class QueryScheduler {
+  /** 调度状态 (key 与查询缓存一致: mac + pid) */
+  private states: Map<string, DeviceScheduleState> = new Map();
+
+  private key(mac: string, pid: number): string {
+    return `${mac}${pid}`;
+  }
+
+  /**
+   * 设置挂载设备调度配置 (查询缓存加载时调用)
+   * 已有状态只更新配置，保留超时次数和串口占用统计
+   */
+  configure(mac: string, pid: number, options: DeviceScheduleOptions): void {
+    const existing = this.states.get(this.key(mac, pid));
+    if (existing) {
+      existing.baseInterval = options.baseInterval;
+      existing.priority = options.priority ?? 'normal';
+      existing.pollSchedule = options.pollSchedule ?? [];
+      return;
+    }
+
+    // 新设备从兄弟设备的最小占用时间开始，避免长期独占串口
+    const siblings = this.getTerminalStates(mac);
+
+    this.states.set(this.key(mac, pid), {
+      mac,
+      pid,
+      priority: options.priority ?? 'normal',
+      pollSchedule: options.pollSchedule ?? [],
+      baseInterval: options.baseInterval,
+      consecutiveTimeouts: 0,
+      busTime: siblings.length > 0 ? Math.min(...siblings.map((state) => state.busTime)) : 0,
+      lastEmit: options.lastEmit,
+      lastResult: options.lastRecord,
+    });
+  }
+
+  /**
+   * 删除挂载设备调度状态
+   */
+  remove(mac: string, pid: number): void {
+    this.states.delete(this.key(mac, pid));
+  }
+
+  /**
+   * 规划本轮要下发的查询
+   * 每个 DTU 最多选出一个到期设备，未选中的设备记录原因
+   * @param entries - 查询缓存中的挂载设备
+   * @param now - 当前时间
+   * @param blocker - DTU 级别的阻止原因
+   */
+  plan(
+    entries: Array<{ TerminalMac: string; pid: number }>,
+    now = new Date(),
+    blocker?: TerminalBlocker
+  ): Array<{ mac: string; pid: number }> {
+    const byTerminal = new Map<string, DeviceScheduleState[]>();
+    for (const entry of entries) {
+      const state = this.states.get(this.key(entry.TerminalMac, entry.pid));
+      if (state) {
+        const states = byTerminal.get(state.mac) ?? [];
+        states.push(state);
+        byTerminal.set(state.mac, states);
+      }
+    }
+
+    const picks: DeviceScheduleState[] = [];
+
+    for (const [mac, states] of byTerminal) {
+      this.expirePending(states, now);
+
+      const blocked = blocker?.(mac);
+      if (blocked) {
+        states.forEach((state) => this.decide(state, blocked.status, blocked.reason, now));
+        continue;
+      }
+
+      const pending = states.find((state) => state.pendingSince);
+      if (pending) {
+        for (const state of states) {
+          if (state === pending) {
+            const waited = now.getTime() - pending.pendingSince!.getTime();
+            this.decide(state, 'awaiting_result', `等待上一次查询结果 (已等待 ${waited}ms)`, now);
+          } else {
+            this.decide(state, 'bus_busy', `串口被 PID ${pending.pid} 占用`, now);
+          }
+        }
+        continue;
+      }
+
+      const due = states.filter((state) => this.isDue(state, now));
+      if (due.length === 0) {
+        continue;
+      }
+
+      due.sort(
+        (a, b) =>
+          a.busTime - b.busTime ||
+          this.weight(b) - this.weight(a) ||
+          (a.lastEmit?.getTime() ?? 0) - (b.lastEmit?.getTime() ?? 0)
+      );
+
+      const [winner, ...others] = due;
+      others.forEach((state) =>
+        this.decide(state, 'bus_share', `本轮串口分配给 PID ${winner!.pid}`, now)
+      );
+      picks.push(winner!);
+    }
+
+    return picks
+      .sort((a, b) => this.weight(b) - this.weight(a) || this.overdue(b, now) - this.overdue(a, now))
+      .map((state) => ({ mac: state.mac, pid: state.pid }));
+  }
+
+  /**
+   * 记录查询已下发
+   */
+  markSent(mac: string, pid: number, now = new Date()): void {
+    const state = this.states.get(this.key(mac, pid));
+    if (!state) {
+      return;
+    }
+
+    state.lastEmit = now;
+    state.pendingSince = now;
+    this.decide(state, 'sent', `查询间隔 ${this.effectiveInterval(state, now)}ms`, now);
+  }
+
+  /**
+   * 记录未下发 (协议缺失 / 节点离线 / 即时查询等)
+   */
+  skip(mac: string, pid: number, status: ScheduleStatus, reason: string, now = new Date()): void {
+    const state = this.states.get(this.key(mac, pid));
+    if (state) {
+      this.decide(state, status, reason, now);
+    }
+  }
+
+  /**
+   * 记录查询结果
+   * @param useTime - Node 实测查询耗时 (ms)
+   */
+  recordResult(mac: string, pid: number, useTime: number | undefined, now = new Date()): void {
+    const state = this.states.get(this.key(mac, pid));
+    if (!state) {
+      return;
+    }
+
+    const measured = useTime ?? state.avgUseTime ?? DEFAULT_USE_TIME;
+    state.avgUseTime =
+      state.avgUseTime === undefined
+        ? measured
+        : Math.round(state.avgUseTime * (1 - USE_TIME_ALPHA) + measured * USE_TIME_ALPHA);
+    state.busTime += measured / this.weight(state);
+    state.consecutiveTimeouts = 0;
+    state.pendingSince = undefined;
+    state.lastResult = now;
+  }
+
+  /**
+   * 记录查询超时
+   * @param reportedCount - Node 上报的连续超时次数 (与本地计数取较大值)
+   */
+  recordTimeout(mac: string, pid: number, reportedCount?: number): void {
+    const state = this.states.get(this.key(mac, pid));
+    if (!state) {
+      return;
+    }
+
+    this.applyTimeout(state, reportedCount);
+  }
+
+  /**
+   * 获取终端下所有挂载设备的调度状态
+   */
+  getTerminalSchedule(mac: string, now = new Date()): DeviceScheduleSnapshot[] {
+    return this.getTerminalStates(mac)
+      .sort((a, b) => a.pid - b.pid)
+      .map((state) => this.snapshot(state, now));
+  }
+
+  /**
+   * 获取调度状态列表
+   * @param filter - 按最近调度结论过滤
+   */
+  getSchedules(
+    filter: { status?: ScheduleStatus; limit?: number } = {},
+    now = new Date()
+  ): DeviceScheduleSnapshot[] {
+    const states = Array.from(this.states.values()).filter(
+      (state) => !filter.status || state.lastDecision?.status === filter.status
+    );
+
+    return states
+      .sort((a, b) => b.consecutiveTimeouts - a.consecutiveTimeouts)
+      .slice(0, filter.limit ?? states.length)
+      .map((state) => this.snapshot(state, now));
+  }
+
+  /**
+   * 调度状态汇总
+   */
+  getSummary(): {
+    devices: number;
+    terminals: number;
+    backoff: number;
+    pending: number;
+    byStatus: Partial<Record<ScheduleStatus, number>>;
+    byPriority: Record<QueryPriority, number>;
+  } {
+    const byStatus: Partial<Record<ScheduleStatus, number>> = {};
+    const byPriority: Record<QueryPriority, number> = { high: 0, normal: 0, low: 0 };
+    const terminals = new Set<string>();
+    let backoff = 0;
+    let pending = 0;
+
+    for (const state of this.states.values()) {
+      terminals.add(state.mac);
+      byPriority[state.priority] += 1;
+      if (state.consecutiveTimeouts > 0) backoff += 1;
+      if (state.pendingSince) pending += 1;
+      if (state.lastDecision) {
+        byStatus[state.lastDecision.status] = (byStatus[state.lastDecision.status] ?? 0) + 1;
+      }
+    }
+
+    return { devices: this.states.size, terminals: terminals.size, backoff, pending, byStatus, byPriority };
+  }
+
+  /**
+   * 清空调度状态
+   */
+  clear(): void {
+    this.states.clear();
+  }
+
+  private getTerminalStates(mac: string): DeviceScheduleState[] {
+    return Array.from(this.states.values()).filter((state) => state.mac === mac);
+  }
+
+  private weight(state: DeviceScheduleState): number {
+    return PRIORITY_PROFILES[state.priority].weight;
+  }
+
+  /**
+   * 是否到期，未到期时记录原因
+   */
+  private isDue(state: DeviceScheduleState, now: Date): boolean {
+    if (!state.lastEmit) {
+      return true;
+    }
+
+    const interval = this.effectiveInterval(state, now);
+    const elapsed = now.getTime() - state.lastEmit.getTime();
+    if (elapsed >= interval) {
+      return true;
+    }
+
+    const backoffFactor = this.backoffFactor(state);
+    if (backoffFactor > 1 && elapsed >= interval / backoffFactor) {
+      this.decide(
+        state,
+        'backoff',
+        `连续超时 ${state.consecutiveTimeouts} 次，查询间隔 x${backoffFactor} (${interval - elapsed}ms 后重试)`,
+        now
+      );
+    } else {
+      this.decide(state, 'not_due', `未到查询间隔 (${interval - elapsed}ms 后到期)`, now);
+    }
+    return false;
+  }
+
+  /**
+   * 等待超时的查询按超时处理 (Node 未返回结果)
+   */
+  private expirePending(states: DeviceScheduleState[], now: Date): void {
+    for (const state of states) {
+      if (
+        state.pendingSince &&
+        now.getTime() - state.pendingSince.getTime() > this.pendingTimeout(state)
+      ) {
+        this.applyTimeout(state);
+      }
+    }
+  }
+
+  private applyTimeout(state: DeviceScheduleState, reportedCount?: number): void {
+    state.consecutiveTimeouts =
+      reportedCount === undefined
+        ? state.consecutiveTimeouts + 1
+        : Math.max(state.consecutiveTimeouts, reportedCount);
+
+    // 超时的查询同样占用了串口
+    if (state.pendingSince) {
+      state.busTime += (state.avgUseTime ?? DEFAULT_USE_TIME) / this.weight(state);
+      state.pendingSince = undefined;
+    }
+  }
+
+  /**
+   * 等待结果的超时时间: 实测耗时的 3 倍，限制在 10s ~ 60s
+   */
+  private pendingTimeout(state: DeviceScheduleState): number {
+    return Math.min(
+      Math.max((state.avgUseTime ?? 0) * 3, MIN_PENDING_TIMEOUT),
+      MAX_PENDING_TIMEOUT
+    );
+  }
+
+  private backoffFactor(state: DeviceScheduleState): number {
+    return Math.min(2 ** state.consecutiveTimeouts, PRIORITY_PROFILES[state.priority].maxBackoff);
+  }
+
+  /**
+   * 当前时段的间隔倍数 (第一个匹配的时段生效)
+   */
+  private scheduleFactor(state: DeviceScheduleState, now: Date): number {
+    const minutes = now.getHours() * 60 + now.getMinutes();
+
+    for (const window of state.pollSchedule) {
+      const start = toMinutes(window.start);
+      const end = toMinutes(window.end);
+      const inWindow =
+        start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+      if (inWindow) {
+        return window.intervalFactor;
+      }
+    }
+
+    return 1;
+  }
+
+  private effectiveInterval(state: DeviceScheduleState, now: Date): number {
+    return Math.round(
+      state.baseInterval * this.scheduleFactor(state, now) * this.backoffFactor(state)
+    );
+  }
+
+  private overdue(state: DeviceScheduleState, now: Date): number {
+    return state.lastEmit
+      ? now.getTime() - state.lastEmit.getTime() - this.effectiveInterval(state, now)
+      : Number.MAX_SAFE_INTEGER;
+  }
+
+  private decide(state: DeviceScheduleState, status: ScheduleStatus, reason: string, at: Date): void {
+    state.lastDecision = { status, reason, at };
+  }
+
+  private snapshot(state: DeviceScheduleState, now: Date): DeviceScheduleSnapshot {
+    const effectiveInterval = this.effectiveInterval(state, now);
+
+    return {
+      ...state,
+      pollSchedule: [...state.pollSchedule],
+      scheduleFactor: this.scheduleFactor(state, now),
+      backoffFactor: this.backoffFactor(state),
+      effectiveInterval,
+      nextDueAt: state.lastEmit ? new Date(state.lastEmit.getTime() + effectiveInterval) : undefined,
+    };
+  }
+}
+
+/**
+ * HH:mm → 当天分钟数
+ */
+function toMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
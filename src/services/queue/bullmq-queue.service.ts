@@ -0,0 +1,386 @@
+/**
+ * BullMQ Queue Service
+ *
+ * 基于 BullMQ + Redis 的队列实现
+ * - 多个服务实例共享同一队列 (通知不会因单实例重启丢失)
+ * - 与 SQLiteQueueService 语义一致: 优先级、重试次数、延迟执行、超时、统计、清理
+ * - 适用于多实例生产环境
+ */
+
+import { Queue, Worker, type ConnectionOptions, type Job as BullJob } from 'bullmq';
+import type {
+  QueueService,
+  Job,
+  JobOptions,
+  JobProcessor,
+  QueueStats,
+  JobFailure,
+  DeadLetterJob,
+  DeadLetterQuery,
+} from './queue.interface';
+
+/**
+ * BullMQ Queue 配置
+ */
+export interface BullMQQueueConfig {
+  /** Redis 连接配置 */
+  connection: {
+    host: string;
+    port: number;
+    password?: string;
+    db?: number;
+  };
+  /** Redis key 前缀 (默认 'uart-queue') */
+  prefix?: string;
+  /** 每个队列的最大并发处理数 */
+  maxConcurrency?: number;
+}
+
+/**
+ * Redis 中保存的任务数据
+ *
+ * BullMQ 不持久化自定义任务选项，超时时间和失败记录随任务数据一起保存
+ */
+interface BullMQJobEnvelope<T = any> {
+  payload: T;
+  timeout?: number;
+  history?: Array<Omit<JobFailure, 'failedAt'> & { failedAt: string }>;
+}
+
+/**
+ * 接口优先级上限 (数字越大优先级越高)
+ */
+const MAX_PRIORITY = 10;
+
+/**
+ * BullMQ Queue Service Implementation
+ */
+export class BullMQQueueService implements QueueService {
+  private connection: ConnectionOptions;
+  private prefix: string;
+  private maxConcurrency: number;
+  private queues: Map<string, Queue> = new Map();
+  private workers: Map<string, Worker> = new Map();
+
+  constructor(config: BullMQQueueConfig) {
+    this.connection = {
+      ...config.connection,
+      // Worker 阻塞读取要求不限制单命令重试
+      maxRetriesPerRequest: null,
+    };
+    this.prefix = config.prefix || 'uart-queue';
+    this.maxConcurrency = config.maxConcurrency || 10;
+
+    console.log(
+      `[BullMQQueue] Initialized at ${config.connection.host}:${config.connection.port} (prefix: ${this.prefix})`
+    );
+  }
+
+  /**
+   * 获取 (或创建) 队列实例
+   */
+  private getQueue(queueName: string): Queue {
+    let queue = this.queues.get(queueName);
+    if (!queue) {
+      queue = new Queue(queueName, { connection: this.connection, prefix: this.prefix });
+      this.queues.set(queueName, queue);
+    }
+    return queue;
+  }
+
+  /**
+   * 添加任务到队列
+   */
+  async addJob<T = any>(
+    queueName: string,
+    jobName: string,
+    data: T,
+    options?: JobOptions
+  ): Promise<Job<T>> {
+    const envelope: BullMQJobEnvelope<T> = { payload: data, timeout: options?.timeout };
+
+    const job = await this.getQueue(queueName).add(jobName, envelope, {
+      // BullMQ 数字越小优先级越高，且未设置优先级的任务优先于设置了的任务，
+      // 因此统一映射到 1..MAX_PRIORITY + 1
+      priority: MAX_PRIORITY + 1 - Math.min(Math.max(options?.priority || 0, 0), MAX_PRIORITY),
+      attempts: options?.attempts || 3,
+      delay: options?.delay,
+      backoff: options?.backoff ? { type: 'exponential', delay: options.backoff } : undefined,
+    });
+
+    return {
+      id: job.id!,
+      name: jobName,
+      data,
+      status: 'pending',
+      createdAt: new Date(job.timestamp),
+    };
+  }
+
+  /**
+   * 注册任务处理器 (每个队列一个 Worker)
+   */
+  registerProcessor<T = any>(queueName: string, processor: JobProcessor<T>): void {
+    if (this.workers.has(queueName)) {
+      console.warn(`[BullMQQueue] Processor already registered for queue: ${queueName}`);
+      return;
+    }
+
+    const worker = new Worker<BullMQJobEnvelope<T>>(
+      queueName,
+      async (bullJob) => this.executeJob(bullJob, queueName, processor),
+      {
+        connection: this.connection,
+        prefix: this.prefix,
+        concurrency: this.maxConcurrency,
+      }
+    );
+
+    worker.on('failed', (bullJob, error) => {
+      if (!bullJob) return;
+
+      const maxAttempts = bullJob.opts.attempts || 1;
+      if (bullJob.attemptsMade >= maxAttempts) {
+        console.error(
+          `[BullMQQueue] Job failed permanently: ${queueName}/${bullJob.name} #${bullJob.id}`,
+          error
+        );
+      } else {
+        console.warn(
+          `[BullMQQueue] Job retry scheduled: ${queueName}/${bullJob.name} #${bullJob.id} (${bullJob.attemptsMade}/${maxAttempts})`
+        );
+      }
+    });
+
+    worker.on('error', (error) => {
+      console.error(`[BullMQQueue] Worker error on queue ${queueName}:`, error);
+    });
+
+    this.workers.set(queueName, worker);
+    this.getQueue(queueName);
+    console.log(`[BullMQQueue] Registered processor for queue: ${queueName}`);
+  }
+
+  /**
+   * 执行任务并记录失败历史 (失败后按重试次数重试)
+   */
+  private async executeJob<T>(
+    bullJob: BullJob<BullMQJobEnvelope<T>>,
+    queueName: string,
+    processor: JobProcessor<T>
+  ): Promise<any> {
+    try {
+      return await this.runProcessor(bullJob, queueName, processor);
+    } catch (error) {
+      const failure = {
+        attempt: bullJob.attemptsMade + 1,
+        error: error instanceof Error ? error.message : String(error),
+        failedAt: new Date().toISOString(),
+      };
+      await bullJob.updateData({
+        ...bullJob.data,
+        history: [...(bullJob.data.history || []), failure],
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 调用处理器 (超时视为失败)
+   */
+  private async runProcessor<T>(
+    bullJob: BullJob<BullMQJobEnvelope<T>>,
+    queueName: string,
+    processor: JobProcessor<T>
+  ): Promise<any> {
+    const job: Job<T> = {
+      id: bullJob.id!,
+      name: bullJob.name,
+      data: bullJob.data.payload,
+      status: 'processing',
+      attempts: bullJob.attemptsMade,
+      createdAt: new Date(bullJob.timestamp),
+      startedAt: new Date(),
+    };
+
+    const timeout = bullJob.data.timeout;
+    if (!timeout) {
+      const result = await processor(job);
+      console.log(`[BullMQQueue] Job completed: ${queueName}/${job.name} #${job.id}`);
+      return result;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const result = await Promise.race([
+        processor(job),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Job timed out after ${timeout}ms`)), timeout);
+        }),
+      ]);
+      console.log(`[BullMQQueue] Job completed: ${queueName}/${job.name} #${job.id}`);
+      return result;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * 获取队列统计信息 (实现 QueueService 接口)
+   */
+  async getQueueStats(queueName: string): Promise<QueueStats> {
+    const counts = await this.getQueue(queueName).getJobCounts(
+      'waiting',
+      'delayed',
+      'prioritized',
+      'paused',
+      'active',
+      'completed',
+      'failed'
+    );
+
+    return {
+      pending:
+        (counts.waiting || 0) + (counts.delayed || 0) + (counts.prioritized || 0) + (counts.paused || 0),
+      processing: counts.active || 0,
+      completed: counts.completed || 0,
+      failed: counts.failed || 0,
+    };
+  }
+
+  /**
+   * 清理已完成/失败的旧任务 (实现 QueueService 接口)
+   *
+   * @param queueName - 队列名称（可选，不指定则清理本实例使用过的所有队列）
+   * @param olderThanDays - 清理多少天前的任务
+   */
+  async cleanup(queueName?: string, olderThanDays: number = 7): Promise<void> {
+    const grace = olderThanDays * 24 * 60 * 60 * 1000;
+    const queues = queueName ? [this.getQueue(queueName)] : Array.from(this.queues.values());
+
+    let removed = 0;
+    for (const queue of queues) {
+      removed += (await queue.clean(grace, 0, 'completed')).length;
+      removed += (await queue.clean(grace, 0, 'failed')).length;
+    }
+
+    console.log(`[BullMQQueue] Cleaned up ${removed} old jobs${queueName ? ` from queue ${queueName}` : ''}`);
+  }
+
+  /**
+   * 获取已知的队列名称 (实现 QueueService 接口)
+   *
+   * 包括 Redis 中已存在的队列 (其他实例创建的队列也会列出)。
+   * 指标抓取时会调用，使用 SCAN 分批遍历，避免 KEYS 阻塞 Redis
+   */
+  async getQueueNames(): Promise<string[]> {
+    const names = new Set([...this.queues.keys(), ...this.workers.keys()]);
+
+    const [anyQueue] = this.queues.values();
+    if (anyQueue) {
+      const client = await anyQueue.client;
+      let cursor = '0';
+      do {
+        const [next, metaKeys] = await client.scan(cursor, 'MATCH', `${this.prefix}:*:meta`, 'COUNT', 1000);
+        for (const key of metaKeys) {
+          names.add(key.slice(this.prefix.length + 1, -':meta'.length));
+        }
+        cursor = next;
+      } while (cursor !== '0');
+    }
+
+    return Array.from(names).sort();
+  }
+
+  /**
+   * 查询死信任务 (实现 QueueService 接口)
+   *
+   * BullMQ 不支持按名称过滤，过滤在本地完成
+   */
+  async getDeadLetterJobs(
+    queueName: string,
+    query: DeadLetterQuery = {}
+  ): Promise<{ jobs: DeadLetterJob[]; total: number }> {
+    const queue = this.getQueue(queueName);
+    const limit = query.limit ?? 20;
+    const offset = query.offset ?? 0;
+
+    let failed: BullJob<BullMQJobEnvelope>[];
+    let total: number;
+    if (query.name) {
+      const all = (await queue.getFailed()).filter((job) => job.name === query.name);
+      total = all.length;
+      failed = all.slice(offset, offset + limit);
+    } else {
+      total = await queue.getFailedCount();
+      failed = await queue.getFailed(offset, offset + limit - 1);
+    }
+
+    const jobs = failed.map((job) => ({
+      id: job.id!,
+      queue: queueName,
+      name: job.name,
+      data: job.data.payload,
+      attempts: job.attemptsMade,
+      maxAttempts: job.opts.attempts || 1,
+      error: job.failedReason,
+      history: (job.data.history || []).map((failure) => ({
+        ...failure,
+        failedAt: new Date(failure.failedAt),
+      })),
+      createdAt: new Date(job.timestamp),
+      failedAt: job.finishedOn ? new Date(job.finishedOn) : undefined,
+    }));
+
+    return { jobs, total };
+  }
+
+  /**
+   * 重新投递死信任务 (实现 QueueService 接口)
+   */
+  async replayDeadLetterJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = await this.getQueue(queueName).getJob(jobId);
+    if (!job || !(await job.isFailed())) {
+      return false;
+    }
+
+    await job.retry('failed', { resetAttemptsMade: true, resetAttemptsStarted: true });
+    console.log(`[BullMQQueue] Dead letter job replayed: ${queueName} #${jobId}`);
+    return true;
+  }
+
+  /**
+   * 删除死信任务 (实现 QueueService 接口)
+   */
+  async purgeDeadLetterJobs(queueName: string, jobIds?: string[]): Promise<number> {
+    const queue = this.getQueue(queueName);
+
+    let removed = 0;
+    if (jobIds) {
+      for (const jobId of jobIds) {
+        const job = await queue.getJob(jobId);
+        if (job && (await job.isFailed())) {
+          await job.remove();
+          removed++;
+        }
+      }
+    } else {
+      removed = (await queue.clean(0, 0, 'failed')).length;
+    }
+
+    console.log(`[BullMQQueue] Purged ${removed} dead letter jobs from queue ${queueName}`);
+    return removed;
+  }
+
+  /**
+   * 关闭队列服务 (等待正在处理的任务完成)
+   */
+  async close(): Promise<void> {
+    await Promise.all(Array.from(this.workers.values()).map((worker) => worker.close()));
+    await Promise.all(Array.from(this.queues.values()).map((queue) => queue.close()));
+
+    this.workers.clear();
+    this.queues.clear();
+    console.log('[BullMQQueue] Closed');
+  }
+}
@@ -23,6 +23,8 @@ export interface JobOptions {
   delay?: number;
   /** 任务超时（毫秒） */
   timeout?: number;
+  /** 指数退避基础间隔（毫秒），第 n 次重试延迟 backoff * 2^(n-1)，不设置则立即重试 */
+  backoff?: number;
 }
 
 /**
@@ -68,6 +70,56 @@ export interface QueueStats {
   failed: number;
 }
 
+/**
+ * 单次执行失败记录
+ */
+export interface JobFailure {
+  /** 第几次尝试 (从 1 开始) */
+  attempt: number;
+  /** 错误信息 */
+  error: string;
+  /** 失败时间 */
+  failedAt: Date;
+}
+
+/**
+ * 死信任务 (重试次数耗尽后的失败任务)
+ */
+export interface DeadLetterJob<T = any> {
+  /** 任务 ID */
+  id: string;
+  /** 队列名称 */
+  queue: string;
+  /** 任务名称 */
+  name: string;
+  /** 任务数据 */
+  data: T;
+  /** 已尝试次数 */
+  attempts: number;
+  /** 最大尝试次数 */
+  maxAttempts: number;
+  /** 最终失败原因 */
+  error?: string;
+  /** 每次尝试的失败记录 */
+  history: JobFailure[];
+  /** 创建时间 */
+  createdAt?: Date;
+  /** 进入死信时间 */
+  failedAt?: Date;
+}
+
+/**
+ * 死信任务查询条件
+ */
+export interface DeadLetterQuery {
+  /** 按任务名称过滤 */
+  name?: string;
+  /** 返回数量 */
+  limit?: number;
+  /** 跳过数量 */
+  offset?: number;
+}
+
 /**
  * 队列服务接口
  *
@@ -114,6 +166,41 @@ export interface QueueService {
    */
   cleanup(queueName?: string, olderThanDays?: number): Promise<void>;
 
+  /**
+   * 获取已知的队列名称
+   */
+  getQueueNames(): Promise<string[]>;
+
+  /**
+   * 查询死信任务 (按失败时间倒序)
+   *
+   * @param queueName - 队列名称
+   * @param query - 过滤和分页条件
+   * @returns 当前页任务和总数
+   */
+  getDeadLetterJobs(
+    queueName: string,
+    query?: DeadLetterQuery
+  ): Promise<{ jobs: DeadLetterJob[]; total: number }>;
+
+  /**
+   * 重新投递死信任务 (尝试次数清零，保留失败记录)
+   *
+   * @param queueName - 队列名称
+   * @param jobId - 任务 ID
+   * @returns 任务存在且已重新投递
+   */
+  replayDeadLetterJob(queueName: string, jobId: string): Promise<boolean>;
+
+  /**
+   * 删除死信任务
+   *
+   * @param queueName - 队列名称
+   * @param jobIds - 任务 ID（可选，不指定则清空该队列的死信）
+   * @returns 删除数量
+   */
+  purgeDeadLetterJobs(queueName: string, jobIds?: string[]): Promise<number>;
+
   /**
    * 关闭队列服务
    */
@@ -14,6 +14,9 @@ import type {
   JobOptions,
   JobProcessor,
   QueueStats,
+  JobFailure,
+  DeadLetterJob,
+  DeadLetterQuery,
 } from './queue.interface';
 
 /**
@@ -64,13 +67,31 @@ export class SQLiteQueueService implements QueueService {
         attempts INTEGER DEFAULT 0,
         max_attempts INTEGER DEFAULT 3,
         priority INTEGER DEFAULT 0,
+        run_at INTEGER DEFAULT 0,
+        timeout INTEGER DEFAULT 0,
+        backoff INTEGER DEFAULT 0,
         created_at INTEGER DEFAULT (unixepoch()),
         started_at INTEGER,
         completed_at INTEGER,
-        error TEXT
+        error TEXT,
+        error_history TEXT DEFAULT '[]'
       )
     `);
 
+    // 兼容旧表结构: 补充延迟执行列 (毫秒时间戳)、超时列 (毫秒)、退避间隔列 (毫秒) 和失败记录列
+    const columns = this.db.prepare(`PRAGMA table_info(jobs)`).all() as Array<{ name: string }>;
+    const addedColumns: Record<string, string> = {
+      run_at: 'INTEGER DEFAULT 0',
+      timeout: 'INTEGER DEFAULT 0',
+      backoff: 'INTEGER DEFAULT 0',
+      error_history: `TEXT DEFAULT '[]'`,
+    };
+    for (const [column, definition] of Object.entries(addedColumns)) {
+      if (!columns.some((existing) => existing.name === column)) {
+        this.db.run(`ALTER TABLE jobs ADD COLUMN ${column} ${definition}`);
+      }
+    }
+
     // 创建索引 (提升查询性能)
     this.db.run(`
       CREATE INDEX IF NOT EXISTS idx_queue_status_priority
@@ -90,8 +111,8 @@ export class SQLiteQueueService implements QueueService {
     options?: JobOptions
   ): Promise<Job<T>> {
     const stmt = this.db.prepare(`
-      INSERT INTO jobs (queue, name, data, priority, max_attempts)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO jobs (queue, name, data, priority, max_attempts, run_at, timeout, backoff)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const result = stmt.run(
@@ -99,7 +120,10 @@ export class SQLiteQueueService implements QueueService {
       jobName,
       JSON.stringify(data),
       options?.priority || 0,
-      options?.attempts || 3
+      options?.attempts || 3,
+      options?.delay ? Date.now() + options.delay : 0,
+      options?.timeout || 0,
+      options?.backoff || 0
     );
 
     return {
@@ -176,15 +200,15 @@ export class SQLiteQueueService implements QueueService {
     queueName: string,
     processor: JobProcessor
   ): Promise<void> {
-    // 1. 获取优先级最高的待处理任务
+    // 1. 获取优先级最高的已到期待处理任务
     const getStmt = this.db.prepare(`
       SELECT * FROM jobs
-      WHERE queue = ? AND status = 'pending'
+      WHERE queue = ? AND status = 'pending' AND run_at <= ?
       ORDER BY priority DESC, id ASC
       LIMIT 1
     `);
 
-    const row = getStmt.get(queueName) as any;
+    const row = getStmt.get(queueName, Date.now()) as any;
     if (!row) return; // 没有任务
 
     // 2. 标记为处理中
@@ -209,7 +233,7 @@ export class SQLiteQueueService implements QueueService {
     };
 
     // 4. 异步处理任务（不阻塞循环）
-    this.executeJob(job, queueName, processor).finally(() => {
+    this.executeJob(job, queueName, processor, row.timeout, row.backoff).finally(() => {
       this.processingCount--;
     });
   }
@@ -220,11 +244,24 @@ export class SQLiteQueueService implements QueueService {
   private async executeJob(
     job: Job,
     queueName: string,
-    processor: JobProcessor
+    processor: JobProcessor,
+    timeout?: number,
+    backoff?: number
   ): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
     try {
-      // 执行处理器
-      await processor(job);
+      // 执行处理器 (超时视为失败)
+      if (timeout) {
+        await Promise.race([
+          processor(job),
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`Job timed out after ${timeout}ms`)), timeout);
+          }),
+        ]);
+      } else {
+        await processor(job);
+      }
 
       // 标记为成功
       this.db
@@ -242,6 +279,8 @@ export class SQLiteQueueService implements QueueService {
       // 处理失败
       const newAttempts = (job.attempts || 0) + 1;
       const maxAttempts = await this.getMaxAttempts(job.id);
+      const message = error instanceof Error ? error.message : String(error);
+      this.appendFailure(job.id, { attempt: newAttempts, error: message, failedAt: new Date() });
 
       if (newAttempts >= maxAttempts) {
         // 超过最大重试次数，标记为失败
@@ -253,31 +292,47 @@ export class SQLiteQueueService implements QueueService {
           WHERE id = ?
         `
           )
-          .run(newAttempts, error instanceof Error ? error.message : String(error), job.id);
+          .run(newAttempts, message, job.id);
 
         console.error(
           `[SQLiteQueue] Job failed permanently: ${queueName}/${job.name} #${job.id}`,
           error
         );
       } else {
-        // 重置为待处理，等待重试
+        // 重置为待处理，等待重试 (设置了退避间隔时按指数延迟)
+        const runAt = backoff ? Date.now() + backoff * 2 ** (newAttempts - 1) : 0;
         this.db
           .prepare(
             `
           UPDATE jobs
-          SET status = 'pending', attempts = ?, error = ?
+          SET status = 'pending', attempts = ?, error = ?, run_at = ?
           WHERE id = ?
         `
           )
-          .run(newAttempts, error instanceof Error ? error.message : String(error), job.id);
+          .run(newAttempts, message, runAt, job.id);
 
         console.warn(
           `[SQLiteQueue] Job retry scheduled: ${queueName}/${job.name} #${job.id} (${newAttempts}/${maxAttempts})`
         );
       }
+    } finally {
+      clearTimeout(timer);
     }
   }
 
+  /**
+   * 追加失败记录
+   */
+  private appendFailure(jobId: string, failure: JobFailure): void {
+    const row = this.db.prepare(`SELECT error_history FROM jobs WHERE id = ?`).get(jobId) as any;
+    const history: JobFailure[] = JSON.parse(row?.error_history || '[]');
+    history.push(failure);
+
+    this.db
+      .prepare(`UPDATE jobs SET error_history = ? WHERE id = ?`)
+      .run(JSON.stringify(history), jobId);
+  }
+
   /**
    * 获取任务的最大重试次数
    */
@@ -341,6 +396,93 @@ export class SQLiteQueueService implements QueueService {
     console.log(`[SQLiteQueue] Cleaned up ${result.changes} old jobs${queueName ? ` from queue ${queueName}` : ''}`);
   }
 
+  /**
+   * 获取已知的队列名称 (实现 QueueService 接口)
+   */
+  async getQueueNames(): Promise<string[]> {
+    const rows = this.db.prepare(`SELECT DISTINCT queue FROM jobs`).all() as Array<{ queue: string }>;
+    const names = new Set([...rows.map((row) => row.queue), ...this.processors.keys()]);
+    return Array.from(names).sort();
+  }
+
+  /**
+   * 查询死信任务 (实现 QueueService 接口)
+   */
+  async getDeadLetterJobs(
+    queueName: string,
+    query: DeadLetterQuery = {}
+  ): Promise<{ jobs: DeadLetterJob[]; total: number }> {
+    const where = query.name
+      ? `WHERE queue = ? AND status = 'failed' AND name = ?`
+      : `WHERE queue = ? AND status = 'failed'`;
+    const params = query.name ? [queueName, query.name] : [queueName];
+
+    const total = (
+      this.db.prepare(`SELECT COUNT(*) as count FROM jobs ${where}`).get(...params) as any
+    ).count as number;
+
+    const rows = this.db
+      .prepare(`SELECT * FROM jobs ${where} ORDER BY completed_at DESC, id DESC LIMIT ? OFFSET ?`)
+      .all(...params, query.limit ?? 20, query.offset ?? 0) as any[];
+
+    const jobs = rows.map((row) => ({
+      id: row.id.toString(),
+      queue: row.queue,
+      name: row.name,
+      data: JSON.parse(row.data),
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      error: row.error ?? undefined,
+      history: (JSON.parse(row.error_history || '[]') as JobFailure[]).map((failure) => ({
+        ...failure,
+        failedAt: new Date(failure.failedAt),
+      })),
+      createdAt: new Date(row.created_at * 1000),
+      failedAt: row.completed_at ? new Date(row.completed_at * 1000) : undefined,
+    }));
+
+    return { jobs, total };
+  }
+
+  /**
+   * 重新投递死信任务 (实现 QueueService 接口)
+   */
+  async replayDeadLetterJob(queueName: string, jobId: string): Promise<boolean> {
+    const result = this.db
+      .prepare(
+        `
+      UPDATE jobs
+      SET status = 'pending', attempts = 0, run_at = 0, started_at = NULL, completed_at = NULL
+      WHERE queue = ? AND id = ? AND status = 'failed'
+    `
+      )
+      .run(queueName, jobId);
+
+    if (result.changes > 0) {
+      console.log(`[SQLiteQueue] Dead letter job replayed: ${queueName} #${jobId}`);
+    }
+
+    return result.changes > 0;
+  }
+
+  /**
+   * 删除死信任务 (实现 QueueService 接口)
+   */
+  async purgeDeadLetterJobs(queueName: string, jobIds?: string[]): Promise<number> {
+    if (jobIds && jobIds.length === 0) return 0;
+
+    const result = jobIds
+      ? this.db
+          .prepare(
+            `DELETE FROM jobs WHERE queue = ? AND status = 'failed' AND id IN (${jobIds.map(() => '?').join(', ')})`
+          )
+          .run(queueName, ...jobIds)
+      : this.db.prepare(`DELETE FROM jobs WHERE queue = ? AND status = 'failed'`).run(queueName);
+
+    console.log(`[SQLiteQueue] Purged ${result.changes} dead letter jobs from queue ${queueName}`);
+    return result.changes;
+  }
+
   /**
    * 关闭队列服务
    */
@@ -0,0 +1,321 @@
+/**
+ * Socket.IO 多实例集群支持
+ *
+ * 多个 API 实例部署在负载均衡后面时，Node 客户端只连接其中一个实例:
+ * - Redis Adapter: 房间广播跨实例生效，`to(socketId)` 可以向其他实例上的 Node socket 发送事件
+ * - 节点注册表 (Redis Hash): Node 名称 → 所在实例和 socket ID，任意实例都能定位 Node
+ * - 调度 Leader (Redis 锁): 查询调度循环只在一个实例上运行，Leader 失效后由其他实例接管
+ *
+ * 实例间的 Node 响应转发、忙碌状态和查询缓存同步由 SocketIoService 通过 serverSideEmit 完成
+ */
+
+import { hostname } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { createClient } from 'redis';
+import { createAdapter } from '@socket.io/redis-adapter';
+import type { NodeParseMode } from '../types/socket-events';
+import { config, derivedConfig } from '../config';
+import { logger } from '../utils/logger';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+/**
+ * 集群配置
+ */
+export interface SocketIoClusterConfig {
+  /** Redis 连接配置 */
+  redis: {
+    host: string;
+    port: number;
+    password?: string;
+    db?: number;
+  };
+  /** Redis key 前缀 (默认 'uart-cluster') */
+  prefix?: string;
+  /** 实例 ID (默认 hostname-pid-随机串) */
+  instanceId?: string;
+  /** Leader 锁有效期 (ms)，Leader 失效后最长经过该时间被接管 */
+  leaderTtl?: number;
+}
+
+/**
+ * 节点注册表条目
+ */
+export interface ClusterNodeEntry {
+  Name: string;
+  IP: string;
+  Port: number;
+  MaxConnections: number;
+  Connections: number;
+  parseMode: NodeParseMode;
+  /** Node socket ID (跨实例房间名) */
+  socketId: string;
+  /** Node 所连接的实例 */
+  instanceId: string;
+  connectedAt: Date;
+}
+
+/**
+ * Leader 锁续期脚本 (仅持有者可以续期)
+ */
+const RENEW_LEADER_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/**
+ * Leader 锁释放脚本 (仅持有者可以释放)
+ */
+const RELEASE_LEADER_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Socket.IO 集群协调器
+ */
+export class SocketIoCluster {
+  readonly instanceId: string;
+
+  private pubClient: RedisClient;
+  private subClient: RedisClient;
+  private prefix: string;
+  private leaderTtl: number;
+  private leader = false;
+  private leaderTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+
+  constructor(options: SocketIoClusterConfig) {
+    this.instanceId =
+      options.instanceId || `${hostname()}-${process.pid}-${randomBytes(3).toString('hex')}`;
+    this.prefix = options.prefix || 'uart-cluster';
+    this.leaderTtl = options.leaderTtl || 15000;
+
+    this.pubClient = createClient({
+      socket: { host: options.redis.host, port: options.redis.port },
+      password: options.redis.password,
+      database: options.redis.db,
+    });
+    this.subClient = this.pubClient.duplicate();
+
+    this.pubClient.on('error', (error) => logger.error('[SocketIoCluster] Redis error:', error));
+    this.subClient.on('error', (error) => logger.error('[SocketIoCluster] Redis error:', error));
+  }
+
+  /**
+   * 节点注册表 key
+   */
+  private get nodesKey(): string {
+    return `${this.prefix}:nodes`;
+  }
+
+  /**
+   * 调度 Leader 锁 key
+   */
+  private get leaderKey(): string {
+    return `${this.prefix}:scheduler-leader`;
+  }
+
+  /**
+   * 实例存活 key
+   */
+  private instanceKey(instanceId: string): string {
+    return `${this.prefix}:instance:${instanceId}`;
+  }
+
+  /**
+   * 连接 Redis 并开始实例存活心跳
+   */
+  async connect(): Promise<void> {
+    await Promise.all([this.pubClient.connect(), this.subClient.connect()]);
+
+    await this.touchInstance();
+    this.heartbeatTimer = setInterval(() => {
+      this.touchInstance().catch((error) => {
+        logger.warn('[SocketIoCluster] Failed to refresh instance heartbeat:', error);
+      });
+    }, this.leaderTtl / 3);
+
+    logger.info(`[SocketIoCluster] Connected as instance ${this.instanceId}`);
+  }
+
+  /**
+   * 创建 Socket.IO Redis Adapter
+   */
+  createAdapter() {
+    return createAdapter(this.pubClient, this.subClient, { key: `${this.prefix}:socket.io` });
+  }
+
+  private async touchInstance(): Promise<void> {
+    await this.pubClient.set(this.instanceKey(this.instanceId), Date.now().toString(), {
+      expiration: { type: 'PX', value: this.leaderTtl },
+    });
+  }
+
+  // ==================== 节点注册表 ====================
+
+  /**
+   * 登记本实例上的 Node
+   */
+  async registerNode(entry: Omit<ClusterNodeEntry, 'instanceId'>): Promise<void> {
+    await this.pubClient.hSet(
+      this.nodesKey,
+      entry.Name,
+      JSON.stringify({ ...entry, instanceId: this.instanceId })
+    );
+  }
+
+  /**
+   * 更新 Node 连接数
+   */
+  async updateNodeConnections(name: string, connections: number): Promise<void> {
+    const entry = await this.findNode(name);
+    if (entry && entry.instanceId === this.instanceId) {
+      await this.registerNode({ ...entry, Connections: connections });
+    }
+  }
+
+  /**
+   * 注销 Node (仅当注册表中仍是该 socket 时，避免误删在其他实例上重连的 Node)
+   */
+  async unregisterNode(name: string, socketId: string): Promise<void> {
+    const entry = await this.readNode(name);
+    if (entry?.socketId === socketId) {
+      await this.pubClient.hDel(this.nodesKey, name);
+    }
+  }
+
+  /**
+   * 查找 Node (所在实例已失效时视为离线)
+   */
+  async findNode(name: string): Promise<ClusterNodeEntry | null> {
+    const entry = await this.readNode(name);
+    if (!entry) {
+      return null;
+    }
+
+    return (await this.isInstanceAlive(entry.instanceId)) ? entry : null;
+  }
+
+  /**
+   * 获取所有在线 Node
+   */
+  async listNodes(): Promise<ClusterNodeEntry[]> {
+    const raw = await this.pubClient.hGetAll(this.nodesKey);
+    const entries = Object.values(raw).map((value) => this.parseNode(value));
+
+    const alive = await Promise.all(entries.map((entry) => this.isInstanceAlive(entry.instanceId)));
+    return entries.filter((_, index) => alive[index]);
+  }
+
+  private async readNode(name: string): Promise<ClusterNodeEntry | null> {
+    const value = await this.pubClient.hGet(this.nodesKey, name);
+    return value ? this.parseNode(value) : null;
+  }
+
+  private parseNode(value: string): ClusterNodeEntry {
+    const entry = JSON.parse(value) as ClusterNodeEntry;
+    return { ...entry, connectedAt: new Date(entry.connectedAt) };
+  }
+
+  private async isInstanceAlive(instanceId: string): Promise<boolean> {
+    if (instanceId === this.instanceId) {
+      return true;
+    }
+    return (await this.pubClient.exists(this.instanceKey(instanceId))) > 0;
+  }
+
+  // ==================== 调度 Leader ====================
+
+  /**
+   * 是否为调度 Leader
+   */
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * 开始竞选调度 Leader
+   * @param onChange - Leader 身份变化回调
+   */
+  startLeaderElection(onChange: (isLeader: boolean) => void): void {
+    const tick = async () => {
+      try {
+        const isLeader = await this.tryAcquireLeader();
+        if (isLeader !== this.leader) {
+          this.leader = isLeader;
+          logger.info(
+            `[SocketIoCluster] Instance ${this.instanceId} ${isLeader ? 'became' : 'lost'} scheduler leader`
+          );
+          onChange(isLeader);
+        }
+      } catch (error) {
+        logger.error('[SocketIoCluster] Leader election failed:', error);
+        if (this.leader) {
+          this.leader = false;
+          onChange(false);
+        }
+      }
+    };
+
+    void tick();
+    this.leaderTimer = setInterval(tick, this.leaderTtl / 3);
+  }
+
+  private async tryAcquireLeader(): Promise<boolean> {
+    if (this.leader) {
+      const renewed = await this.pubClient.eval(RENEW_LEADER_SCRIPT, {
+        keys: [this.leaderKey],
+        arguments: [this.instanceId, this.leaderTtl.toString()],
+      });
+      return Number(renewed) === 1;
+    }
+
+    const acquired = await this.pubClient.set(this.leaderKey, this.instanceId, {
+      condition: 'NX',
+      expiration: { type: 'PX', value: this.leaderTtl },
+    });
+    return acquired === 'OK';
+  }
+
+  /**
+   * 关闭集群连接 (释放 Leader 锁并注销实例)
+   */
+  async close(): Promise<void> {
+    clearInterval(this.leaderTimer);
+    clearInterval(this.heartbeatTimer);
+
+    try {
+      if (this.leader) {
+        await this.pubClient.eval(RELEASE_LEADER_SCRIPT, {
+          keys: [this.leaderKey],
+          arguments: [this.instanceId],
+        });
+        this.leader = false;
+      }
+      await this.pubClient.del(this.instanceKey(this.instanceId));
+    } catch (error) {
+      logger.warn('[SocketIoCluster] Failed to release cluster keys:', error);
+    }
+
+    await Promise.allSettled([this.pubClient.quit(), this.subClient.quit()]);
+    logger.info(`[SocketIoCluster] Instance ${this.instanceId} left cluster`);
+  }
+}
+
+/**
+ * 按配置创建并连接集群协调器 (SOCKETIO_CLUSTER=true 时使用)
+ */
+export async function connectSocketIoCluster(): Promise<SocketIoCluster> {
+  const cluster = new SocketIoCluster({
+    redis: derivedConfig.redisConfig,
+    prefix: config.SOCKETIO_CLUSTER_PREFIX,
+    instanceId: config.INSTANCE_ID,
+  });
+  await cluster.connect();
+  return cluster;
+}
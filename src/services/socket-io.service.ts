@@ -4,7 +4,7 @@
  */
 
 import { EventEmitter } from 'eventemitter3';
-import type { Server as SocketIOServer, Socket } from 'socket.io';
+import type { Server as SocketIOServer, Socket, BroadcastOperator } from 'socket.io';
 import { crc16modbus } from 'crc';
 import type {
   NodeClientToServerEvents,
@@ -30,18 +30,39 @@ import type {
   NodeReadyCallback,
   StartErrorRequest,
   AlarmRequest,
+  NodeParseMode,
+  RawQueryResult,
+  QueryCacheSync,
+  RelocateTerminalRequest,
+  RelocateTerminalResultRequest,
+  QueryOutcome,
 } from '../types/socket-events';
 import type { Terminal } from '../types/entities/terminal.entity';
+import type { SaveResultItem, TerminalClientResult } from '../types/entities/result.entity';
 import { nodeService } from './node.service';
 import { terminalService } from './terminal.service';
 import { protocolService, type Protocol } from './protocol.service';
 import { resultService } from './result.service';
+import { DataParsingService } from './data-parsing.service';
 import { dtuOperationLogService } from './dtu-operation-log.service';
 import { socketUserService } from './socket-user.service';
+import { QueryScheduler, type DeviceScheduleSnapshot, type ScheduleStatus } from './query-scheduler';
+import type {
+  AlarmRuleEngineService,
+  DeviceStatusEvent,
+  ResolvedAlarm,
+} from './alarm-rule-engine.service';
+import type { AlarmNotificationService } from './alarm-notification.service';
+import type { AlarmEscalationService } from './alarm-escalation.service';
+import type { TimeSeriesWriterService } from './time-series-writer.service';
+import type { AlarmDocument } from '../entities/mongodb';
 import { logger } from '../utils/logger';
+import { toParsedData } from '../utils/data-parsing.utils';
+import { planRelocations, type NodeCapacity } from '../utils/node-balance.utils';
 import { config } from '../config';
 import { terminalCache } from '../repositories/terminal-cache';
 import { socketIoMetrics } from './metrics/socketio-metrics';
+import type { SocketIoCluster } from './socket-io-cluster';
 
 /**
  * Node Socket 信息 (缓存在内存中)
@@ -53,10 +74,32 @@ interface NodeSocketInfo {
   Port: number;
   MaxConnections: number;
   Connections: number;
+  parseMode: NodeParseMode;
   connectedAt: Date;
   lastHeartbeat: Date;
 }
 
+/**
+ * Node 发送通道: 本实例上的 socket，或集群中其他实例上 socket 的房间
+ */
+type NodeChannel =
+  | Socket<NodeClientToServerEvents, ServerToNodeClientEvents, InterServerEvents, SocketData>
+  | BroadcastOperator<ServerToNodeClientEvents, SocketData>;
+
+/**
+ * Node 位置信息 (本实例或集群中的其他实例)
+ */
+export interface NodeLocation {
+  Name: string;
+  Connections: number;
+  parseMode: NodeParseMode;
+  connectedAt: Date;
+  /** 最后心跳时间 (仅本实例上的 Node) */
+  lastHeartbeat?: Date;
+  /** 所在实例 (仅集群模式) */
+  instanceId?: string;
+}
+
 /**
  * 终端缓存信息
  */
@@ -90,7 +133,6 @@ interface MountDevQueryCache {
   Interval: number; // 查询间隔 (ms)
   minQueryLimit: number; // 最小查询限制 (ms)
   devs: number; // 同一终端下的设备数量
-  bye: number; // 跳过权重（用于负载均衡）
   online: boolean; // 在线状态
   lastEmit?: Date; // 最后发送时间
   lastRecord?: Date; // 最后记录时间
@@ -106,6 +148,21 @@ export interface InstructQueryResult {
   useTime?: number; // 耗时 (ms)
 }
 
+/**
+ * 即时查询结果
+ */
+export interface ImmediateQueryResult {
+  ok: number; // 1 成功，0 失败
+  msg: string; // 消息
+  data?: {
+    mac: string;
+    pid: number;
+    result: (SaveResultItem & { alarm?: boolean })[]; // 解析后的参数值 (含告警标记)
+    timeStamp: number;
+    useTime: number;
+  };
+}
+
 /**
  * DTU 操作结果
  */
@@ -115,10 +172,28 @@ export interface OprateDtuResult {
   data?: any; // 结果数据
 }
 
+/**
+ * 终端迁移结果
+ */
+export interface TerminalRelocationResult {
+  ok: number; // 1 成功，0 失败
+  msg: string; // 消息
+}
+
+/**
+ * 节点排空结果
+ */
+export interface DrainNodeResult {
+  nodeName: string;
+  total: number; // 需要迁移的在线终端数
+  relocated: Array<{ mac: string; target: string }>; // 已下发迁移指令的终端
+  failed: Array<{ mac: string; msg: string }>; // 迁移失败的终端
+}
+
 /**
  * Socket.IO 服务类
  */
-class SocketIoService extends EventEmitter {
+export class SocketIoService extends EventEmitter {
   private io?: SocketIOServer<
     NodeClientToServerEvents,
     ServerToNodeClientEvents,
@@ -144,6 +219,15 @@ class SocketIoService extends EventEmitter {
   // 查询缓存: (mac + pid) → MountDevQueryCache
   private queryCache: Map<string, MountDevQueryCache> = new Map();
 
+  // 即时查询: (mac + pid) → 进行中的查询 (同一设备的并发请求合并为一次查询)
+  private immediateQueries: Map<string, Promise<ImmediateQueryResult>> = new Map();
+
+  // 即时查询结果等待: eventName → resolve
+  private immediateWaiters: Map<string, (result: ImmediateQueryResult) => void> = new Map();
+
+  // 服务端解析 (server 解析模式): 已加载协议配置的解析服务
+  private dataParsingService = new DataParsingService();
+
   // 心跳定时器
   private heartbeatInterval?: NodeJS.Timeout;
 
@@ -169,12 +253,27 @@ class SocketIoService extends EventEmitter {
   private readonly CLEAR_CACHE_INTERVAL = 600000; // 10分钟
   private readonly CLEAR_NODEMAP_INTERVAL = 3600000; // 1小时
 
-  // 当前轮次处理过的 MAC 地址集合（用于负载均衡）
-  private hundleMacs: Set<string> = new Set();
+  // 查询调度状态（优先级 / 分时段计划 / 超时退避 / 串口公平分配）
+  private queryScheduler = new QueryScheduler();
 
   // 设备忙碌状态缓存
   private busyDevices: Set<string> = new Set();
 
+  // 告警规则引擎（由服务容器注入，未注入时跳过规则评估）
+  private alarmRuleEngine?: AlarmRuleEngineService;
+
+  // 告警通知服务（由服务容器注入）
+  private alarmNotificationService?: AlarmNotificationService;
+
+  // 告警升级服务（由服务容器注入）
+  private alarmEscalationService?: AlarmEscalationService;
+
+  // 时间序列写入服务（由服务容器注入，未注入时不写参数历史数据）
+  private timeSeriesWriter?: TimeSeriesWriterService;
+
+  // 集群协调器（多实例部署时注入，未注入时为单实例模式）
+  private cluster?: SocketIoCluster;
+
   /**
    * 初始化 Socket.IO 服务
    */
@@ -182,19 +281,78 @@ class SocketIoService extends EventEmitter {
     this.io = io;
     logger.info('SocketIoService initialized');
 
+    // 集群模式：Redis Adapter 需在创建 namespace 之前设置
+    if (this.cluster) {
+      io.adapter(this.cluster.createAdapter());
+    }
+
     // 配置 /node namespace
     this.setupNodeNamespace();
 
     // 启动心跳检查
     this.startHeartbeatCheck();
 
-    // 启动查询调度循环
-    this.startQueryScheduler();
+    // 启动查询调度循环 (集群模式下只在 Leader 上运行)
+    if (this.cluster) {
+      this.cluster.startLeaderElection((isLeader) => {
+        if (isLeader) {
+          // 接管调度前重建查询缓存 (其他实例上线的终端)
+          void this.clear_Cache();
+          this.startQueryScheduler();
+        } else {
+          this.stopQueryScheduler();
+        }
+      });
+    } else {
+      this.startQueryScheduler();
+    }
 
     // 启动定时任务
     this.startScheduledTasks();
   }
 
+  /**
+   * 注入告警服务
+   * 注入后每个成功的查询结果都会经过告警规则评估
+   */
+  attachAlarmServices(
+    alarmRuleEngine: AlarmRuleEngineService,
+    alarmNotificationService?: AlarmNotificationService,
+    alarmEscalationService?: AlarmEscalationService
+  ): void {
+    this.alarmRuleEngine = alarmRuleEngine;
+    this.alarmNotificationService = alarmNotificationService;
+    this.alarmEscalationService = alarmEscalationService;
+    logger.info('Alarm services attached to SocketIoService');
+  }
+
+  /**
+   * 注入集群协调器 (需在 initialize 之前调用)
+   * 注入后 Node 可以连接任意实例，指令按节点注册表路由到 Node 所在实例
+   */
+  attachCluster(cluster: SocketIoCluster): void {
+    this.cluster = cluster;
+    logger.info(`Cluster attached to SocketIoService (instance: ${cluster.instanceId})`);
+  }
+
+  /**
+   * 断开集群协调器 (释放调度 Leader 锁)
+   */
+  async detachCluster(): Promise<void> {
+    const cluster = this.cluster;
+    this.cluster = undefined;
+    await cluster?.close();
+  }
+
+  /**
+   * 注入时间序列写入服务
+   * 注入后每个成功存储的查询结果都会按参数写入历史数据
+   */
+  attachTimeSeriesWriter(timeSeriesWriter: TimeSeriesWriterService): void {
+    this.timeSeriesWriter = timeSeriesWriter;
+    logger.info('Time series writer attached to SocketIoService');
+  }
+
   /**
    * 配置 /node namespace (Node 客户端连接)
    */
@@ -221,6 +379,11 @@ class SocketIoService extends EventEmitter {
       this.handleConnection(socket);
     });
 
+    // 实例间事件
+    if (this.cluster) {
+      this.registerInterServerHandlers();
+    }
+
     logger.info('/node namespace configured');
   }
 
@@ -333,6 +496,10 @@ class SocketIoService extends EventEmitter {
     });
 
     // DTU 操作结果
+    socket.on('RelocateTerminalResult', (data) => {
+      this.handleRelocateTerminalResult(data);
+    });
+
     socket.on('OprateDTUResult', (data) => {
       this.handleOprateDtuResult(socket, data);
     });
@@ -405,6 +572,9 @@ class SocketIoService extends EventEmitter {
         this.nodeMap.delete(existingSocketId);
       }
 
+      // 协商数据解析模式 (未声明或无法识别时沿用 client 模式)
+      const parseMode: NodeParseMode = data.parseMode === 'server' ? 'server' : 'client';
+
       // 保存到数据库
       const node = await nodeService.createOrUpdateNode({
         Name: data.Name,
@@ -422,6 +592,7 @@ class SocketIoService extends EventEmitter {
         Port: data.Port,
         MaxConnections: data.MaxConnections,
         Connections: 0,
+        parseMode,
         connectedAt: new Date(),
         lastHeartbeat: new Date(),
       };
@@ -432,13 +603,29 @@ class SocketIoService extends EventEmitter {
       // 更新 socket.data
       socket.data.nodeName = data.Name;
       socket.data.nodeIP = data.IP;
+      socket.data.parseMode = parseMode;
+
+      logger.info(`Node registered successfully: ${data.Name} (parseMode: ${parseMode})`);
 
-      logger.info(`Node registered successfully: ${data.Name}`);
+      nodeService.saveLog({ type: '连接', ID: socket.id, IP: data.IP, Name: data.Name });
+
+      // 登记到集群节点注册表，其他实例据此路由指令
+      await this.cluster?.registerNode({
+        Name: data.Name,
+        IP: data.IP,
+        Port: data.Port,
+        MaxConnections: data.MaxConnections,
+        Connections: 0,
+        parseMode,
+        socketId: socket.id,
+        connectedAt: nodeInfo.connectedAt,
+      });
 
       callback({
         success: true,
         message: 'Node registered successfully',
         node,
+        parseMode,
       });
     } catch (error) {
       logger.error('Failed to register Node:', error);
@@ -472,8 +659,17 @@ class SocketIoService extends EventEmitter {
       nodeInfo.Connections = data.Connections;
       nodeInfo.lastHeartbeat = new Date();
 
-      // 保存到数据库 (NodeRunInfo)
-      // TODO: 实现 NodeRunInfo 存储逻辑
+      // 保存到数据库 (NodeRunInfo 当前状态 + 历史快照)
+      await Promise.all([
+        nodeService.saveRunInfo({
+          ...data.runInfo,
+          NodeName: nodeInfo.Name,
+          Connections: data.Connections,
+          updateTime: new Date(),
+        }),
+        nodeService.updateConnections(nodeInfo.Name, data.Connections),
+        this.cluster?.updateNodeConnections(nodeInfo.Name, data.Connections),
+      ]);
 
       logger.debug(`Node info updated: ${data.Name}, Connections: ${data.Connections}`);
     } catch (error) {
@@ -559,33 +755,72 @@ class SocketIoService extends EventEmitter {
     data: QueryResultRequest
   ): Promise<void> {
     // 触发内部事件 (用于 Promise 解析)
-    this.emit(data.eventName, data);
+    this.dispatchNodeResponse(data);
 
     logger.debug(
       `Query result received: ${data.mac}/${data.pid}, success: ${data.success}, useTime: ${data.useTime}ms`
     );
 
+    // 调度查询的结果用于超时退避和串口占用统计 (即时查询不计入)
+    if (data.eventName.startsWith('query_')) {
+      this.recordQueryOutcome({
+        mac: data.mac,
+        pid: data.pid,
+        success: data.success,
+        useTime: data.useTime,
+      });
+    }
+
     // 处理成功的查询结果
-    if (data.success && data.data) {
+    const resultData = data.success ? await this.resolveResultData(socket, data) : undefined;
+    if (data.success && resultData) {
       try {
         // 获取查询间隔（从 queryCache 或使用默认值）
         const queryCacheKey = `${data.mac}${data.pid}`;
         const queryCache = this.queryCache.get(queryCacheKey);
         const interval = queryCache?.Interval ?? 5000; // 默认 5000ms
 
-        // 1. 存储结果到 MongoDB（必须先完成）
+        // 1. 告警规则评估，标记告警参数
+        const alarmParams = await this.evaluateAlarms(data, resultData);
+        const result = resultData.result.map((item) =>
+          alarmParams.has(item.name) ? { ...item, alarm: true } : item
+        );
+
+        // 即时查询在解析完成后立即返回，不等待存储
+        this.settleImmediateQuery(data.eventName, {
+          ok: 1,
+          msg: '查询成功',
+          data: {
+            mac: data.mac,
+            pid: data.pid,
+            result,
+            timeStamp: resultData.timeStamp,
+            useTime: resultData.useTime,
+          },
+        });
+
+        // 2. 存储结果到 MongoDB（必须先完成）
         await resultService.saveQueryResult({
           mac: data.mac,
           pid: data.pid,
-          result: data.data.result,
-          timeStamp: data.data.timeStamp,
-          useTime: data.data.useTime,
-          parentId: data.data.parentId,
-          hasAlarm: data.data.hasAlarm,
+          result,
+          timeStamp: resultData.timeStamp,
+          useTime: resultData.useTime,
+          parentId: resultData.parentId,
+          hasAlarm: alarmParams.size > 0 ? 1 : resultData.hasAlarm,
           Interval: interval,
         });
 
-        // 2-3. 并行更新时间戳和在线状态（可以同时执行）
+        // 按参数写入时间序列（批量异步写入）
+        this.timeSeriesWriter?.write({
+          mac: data.mac,
+          pid: data.pid,
+          protocol: data.protocol,
+          result,
+          timeStamp: resultData.timeStamp,
+        });
+
+        // 3-4. 并行更新时间戳和在线状态（可以同时执行）
         const [recordUpdated, statusUpdated] = await Promise.all([
           terminalService.updateMountDeviceLastRecord(data.mac, data.pid, new Date()),
           terminalService.updateMountDeviceOnlineStatus(data.mac, data.pid, true),
@@ -599,7 +834,7 @@ class SocketIoService extends EventEmitter {
           logger.warn(`Failed to update online status for ${data.mac}/${data.pid} - device may not exist`);
         }
 
-        logger.debug(`Result stored successfully: ${data.mac}/${data.pid}, ${data.data.result.length} items`);
+        logger.debug(`Result stored successfully: ${data.mac}/${data.pid}, ${resultData.result.length} items`);
 
         // 发送确认事件回客户端 (用于性能测试等场景)
         socket.emit(data.eventName, {
@@ -609,6 +844,7 @@ class SocketIoService extends EventEmitter {
         });
       } catch (error) {
         logger.error(`Failed to process query result for ${data.mac}/${data.pid}:`, error);
+        this.settleImmediateQuery(data.eventName, { ok: 0, msg: String(error) });
         // 发送失败事件回客户端
         socket.emit(data.eventName, {
           success: false,
@@ -618,15 +854,17 @@ class SocketIoService extends EventEmitter {
         });
       }
     } else {
-      // 查询失败处理
-      logger.warn(`Query failed: ${data.mac}/${data.pid}, error: ${data.error || 'unknown'}`);
+      // 查询失败处理 (含查询成功但无可用结果数据)
+      const error = data.error || (data.success ? 'no result data' : 'unknown');
+      logger.warn(`Query failed: ${data.mac}/${data.pid}, error: ${error}`);
+      this.settleImmediateQuery(data.eventName, { ok: 0, msg: error });
 
       // 发送失败确认回客户端
       socket.emit(data.eventName, {
         success: false,
         mac: data.mac,
         pid: data.pid,
-        error: data.error || 'unknown',
+        error,
       });
 
       // 如果查询失败，可能需要标记设备离线（可选，根据业务逻辑）
@@ -634,6 +872,181 @@ class SocketIoService extends EventEmitter {
     }
   }
 
+  /**
+   * 获取查询结果数据
+   *
+   * - client 解析模式: Node 上报的解析结果 (data)
+   * - server 解析模式: 按协议解析 Node 上报的原始帧 (raw)
+   *
+   * 两种模式可同时存在，上报了 data 的结果始终按 client 模式处理
+   */
+  private async resolveResultData(
+    socket: Socket<
+      NodeClientToServerEvents,
+      ServerToNodeClientEvents,
+      InterServerEvents,
+      SocketData
+    >,
+    data: QueryResultRequest
+  ): Promise<TerminalClientResult | undefined> {
+    if (data.data) {
+      return data.data;
+    }
+
+    if (!data.raw) {
+      return undefined;
+    }
+
+    if (socket.data.parseMode !== 'server') {
+      logger.warn(`Raw result from client-parsing Node ${socket.data.nodeName}: ${data.mac}/${data.pid}, ignored`);
+      return undefined;
+    }
+
+    try {
+      return await this.parseRawResult(data.mac, data.pid, data.protocol, data.raw);
+    } catch (error) {
+      logger.error(`Failed to parse raw result for ${data.mac}/${data.pid}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * 服务端解析原始查询数据
+   */
+  private async parseRawResult(
+    mac: string,
+    pid: number,
+    protocolName: string,
+    raw: RawQueryResult
+  ): Promise<TerminalClientResult | undefined> {
+    const protocol = await this.cacheProtocol(protocolName);
+    if (!protocol) {
+      logger.warn(`Protocol ${protocolName} not found for raw result ${mac}/${pid}`);
+      return undefined;
+    }
+
+    if (!this.dataParsingService.hasProtocol(protocol.Protocol)) {
+      this.dataParsingService.loadProtocol(protocol);
+    }
+
+    // 指令内容 → 指令名称 (与下发给 Node 的指令一致)
+    // 不同协议可能生成相同的指令内容，每次解析使用独立的映射，不写入共享缓存
+    const contents = this.generateQueryInstructs(protocol, pid);
+    const contentToName = new Map(
+      contents.map((content, index) => [content, protocol.instruct[index]!.name] as const)
+    );
+
+    const parsed = await this.dataParsingService.parse(
+      {
+        mac,
+        pid,
+        protocol: protocol.Protocol,
+        type: protocol.Type === 232 ? 232 : 485,
+        contents: raw.contents,
+        useTime: raw.useTime,
+      },
+      contentToName
+    );
+
+    return {
+      mac,
+      pid,
+      result: parsed.map((item) => ({
+        name: item.name,
+        value: item.value ?? '',
+        parseValue: item.parseValue,
+      })),
+      timeStamp: raw.timeStamp,
+      useTime: raw.useTime,
+      parentId: raw.parentId ?? '',
+      hasAlarm: 0,
+    };
+  }
+
+  /**
+   * 评估查询结果的告警规则
+   * 触发的告警已由规则引擎持久化，此处异步分发通知；评估失败不影响结果存储
+   * @returns 处于告警状态的参数名称集合
+   */
+  private async evaluateAlarms(
+    data: QueryResultRequest,
+    resultData: TerminalClientResult
+  ): Promise<Set<string>> {
+    if (!this.alarmRuleEngine) {
+      return new Set();
+    }
+
+    try {
+      const parsedData = toParsedData(
+        data.mac,
+        data.pid,
+        data.protocol,
+        resultData.result,
+        resultData.timeStamp
+      );
+      const evaluation = await this.alarmRuleEngine.evaluateData(parsedData);
+      this.dispatchAlarmNotifications(evaluation.alarms);
+      this.dispatchRecoveryNotifications(evaluation.resolved);
+
+      return new Set(evaluation.alarmParams);
+    } catch (error) {
+      logger.error(`Failed to evaluate alarm rules for ${data.mac}/${data.pid}:`, error);
+      return new Set();
+    }
+  }
+
+  /**
+   * 评估设备状态事件的告警规则 (离线 / 超时)
+   * 评估失败只记录日志，不影响事件处理
+   */
+  private async evaluateDeviceEvent(event: DeviceStatusEvent): Promise<void> {
+    if (!this.alarmRuleEngine) {
+      return;
+    }
+
+    try {
+      const evaluation = await this.alarmRuleEngine.evaluateEvent(event);
+      this.dispatchAlarmNotifications(evaluation.alarms);
+    } catch (error) {
+      logger.error(`Failed to evaluate ${event.type} alarm rules for ${event.mac}/${event.pid}:`, error);
+    }
+  }
+
+  /**
+   * 异步分发告警通知，并安排未确认告警的升级
+   */
+  private dispatchAlarmNotifications(alarms: AlarmDocument[]): void {
+    for (const alarm of alarms) {
+      this.alarmNotificationService?.sendAlarmNotification(alarm).catch((error) => {
+        logger.error(`Failed to send alarm notification for ${alarm.mac}/${alarm.pid}:`, error);
+      });
+
+      this.alarmEscalationService?.scheduleEscalation(alarm).catch((error) => {
+        logger.error(`Failed to schedule alarm escalation for ${alarm.mac}/${alarm.pid}:`, error);
+      });
+    }
+  }
+
+  /**
+   * 异步分发告警恢复通知 (仅 notifyRecovery 规则)
+   */
+  private dispatchRecoveryNotifications(resolved: ResolvedAlarm[]): void {
+    for (const { alarm, notifyRecovery } of resolved) {
+      if (!notifyRecovery) continue;
+
+      this.alarmNotificationService?.sendRecoveryNotification(alarm).catch((error) => {
+        logger.error(`Failed to send recovery notification for ${alarm.mac}/${alarm.pid}:`, error);
+      });
+    }
+  }
+
+  /**
+   * 从终端缓存获取设备协议
+   */
+  private getMountDevProtocol(mac: string, pid: number): string | undefined {
+    return this.terminalCache.get(mac)?.mountDevs.find((dev) => dev.pid === pid)?.protocol;
+  }
+
   /**
    * 处理 DTU 操作结果
    */
@@ -647,11 +1060,20 @@ class SocketIoService extends EventEmitter {
     data: OprateDtuResultRequest
   ): void {
     // 触发内部事件 (用于 Promise 解析)
-    this.emit(data.eventName, data);
+    this.dispatchNodeResponse(data);
 
     logger.debug(`DTU operation result: ${data.mac}, type: ${data.type}, success: ${data.success}`);
   }
 
+  /**
+   * 处理终端迁移结果
+   */
+  private handleRelocateTerminalResult(data: RelocateTerminalResultRequest): void {
+    this.dispatchNodeResponse(data);
+
+    logger.debug(`Terminal relocation result: ${data.mac}, success: ${data.success}`);
+  }
+
   /**
    * 处理心跳
    */
@@ -714,6 +1136,13 @@ class SocketIoService extends EventEmitter {
         // 更新缓存
         const terminal = await terminalService.getTerminal(mac);
         if (terminal) {
+          // 终端迁移 (排空 / 故障转移 / DTU 自行改连) 后出现在新节点上，更新挂载节点
+          if (terminal.mountNode !== nodeInfo.Name) {
+            logger.info(`Terminal ${mac} moved from Node ${terminal.mountNode} to ${nodeInfo.Name}`);
+            await terminalService.updateTerminal(mac, { mountNode: nodeInfo.Name });
+            terminal.mountNode = nodeInfo.Name;
+          }
+
           await this.updateTerminalCache(terminal, socket.id);
           logger.info(`Terminal online: ${mac} on Node ${nodeInfo.Name}${data.reline ? ' (reconnect)' : ''}`);
         }
@@ -722,7 +1151,7 @@ class SocketIoService extends EventEmitter {
         terminalCache.onTerminalOnline(mac);
 
         // 移除忙碌状态
-        this.busyDevices.delete(mac);
+        this.setDeviceBusy(mac, false);
 
         // 刷新查询缓存
         await this.setTerminalMountDevCache(mac);
@@ -778,11 +1207,20 @@ class SocketIoService extends EventEmitter {
       if (terminal?.mountDevs) {
         for (const dev of terminal.mountDevs) {
           this.delTerminalMountDevCache(data.mac, dev.pid);
+
+          // 终端下线，挂载设备全部离线
+          await this.evaluateDeviceEvent({
+            type: 'offline',
+            mac: data.mac,
+            pid: dev.pid,
+            protocol: dev.protocol,
+            msg: `终端离线${data.active ? ' (主动断开)' : ''}`,
+          });
         }
       }
 
       // 移除忙碌状态
-      this.busyDevices.delete(data.mac);
+      this.setDeviceBusy(data.mac, false);
 
       logger.info(`Terminal offline: ${data.mac} from Node ${nodeInfo.Name}, active: ${data.active}`);
 
@@ -833,6 +1271,14 @@ class SocketIoService extends EventEmitter {
           node: nodeInfo.Name,
         },
       });
+
+      await this.evaluateDeviceEvent({
+        type: 'timeout',
+        mac: data.mac,
+        pid: data.pid,
+        protocol: this.getMountDevProtocol(data.mac, data.pid),
+        msg: `设备指令超时: ${data.instruct.join(', ')}`,
+      });
     } catch (error) {
       logger.error('Failed to handle instruct timeout:', error);
     }
@@ -857,6 +1303,8 @@ class SocketIoService extends EventEmitter {
         return;
       }
 
+      this.recordQueryOutcome({ mac: data.mac, pid: data.pid, success: false, timeOut: data.timeOut });
+
       // 如果超时次数 > 10，标记设备离线
       if (data.timeOut > 10) {
         await terminalService.updateMountDeviceOnlineStatus(data.mac, data.pid, false);
@@ -875,6 +1323,14 @@ class SocketIoService extends EventEmitter {
             node: nodeInfo.Name,
           },
         });
+
+        await this.evaluateDeviceEvent({
+          type: 'offline',
+          mac: data.mac,
+          pid: data.pid,
+          protocol: this.getMountDevProtocol(data.mac, data.pid),
+          msg: `设备查询连续超时 ${data.timeOut} 次，已标记为离线`,
+        });
       }
     } catch (error) {
       logger.error('Failed to handle terminal mount dev timeout:', error);
@@ -894,11 +1350,10 @@ class SocketIoService extends EventEmitter {
     data: BusyStatusRequest
   ): Promise<void> {
     try {
+      this.setDeviceBusy(data.mac, data.busy);
       if (data.busy) {
-        this.busyDevices.add(data.mac);
         logger.debug(`Device ${data.mac} is busy, queue: ${data.n}`);
       } else {
-        this.busyDevices.delete(data.mac);
         logger.debug(`Device ${data.mac} is idle`);
       }
 
@@ -970,14 +1425,13 @@ class SocketIoService extends EventEmitter {
 
       logger.error(`Node ${nodeInfo.Name} start error: ${data.error}`);
 
-      // TODO: 记录到节点日志
-      // await logNodeService.save({
-      //   type: 'TcpServer启动失败',
-      //   ID: socket.id,
-      //   IP: nodeInfo.IP,
-      //   Name: nodeInfo.Name,
-      //   error: data.error,
-      // });
+      await nodeService.saveLog({
+        type: 'TcpServer启动失败',
+        ID: socket.id,
+        IP: nodeInfo.IP,
+        Name: nodeInfo.Name,
+        error: data.error,
+      });
     } catch (error) {
       logger.error('Failed to handle start error:', error);
     }
@@ -1040,6 +1494,18 @@ class SocketIoService extends EventEmitter {
       // 将该 Node 上的所有终端标记为离线
       this.markTerminalsOffline(socket.id);
 
+      nodeService.saveLog({
+        type: '断开',
+        ID: socket.id,
+        IP: nodeInfo.IP,
+        Name: nodeInfo.Name,
+        reason,
+      });
+
+      this.cluster?.unregisterNode(nodeInfo.Name, socket.id).catch((error) => {
+        logger.warn(`Failed to unregister node ${nodeInfo.Name} from cluster:`, error);
+      });
+
       logger.info(`Node ${nodeInfo.Name} cleaned up`);
     }
   }
@@ -1093,10 +1559,10 @@ class SocketIoService extends EventEmitter {
           `Node ${nodeInfo.Name} heartbeat timeout (${elapsed}ms), disconnecting...`
         );
 
-        // 断开连接
+        // 先通知终端改连健康节点，再断开连接
         const socket = this.io?.of('/node').sockets.get(socketId);
         if (socket) {
-          socket.disconnect(true);
+          void this.failoverNode(socket, nodeInfo).finally(() => socket.disconnect(true));
         }
       }
     }
@@ -1112,6 +1578,162 @@ class SocketIoService extends EventEmitter {
     }
   }
 
+  /**
+   * 注册实例间事件处理器 (集群模式)
+   */
+  private registerInterServerHandlers(): void {
+    const nodeNamespace = this.io!.of('/node');
+
+    // 其他实例转发的 Node 响应 (InstructQuery / OprateDTU 在本实例发起)
+    nodeNamespace.on('nodeResponse', (eventName, data) => {
+      this.emit(eventName, data);
+    });
+
+    nodeNamespace.on('immediateQueryResult', (eventName, result) => {
+      const resolve = this.immediateWaiters.get(eventName);
+      if (resolve) {
+        this.immediateWaiters.delete(eventName);
+        resolve(result as ImmediateQueryResult);
+      }
+    });
+
+    nodeNamespace.on('busyStatus', (mac, busy) => {
+      if (busy) {
+        this.busyDevices.add(mac);
+      } else {
+        this.busyDevices.delete(mac);
+      }
+    });
+
+    // 查询缓存和调度状态只有调度 Leader 需要
+    nodeNamespace.on('queryCacheSync', (sync) => {
+      if (this.cluster?.isLeader()) {
+        void this.applyQueryCacheSync(sync);
+      }
+    });
+
+    nodeNamespace.on('queryOutcome', (outcome) => {
+      if (this.cluster?.isLeader()) {
+        this.applyQueryOutcome(outcome);
+      }
+    });
+  }
+
+  /**
+   * 解析 Node 发送通道
+   * 优先使用本实例上的 socket，集群模式下按节点注册表路由到其他实例
+   */
+  private async resolveNodeChannel(nodeName: string): Promise<NodeChannel | undefined> {
+    const socketId = this.nodeNameMap.get(nodeName);
+    const socket = socketId ? this.io?.of('/node').sockets.get(socketId) : undefined;
+    if (socket || !this.cluster || !this.io) {
+      return socket;
+    }
+
+    const entry = await this.cluster.findNode(nodeName);
+    return entry ? this.io.of('/node').to(entry.socketId) : undefined;
+  }
+
+  /**
+   * 查找 Node (本实例或集群中的其他实例)
+   */
+  async findNode(name: string): Promise<NodeLocation | null> {
+    const local = this.getNodeByName(name);
+    if (local) {
+      return {
+        Name: local.Name,
+        Connections: local.Connections,
+        parseMode: local.parseMode,
+        connectedAt: local.connectedAt,
+        lastHeartbeat: local.lastHeartbeat,
+        instanceId: this.cluster?.instanceId,
+      };
+    }
+
+    return (await this.cluster?.findNode(name)) ?? null;
+  }
+
+  /**
+   * 分发 Node 响应给等待方
+   * 本实例没有等待方时，集群模式下转发给其他实例 (请求可能由其他实例发起)
+   */
+  private dispatchNodeResponse(
+    data: QueryResultRequest | OprateDtuResultRequest | RelocateTerminalResultRequest
+  ): void {
+    if (this.emit(data.eventName, data)) {
+      return;
+    }
+
+    if (this.cluster && /^(instruct|dtu|relocate)_/.test(data.eventName)) {
+      this.io?.of('/node').serverSideEmit('nodeResponse', data.eventName, data);
+    }
+  }
+
+  /**
+   * 更新设备忙碌状态 (集群模式下同步到其他实例)
+   */
+  private setDeviceBusy(mac: string, busy: boolean): void {
+    if (busy) {
+      this.busyDevices.add(mac);
+    } else {
+      this.busyDevices.delete(mac);
+    }
+
+    if (this.cluster) {
+      this.io?.of('/node').serverSideEmit('busyStatus', mac, busy);
+    }
+  }
+
+  /**
+   * 同步查询缓存变更到调度 Leader (集群模式)
+   */
+  private syncQueryCache(sync: QueryCacheSync): void {
+    if (this.cluster && !this.cluster.isLeader()) {
+      this.io?.of('/node').serverSideEmit('queryCacheSync', sync);
+    }
+  }
+
+  /**
+   * 应用其他实例的查询缓存变更
+   */
+  private async applyQueryCacheSync(sync: QueryCacheSync): Promise<void> {
+    try {
+      switch (sync.op) {
+        case 'set':
+          await this.loadTerminalMountDevCache(sync.mac, sync.interval);
+          break;
+        case 'del':
+          this.queryCache.delete(`${sync.mac}${sync.pid}`);
+          this.queryScheduler.remove(sync.mac, sync.pid);
+          break;
+        case 'delNode':
+          this.removeNodeQueryCache(sync.nodeName);
+          break;
+      }
+    } catch (error) {
+      logger.error(`Failed to apply query cache sync (${sync.op}):`, error);
+    }
+  }
+
+  /**
+   * 记录调度查询结果 (集群模式下转发给调度 Leader)
+   */
+  private recordQueryOutcome(outcome: QueryOutcome): void {
+    if (this.cluster && !this.cluster.isLeader()) {
+      this.io?.of('/node').serverSideEmit('queryOutcome', outcome);
+      return;
+    }
+    this.applyQueryOutcome(outcome);
+  }
+
+  private applyQueryOutcome(outcome: QueryOutcome): void {
+    if (outcome.success) {
+      this.queryScheduler.recordResult(outcome.mac, outcome.pid, outcome.useTime);
+    } else {
+      this.queryScheduler.recordTimeout(outcome.mac, outcome.pid, outcome.timeOut);
+    }
+  }
+
   // ============================================================
   // 查询调度系统
   // ============================================================
@@ -1222,16 +1844,25 @@ class SocketIoService extends EventEmitter {
 
   /**
    * 执行一轮查询调度
-   * 遍历所有缓存的挂载设备，按权重和间隔发送查询指令
+   * 由 QueryScheduler 选出到期的挂载设备 (每个 DTU 最多一个)，按优先级发送查询指令
    */
   private async runQueryScheduler(): Promise<void> {
-    // 清空本轮已处理的 MAC 集合
-    this.hundleMacs.clear();
+    const picks = this.queryScheduler.plan(Array.from(this.queryCache.values()), new Date(), (mac) => {
+      if (this.hasImmediateQuery(mac)) {
+        return { status: 'immediate_query', reason: '即时查询进行中' };
+      }
+      if (this.busyDevices.has(mac)) {
+        return { status: 'device_busy', reason: 'Node 上报 DTU 忙碌' };
+      }
+      return undefined;
+    });
 
-    // 获取所有查询缓存，按权重排序（bye 越大越优先）
-    const queries = Array.from(this.queryCache.values()).sort((a, b) => b.bye - a.bye);
+    for (const { mac, pid } of picks) {
+      const query = this.queryCache.get(`${mac}${pid}`);
+      if (!query) {
+        continue;
+      }
 
-    for (const query of queries) {
       try {
         await this.sendQueryInstruct(query);
       } catch (error) {
@@ -1276,70 +1907,17 @@ class SocketIoService extends EventEmitter {
 private async sendQueryInstruct(query: MountDevQueryCache): Promise<void> {
   const mac = query.TerminalMac;
 
-  // 负载均衡：如果同一个 DTU 的设备在这轮已被处理，增加权重，下轮优先处理
-  if (query.devs > 1) {
-    if (this.hundleMacs.has(mac)) {
-      query.bye += 1;
-      return;
-    }
-    this.hundleMacs.add(mac);
-
-    // 获取终端信息，检查设备是否可以查询
-    const terminal = await terminalService.getTerminal(mac);
-    if (!terminal) {
-      return;
-    }
-
-    // 查找当前设备
-    const currentDev = terminal.mountDevs?.find((dev) => dev.pid === query.pid);
-    if (!currentDev) {
-      return;
-    }
-
-    // 检查查询间隔
-    if (currentDev.lastEmit) {
-      const elapsed = Date.now() - currentDev.lastEmit.getTime();
-      // 修复：去掉 -1000 容差，精确匹配配置间隔
-      // 原来的 Interval - 1000 会导致提前 1 秒触发，查询频率再增加约 10%
-      if (elapsed < query.Interval) {
-        return;
-      }
-
-      // 检查是否有未返回的查询
-      if (
-        currentDev.lastRecord &&
-        currentDev.lastRecord < currentDev.lastEmit &&
-        currentDev.lastEmit.getTime() - currentDev.lastRecord.getTime() < 30000 &&
-        Date.now() - currentDev.lastEmit.getTime() < 60000
-      ) {
-        logger.debug(`Query ${mac}/${query.pid} waiting for previous result, skip`);
-        query.bye += 1;
-        return;
-      }
-    }
-
-    // 检查兄弟设备是否正在占用通道
-    for (const dev of terminal.mountDevs || []) {
-      if (dev.pid !== query.pid) {
-        if (
-          dev.lastEmit &&
-          Date.now() - dev.lastEmit.getTime() < 10000 &&
-          dev.lastRecord &&
-          dev.lastRecord < dev.lastEmit &&
-          Date.now() - dev.lastRecord.getTime() < 60000
-        ) {
-          logger.debug(`Query ${mac}/${query.pid} channel busy by sibling ${dev.pid}`);
-          query.bye += 1;
-          return;
-        }
-      }
-    }
+  // 即时查询优先：终端有即时查询进行中时让出通道
+  if (this.hasImmediateQuery(mac)) {
+    this.queryScheduler.skip(mac, query.pid, 'immediate_query', '即时查询进行中');
+    return;
   }
 
   // 获取协议
   const protocol = await this.cacheProtocol(query.protocol);
   if (!protocol) {
     logger.warn(`Protocol ${query.protocol} not found for ${mac}/${query.pid}`);
+    this.queryScheduler.skip(mac, query.pid, 'skipped', `协议 ${query.protocol} 不存在`);
     return;
   }
 
@@ -1347,13 +1925,9 @@ private async sendQueryInstruct(query: MountDevQueryCache): Promise<void> {
   const content = this.generateQueryInstructs(protocol, query.pid);
 
   // 发送查询指令到 Node 客户端
-  const socketId = this.nodeNameMap.get(query.mountNode);
-  if (!socketId) {
-    return;
-  }
-
-  const socket = this.io?.of('/node').sockets.get(socketId);
+  const socket = await this.resolveNodeChannel(query.mountNode);
   if (!socket) {
+    this.queryScheduler.skip(mac, query.pid, 'skipped', `节点 ${query.mountNode} 离线`);
     return;
   }
 
@@ -1369,7 +1943,7 @@ private async sendQueryInstruct(query: MountDevQueryCache): Promise<void> {
   };
 
   socket.emit('InstructQuery', queryRequest);
-  query.bye = 0;
+  this.queryScheduler.markSent(mac, query.pid);
 
   // 更新 lastEmit 时间戳并检查结果
   const [emitUpdated, statusUpdated] = await Promise.all([
@@ -1491,6 +2065,11 @@ private async cacheProtocol(protocolName: string): Promise<Protocol | null> {
 UpdateCacheProtocol(protocol: Protocol): void {
   this.proMap.set(protocol.Protocol, protocol);
 
+  // server 解析模式使用新协议配置
+  if (this.dataParsingService.hasProtocol(protocol.Protocol)) {
+    this.dataParsingService.loadProtocol(protocol);
+  }
+
   const keysToDelete: string[] = [];
   for (const key of this.CacheQueryInstruct.keys()) {
     if (key.startsWith(`${protocol.Protocol}_`)) {
@@ -1502,6 +2081,131 @@ UpdateCacheProtocol(protocol: Protocol): void {
   logger.info(`Protocol cache updated: ${protocol.Protocol}`);
 }
 
+/**
+ * 即时查询挂载设备（现场调试）
+ *
+ * 立即下发完整查询指令 (不等待调度循环)，等待匹配的 queryResult 并返回解析后的参数值；
+ * 查询进行中该终端的调度查询暂停，同一设备的并发请求合并为一次查询
+ *
+ * @param mac - 终端 MAC
+ * @param pid - 设备 PID
+ * @param timeout - 等待结果的超时时间 (ms)
+ */
+async queryMountDevNow(
+  mac: string,
+  pid: number,
+  timeout: number = config.IMMEDIATE_QUERY_TIMEOUT
+): Promise<ImmediateQueryResult> {
+  const key = `${mac}${pid}`;
+  const pending = this.immediateQueries.get(key);
+  if (pending) {
+    logger.debug(`Immediate query ${mac}/${pid} already in progress, joined`);
+    return pending;
+  }
+
+  const promise = this.sendImmediateQuery(mac, pid, timeout).finally(() => {
+    this.immediateQueries.delete(key);
+  });
+  this.immediateQueries.set(key, promise);
+
+  return promise;
+}
+
+/**
+ * 终端是否有进行中的即时查询
+ */
+private hasImmediateQuery(mac: string): boolean {
+  for (const key of this.immediateQueries.keys()) {
+    if (key.startsWith(mac)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * 完成即时查询 (非即时查询的结果忽略)
+ */
+private settleImmediateQuery(eventName: string, result: ImmediateQueryResult): void {
+  const resolve = this.immediateWaiters.get(eventName);
+  if (resolve) {
+    this.immediateWaiters.delete(eventName);
+    resolve(result);
+  } else if (this.cluster && eventName.startsWith('immediate_')) {
+    // 即时查询由其他实例发起
+    this.io?.of('/node').serverSideEmit('immediateQueryResult', eventName, result);
+  }
+}
+
+/**
+ * 下发即时查询并等待结果
+ */
+private async sendImmediateQuery(
+  mac: string,
+  pid: number,
+  timeout: number
+): Promise<ImmediateQueryResult> {
+  const terminal = await terminalService.getTerminal(mac);
+  if (!terminal) {
+    return { ok: 0, msg: '设备不存在' };
+  }
+
+  if (!terminal.online) {
+    return { ok: 0, msg: '设备离线' };
+  }
+
+  const mountDev = terminal.mountDevs?.find((dev) => dev.pid === pid);
+  if (!mountDev) {
+    return { ok: 0, msg: `设备未挂载 PID ${pid}` };
+  }
+
+  const protocol = await this.cacheProtocol(mountDev.protocol);
+  if (!protocol) {
+    return { ok: 0, msg: '协议不存在' };
+  }
+
+  const socket = await this.resolveNodeChannel(terminal.mountNode);
+  if (!socket) {
+    return { ok: 0, msg: '设备所在节点离线' };
+  }
+
+  const eventName = `immediate_${mac}_${pid}_${Date.now()}`;
+  const queryRequest: InstructQueryRequest = {
+    eventName,
+    mac,
+    pid,
+    protocol: mountDev.protocol,
+    DevMac: mac,
+    content: this.generateQueryInstructs(protocol, pid).join(','),
+    // 设备的轮询间隔 (与定时查询一致)，等待超时只在本地计时
+    Interval: this.queryCache.get(`${mac}${pid}`)?.Interval ?? 5000,
+  };
+
+  const result = new Promise<ImmediateQueryResult>((resolve) => {
+    const timeoutId = setTimeout(() => {
+      this.immediateWaiters.delete(eventName);
+      socketIoMetrics.queriesTotal.inc({ status: 'timeout' });
+      resolve({ ok: 0, msg: `查询超时 (${timeout}ms)` });
+    }, timeout);
+
+    this.immediateWaiters.set(eventName, (outcome) => {
+      clearTimeout(timeoutId);
+      socketIoMetrics.queriesTotal.inc({ status: outcome.ok ? 'success' : 'error' });
+      resolve(outcome);
+    });
+  });
+
+  logger.info(`Immediate query sent: ${mac}/${pid}`);
+  socket.emit('InstructQuery', queryRequest);
+
+  // 更新 lastEmit，调度循环按间隔顺延下一次查询
+  terminalService.updateMountDeviceLastEmit(mac, pid, new Date()).catch((error) => {
+    logger.warn(`Failed to update lastEmit for ${mac}/${pid}:`, error);
+  });
+
+  return result;
+}
+
 /**
  * 指令查询（用户操作设备）
  */
@@ -1519,14 +2223,7 @@ async InstructQuery(
     throw new Error('设备不存在');
   }
 
-  const socketId = this.nodeNameMap.get(terminal.mountNode);
-  if (!socketId) {
-    socketIoMetrics.queriesTotal.inc({ status: 'error' });
-    endTimer();
-    return { ok: 0, msg: '设备所在节点离线' };
-  }
-
-  const socket = this.io?.of('/node').sockets.get(socketId);
+  const socket = await this.resolveNodeChannel(terminal.mountNode);
   if (!socket) {
     socketIoMetrics.queriesTotal.inc({ status: 'error' });
     endTimer();
@@ -1580,7 +2277,7 @@ async InstructQuery(
       resolve({
         ok: result.success ? 1 : 0,
         msg: result.error || '查询成功',
-        data: result.data,
+        data: result.data ?? result.raw,
         useTime: result.useTime,
       });
     });
@@ -1637,27 +2334,7 @@ async OprateDTU(
     throw new Error('设备不存在');
   }
 
-  const socketId = this.nodeNameMap.get(terminal.mountNode);
-  if (!socketId) {
-    // 记录失败指标和日志
-    socketIoMetrics.dtuOperationResultsTotal.inc({ operation: type, result_status: 'error' });
-    endTimer();
-
-    await dtuOperationLogService.log({
-      mac: DevMac,
-      operation: type,
-      content,
-      success: false,
-      message: '设备所在节点离线',
-      operatedBy,
-      useTime: Date.now() - startTime,
-      nodeName: terminal.mountNode,
-      error: '节点离线',
-    });
-    return { ok: 0, msg: '设备所在节点离线' };
-  }
-
-  const socket = this.io?.of('/node').sockets.get(socketId);
+  const socket = await this.resolveNodeChannel(terminal.mountNode);
   if (!socket) {
     // 记录失败指标和日志
     socketIoMetrics.dtuOperationResultsTotal.inc({ operation: type, result_status: 'error' });
@@ -1672,7 +2349,7 @@ async OprateDTU(
       operatedBy,
       useTime: Date.now() - startTime,
       nodeName: terminal.mountNode,
-      error: 'Socket不存在',
+      error: '节点离线',
     });
     return { ok: 0, msg: '设备所在节点离线' };
   }
@@ -1752,6 +2429,200 @@ async OprateDTU(
   });
 }
 
+// ============================================================
+// 终端迁移 (排空 / 故障转移)
+// ============================================================
+
+/**
+ * 获取所有节点的容量信息
+ * 心跳超时的本实例节点视为离线
+ */
+async getNodeCapacities(): Promise<NodeCapacity[]> {
+  const nodes = await nodeService.getAllNodes();
+  const now = Date.now();
+
+  return Promise.all(
+    nodes.map(async (node) => {
+      const location = await this.findNode(node.Name);
+      const alive =
+        !!location &&
+        (!location.lastHeartbeat ||
+          now - location.lastHeartbeat.getTime() <= this.HEARTBEAT_TIMEOUT);
+
+      return {
+        Name: node.Name,
+        IP: node.IP,
+        Port: node.Port,
+        MaxConnections: node.MaxConnections,
+        Connections: location?.Connections ?? node.Connections ?? 0,
+        online: alive,
+        draining: !!node.Draining,
+      };
+    })
+  );
+}
+
+/**
+ * 排空节点
+ * 标记节点为排空中 (不再作为迁移目标)，并将其在线终端按容量迁移到其他节点
+ * 终端在目标节点上线后由 handleTerminalOnline 更新挂载节点和查询缓存
+ */
+async drainNode(nodeName: string): Promise<DrainNodeResult> {
+  await nodeService.setDraining(nodeName, true);
+
+  const terminals = await terminalService.getTerminalsByNode(nodeName);
+  const macs = terminals.filter((terminal) => terminal.online).map((terminal) => terminal.DevMac);
+  const result: DrainNodeResult = { nodeName, total: macs.length, relocated: [], failed: [] };
+
+  if (macs.length === 0) {
+    return result;
+  }
+
+  const channel = await this.resolveNodeChannel(nodeName);
+  if (!channel) {
+    result.failed = macs.map((mac) => ({ mac, msg: '节点离线' }));
+    return result;
+  }
+
+  const plan = planRelocations(macs, await this.getNodeCapacities(), nodeName);
+  result.failed = plan.unassigned.map((mac) => ({ mac, msg: '没有可用容量的节点' }));
+
+  const outcomes = await Promise.all(
+    plan.assignments.map(async ({ mac, target }) => ({
+      mac,
+      target,
+      outcome: await this.relocateTerminal(channel, mac, target, 'drain'),
+    }))
+  );
+
+  for (const { mac, target, outcome } of outcomes) {
+    if (outcome.ok) {
+      result.relocated.push({ mac, target: target.Name });
+    } else {
+      result.failed.push({ mac, msg: outcome.msg });
+    }
+  }
+
+  const node = await nodeService.getNodeByName(nodeName);
+  await nodeService.saveLog({
+    type: '排空',
+    ID: this.nodeNameMap.get(nodeName) ?? '',
+    IP: node?.IP ?? '',
+    Name: nodeName,
+    relocated: result.relocated.length,
+    ...(result.failed.length > 0 && { error: `${result.failed.length} 个终端迁移失败` }),
+  });
+
+  logger.info(
+    `Node ${nodeName} drained: ${result.relocated.length}/${result.total} terminals relocated`
+  );
+
+  return result;
+}
+
+/**
+ * 取消节点排空 (维护完成后重新作为迁移目标)
+ */
+async undrainNode(nodeName: string): Promise<boolean> {
+  const found = await nodeService.setDraining(nodeName, false);
+  if (found) {
+    logger.info(`Node ${nodeName} drain cancelled`);
+  }
+  return found;
+}
+
+/**
+ * 故障转移
+ * 心跳超时的节点可能已无法响应，迁移指令只下发不等待结果
+ */
+private async failoverNode(
+  socket: Socket<NodeClientToServerEvents, ServerToNodeClientEvents, InterServerEvents, SocketData>,
+  nodeInfo: NodeSocketInfo
+): Promise<void> {
+  try {
+    const macs = Array.from(this.terminalCache.values())
+      .filter((terminal) => terminal.socketId === socket.id && terminal.online)
+      .map((terminal) => terminal.mac);
+    if (macs.length === 0) {
+      return;
+    }
+
+    const plan = planRelocations(macs, await this.getNodeCapacities(), nodeInfo.Name);
+    for (const { mac, target } of plan.assignments) {
+      socket.emit('RelocateTerminal', this.createRelocateRequest(mac, target, 'failover'));
+    }
+
+    if (plan.unassigned.length > 0) {
+      logger.warn(
+        `Failover of Node ${nodeInfo.Name}: no capacity for ${plan.unassigned.length} terminals`
+      );
+    }
+
+    await nodeService.saveLog({
+      type: '故障转移',
+      ID: socket.id,
+      IP: nodeInfo.IP,
+      Name: nodeInfo.Name,
+      relocated: plan.assignments.length,
+      ...(plan.unassigned.length > 0 && {
+        error: `${plan.unassigned.length} 个终端没有可用容量的节点`,
+      }),
+    });
+
+    logger.info(
+      `Failover of Node ${nodeInfo.Name}: ${plan.assignments.length}/${macs.length} terminals relocated`
+    );
+  } catch (error) {
+    logger.error(`Failed to fail over Node ${nodeInfo.Name}:`, error);
+  }
+}
+
+/**
+ * 下发终端迁移指令并等待 Node 确认
+ */
+private relocateTerminal(
+  channel: NodeChannel,
+  mac: string,
+  target: NodeCapacity,
+  reason: RelocateTerminalRequest['reason'],
+  timeout = 10000
+): Promise<TerminalRelocationResult> {
+  const request = this.createRelocateRequest(mac, target, reason);
+
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(() => {
+      this.removeAllListeners(request.eventName);
+      resolve({ ok: 0, msg: 'Node节点无响应，请检查设备状态' });
+    }, timeout);
+
+    this.once(request.eventName, (result: RelocateTerminalResultRequest) => {
+      clearTimeout(timeoutId);
+      resolve({
+        ok: result.success ? 1 : 0,
+        msg: result.message || (result.success ? '终端迁移指令已下发' : '终端迁移失败'),
+      });
+    });
+
+    channel.emit('RelocateTerminal', request);
+  });
+}
+
+/**
+ * 构造终端迁移请求
+ */
+private createRelocateRequest(
+  mac: string,
+  target: NodeCapacity,
+  reason: RelocateTerminalRequest['reason']
+): RelocateTerminalRequest {
+  return {
+    eventName: `relocate_${mac}_${Date.now()}`,
+    mac,
+    target: { Name: target.Name, IP: target.IP, Port: target.Port },
+    reason,
+  };
+}
+
 // ============================================================
 // 缓存管理方法
 // ============================================================
@@ -1803,6 +2674,14 @@ private async calculateQueryInterval(terminal: Terminal): Promise<number> {
  * @param interval - 可选的查询间隔
  */
 async setTerminalMountDevCache(mac: string, interval?: number): Promise<void> {
+  await this.loadTerminalMountDevCache(mac, interval);
+  this.syncQueryCache({ op: 'set', mac, interval });
+}
+
+/**
+ * 从数据库加载终端挂载设备到查询缓存
+ */
+private async loadTerminalMountDevCache(mac: string, interval?: number): Promise<void> {
   const terminal = await terminalService.getTerminal(mac);
   if (!terminal || !terminal.mountDevs || terminal.mountNode === 'test') {
     return;
@@ -1824,11 +2703,18 @@ async setTerminalMountDevCache(mac: string, interval?: number): Promise<void> {
       Interval: effectiveInterval,
       minQueryLimit: mountDev.minQueryLimit,
       devs: terminal.mountDevs.length,
-      bye: 0,
       online: mountDev.online || false,
       lastEmit: mountDev.lastEmit,
       lastRecord: mountDev.lastRecord,
     });
+
+    this.queryScheduler.configure(terminal.DevMac, mountDev.pid, {
+      baseInterval: effectiveInterval,
+      priority: mountDev.priority,
+      pollSchedule: mountDev.pollSchedule,
+      lastEmit: mountDev.lastEmit,
+      lastRecord: mountDev.lastRecord,
+    });
   }
 
   logger.info(`Terminal cache set: ${mac}, devices: ${terminal.mountDevs.length}, interval: ${queryInterval}ms`);
@@ -1842,6 +2728,8 @@ async setTerminalMountDevCache(mac: string, interval?: number): Promise<void> {
 delTerminalMountDevCache(mac: string, pid: number): void {
   const cacheKey = `${mac}${pid}`;
   this.queryCache.delete(cacheKey);
+  this.queryScheduler.remove(mac, pid);
+  this.syncQueryCache({ op: 'del', mac, pid });
   logger.debug(`Query cache deleted: ${cacheKey}`);
 }
 
@@ -1850,11 +2738,20 @@ delTerminalMountDevCache(mac: string, pid: number): void {
  * @param nodeName - 节点名称
  */
 delNodeCache(nodeName: string): void {
+  this.removeNodeQueryCache(nodeName);
+  this.syncQueryCache({ op: 'delNode', nodeName });
+}
+
+/**
+ * 删除节点下所有终端的查询缓存
+ */
+private removeNodeQueryCache(nodeName: string): void {
   const keysToDelete: string[] = [];
 
   for (const [key, query] of this.queryCache.entries()) {
     if (query.mountNode === nodeName) {
       keysToDelete.push(key);
+      this.queryScheduler.remove(query.TerminalMac, query.pid);
     }
   }
 
@@ -1862,6 +2759,34 @@ delNodeCache(nodeName: string): void {
   logger.info(`Node cache cleared: ${nodeName}, devices: ${keysToDelete.length}`);
 }
 
+/**
+ * 本实例是否运行查询调度 (单实例部署，或集群模式下的调度 Leader)
+ */
+isQueryScheduler(): boolean {
+  return !this.cluster || this.cluster.isLeader();
+}
+
+/**
+ * 获取终端下挂载设备的调度状态 (含最近一次未下发的原因)
+ */
+getQuerySchedule(mac: string): DeviceScheduleSnapshot[] {
+  return this.queryScheduler.getTerminalSchedule(mac);
+}
+
+/**
+ * 获取调度状态列表
+ */
+getQuerySchedules(filter: { status?: ScheduleStatus; limit?: number }): DeviceScheduleSnapshot[] {
+  return this.queryScheduler.getSchedules(filter);
+}
+
+/**
+ * 调度状态汇总
+ */
+getQuerySchedulerSummary() {
+  return this.queryScheduler.getSummary();
+}
+
 /**
  * 检查设备是否忙碌
  */
@@ -1963,7 +2888,6 @@ async clear_nodeMap(): Promise<void> {
 
     // 清理缓存
     this.nodeMap.clear();
-    this.hundleMacs.clear();
 
     logger.info('NodeMap cache cleared');
   } catch (error) {
@@ -1977,6 +2901,11 @@ async clear_nodeMap(): Promise<void> {
  * 重新加载所有节点的终端配置到缓存
  */
 async clear_Cache(): Promise<void> {
+  // 集群模式下只有调度 Leader 需要查询缓存
+  if (this.cluster && !this.cluster.isLeader()) {
+    return;
+  }
+
   try {
     const cacheSize = this.queryCache.size;
     logger.info(`Refreshing query cache, current size: ${cacheSize}`);
@@ -1991,7 +2920,7 @@ async clear_Cache(): Promise<void> {
         .map(async (node) => {
           const terminals = await terminalService.getTerminalsByNode(node.Name);
           for (const terminal of terminals) {
-            await this.setTerminalMountDevCache(terminal.DevMac);
+            await this.loadTerminalMountDevCache(terminal.DevMac);
           }
         })
     );
@@ -2015,8 +2944,11 @@ cleanup(): void {
     this.proMap.clear();
     this.CacheQueryInstruct.clear();
     this.queryCache.clear();
-    this.hundleMacs.clear();
+    this.queryScheduler.clear();
     this.busyDevices.clear();
+    this.alarmRuleEngine = undefined;
+    this.alarmNotificationService = undefined;
+    this.alarmEscalationService = undefined;
     this.removeAllListeners();
     logger.info('SocketIoService cleaned up');
   }
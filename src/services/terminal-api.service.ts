@@ -10,7 +10,7 @@ import type {
   TerminalDocument,
   MountDevice,
 } from '../entities/mongodb/terminal.entity';
-import { Phase3Collections } from '../entities/mongodb';
+import { Phase3Collections, buildUserBindDeviceQuery } from '../entities/mongodb';
 
 /**
  * 终端列表查询选项
@@ -266,6 +266,11 @@ export class TerminalApiService {
       }
     );
 
+    // 删除设备权限绑定记录
+    await this.collections.userBindDevices.deleteOne(
+      buildUserBindDeviceQuery({ userId: new ObjectId(userId), deviceMac: mac })
+    );
+
     return terminalResult.modifiedCount > 0 || userResult.modifiedCount > 0;
   }
 
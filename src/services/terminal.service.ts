@@ -154,6 +154,27 @@ export class TerminalService {
     return await entity.flush();
   }
 
+  /**
+   * 更新挂载设备查询计划（优先级 / 分时段查询计划）
+   * @param mac - 终端 MAC
+   * @param pid - 设备 PID
+   * @param schedule - 查询计划
+   * @returns 是否更新成功（挂载设备不存在时返回 false）
+   */
+  async updateMountDeviceSchedule(
+    mac: string,
+    pid: number,
+    schedule: Pick<MountDevice, 'priority' | 'pollSchedule'>
+  ): Promise<boolean> {
+    const entity = await terminalRepository.findByMac(mac);
+    if (!entity?.getMountDevice(pid)) {
+      return false;
+    }
+
+    entity.setMountDeviceSchedule(pid, schedule);
+    return await entity.flush();
+  }
+
   /**
    * 获取所有在线终端
    * @returns 在线终端列表
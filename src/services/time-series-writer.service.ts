@@ -0,0 +1,210 @@
+/**
+ * Time Series Writer Service
+ *
+ * 将查询结果按参数拆分为数值数据点，批量写入：
+ * - data.parsed: 参数历史数据 (时间序列集合，历史/聚合查询使用)
+ * - data.single: 参数最新值 (每个设备参数一条)
+ *
+ * 写入策略:
+ * - 数据点先进入内存缓冲区
+ * - 缓冲区达到 batchSize 或每隔 flushInterval 批量写入
+ * - 非数值数据点 (状态文本等) 不写入
+ */
+
+import type { AnyBulkWriteOperation, Db } from 'mongodb';
+import {
+  Phase3Collections,
+  createParsedDataDocument,
+  type ParsedDataDocument,
+  type SingleDataDocument,
+} from '../entities/mongodb';
+
+/**
+ * 写入器配置
+ */
+export interface TimeSeriesWriterOptions {
+  /** 批量写入大小 (数据点数) */
+  batchSize: number;
+  /** 定时写入间隔 (ms) */
+  flushInterval: number;
+}
+
+/**
+ * 待写入的查询结果
+ */
+export interface TimeSeriesResult {
+  mac: string;
+  pid: number;
+  protocol: string;
+  /** 查询结果数据项 */
+  result: Array<{ name: string; value?: string; parseValue?: string; unit?: string }>;
+  /** 数据时间戳 (ms) */
+  timeStamp: number;
+}
+
+/**
+ * 时间序列写入服务
+ */
+export class TimeSeriesWriterService {
+  private collections: Phase3Collections;
+  private options: TimeSeriesWriterOptions;
+
+  /** 待写入的历史数据点 */
+  private buffer: Array<Omit<ParsedDataDocument, '_id'>> = [];
+
+  /** 当前写入任务 (保证批次按顺序写入) */
+  private flushing: Promise<void> = Promise.resolve();
+
+  private flushTimer?: ReturnType<typeof setInterval>;
+
+  constructor(db: Db, options: TimeSeriesWriterOptions) {
+    this.collections = new Phase3Collections(db);
+    this.options = options;
+  }
+
+  /**
+   * 启动定时写入
+   */
+  start(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(() => {});
+    }, this.options.flushInterval);
+
+    console.log(
+      `[TimeSeriesWriter] Started (batchSize: ${this.options.batchSize}, interval: ${this.options.flushInterval}ms)`
+    );
+  }
+
+  /**
+   * 停止定时写入并写入剩余数据
+   */
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    await this.flush();
+    console.log('[TimeSeriesWriter] Stopped');
+  }
+
+  /**
+   * 缓冲区中待写入的数据点数
+   */
+  get pendingCount(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * 写入查询结果 (进入缓冲区)
+   *
+   * @returns 写入的数值数据点数
+   */
+  write(data: TimeSeriesResult): number {
+    const timestamp = new Date(data.timeStamp);
+    let count = 0;
+
+    for (const item of data.result) {
+      const value = toNumericValue(item.parseValue ?? item.value);
+      if (value === null) continue;
+
+      this.buffer.push(
+        createParsedDataDocument(data.mac, data.pid, data.protocol, item.name, value, item.unit || undefined, timestamp)
+      );
+      count++;
+    }
+
+    if (this.buffer.length >= this.options.batchSize) {
+      this.flush().catch(() => {});
+    }
+
+    return count;
+  }
+
+  /**
+   * 写入缓冲区中的全部数据点
+   */
+  flush(): Promise<void> {
+    this.flushing = this.flushing.then(async () => {
+      while (this.buffer.length > 0) {
+        const batch = this.buffer.splice(0, this.options.batchSize);
+        await this.writeBatch(batch);
+      }
+    });
+
+    return this.flushing;
+  }
+
+  /**
+   * 批量写入一批数据点
+   *
+   * 写入失败只记录日志并丢弃该批次，避免缓冲区在数据库故障时无限增长
+   */
+  private async writeBatch(batch: Array<Omit<ParsedDataDocument, '_id'>>): Promise<void> {
+    try {
+      await this.collections.parsedData.insertMany(batch as ParsedDataDocument[], { ordered: false });
+      await this.updateLatestValues(batch);
+    } catch (error) {
+      console.error(`[TimeSeriesWriter] Failed to write ${batch.length} data points:`, error);
+    }
+  }
+
+  /**
+   * 更新参数最新值 (同一参数只保留批次中时间最新的数据点)
+   */
+  private async updateLatestValues(batch: Array<Omit<ParsedDataDocument, '_id'>>): Promise<void> {
+    const latest = new Map<string, Omit<ParsedDataDocument, '_id'>>();
+    for (const point of batch) {
+      const key = `${point.mac}|${point.pid}|${point.name}`;
+      const current = latest.get(key);
+      if (!current || current.timestamp <= point.timestamp) {
+        latest.set(key, point);
+      }
+    }
+
+    const updatedAt = new Date();
+    const operations: AnyBulkWriteOperation<SingleDataDocument>[] = [...latest.values()].map((point) => ({
+      updateOne: {
+        // 只覆盖更旧的最新值，避免乱序到达的结果回退最新值
+        filter: { mac: point.mac, pid: point.pid, name: point.name, timestamp: { $lte: point.timestamp } },
+        update: {
+          $set: { value: point.value, unit: point.unit, timestamp: point.timestamp, updatedAt },
+        },
+        upsert: true,
+      },
+    }));
+
+    try {
+      await this.collections.singleData.bulkWrite(operations, { ordered: false });
+    } catch (error: any) {
+      // 已有更新的最新值时 upsert 会触发唯一索引冲突 (11000)，可忽略
+      if (!isDuplicateKeyOnly(error)) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * 转换为数值 (空值和非数值返回 null)
+ */
+function toNumericValue(raw: string | undefined): number | null {
+  const text = String(raw ?? '').trim();
+  if (text === '') return null;
+
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * 批量写入错误是否全部为唯一索引冲突
+ */
+function isDuplicateKeyOnly(error: any): boolean {
+  const writeErrors: Array<{ code?: number }> | undefined = error?.writeErrors;
+  if (Array.isArray(writeErrors) && writeErrors.length > 0) {
+    return writeErrors.every((writeError) => writeError.code === 11000);
+  }
+  return error?.code === 11000;
+}
@@ -0,0 +1,114 @@
+/**
+ * Webhook API Service
+ *
+ * Webhook 端点管理服务层 - 负责端点的增删改查和投递记录查询
+ * 投递本身由 AlarmNotificationService 经通知队列完成
+ */
+
+import type { Db, ObjectId } from 'mongodb';
+import {
+  Phase3Collections,
+  createWebhookEndpoint,
+  type NotificationLogDocument,
+  type WebhookEndpointDocument,
+} from '../entities/mongodb';
+
+/**
+ * 可更新的端点字段
+ */
+export type WebhookEndpointUpdate = Partial<
+  Pick<WebhookEndpointDocument, 'name' | 'url' | 'secret' | 'events' | 'macs' | 'levels' | 'enabled'>
+>;
+
+/**
+ * 隐藏签名密钥 (只保留末 4 位)
+ */
+export function maskWebhookSecret(endpoint: WebhookEndpointDocument): WebhookEndpointDocument {
+  return { ...endpoint, secret: `****${endpoint.secret.slice(-4)}` };
+}
+
+/**
+ * Webhook API Service
+ */
+export class WebhookApiService {
+  private collections: Phase3Collections;
+
+  constructor(db: Db) {
+    this.collections = new Phase3Collections(db);
+  }
+
+  /**
+   * 获取端点列表
+   * @param owner 所属用户 (不指定时返回全部端点)
+   * @returns 端点列表 (按创建时间倒序)
+   */
+  async listEndpoints(owner?: string): Promise<WebhookEndpointDocument[]> {
+    return await this.collections.webhookEndpoints
+      .find(owner !== undefined ? { owner } : {})
+      .sort({ createdAt: -1 })
+      .toArray();
+  }
+
+  /**
+   * 获取端点详情
+   * @param id 端点 ID
+   */
+  async getEndpoint(id: ObjectId): Promise<WebhookEndpointDocument | null> {
+    return await this.collections.webhookEndpoints.findOne({ _id: id });
+  }
+
+  /**
+   * 创建端点
+   * @param endpoint 端点信息
+   * @returns 创建的端点
+   */
+  async createEndpoint(
+    endpoint: Parameters<typeof createWebhookEndpoint>[0]
+  ): Promise<WebhookEndpointDocument> {
+    const document = createWebhookEndpoint(endpoint);
+    const result = await this.collections.webhookEndpoints.insertOne(document);
+    return { ...document, _id: result.insertedId };
+  }
+
+  /**
+   * 更新端点
+   * @param id 端点 ID
+   * @param update 更新内容
+   * @returns 更新后的端点 (不存在返回 null)
+   */
+  async updateEndpoint(
+    id: ObjectId,
+    update: WebhookEndpointUpdate
+  ): Promise<WebhookEndpointDocument | null> {
+    const result = await this.collections.webhookEndpoints.updateOne(
+      { _id: id },
+      { $set: { ...update, updatedAt: new Date() } }
+    );
+
+    return result.matchedCount > 0 ? await this.getEndpoint(id) : null;
+  }
+
+  /**
+   * 删除端点
+   * @param id 端点 ID
+   * @returns 是否删除
+   */
+  async deleteEndpoint(id: ObjectId): Promise<boolean> {
+    const result = await this.collections.webhookEndpoints.deleteOne({ _id: id });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * 获取端点的投递记录
+   * @param id 端点 ID
+   * @param limit 数量限制
+   * @returns 投递日志 (按时间倒序，每次尝试一条)
+   */
+  async getDeliveries(id: ObjectId, limit: number = 20): Promise<NotificationLogDocument[]> {
+    return await this.collections.notificationLogs
+      .find({ type: 'webhook', 'params.endpointId': id.toHexString() })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray();
+  }
+}
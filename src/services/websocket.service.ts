@@ -23,7 +23,8 @@ import type {
 import { getRoomName, parseRoomName } from '../types/websocket-events';
 import type { JwtPayload } from '../types/jwt';
 import { extractUserId, extractUsername } from '../types/jwt';
-import { mongodb } from '../database/mongodb';
+import { DevicePermissionLevel } from '../entities/mongodb/user-bind-device.entity';
+import { devicePermissionService } from './device-permission.service';
 import { logger } from '../utils/logger';
 import { config } from '../config';
 import { webSocketMetrics } from './metrics/websocket-metrics';
@@ -233,22 +234,19 @@ export class WebSocketService {
         return false;
       }
 
-      // 检查用户是否绑定了该设备
-      // 注意：这里假设存在 user.terminalBindings 集合，结构为 { userId, mac }
-      // 如果你的数据模型不同，请相应调整查询逻辑
-      const binding = await mongodb
-        .getCollection('user.terminalBindings')
-        .findOne({ userId, mac });
+      // 订阅实时数据需要设备 READ 权限（管理员可访问所有设备，部分挂载设备授权按 PID 检查）
+      const allowed = await devicePermissionService.authorizeUserId(
+        userId,
+        mac,
+        DevicePermissionLevel.READ,
+        pid
+      );
 
-      if (binding) {
+      if (allowed) {
         logger.debug(`User ${userId} has permission for device ${mac}/${pid}`);
         return true;
       }
 
-      // TODO: 可以添加额外的权限检查逻辑
-      // 例如：管理员用户可以访问所有设备
-      // 例如：检查用户所属组织是否拥有该设备
-
       logger.debug(`User ${userId} does not have permission for device ${mac}/${pid}`);
       return false;
     } catch (error) {
@@ -7,6 +7,8 @@
 export type {
   Terminal,
   MountDevice,
+  QueryPriority,
+  PollScheduleWindow,
   IccidInfo,
   RegisterTerminal,
   RegisterDevice,
@@ -19,6 +21,9 @@ export type {
 export type {
   NodeClient,
   NodeRunInfo,
+  NodeRunInfoHistory,
+  NodeLog,
+  NodeLogType,
   NodeClientUpdate,
   NodeClientFilter,
 } from './node.entity';
@@ -21,6 +21,8 @@ export interface NodeClient {
   MaxConnections: number;
   /** 当前连接数（可选，用于更新） */
   Connections?: number;
+  /** 排空中 (维护前手动排空，不再作为终端迁移目标) */
+  Draining?: boolean;
 }
 
 /**
@@ -51,6 +53,59 @@ export interface NodeRunInfo {
   SocketMaps: WebSocketTerminal[];
 }
 
+/**
+ * 节点运行信息历史（存储在 log.noderuninfos 集合）
+ * 每次 UpdateNodeInfo 记录一条快照，用于查看连接数和负载趋势
+ */
+export interface NodeRunInfoHistory {
+  /** MongoDB _id */
+  _id?: any;
+  /** 节点名称 */
+  NodeName: string;
+  /** 连接数 */
+  Connections: number;
+  /** 负载平均值 */
+  loadavg: number[];
+  /** 总内存 */
+  totalmem: string;
+  /** 空闲内存 */
+  freemem: string;
+  /** 运行时间 */
+  uptime: string;
+  /** 更新时间 */
+  updateTime: Date;
+}
+
+/**
+ * 节点日志类型
+ */
+export type NodeLogType = '连接' | '断开' | 'TcpServer启动失败' | '排空' | '故障转移';
+
+/**
+ * 节点日志（存储在 log.nodes 集合）
+ * 兼容老系统 logNodeService 的记录格式
+ */
+export interface NodeLog {
+  /** MongoDB _id */
+  _id?: any;
+  /** 日志类型 */
+  type: NodeLogType;
+  /** 节点 Socket ID */
+  ID: string;
+  /** 节点 IP 地址 */
+  IP: string;
+  /** 节点名称 */
+  Name: string;
+  /** 断开原因 */
+  reason?: string;
+  /** 错误信息 */
+  error?: string;
+  /** 迁移的终端数 (排空 / 故障转移) */
+  relocated?: number;
+  /** 记录时间 */
+  timeStamp: Date;
+}
+
 /**
  * Node 客户端部分更新类型
  */
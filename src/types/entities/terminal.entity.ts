@@ -25,6 +25,31 @@ export interface MountDevice {
   lastRecord?: Date;
   /** 最小查询时间间隔（毫秒） */
   minQueryLimit: number;
+  /** 查询优先级 (默认 normal) */
+  priority?: QueryPriority;
+  /** 分时段查询计划 (如夜间降低查询频率) */
+  pollSchedule?: PollScheduleWindow[];
+}
+
+/**
+ * 查询优先级
+ * - high: 同一 DTU 内优先占用串口，超时退避上限低
+ * - normal: 默认
+ * - low: 串口空闲时才查询，超时退避上限高
+ */
+export type QueryPriority = 'high' | 'normal' | 'low';
+
+/**
+ * 分时段查询计划
+ * 时间为服务器本地时间 (HH:mm)，end 小于 start 时表示跨零点
+ */
+export interface PollScheduleWindow {
+  /** 开始时间 (HH:mm，含) */
+  start: string;
+  /** 结束时间 (HH:mm，不含) */
+  end: string;
+  /** 查询间隔倍数 (>1 降低频率，<1 提高频率) */
+  intervalFactor: number;
 }
 
 /**
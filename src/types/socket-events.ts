@@ -5,6 +5,15 @@
 
 import type { NodeClient, NodeRunInfo } from './entities/node.entity';
 import type { TerminalClientResult } from './entities/result.entity';
+import type { InstructQueryResult } from '../services/data-parsing.types';
+
+/**
+ * Node 数据解析模式
+ *
+ * - client: Node 解析后上报 (QueryResultRequest.data)，老版本 Node 的默认模式
+ * - server: Node 上报原始帧 (QueryResultRequest.raw)，由服务端按协议集中解析
+ */
+export type NodeParseMode = 'client' | 'server';
 
 // ============================================================
 // Node 客户端事件 (Client → Server)
@@ -18,6 +27,7 @@ export interface RegisterNodeRequest {
   IP: string; // Node IP 地址
   Port: number; // Node 端口
   MaxConnections: number; // 最大连接数
+  parseMode?: NodeParseMode; // 期望的数据解析模式 (默认 client)
 }
 
 /**
@@ -47,11 +57,22 @@ export interface QueryResultRequest {
   pid: number; // 设备 PID
   protocol: string; // 协议名称
   success: boolean; // 查询是否成功
-  data?: TerminalClientResult; // 查询结果数据
+  data?: TerminalClientResult; // 查询结果数据 (client 解析模式)
+  raw?: RawQueryResult; // 原始查询数据 (server 解析模式)
   error?: string; // 错误信息
   useTime?: number; // 查询耗时 (ms)
 }
 
+/**
+ * 原始查询数据 (server 解析模式)
+ */
+export interface RawQueryResult {
+  contents: InstructQueryResult[]; // 各指令的原始响应
+  timeStamp: number; // 时间戳
+  useTime: number; // 查询耗时 (ms)
+  parentId?: string; // 父记录 ID
+}
+
 /**
  * DTU 操作结果
  */
@@ -64,6 +85,16 @@ export interface OprateDtuResultRequest {
   data?: any; // 返回数据
 }
 
+/**
+ * 终端迁移结果 (Node 通知 DTU 改连目标节点后返回)
+ */
+export interface RelocateTerminalResultRequest {
+  eventName: string; // 事件名称 (用于匹配请求)
+  mac: string; // 终端 MAC
+  success: boolean; // DTU 是否已接受新的连接地址
+  message?: string; // 结果消息
+}
+
 /**
  * 心跳响应
  */
@@ -82,6 +113,7 @@ export interface RegisterNodeResponse {
   success: boolean;
   message?: string;
   node?: NodeClient;
+  parseMode?: NodeParseMode; // 服务端确认的数据解析模式
 }
 
 /**
@@ -107,6 +139,21 @@ export interface OprateDtuRequest {
   content?: any; // 操作参数
 }
 
+/**
+ * 终端迁移请求
+ * Node 收到后通知 DTU 断开当前连接并改连目标节点
+ */
+export interface RelocateTerminalRequest {
+  eventName: string; // 事件名称 (用于匹配响应)
+  mac: string; // 终端 MAC
+  target: {
+    Name: string; // 目标节点名称
+    IP: string; // 目标节点 IP
+    Port: number; // 目标节点 TCP 端口
+  };
+  reason: 'drain' | 'failover'; // 迁移原因
+}
+
 /**
  * DTU 操作类型
  */
@@ -116,7 +163,8 @@ export type DtuOperationType =
   | 'updateMount' // 更新挂载设备配置
   | 'OprateInstruct' // 透传自定义指令
   | 'setTerminal' // 设置终端参数
-  | 'getTerminal'; // 获取终端信息
+  | 'getTerminal' // 获取终端信息
+  | 'writeParameter'; // 写入设备参数 (服务端生成 Modbus 写指令)
 
 /**
  * 心跳请求
@@ -209,6 +257,8 @@ export interface NodeClientToServerEvents {
 
   OprateDTUResult: (data: OprateDtuResultRequest) => void;
 
+  RelocateTerminalResult: (data: RelocateTerminalResultRequest) => void;
+
   heartbeat: (
     data: HeartbeatRequest,
     callback: (response: HeartbeatResponse) => void
@@ -241,6 +291,8 @@ export interface ServerToNodeClientEvents {
 
   OprateDTU: (data: OprateDtuRequest) => void;
 
+  RelocateTerminal: (data: RelocateTerminalRequest) => void;
+
   heartbeat: (data: HeartbeatRequest) => void;
 
   disconnect: (reason: string) => void;
@@ -251,6 +303,36 @@ export interface ServerToNodeClientEvents {
  */
 export interface InterServerEvents {
   ping: () => void;
+
+  // 多实例部署时的实例间事件 (经 Redis Adapter 转发)
+  // Node 响应转发到发起请求的实例
+  nodeResponse: (
+    eventName: string,
+    data: QueryResultRequest | OprateDtuResultRequest | RelocateTerminalResultRequest
+  ) => void;
+  immediateQueryResult: (eventName: string, result: unknown) => void; // 即时查询解析结果
+  busyStatus: (mac: string, busy: boolean) => void; // 设备忙碌状态
+  queryCacheSync: (sync: QueryCacheSync) => void; // 查询缓存变更 (由调度 Leader 应用)
+  queryOutcome: (outcome: QueryOutcome) => void; // 调度查询结果 / 超时 (由调度 Leader 应用)
+}
+
+/**
+ * 查询缓存变更
+ */
+export type QueryCacheSync =
+  | { op: 'set'; mac: string; interval?: number }
+  | { op: 'del'; mac: string; pid: number }
+  | { op: 'delNode'; nodeName: string };
+
+/**
+ * 调度查询结果 (用于超时退避和串口公平分配)
+ */
+export interface QueryOutcome {
+  mac: string;
+  pid: number;
+  success: boolean;
+  useTime?: number; // Node 实测查询耗时 (ms)
+  timeOut?: number; // Node 上报的连续超时次数
 }
 
 /**
@@ -259,6 +341,7 @@ export interface InterServerEvents {
 export interface SocketData {
   nodeName?: string; // Node 名称
   nodeIP?: string; // Node IP
+  parseMode?: NodeParseMode; // 数据解析模式
   authenticated: boolean; // 是否已认证
   connectedAt: Date; // 连接时间
   lastHeartbeat: Date; // 最后心跳时间
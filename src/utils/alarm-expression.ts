@@ -0,0 +1,192 @@
+import { parse, type EvalFunction, type MathNode } from 'mathjs';
+
+/**
+ * 自定义告警规则表达式
+ *
+ * 基于 mathjs 解析和求值 (与 coefficient-transforms 相同的沙箱),
+ * 并在编译前对语法树做白名单检查:
+ * - 只允许常量、变量、运算符、括号、条件表达式和白名单函数
+ * - 禁止赋值、函数定义、多语句、属性/下标访问、对象字面量
+ *
+ * 变量即设备数据点名称:
+ * - 普通名称直接引用: `Ia > 50 and (Ua < 200 or Ub < 200)`
+ * - 含中文或特殊字符的名称用 value(): `value("回风温度") > 30`
+ * - 状态文本比较用 equalText(): `equalText(value("运行状态"), "停机")`
+ */
+
+/**
+ * 允许在表达式中调用的函数
+ */
+const ALLOWED_FUNCTIONS = new Set([
+  'value',
+  'abs',
+  'min',
+  'max',
+  'round',
+  'floor',
+  'ceil',
+  'sqrt',
+  'pow',
+  'mod',
+  'equalText',
+  'bitAnd',
+  'bitOr',
+  'rightArithShift',
+]);
+
+/**
+ * 允许出现的语法树节点类型
+ */
+const ALLOWED_NODE_TYPES = new Set([
+  'ConstantNode',
+  'SymbolNode',
+  'OperatorNode',
+  'ParenthesisNode',
+  'ConditionalNode',
+  'FunctionNode',
+]);
+
+/**
+ * 表达式中的保留变量 (非数据点)
+ */
+const RESERVED_SYMBOLS = new Set(['true', 'false', 'pi', 'e']);
+
+/**
+ * 编译后的告警表达式
+ */
+export interface CompiledAlarmExpression {
+  /** 原始表达式 */
+  source: string;
+  /** 直接引用的数据点名称 */
+  symbols: string[];
+  /** 通过 value("...") 引用的数据点名称 */
+  quotedSymbols: string[];
+  /** mathjs 编译结果 */
+  compiled: EvalFunction;
+}
+
+/**
+ * 表达式校验结果
+ */
+export interface AlarmExpressionValidation {
+  /** 是否有效 */
+  valid: boolean;
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 告警表达式错误
+ */
+export class AlarmExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlarmExpressionError';
+  }
+}
+
+/**
+ * 编译告警表达式
+ *
+ * @param source - 表达式源码
+ * @returns 编译后的表达式
+ * @throws AlarmExpressionError 语法错误或包含不允许的语法
+ */
+export function compileAlarmExpression(source: string): CompiledAlarmExpression {
+  if (!source || source.trim() === '') {
+    throw new AlarmExpressionError('表达式不能为空');
+  }
+
+  let root: MathNode;
+  try {
+    root = parse(source);
+  } catch (error) {
+    throw new AlarmExpressionError(
+      `语法错误: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const symbols = new Set<string>();
+  const quotedSymbols = new Set<string>();
+
+  root.traverse((node: any, path: string) => {
+    if (!ALLOWED_NODE_TYPES.has(node.type)) {
+      throw new AlarmExpressionError(`不支持的语法: ${node.type} (${node.toString()})`);
+    }
+
+    if (node.type === 'FunctionNode') {
+      const fnName: string = node.fn?.name ?? '';
+      if (!ALLOWED_FUNCTIONS.has(fnName)) {
+        throw new AlarmExpressionError(`不允许调用函数: ${node.fn?.toString() ?? 'unknown'}`);
+      }
+
+      if (fnName === 'value') {
+        const arg = node.args[0];
+        if (node.args.length !== 1 || arg?.type !== 'ConstantNode' || typeof arg.value !== 'string') {
+          throw new AlarmExpressionError('value() 只接受一个字符串常量参数，如 value("回风温度")');
+        }
+        quotedSymbols.add(arg.value);
+      }
+      return;
+    }
+
+    // 函数名本身也是 SymbolNode，不计入数据点
+    if (node.type === 'SymbolNode' && path !== 'fn' && !RESERVED_SYMBOLS.has(node.name)) {
+      symbols.add(node.name);
+    }
+  });
+
+  return {
+    source,
+    symbols: Array.from(symbols),
+    quotedSymbols: Array.from(quotedSymbols),
+    compiled: root.compile(),
+  };
+}
+
+/**
+ * 校验告警表达式 (用于规则创建/更新)
+ *
+ * @param source - 表达式源码
+ */
+export function validateAlarmExpression(source: string): AlarmExpressionValidation {
+  try {
+    compileAlarmExpression(source);
+    return { valid: true };
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * 求值告警表达式
+ *
+ * @param expression - 编译后的表达式
+ * @param values - 数据点名称到值的映射
+ * @returns 是否满足告警条件；引用的数据点缺失时返回 null (不评估)
+ */
+export function evaluateAlarmExpression(
+  expression: CompiledAlarmExpression,
+  values: Map<string, number | string>
+): boolean | null {
+  const referenced = [...expression.symbols, ...expression.quotedSymbols];
+  if (referenced.some((name) => !values.has(name))) {
+    return null;
+  }
+
+  const scope: Record<string, unknown> = {};
+  for (const name of expression.symbols) {
+    scope[name] = values.get(name);
+  }
+  scope.value = (name: string) => values.get(name);
+
+  const result = expression.compiled.evaluate(scope);
+
+  if (typeof result === 'boolean') return result;
+  if (typeof result === 'number') return result !== 0;
+
+  throw new AlarmExpressionError(`表达式结果必须是布尔值或数值，实际为: ${String(result)}`);
+}
@@ -17,8 +17,11 @@ export function setupAuthMiddleware(app: FastifyInstance) {
     '/api/terminals', // Phase 4.2 Day 1: Terminal API (all endpoints require authentication)
     '/api/data', // Phase 4.2 Day 2: Data API (all endpoints require authentication)
     '/api/alarms', // Phase 4.2 Day 3: Alarm API (all endpoints require authentication)
+    '/api/webhooks', // Webhook 通知端点 (用户管理自己的端点)
     '/api/protocols', // Phase 4.2 Day 3: Protocol API (all endpoints require authentication)
     '/api/config', // Phase 4.2 Day 4: Config API (all endpoints require authentication)
+    '/api/dtu', // DTU 远程操作 (设备权限由路由级中间件校验)
+    '/api/devices', // 设备即时查询 (设备权限由路由级中间件校验)
   ];
 
   // 需要管理员权限的路由模式
@@ -26,9 +29,17 @@ export function setupAuthMiddleware(app: FastifyInstance) {
     '/api/users',
     '/api/users/',
     '/api/users/stats',
+    '/api/alarm-rules', // 告警规则 (全局生效，对全部设备的实时数据产生告警和通知)
+    '/api/alarm-escalations', // 告警升级策略 (作用于全部告警，通知任意联系人)
+    '/api/admin/queues', // 队列管理 / 死信任务
+    '/api/admin/scheduler', // 查询调度状态
+    '/api/admin/notification-templates', // 通知模板 / 预览
+    '/api/admin/notifications', // 通知统计 / 短信预算
+    '/api/nodes', // 节点运行状态 / 日志
   ];
 
   // 需要设备权限的路由模式
+  // 具体权限级别由 Controller 方法的 @RequireDevicePermission 声明，这里只保证已认证
   const deviceRoutes = [
     '/api/terminals/:mac/control',
     '/api/data/',
@@ -50,7 +61,6 @@ export function setupAuthMiddleware(app: FastifyInstance) {
 
     // 检查是否需要设备权限
     if (deviceRoutes.some(route => url?.startsWith(route))) {
-      // 这里可以添加设备权限检查
       return requireAuth(request, reply);
     }
   });
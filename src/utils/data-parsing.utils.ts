@@ -6,6 +6,37 @@
 
 import { crc16modbus } from 'crc';
 import { parseCoefficient as parseCoefficientImpl } from './coefficient-transforms';
+import type {
+  ParsedData,
+  ProtocolInstruct,
+  RegisterByteOrder,
+  RegisterDataType,
+} from '../services/data-parsing.types';
+import type { ProtocolInstruct as StoredProtocolInstruct } from '../services/protocol.service';
+
+/**
+ * 将协议文档 (device.protocols) 中的指令转换为解析指令配置
+ *
+ * 协议文档中 pop 可能为数字，统一转为布尔值
+ *
+ * @param instruct 协议文档中的指令
+ */
+export function toProtocolInstruct(instruct: StoredProtocolInstruct): ProtocolInstruct {
+  return {
+    name: instruct.name,
+    noStandard: instruct.noStandard,
+    scriptEnd: instruct.scriptEnd,
+    resultType: instruct.resultType as ProtocolInstruct['resultType'],
+    byteOrder: instruct.byteOrder,
+    shift: instruct.shift,
+    shiftNum: instruct.shiftNum,
+    pop: Boolean(instruct.pop),
+    popNum: instruct.popNum,
+    isSplit: instruct.isSplit,
+    splitStr: instruct.splitStr,
+    formResize: instruct.formResize ?? [],
+  };
+}
 
 /**
  * 生成 Modbus CRC16 校验码
@@ -35,6 +66,133 @@ export function crc16Modbus(address: number, instruct: string): string {
   return body + c + d + a + b;
 }
 
+/**
+ * 解析数据点位置 (FormResize.regx)
+ *
+ * 重要：老系统使用 1-based 索引（人类友好），需转换为 0-based（数组索引）
+ *
+ * @param regx 格式: "1" | "1-2" | "1-4-2"
+ * @returns { start, end, step }
+ *
+ * @example
+ * "1"     → { start: 0, end: 1, step: 1 }    // 第1个字节
+ * "1-2"   → { start: 0, end: 2, step: 2 }    // 第1个字节开始，读2字节
+ * "3-2"   → { start: 2, end: 4, step: 2 }    // 第3个字节开始，读2字节
+ * "1-4-2" → { start: 0, end: 4, step: 2 }    // 第1个字节开始，到第4个，步长2
+ */
+export function parseRegx(regx: string): { start: number; end: number; step: number } {
+  const parts = regx.split('-').map((p) => parseInt(p, 10));
+
+  if (parts.length === 1) {
+    // 单索引: "1" → start=0, end=1, step=1
+    const start = parts[0]! - 1; // 1-based → 0-based
+    return { start, end: start + 1, step: 1 };
+  } else if (parts.length === 2) {
+    // 双参数: "1-2" → start=0, end=2, step=2
+    const start = parts[0]! - 1; // 1-based → 0-based
+    const len = parts[1]!;
+    return { start, end: start + len, step: len };
+  } else if (parts.length === 3) {
+    // 三参数: "1-4-2" → start=0, end=4, step=2 (自定义step)
+    const start = parts[0]! - 1; // 1-based → 0-based
+    const end = parts[1]!;
+    const step = parts[2]!;
+    return { start, end, step };
+  }
+
+  return { start: 0, end: 0, step: 0 };
+}
+
+/**
+ * 定宽数据类型的字节数
+ */
+export const REGISTER_DATA_WIDTH: Record<RegisterDataType, number> = {
+  int16: 2,
+  uint16: 2,
+  int32: 4,
+  uint32: 4,
+  float: 4,
+  double: 8,
+};
+
+/**
+ * 按字节序将寄存器数据重排为大端序 (ABCD)
+ *
+ * 以 16 位字为单位: CDAB/DCBA 反转字顺序，BADC/DCBA 交换字内字节。
+ * 长度为奇数时末尾不成字的字节原样保留在末尾
+ *
+ * @param buffer 原始数据 (长度应为偶数)
+ * @param byteOrder 设备字节序
+ * @returns 大端序 Buffer (新对象，不修改原数据)
+ *
+ * @example
+ * ```typescript
+ * toBigEndian(Buffer.from([0x00, 0x00, 0x42, 0x48]), 'CDAB');
+ * // Buffer<42 48 00 00>
+ * ```
+ */
+export function toBigEndian(buffer: Buffer, byteOrder: RegisterByteOrder = 'ABCD'): Buffer {
+  if (byteOrder === 'ABCD' || buffer.length < 2) {
+    return Buffer.from(buffer);
+  }
+
+  const words: number[][] = [];
+  for (let i = 0; i + 1 < buffer.length; i += 2) {
+    words.push([buffer[i]!, buffer[i + 1]!]);
+  }
+
+  if (byteOrder === 'CDAB' || byteOrder === 'DCBA') {
+    words.reverse();
+  }
+  if (byteOrder === 'BADC' || byteOrder === 'DCBA') {
+    words.forEach((word) => word.reverse());
+  }
+
+  if (buffer.length % 2 === 1) {
+    words.push([buffer[buffer.length - 1]!]);
+  }
+
+  return Buffer.from(words.flat());
+}
+
+/**
+ * 读取定宽寄存器数值
+ *
+ * @param buffer 数据 Buffer
+ * @param offset 起始字节 (0-based)
+ * @param dataType 数据类型
+ * @param byteOrder 字节序 (默认 ABCD)
+ * @returns 数值，数据长度不足时返回 undefined
+ */
+export function readRegisterValue(
+  buffer: Buffer,
+  offset: number,
+  dataType: RegisterDataType,
+  byteOrder: RegisterByteOrder = 'ABCD'
+): number | undefined {
+  const width = REGISTER_DATA_WIDTH[dataType];
+  if (offset < 0 || buffer.length < offset + width) {
+    return undefined;
+  }
+
+  const data = toBigEndian(buffer.subarray(offset, offset + width), byteOrder);
+
+  switch (dataType) {
+    case 'int16':
+      return data.readInt16BE(0);
+    case 'uint16':
+      return data.readUInt16BE(0);
+    case 'int32':
+      return data.readInt32BE(0);
+    case 'uint32':
+      return data.readUInt32BE(0);
+    case 'float':
+      return hexToSingle(data);
+    case 'double':
+      return data.readDoubleBE(0);
+  }
+}
+
 /**
  * 十六进制 Buffer 转 IEEE 754 单精度浮点数
  *
@@ -262,3 +420,78 @@ export function value2BytesInt16(value: number = 0): number[] {
   buffer.writeInt16BE(value, 0);
   return Array.from(buffer);
 }
+
+/**
+ * 查询结果数据项转换为告警评估数据
+ *
+ * 优先使用 parseValue (已应用系数/状态映射)，可转换为数值的值转为 number，
+ * 空值标记为无效数据点，不参与规则评估
+ *
+ * @param mac 终端 MAC 地址
+ * @param pid 设备 PID
+ * @param protocol 协议名称
+ * @param items 查询结果数据项
+ * @param timestamp 数据时间戳
+ * @returns 告警规则引擎输入数据
+ *
+ * @example
+ * ```typescript
+ * toParsedData('AA:BB', 1, 'modbus', [{ name: 'Ia', value: '512', parseValue: '51.2' }], Date.now());
+ * // dataPoints: [{ name: 'Ia', value: 51.2, isValid: true }]
+ * ```
+ */
+export function toParsedData(
+  mac: string,
+  pid: number,
+  protocol: string,
+  items: Array<{ name: string; value?: string; parseValue?: string; unit?: string }>,
+  timestamp: number = Date.now()
+): ParsedData {
+  return {
+    mac,
+    pid,
+    protocol,
+    timestamp,
+    dataPoints: items.map((item) => {
+      const raw = String(item.parseValue ?? item.value ?? '').trim();
+      const numeric = Number(raw);
+
+      return {
+        name: item.name,
+        value: raw !== '' && Number.isFinite(numeric) ? numeric : raw,
+        unit: item.unit,
+        isValid: raw !== '',
+      };
+    }),
+  };
+}
+
+/**
+ * 解析老系统状态单位为状态映射表
+ *
+ * 老协议 isState 数据点的 unit 字段直接描述状态值含义，格式: `{值:描述|值:描述}`
+ *
+ * @param unit 单位字符串
+ * @returns 状态映射表，非状态单位格式时返回 null
+ *
+ * @example
+ * ```typescript
+ * parseStateUnit('{0:关机|1:开机}');
+ * // Map { '0' => '关机', '1' => '开机' }
+ * ```
+ */
+export function parseStateUnit(unit: string): Map<string, string> | null {
+  const match = /^\{(.*)\}$/.exec(unit.trim());
+  if (!match) {
+    return null;
+  }
+
+  const stateMap = new Map<string, string>();
+  for (const pair of match[1]!.split('|')) {
+    const index = pair.indexOf(':');
+    if (index <= 0) continue;
+    stateMap.set(pair.slice(0, index).trim(), pair.slice(index + 1).trim());
+  }
+
+  return stateMap.size > 0 ? stateMap : null;
+}
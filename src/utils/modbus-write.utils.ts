@@ -0,0 +1,342 @@
+/**
+ * Modbus 写操作工具函数
+ *
+ * 根据协议的读指令和数据点定义推导可写寄存器，生成写指令并校验响应：
+ * - 线圈 (读功能码 01) → 05 写单个线圈
+ * - 保持寄存器 (读功能码 03) → 06 写单个寄存器 / 10 写多个寄存器
+ * - 输入寄存器 (04) 和离散输入 (02) 只读
+ *
+ * 指令内容均不含 PID 和 CRC (由 crc16Modbus 补全，与查询指令一致)
+ */
+
+import {
+  REGISTER_DATA_WIDTH,
+  crc16Modbus,
+  parseRegx,
+  readRegisterValue,
+  toBigEndian,
+} from './data-parsing.utils';
+import type {
+  FormResize,
+  ProtocolInstruct,
+  RegisterByteOrder,
+  RegisterDataType,
+} from '../services/data-parsing.types';
+
+/**
+ * 可写寄存器定义
+ */
+export interface WritableRegister {
+  /** 数据点名称 */
+  parameter: string;
+  /** 所属读指令 */
+  instructName: string;
+  /** 寄存器类型 */
+  kind: 'coil' | 'holding';
+  /** 设备地址 (ID) 之外的寄存器/线圈地址 */
+  address: number;
+  /** 数据类型 (线圈固定为 uint16) */
+  dataType: RegisterDataType;
+  /** 字节序 */
+  byteOrder: RegisterByteOrder;
+  /** 读取系数 (写入时反算) */
+  bl: string;
+}
+
+/**
+ * 写指令
+ */
+export interface ModbusWriteInstruct {
+  /** 功能码 */
+  functionCode: 0x05 | 0x06 | 0x10;
+  /** 指令内容 (十六进制，不含 PID 和 CRC) */
+  content: string;
+  /** 写入的原始值 (反算系数后) */
+  rawValue: number;
+}
+
+/**
+ * 写操作错误 (参数/协议不支持写入等可预期错误)
+ */
+export class ModbusWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModbusWriteError';
+  }
+}
+
+const hex = (value: number, bytes: number) => value.toString(16).padStart(bytes * 2, '0');
+
+/**
+ * 从协议指令中解析可写寄存器
+ *
+ * 读指令格式: 功能码(1字节) + 起始地址(2字节) + 数量(2字节)，如 "0300000002"
+ * 数据点地址 = 起始地址 + 数据点在响应中的偏移
+ *
+ * @param instructs 协议指令
+ * @param parameter 数据点名称
+ * @throws ModbusWriteError 数据点不存在或不可写
+ */
+export function resolveWritableRegister(
+  instructs: ProtocolInstruct[],
+  parameter: string
+): WritableRegister {
+  for (const instruct of instructs) {
+    const field = instruct.formResize?.find((item) => item.name === parameter);
+    if (!field) continue;
+
+    if (instruct.noStandard) {
+      throw new ModbusWriteError(`非标协议参数不支持写入: ${parameter}`);
+    }
+
+    const match = /^(0[1-4])([0-9a-f]{4})[0-9a-f]{4}$/i.exec(instruct.name);
+    if (!match) {
+      throw new ModbusWriteError(`无法识别参数所在的读指令: ${instruct.name}`);
+    }
+
+    const functionCode = parseInt(match[1]!, 16);
+    const startAddress = parseInt(match[2]!, 16);
+    const { start, step } = parseRegx(field.regx ?? '');
+
+    if (functionCode === 0x01 && instruct.resultType === 'bit2') {
+      return {
+        parameter,
+        instructName: instruct.name,
+        kind: 'coil',
+        address: startAddress + start,
+        dataType: 'uint16',
+        byteOrder: 'ABCD',
+        bl: '1',
+      };
+    }
+
+    if (functionCode !== 0x03) {
+      throw new ModbusWriteError(`参数只读 (功能码 ${match[1]}): ${parameter}`);
+    }
+
+    if (start < 0 || start % 2 !== 0) {
+      throw new ModbusWriteError(`参数未按寄存器对齐: ${parameter}`);
+    }
+
+    return {
+      parameter,
+      instructName: instruct.name,
+      kind: 'holding',
+      address: startAddress + start / 2,
+      dataType: resolveDataType(instruct, field, step),
+      byteOrder: field.byteOrder ?? instruct.byteOrder ?? 'ABCD',
+      bl: field.bl || '1',
+    };
+  }
+
+  throw new ModbusWriteError(`参数不存在: ${parameter}`);
+}
+
+/**
+ * 推导保持寄存器数据点的数据类型
+ *
+ * hex/short 为有符号整数，宽度由 regx 决定 (2 字节 int16, 4 字节 int32)
+ */
+function resolveDataType(
+  instruct: ProtocolInstruct,
+  field: FormResize,
+  step: number
+): RegisterDataType {
+  const valueType = field.dataType ?? instruct.resultType;
+
+  switch (valueType) {
+    case 'hex':
+    case 'short':
+      if (step === 2) return 'int16';
+      if (step === 4) return 'int32';
+      throw new ModbusWriteError(`不支持写入 ${step} 字节整数: ${field.name}`);
+    case 'bit2':
+    case 'utf8':
+      throw new ModbusWriteError(`不支持写入 ${valueType} 类型参数: ${field.name}`);
+    default:
+      return valueType;
+  }
+}
+
+/**
+ * 反算读取系数: 显示值 → 寄存器原始值
+ *
+ * 仅支持数值系数 (如 "0.1")，表达式系数无法反算
+ */
+export function toRawValue(value: number, bl: string): number {
+  const coefficient = Number(bl || '1');
+  if (!Number.isFinite(coefficient) || coefficient === 0) {
+    throw new ModbusWriteError(`系数不支持反算: ${bl}`);
+  }
+  return value / coefficient;
+}
+
+/**
+ * 应用读取系数: 寄存器原始值 → 显示值
+ */
+export function fromRawValue(raw: number, bl: string): number {
+  const coefficient = Number(bl || '1');
+  return Number.isFinite(coefficient) ? raw * coefficient : raw;
+}
+
+/**
+ * 编码寄存器值 (设备字节序)
+ */
+function encodeRegisterValue(
+  raw: number,
+  dataType: RegisterDataType,
+  byteOrder: RegisterByteOrder
+): Buffer {
+  const buffer = Buffer.alloc(REGISTER_DATA_WIDTH[dataType]);
+
+  try {
+    switch (dataType) {
+      case 'int16':
+        buffer.writeInt16BE(Math.round(raw));
+        break;
+      case 'uint16':
+        buffer.writeUInt16BE(Math.round(raw));
+        break;
+      case 'int32':
+        buffer.writeInt32BE(Math.round(raw));
+        break;
+      case 'uint32':
+        buffer.writeUInt32BE(Math.round(raw));
+        break;
+      case 'float':
+        buffer.writeFloatBE(raw);
+        break;
+      case 'double':
+        buffer.writeDoubleBE(raw);
+        break;
+    }
+  } catch {
+    throw new ModbusWriteError(`写入值超出 ${dataType} 范围: ${raw}`);
+  }
+
+  // 字节序重排是对合变换: 大端 → 设备字节序与设备字节序 → 大端相同
+  return toBigEndian(buffer, byteOrder);
+}
+
+/**
+ * 生成写指令
+ *
+ * @param register 可写寄存器
+ * @param value 显示值 (线圈: 非 0 为 ON)
+ */
+export function buildWriteInstruct(register: WritableRegister, value: number): ModbusWriteInstruct {
+  const address = hex(register.address, 2);
+
+  if (register.kind === 'coil') {
+    const rawValue = value ? 1 : 0;
+    return {
+      functionCode: 0x05,
+      content: `05${address}${rawValue ? 'ff00' : '0000'}`,
+      rawValue,
+    };
+  }
+
+  const rawValue = toRawValue(value, register.bl);
+  const data = encodeRegisterValue(rawValue, register.dataType, register.byteOrder);
+
+  if (data.length === 2) {
+    return {
+      functionCode: 0x06,
+      content: `06${address}${data.toString('hex')}`,
+      rawValue,
+    };
+  }
+
+  return {
+    functionCode: 0x10,
+    content: `10${address}${hex(data.length / 2, 2)}${hex(data.length, 1)}${data.toString('hex')}`,
+    rawValue,
+  };
+}
+
+/**
+ * 生成回读指令 (01 读线圈 / 03 读保持寄存器)
+ */
+export function buildReadInstruct(register: WritableRegister): string {
+  const address = hex(register.address, 2);
+
+  if (register.kind === 'coil') {
+    return `01${address}0001`;
+  }
+
+  return `03${address}${hex(REGISTER_DATA_WIDTH[register.dataType] / 2, 2)}`;
+}
+
+/**
+ * 校验写指令的响应
+ *
+ * - 05/06: 响应与请求完全相同 (回显)
+ * - 10: 响应为 PID + 功能码 + 起始地址 + 寄存器数量 + CRC
+ * - 功能码最高位为 1 时为异常响应
+ *
+ * @param pid 设备 PID
+ * @param instruct 写指令
+ * @param response 响应数据
+ * @returns 错误信息，校验通过返回 null
+ */
+export function verifyWriteResponse(
+  pid: number,
+  instruct: ModbusWriteInstruct,
+  response: number[] | undefined
+): string | null {
+  if (!response || response.length === 0) {
+    return '设备无响应数据';
+  }
+
+  if (response[1] === (instruct.functionCode | 0x80)) {
+    return `设备返回异常码 0x${hex(response[2] ?? 0, 1)}`;
+  }
+
+  const expected =
+    instruct.functionCode === 0x10
+      ? crc16Modbus(pid, instruct.content.slice(0, 10))
+      : crc16Modbus(pid, instruct.content);
+
+  return Buffer.from(response).toString('hex') === expected ? null : '响应与写指令不匹配';
+}
+
+/**
+ * 解析回读响应
+ *
+ * @returns 寄存器原始值，响应无效时返回 undefined
+ */
+export function decodeReadResponse(
+  pid: number,
+  register: WritableRegister,
+  response: number[] | undefined
+): number | undefined {
+  const functionCode = register.kind === 'coil' ? 0x01 : 0x03;
+  if (!response || response[0] !== pid || response[1] !== functionCode) {
+    return undefined;
+  }
+
+  const data = Buffer.from(response.slice(3, 3 + (response[2] ?? 0)));
+
+  if (register.kind === 'coil') {
+    return data.length > 0 ? data[0]! & 0x01 : undefined;
+  }
+
+  return readRegisterValue(data, 0, register.dataType, register.byteOrder);
+}
+
+/**
+ * 从指令查询结果中提取响应帧
+ *
+ * 兼容 Node 上报格式: 原始数据 (server 解析模式) / 单条指令结果 / 字节数组
+ */
+export function extractResponseFrame(data: unknown): number[] | undefined {
+  if (Array.isArray(data)) {
+    return data as number[];
+  }
+
+  const result = data as
+    | { contents?: Array<{ buffer?: { data?: number[] } }>; buffer?: { data?: number[] } }
+    | undefined;
+
+  return result?.contents?.[0]?.buffer?.data ?? result?.buffer?.data;
+}
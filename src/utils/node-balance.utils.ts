@@ -0,0 +1,84 @@
+/**
+ * Node 负载均衡工具函数
+ *
+ * 终端迁移 (排空 / 故障转移) 时按节点剩余容量选择目标节点
+ */
+
+/**
+ * 节点容量信息
+ */
+export interface NodeCapacity {
+  Name: string;
+  IP: string;
+  Port: number;
+  MaxConnections: number;
+  Connections: number;
+  /** 是否在线 (本实例或集群中的其他实例) */
+  online: boolean;
+  /** 是否排空中 */
+  draining: boolean;
+}
+
+/**
+ * 终端迁移计划
+ */
+export interface RelocationPlan {
+  /** 终端 MAC → 目标节点 */
+  assignments: Array<{ mac: string; target: NodeCapacity }>;
+  /** 没有可用容量的终端 */
+  unassigned: string[];
+}
+
+/**
+ * 节点剩余容量
+ */
+export function freeCapacity(node: NodeCapacity): number {
+  return Math.max(node.MaxConnections - node.Connections, 0);
+}
+
+/**
+ * 为一组终端规划迁移目标
+ *
+ * 每个终端依次分配给当前负载率最低且仍有剩余容量的节点，
+ * 已分配的终端计入目标节点连接数，使迁移结果在目标节点之间均匀分布
+ *
+ * @param macs 待迁移终端 MAC
+ * @param nodes 候选节点
+ * @param sourceNode 源节点名称 (不作为目标)
+ */
+export function planRelocations(
+  macs: string[],
+  nodes: NodeCapacity[],
+  sourceNode: string
+): RelocationPlan {
+  const candidates = nodes
+    .filter((node) => node.online && !node.draining && node.Name !== sourceNode)
+    .filter((node) => node.MaxConnections > 0)
+    .map((node) => ({ node, load: node.Connections }));
+
+  const plan: RelocationPlan = { assignments: [], unassigned: [] };
+
+  for (const mac of macs) {
+    let best: (typeof candidates)[number] | undefined;
+    for (const candidate of candidates) {
+      if (candidate.load >= candidate.node.MaxConnections) {
+        continue;
+      }
+      if (
+        !best ||
+        candidate.load / candidate.node.MaxConnections < best.load / best.node.MaxConnections
+      ) {
+        best = candidate;
+      }
+    }
+
+    if (best) {
+      best.load += 1;
+      plan.assignments.push({ mac, target: best.node });
+    } else {
+      plan.unassigned.push(mac);
+    }
+  }
+
+  return plan;
+}
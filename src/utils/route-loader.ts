@@ -12,6 +12,11 @@ import {
   formatValidationError,
   type ValidateTarget,
 } from '../decorators/validate';
+import {
+  DEVICE_PERMISSION_METADATA,
+  type DevicePermissionRequirement,
+} from '../decorators/device-permission';
+import { requireDevicePermission } from '../middleware/auth';
 import '../types'; // 导入 Fastify 类型扩展
 
 /**
@@ -60,6 +65,9 @@ function registerController(
   // 获取验证元数据
   const validationMetadata = VALIDATION_METADATA.get(ControllerClass);
 
+  // 获取设备权限元数据
+  const permissionMetadata = DEVICE_PERMISSION_METADATA.get(ControllerClass);
+
   // 创建 Controller 实例
   const controllerInstance = new ControllerClass();
 
@@ -73,7 +81,8 @@ function registerController(
       route.handler,
       controllerInstance,
       paramMetadata,
-      validationMetadata
+      validationMetadata,
+      permissionMetadata
     );
   }
 }
@@ -89,7 +98,8 @@ function registerRoute(
   handlerName: string,
   controllerInstance: any,
   paramMetadata?: Map<string, ParamMetadata[]>,
-  validationMetadata?: Map<string, any>
+  validationMetadata?: Map<string, any>,
+  permissionMetadata?: Map<string, DevicePermissionRequirement>
 ): void {
   // 组合完整路径
   const fullPath = combinePath(controllerMetadata.basePath, path);
@@ -153,6 +163,15 @@ function registerRoute(
 
   // 注册路由到 Fastify
   const methodLower = method.toLowerCase() as 'get' | 'post' | 'put' | 'delete' | 'patch';
+
+  // 设备权限在路由级 preHandler 中校验（在全局认证 hook 之后执行）
+  const permission = permissionMetadata?.get(handlerName);
+  if (permission) {
+    const { level, ...requirement } = permission;
+    app[methodLower](fullPath, { preHandler: requireDevicePermission(level, requirement) }, fastifyHandler);
+    return;
+  }
+
   app[methodLower](fullPath, fastifyHandler);
 }
 
@@ -0,0 +1,214 @@
+/**
+ * 内存 MongoDB 模拟
+ * 用于不依赖真实数据库的服务单元测试，仅支持测试所需的最小查询子集：
+ * - 字段相等匹配 (含点路径和数组元素) / $in / $gte / $lte / $lt
+ * - insertOne / insertMany / find / findOne / updateOne($set / $setOnInsert) / deleteOne / deleteMany / countDocuments
+ * - bulkWrite (insertOne / updateOne)
+ */
+
+import { ObjectId, type Db } from 'mongodb';
+
+type Doc = Record<string, any>;
+
+function matchValue(actual: any, expected: any): boolean {
+  if (expected instanceof ObjectId) {
+    return actual instanceof ObjectId && actual.equals(expected);
+  }
+
+  if (expected && typeof expected === 'object' && !Array.isArray(expected) && !(expected instanceof Date)) {
+    return Object.entries(expected).every(([op, value]) => {
+      switch (op) {
+        case '$in':
+          return (value as any[]).some((v) => matchValue(actual, v));
+        case '$nin':
+          return !(value as any[]).some((v) => matchValue(actual, v));
+        case '$ne':
+          return !matchValue(actual, value);
+        case '$gte':
+          return actual >= (value as any);
+        case '$lte':
+          return actual <= (value as any);
+        case '$lt':
+          return actual < (value as any);
+        case '$gt':
+          return actual > (value as any);
+        case '$exists':
+          return (actual !== undefined) === value;
+        default:
+          return matchValue(actual?.[op], value);
+      }
+    });
+  }
+
+  if (Array.isArray(actual) && !Array.isArray(expected)) {
+    return actual.some((item) => matchValue(item, expected));
+  }
+
+  if (expected instanceof Date) {
+    return actual instanceof Date && actual.getTime() === expected.getTime();
+  }
+
+  return actual === expected;
+}
+
+function getPath(doc: Doc, path: string): any {
+  return path.split('.').reduce<any>((value, key) => {
+    if (value == null) return undefined;
+    // 数组字段按元素展开 (如 'ProtocolSetup.Protocol')
+    if (Array.isArray(value) && !/^\d+$/.test(key)) return value.map((item) => item?.[key]);
+    return value[key];
+  }, doc);
+}
+
+function matches(doc: Doc, filter: Doc = {}): boolean {
+  return Object.entries(filter).every(([key, expected]) => {
+    if (key === '$or') {
+      return (expected as Doc[]).some((sub) => matches(doc, sub));
+    }
+    return matchValue(getPath(doc, key), expected);
+  });
+}
+
+/**
+ * 内存集合
+ */
+export class MockCollection {
+  public docs: Doc[] = [];
+
+  async insertOne(doc: Doc) {
+    if (!doc._id) doc._id = new ObjectId();
+    this.docs.push(doc);
+    return { acknowledged: true, insertedId: doc._id };
+  }
+
+  async insertMany(docs: Doc[]) {
+    for (const doc of docs) await this.insertOne(doc);
+    return { acknowledged: true, insertedCount: docs.length };
+  }
+
+  find(filter: Doc = {}) {
+    let result = this.docs.filter((doc) => matches(doc, filter));
+    const cursor = {
+      sort: (spec: Record<string, 1 | -1>) => {
+        const [[field, dir]] = Object.entries(spec) as [[string, 1 | -1]];
+        result = [...result].sort((a, b) => (a[field] > b[field] ? dir : -dir));
+        return cursor;
+      },
+      skip: (n: number) => {
+        result = result.slice(n);
+        return cursor;
+      },
+      limit: (n: number) => {
+        result = result.slice(0, n);
+        return cursor;
+      },
+      toArray: async () => result,
+    };
+    return cursor;
+  }
+
+  async findOne(filter: Doc = {}) {
+    return this.docs.find((doc) => matches(doc, filter)) ?? null;
+  }
+
+  async updateOne(filter: Doc, update: Doc, options: { upsert?: boolean } = {}) {
+    const doc = this.docs.find((d) => matches(d, filter));
+    if (!doc) {
+      if (!options.upsert) return { matchedCount: 0, modifiedCount: 0, upsertedCount: 0, upsertedId: null };
+      const inserted: Doc = { ...filter };
+      await this.insertOne(inserted);
+      this.applyUpdate(inserted, { ...update, ...update.$setOnInsert });
+      return { matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId: inserted._id };
+    }
+    this.applyUpdate(doc, update);
+    return { matchedCount: 1, modifiedCount: 1, upsertedCount: 0, upsertedId: null };
+  }
+
+  async updateMany(filter: Doc, update: Doc) {
+    const docs = this.docs.filter((d) => matches(d, filter));
+    docs.forEach((doc) => this.applyUpdate(doc, update));
+    return { matchedCount: docs.length, modifiedCount: docs.length };
+  }
+
+  async findOneAndUpdate(filter: Doc, update: Doc) {
+    const doc = this.docs.find((d) => matches(d, filter));
+    if (!doc) return null;
+    this.applyUpdate(doc, update);
+    return doc;
+  }
+
+  async deleteOne(filter: Doc) {
+    const index = this.docs.findIndex((d) => matches(d, filter));
+    if (index >= 0) this.docs.splice(index, 1);
+    return { deletedCount: index >= 0 ? 1 : 0 };
+  }
+
+  async deleteMany(filter: Doc = {}) {
+    const before = this.docs.length;
+    this.docs = this.docs.filter((d) => !matches(d, filter));
+    return { deletedCount: before - this.docs.length };
+  }
+
+  async countDocuments(filter: Doc = {}) {
+    return this.docs.filter((d) => matches(d, filter)).length;
+  }
+
+  async bulkWrite(operations: Doc[]) {
+    for (const operation of operations) {
+      if (operation.insertOne) {
+        await this.insertOne(operation.insertOne.document);
+      } else if (operation.updateOne) {
+        const { filter, update, upsert } = operation.updateOne;
+        await this.updateOne(filter, update, { upsert });
+      }
+    }
+    return { acknowledged: true };
+  }
+
+  private applyUpdate(doc: Doc, update: Doc) {
+    const { $set, $inc, $unset, $push, $setOnInsert: _setOnInsert, ...rest } = update;
+    Object.assign(doc, rest);
+    if ($set) Object.assign(doc, $set);
+    if ($inc) {
+      for (const [key, value] of Object.entries($inc)) {
+        doc[key] = (doc[key] ?? 0) + (value as number);
+      }
+    }
+    if ($unset) {
+      for (const key of Object.keys($unset)) delete doc[key];
+    }
+    if ($push) {
+      for (const [key, value] of Object.entries($push)) {
+        doc[key] = [...(doc[key] ?? []), value];
+      }
+    }
+  }
+}
+
+/**
+ * 内存数据库
+ */
+export class MockDb {
+  private collections = new Map<string, MockCollection>();
+
+  collection(name: string): MockCollection {
+    if (!this.collections.has(name)) {
+      this.collections.set(name, new MockCollection());
+    }
+    return this.collections.get(name)!;
+  }
+
+  /**
+   * 以 mongodb Db 类型返回（服务构造函数需要）
+   */
+  asDb(): Db {
+    return this as unknown as Db;
+  }
+}
+
+/**
+ * 创建内存数据库
+ */
+export function createMockDb(): MockDb {
+  return new MockDb();
+}
@@ -0,0 +1,442 @@
+/**
+ * 队列服务契约测试
+ *
+ * 所有 QueueService 实现 (SQLite、BullMQ) 必须通过同一套测试：
+ * - 任务添加和处理
+ * - 优先级队列
+ * - 延迟执行
+ * - 重试机制 (含指数退避)
+ * - 超时
+ * - 并发控制
+ * - 统计信息
+ * - 清理
+ * - 死信任务查询、重新投递、清除
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import type { Job, QueueService } from '../../src/services/queue/queue.interface';
+
+/**
+ * 契约测试使用的队列实现
+ */
+export interface QueueContractTarget {
+  /** 创建队列服务 (最大并发数为 5) */
+  create(): QueueService | Promise<QueueService>;
+  /** 关闭后清理持久化数据 */
+  teardown(): Promise<void>;
+}
+
+/**
+ * 注册队列服务契约测试
+ *
+ * @param name - 测试分组名称
+ * @param target - 队列实现
+ */
+export function describeQueueContract(name: string, target: QueueContractTarget): void {
+  describe(name, () => {
+    let queueService: QueueService;
+
+    beforeEach(async () => {
+      queueService = await target.create();
+    });
+
+    afterEach(async () => {
+      await queueService.close();
+      await target.teardown();
+    });
+
+    describe('addJob()', () => {
+      test('should add job to queue with default options', async () => {
+        const job = await queueService.addJob('test-queue', 'test-job', { message: 'hello' });
+
+        expect(job.id).toBeDefined();
+        expect(job.name).toBe('test-job');
+        expect(job.data).toEqual({ message: 'hello' });
+        expect(job.status).toBe('pending');
+      });
+
+      test('should add job with priority', async () => {
+        const highPriorityJob = await queueService.addJob(
+          'test-queue',
+          'high-priority',
+          { urgent: true },
+          { priority: 10 }
+        );
+
+        const lowPriorityJob = await queueService.addJob(
+          'test-queue',
+          'low-priority',
+          { urgent: false },
+          { priority: 1 }
+        );
+
+        expect(highPriorityJob.id).toBeDefined();
+        expect(lowPriorityJob.id).toBeDefined();
+      });
+
+      test('should add job with custom max attempts', async () => {
+        const job = await queueService.addJob(
+          'test-queue',
+          'retry-job',
+          { data: 'test' },
+          { attempts: 5 }
+        );
+
+        expect(job.id).toBeDefined();
+      });
+    });
+
+    describe('registerProcessor() and job processing', () => {
+      test('should process job successfully', async () => {
+        const processedJobs: Job[] = [];
+
+        queueService.registerProcessor('test-queue', async (job) => {
+          processedJobs.push(job);
+        });
+
+        await queueService.addJob('test-queue', 'test-job', { message: 'process me' });
+
+        // Wait for job to be processed
+        await Bun.sleep(200);
+
+        expect(processedJobs.length).toBe(1);
+        expect(processedJobs[0]!.name).toBe('test-job');
+        expect(processedJobs[0]!.data).toEqual({ message: 'process me' });
+      });
+
+      test('should process jobs in priority order', async () => {
+        const processedOrder: string[] = [];
+
+        // Add jobs in reverse priority order before any worker picks them up
+        await queueService.addJob('priority-queue', 'low', { name: 'low' }, { priority: 1 });
+        await queueService.addJob('priority-queue', 'high', { name: 'high' }, { priority: 10 });
+        await queueService.addJob('priority-queue', 'medium', { name: 'medium' }, { priority: 5 });
+        await queueService.addJob('priority-queue', 'none', { name: 'none' });
+
+        queueService.registerProcessor('priority-queue', async (job) => {
+          processedOrder.push(job.data.name);
+          await Bun.sleep(50); // Simulate work
+        });
+
+        // Wait for all jobs to be processed
+        await Bun.sleep(500);
+
+        expect(processedOrder).toEqual(['high', 'medium', 'low', 'none']);
+      });
+
+      test('should handle multiple queues independently', async () => {
+        const queue1Jobs: Job[] = [];
+        const queue2Jobs: Job[] = [];
+
+        queueService.registerProcessor('queue-1', async (job) => {
+          queue1Jobs.push(job);
+        });
+
+        queueService.registerProcessor('queue-2', async (job) => {
+          queue2Jobs.push(job);
+        });
+
+        await queueService.addJob('queue-1', 'job1', { data: 'q1' });
+        await queueService.addJob('queue-2', 'job2', { data: 'q2' });
+        await queueService.addJob('queue-1', 'job3', { data: 'q1-2' });
+
+        await Bun.sleep(300);
+
+        expect(queue1Jobs.length).toBe(2);
+        expect(queue2Jobs.length).toBe(1);
+      });
+    });
+
+    describe('delayed jobs', () => {
+      test('should not process job before its delay expires', async () => {
+        const processed: string[] = [];
+
+        queueService.registerProcessor('delay-queue', async (job) => {
+          processed.push(job.name);
+        });
+
+        await queueService.addJob('delay-queue', 'later', {}, { delay: 300 });
+        await queueService.addJob('delay-queue', 'now', {});
+
+        await Bun.sleep(150);
+        expect(processed).toEqual(['now']);
+
+        await Bun.sleep(350);
+        expect(processed).toEqual(['now', 'later']);
+      });
+    });
+
+    describe('retry mechanism', () => {
+      test('should retry failed jobs up to max attempts', async () => {
+        const seenAttempts: number[] = [];
+
+        queueService.registerProcessor('retry-queue', async (job) => {
+          seenAttempts.push(job.attempts ?? 0);
+          throw new Error('Simulated failure');
+        });
+
+        await queueService.addJob('retry-queue', 'failing-job', { data: 'test' }, { attempts: 3 });
+
+        // 等待所有重试完成 (每次重试间隔约 pollInterval)
+        await Bun.sleep(500);
+
+        expect(seenAttempts).toEqual([0, 1, 2]);
+
+        const stats = await queueService.getQueueStats('retry-queue');
+        expect(stats.failed).toBe(1);
+        expect(stats.pending).toBe(0);
+      });
+
+      test('should back off exponentially between retries', async () => {
+        const attemptTimes: number[] = [];
+
+        queueService.registerProcessor('backoff-queue', async () => {
+          attemptTimes.push(Date.now());
+          throw new Error('Simulated failure');
+        });
+
+        await queueService.addJob('backoff-queue', 'backoff-job', {}, { attempts: 3, backoff: 150 });
+
+        const deadline = Date.now() + 3000;
+        while (attemptTimes.length < 3 && Date.now() < deadline) {
+          await Bun.sleep(25);
+        }
+
+        expect(attemptTimes).toHaveLength(3);
+        expect(attemptTimes[1]! - attemptTimes[0]!).toBeGreaterThanOrEqual(140);
+        expect(attemptTimes[2]! - attemptTimes[1]!).toBeGreaterThanOrEqual(290);
+      });
+    });
+
+    describe('timeout', () => {
+      test('should fail job that exceeds its timeout', async () => {
+        queueService.registerProcessor('timeout-queue', async () => {
+          await Bun.sleep(300);
+        });
+
+        await queueService.addJob('timeout-queue', 'slow-job', {}, { timeout: 50, attempts: 1 });
+
+        await Bun.sleep(200);
+
+        const stats = await queueService.getQueueStats('timeout-queue');
+        expect(stats.failed).toBe(1);
+        expect(stats.completed).toBe(0);
+      });
+    });
+
+    describe('concurrent processing', () => {
+      test('should respect maxConcurrency limit', async () => {
+        let currentlyProcessing = 0;
+        let maxConcurrentReached = 0;
+
+        queueService.registerProcessor('concurrent-queue', async () => {
+          currentlyProcessing++;
+          maxConcurrentReached = Math.max(maxConcurrentReached, currentlyProcessing);
+          await Bun.sleep(100); // Simulate work
+          currentlyProcessing--;
+        });
+
+        // Add 10 jobs
+        for (let i = 0; i < 10; i++) {
+          await queueService.addJob('concurrent-queue', `job-${i}`, { index: i });
+        }
+
+        // Wait for all jobs to complete
+        await Bun.sleep(500);
+
+        // maxConcurrency is 5, so we should never exceed it
+        expect(maxConcurrentReached).toBeLessThanOrEqual(5);
+      });
+    });
+
+    describe('getQueueStats()', () => {
+      test('should return correct queue statistics', async () => {
+        // Add jobs with different outcomes
+        queueService.registerProcessor('stats-queue', async (job) => {
+          if (job.data.shouldFail) {
+            throw new Error('Forced failure');
+          }
+          // Success
+        });
+
+        await queueService.addJob('stats-queue', 'success-1', { shouldFail: false });
+        await queueService.addJob('stats-queue', 'success-2', { shouldFail: false });
+        await queueService.addJob('stats-queue', 'fail-1', { shouldFail: true }, { attempts: 1 });
+
+        // Wait for processing (longer to ensure all jobs complete)
+        await Bun.sleep(500);
+
+        const stats = await queueService.getQueueStats('stats-queue');
+
+        expect(stats.completed).toBe(2);
+        expect(stats.failed).toBe(1);
+        expect(stats.pending).toBe(0);
+      });
+
+      test('should count delayed jobs as pending', async () => {
+        await queueService.addJob('stats-delay-queue', 'later', {}, { delay: 60_000 });
+
+        const stats = await queueService.getQueueStats('stats-delay-queue');
+
+        expect(stats.pending).toBe(1);
+      });
+
+      test('should return empty stats for non-existent queue', async () => {
+        const stats = await queueService.getQueueStats('non-existent');
+
+        expect(stats.pending).toBe(0);
+        expect(stats.processing).toBe(0);
+        expect(stats.completed).toBe(0);
+        expect(stats.failed).toBe(0);
+      });
+    });
+
+    describe('cleanup()', () => {
+      test('should cleanup old completed jobs', async () => {
+        queueService.registerProcessor('cleanup-queue', async () => {
+          // Process successfully
+        });
+
+        await queueService.addJob('cleanup-queue', 'job-1', { data: 'test' });
+        await queueService.addJob('cleanup-queue', 'job-2', { data: 'test' });
+
+        // Wait for jobs to complete (longer to ensure completion)
+        await Bun.sleep(400);
+
+        let stats = await queueService.getQueueStats('cleanup-queue');
+        expect(stats.completed).toBe(2);
+
+        // Cleanup jobs older than 0 days (all)
+        await queueService.cleanup('cleanup-queue', 0);
+
+        stats = await queueService.getQueueStats('cleanup-queue');
+        expect(stats.completed).toBe(0);
+      });
+
+      test('should cleanup all queues when queueName not specified', async () => {
+        queueService.registerProcessor('queue-a', async () => {});
+        queueService.registerProcessor('queue-b', async () => {});
+
+        await queueService.addJob('queue-a', 'job', { data: 'a' });
+        await queueService.addJob('queue-b', 'job', { data: 'b' });
+
+        // Wait for jobs to complete (longer to ensure completion)
+        await Bun.sleep(400);
+
+        // Verify jobs completed first
+        let statsA = await queueService.getQueueStats('queue-a');
+        let statsB = await queueService.getQueueStats('queue-b');
+        expect(statsA.completed).toBe(1);
+        expect(statsB.completed).toBe(1);
+
+        // Cleanup all queues
+        await queueService.cleanup(undefined, 0);
+
+        statsA = await queueService.getQueueStats('queue-a');
+        statsB = await queueService.getQueueStats('queue-b');
+
+        expect(statsA.completed).toBe(0);
+        expect(statsB.completed).toBe(0);
+      });
+    });
+
+    describe('dead letter jobs', () => {
+      /**
+       * 添加会失败的任务并等待进入死信
+       */
+      const failJobs = async (queueName: string, names: string[], attempts = 2) => {
+        let shouldFail = true;
+        queueService.registerProcessor(queueName, async (job) => {
+          if (shouldFail) {
+            throw new Error(`provider down: ${job.name}`);
+          }
+        });
+
+        for (const jobName of names) {
+          await queueService.addJob(queueName, jobName, { to: jobName }, { attempts });
+        }
+        await Bun.sleep(400);
+
+        return () => {
+          shouldFail = false;
+        };
+      };
+
+      test('should list dead letter jobs with failure history', async () => {
+        await failJobs('dlq-queue', ['sms-1']);
+
+        const { jobs, total } = await queueService.getDeadLetterJobs('dlq-queue');
+
+        expect(total).toBe(1);
+        expect(jobs[0]!.name).toBe('sms-1');
+        expect(jobs[0]!.data).toEqual({ to: 'sms-1' });
+        expect(jobs[0]!.attempts).toBe(2);
+        expect(jobs[0]!.maxAttempts).toBe(2);
+        expect(jobs[0]!.error).toBe('provider down: sms-1');
+        expect(jobs[0]!.history.map((failure) => failure.attempt)).toEqual([1, 2]);
+        expect(jobs[0]!.history[0]!.failedAt).toBeInstanceOf(Date);
+        expect(await queueService.getQueueNames()).toContain('dlq-queue');
+      });
+
+      test('should filter and paginate dead letter jobs', async () => {
+        await failJobs('dlq-filter-queue', ['sms', 'wechat', 'sms'], 1);
+
+        const filtered = await queueService.getDeadLetterJobs('dlq-filter-queue', { name: 'sms' });
+        expect(filtered.total).toBe(2);
+        expect(filtered.jobs.every((job) => job.name === 'sms')).toBe(true);
+
+        const page = await queueService.getDeadLetterJobs('dlq-filter-queue', { limit: 1, offset: 1 });
+        expect(page.total).toBe(3);
+        expect(page.jobs).toHaveLength(1);
+      });
+
+      test('should replay dead letter job after provider recovers', async () => {
+        const recover = await failJobs('dlq-replay-queue', ['sms-1']);
+        const { jobs } = await queueService.getDeadLetterJobs('dlq-replay-queue');
+
+        recover();
+        expect(await queueService.replayDeadLetterJob('dlq-replay-queue', jobs[0]!.id)).toBe(true);
+        await Bun.sleep(300);
+
+        const stats = await queueService.getQueueStats('dlq-replay-queue');
+        expect(stats.completed).toBe(1);
+        expect(stats.failed).toBe(0);
+
+        // 已完成的任务不能再次重新投递
+        expect(await queueService.replayDeadLetterJob('dlq-replay-queue', jobs[0]!.id)).toBe(false);
+      });
+
+      test('should purge selected or all dead letter jobs', async () => {
+        await failJobs('dlq-purge-queue', ['a', 'b', 'c'], 1);
+        const { jobs } = await queueService.getDeadLetterJobs('dlq-purge-queue');
+
+        expect(await queueService.purgeDeadLetterJobs('dlq-purge-queue', [jobs[0]!.id])).toBe(1);
+        expect((await queueService.getDeadLetterJobs('dlq-purge-queue')).total).toBe(2);
+
+        expect(await queueService.purgeDeadLetterJobs('dlq-purge-queue')).toBe(2);
+        expect((await queueService.getQueueStats('dlq-purge-queue')).failed).toBe(0);
+      });
+    });
+
+    describe('error handling', () => {
+      test('should handle processor errors gracefully', async () => {
+        const errors: Error[] = [];
+
+        queueService.registerProcessor('error-queue', async () => {
+          const error = new Error('Test error');
+          errors.push(error);
+          throw error;
+        });
+
+        await queueService.addJob('error-queue', 'error-job', { data: 'test' }, { attempts: 1 });
+
+        await Bun.sleep(200);
+
+        expect(errors.length).toBe(1);
+
+        const stats = await queueService.getQueueStats('error-queue');
+        expect(stats.failed).toBe(1);
+      });
+    });
+  });
+}
@@ -16,6 +16,8 @@ import { mongodb } from '../../src/database/mongodb';
 import { testDb } from '../helpers/test-db';
 import { build } from '../../src/app';
 import { generateTestToken } from '../helpers/fixtures';
+import { getServiceContainer } from '../../src/services';
+import { ALARM_COLLECTION, ALARM_RULE_COLLECTION, createAlarmRule } from '../../src/entities/mongodb';
 
 describe('Alarm Flow Integration Tests', () => {
   let app: FastifyInstance;
@@ -532,6 +534,36 @@ describe('Alarm Flow Integration Tests', () => {
     expect(alarm.mac).toBe(TEST_MAC);
   }, 10000);
 
+  /**
+   * 测试 7.1: 规则驱动的超时/离线告警
+   *
+   * 场景：配置 timeout / offline 规则 → 节点上报指令超时和连续查询超时
+   *       → 规则引擎持久化 timeout / offline 告警
+   */
+  test('should persist timeout and offline alarms from status rules', async () => {
+    console.log('\n⏱️  测试规则驱动的超时/离线告警...');
+
+    const engine = getServiceContainer().alarmRuleEngine;
+    await engine.addRule(
+      createAlarmRule({ name: 'alarm-flow-timeout', type: 'timeout', level: 'warning', pid: TEST_PID, createdBy: 'test' })
+    );
+    await engine.addRule(
+      createAlarmRule({ name: 'alarm-flow-offline', type: 'offline', level: 'error', pid: TEST_PID, createdBy: 'test' })
+    );
+
+    nodeClient = await connectAndRegisterNode();
+
+    nodeClient.emit('instructTimeOut', { mac: TEST_MAC, pid: TEST_PID, instruct: ['010300000002C40B'] });
+    nodeClient.emit('terminalMountDevTimeOut', { mac: TEST_MAC, pid: TEST_PID, timeOut: 11 });
+
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    const alarms = await testDb.getDb().collection(ALARM_COLLECTION).find({ mac: TEST_MAC }).toArray();
+    expect(alarms.map((alarm) => alarm.tag).sort()).toEqual(['offline', 'timeout']);
+
+    console.log('  ✅ 规则驱动的超时/离线告警测试通过\n');
+  }, 10000);
+
   /**
    * 测试 8: WebSocket 实时告警推送（无去重）
    *
@@ -910,6 +942,8 @@ describe('Alarm Flow Integration Tests', () => {
     await db.collection('client.resultcolltions').deleteMany({ mac: TEST_MAC });
     await db.collection('client.resultsingles').deleteMany({ mac: TEST_MAC });
     await db.collection('user.terminalBindings').deleteMany({ mac: TEST_MAC });
+    await db.collection(ALARM_COLLECTION).deleteMany({ mac: TEST_MAC });
+    await db.collection(ALARM_RULE_COLLECTION).deleteMany({ name: /^alarm-flow-/ });
 
     console.log('  ✓ 清理测试数据完成');
   }
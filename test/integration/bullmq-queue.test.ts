@@ -0,0 +1,63 @@
+/**
+ * BullMQ Queue Service Integration Tests
+ *
+ * 运行队列服务契约测试 (见 test/helpers/queue-contract.ts)
+ *
+ * 需要本地 Redis (REDIS_HOST / REDIS_PORT)，不可用时跳过
+ */
+
+import { createConnection } from 'node:net';
+import { createClient } from 'redis';
+import { derivedConfig } from '../../src/config';
+import { BullMQQueueService } from '../../src/services/queue/bullmq-queue.service';
+import { describeQueueContract } from '../helpers/queue-contract';
+
+const redisConfig = derivedConfig.redisConfig;
+
+/**
+ * 检查 Redis 是否可连接
+ */
+function isRedisAvailable(): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = createConnection({ host: redisConfig.host, port: redisConfig.port });
+    socket.setTimeout(500);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      resolve(false);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+if (await isRedisAvailable()) {
+  let prefix = '';
+
+  describeQueueContract('BullMQQueueService', {
+    create: () => {
+      // 每个测试使用独立前缀，避免残留任务影响统计
+      prefix = `test-queue-${Date.now()}`;
+      return new BullMQQueueService({ connection: redisConfig, prefix, maxConcurrency: 5 });
+    },
+    teardown: async () => {
+      const client = createClient({
+        socket: { host: redisConfig.host, port: redisConfig.port },
+        password: redisConfig.password,
+        database: redisConfig.db,
+      });
+      await client.connect();
+      const keys = await client.keys(`${prefix}:*`);
+      if (keys.length > 0) {
+        await client.del(keys);
+      }
+      await client.quit();
+    },
+  });
+} else {
+  console.warn(
+    `⚠️  Redis not available at ${redisConfig.host}:${redisConfig.port}, skipping BullMQQueueService tests`
+  );
+}
@@ -41,6 +41,7 @@ describe('Queue & Notification Integration', () => {
     await collections.notificationLogs.deleteMany({});
     await collections.alarms.deleteMany({});
     await collections.userAlarmSetups.deleteMany({});
+    await mongodb.getDatabase().collection('user.binddevices').deleteMany({ user: 'test-user-1' });
   });
 
   afterAll(async () => {
@@ -68,6 +69,12 @@ describe('Queue & Notification Integration', () => {
       mails: ['test@example.com'],
     });
 
+    // 只有绑定了设备的用户才会收到通知 (老系统绑定)
+    await mongodb.getDatabase().collection('user.binddevices').insertOne({
+      user: 'test-user-1',
+      UTs: ['AA:BB:CC:DD:EE:FF'],
+    });
+
     // 2. 创建告警
     const alarm: AlarmDocument = createAlarm({
       mac: 'AA:BB:CC:DD:EE:FF',
@@ -0,0 +1,184 @@
+/**
+ * Socket.IO 多实例集群集成测试
+ *
+ * 两个进程内 SocketIoService 实例共享 Redis:
+ * - Node 连接实例 B，实例 A 发起的 InstructQuery 经 Redis Adapter 路由到 Node，响应转发回实例 A
+ * - 查询调度 Leader 只有一个，Leader 退出后由另一个实例接管
+ *
+ * 需要本地 Redis (REDIS_HOST / REDIS_PORT)，不可用时跳过
+ */
+
+import { describe, test, expect, beforeAll, afterAll, spyOn } from 'bun:test';
+import { createConnection } from 'node:net';
+import { createServer, type Server as HttpServer } from 'node:http';
+import { Server as SocketIOServer } from 'socket.io';
+import { io as ioClient, type Socket as ClientSocket } from 'socket.io-client';
+import { createClient } from 'redis';
+import { derivedConfig } from '../../src/config';
+import { SocketIoService } from '../../src/services/socket-io.service';
+import { SocketIoCluster } from '../../src/services/socket-io-cluster';
+import { nodeService } from '../../src/services/node.service';
+import { terminalService } from '../../src/services/terminal.service';
+import { protocolService } from '../../src/services/protocol.service';
+import type { InstructQueryRequest, RegisterNodeResponse } from '../../src/types/socket-events';
+
+const redisConfig = derivedConfig.redisConfig;
+const PREFIX = `test-cluster-${Date.now()}`;
+const NODE_NAME = 'cluster-node';
+const MAC = 'AABBCCDDEE01';
+
+/**
+ * 检查 Redis 是否可连接
+ */
+function isRedisAvailable(): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = createConnection({ host: redisConfig.host, port: redisConfig.port });
+    socket.setTimeout(500);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      resolve(false);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+interface TestInstance {
+  service: SocketIoService;
+  cluster: SocketIoCluster;
+  httpServer: HttpServer;
+  io: SocketIOServer;
+  port: number;
+}
+
+/**
+ * 启动一个进程内实例
+ */
+async function startInstance(instanceId: string, port: number): Promise<TestInstance> {
+  const httpServer = createServer();
+  const io = new SocketIOServer(httpServer);
+  const cluster = new SocketIoCluster({ redis: redisConfig, prefix: PREFIX, instanceId, leaderTtl: 1500 });
+  await cluster.connect();
+
+  const service = new SocketIoService();
+  service.attachCluster(cluster);
+  service.initialize(io);
+
+  await new Promise<void>((resolve) => httpServer.listen(port, resolve));
+  return { service, cluster, httpServer, io, port };
+}
+
+/**
+ * 停止实例
+ */
+async function stopInstance(instance: TestInstance): Promise<void> {
+  await instance.service.detachCluster();
+  instance.service.cleanup();
+  await new Promise<void>((resolve) => instance.io.close(() => resolve()));
+}
+
+const waitFor = async (predicate: () => boolean, timeout = 5000) => {
+  const deadline = Date.now() + timeout;
+  while (!predicate() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return predicate();
+};
+
+if (await isRedisAvailable()) {
+  describe('SocketIoService 多实例集群', () => {
+    let a: TestInstance;
+    let b: TestInstance;
+    let node: ClientSocket;
+
+    const mocks = [
+      spyOn(nodeService, 'createOrUpdateNode').mockImplementation(async (data) => data),
+      spyOn(nodeService, 'saveLog').mockResolvedValue(undefined),
+      spyOn(nodeService, 'getAllNodes').mockResolvedValue([]),
+      spyOn(terminalService, 'getTerminal').mockResolvedValue({
+        DevMac: MAC,
+        mountNode: NODE_NAME,
+        online: true,
+        mountDevs: [],
+      } as any),
+      spyOn(protocolService, 'getProtocol').mockResolvedValue({ Type: 232, instruct: [] } as any),
+    ];
+
+    beforeAll(async () => {
+      a = await startInstance('instance-a', 19101);
+      b = await startInstance('instance-b', 19102);
+
+      // Node 连接实例 B，收到查询指令后返回结果
+      node = ioClient(`http://localhost:${b.port}/node`, { transports: ['websocket'], reconnection: false });
+      node.on('InstructQuery', (request: InstructQueryRequest) => {
+        node.emit('queryResult', {
+          eventName: request.eventName,
+          mac: request.mac,
+          pid: request.pid,
+          protocol: request.protocol,
+          success: false,
+          error: `echo:${request.content}`,
+          useTime: 5,
+        } as any);
+      });
+
+      await new Promise<void>((resolve) => node.once('connect', () => resolve()));
+      const response = await new Promise<RegisterNodeResponse>((resolve) => {
+        node.emit(
+          'RegisterNode',
+          { Name: NODE_NAME, IP: '127.0.0.1', Port: 9000, MaxConnections: 100 },
+          resolve
+        );
+      });
+      expect(response.success).toBe(true);
+    });
+
+    afterAll(async () => {
+      node?.disconnect();
+      await Promise.allSettled([a && stopInstance(a), b && stopInstance(b)]);
+      mocks.forEach((mock) => mock.mockRestore());
+
+      const client = createClient({
+        socket: { host: redisConfig.host, port: redisConfig.port },
+        password: redisConfig.password,
+        database: redisConfig.db,
+      });
+      await client.connect();
+      const keys = await client.keys(`${PREFIX}:*`);
+      if (keys.length > 0) {
+        await client.del(keys);
+      }
+      await client.quit();
+    });
+
+    test('其他实例可以定位 Node', async () => {
+      const location = await a.service.findNode(NODE_NAME);
+
+      expect(location?.instanceId).toBe('instance-b');
+      expect(a.service.getNodeByName(NODE_NAME)).toBeUndefined();
+    });
+
+    test('InstructQuery 路由到 Node 所在实例并返回响应', async () => {
+      const result = await a.service.InstructQuery(MAC, 'test-protocol', 1, '0300000002');
+
+      expect(result.ok).toBe(0);
+      expect(result.msg).toBe('echo:0300000002');
+    });
+
+    test('只有一个实例运行查询调度，Leader 退出后被接管', async () => {
+      expect(await waitFor(() => a.cluster.isLeader() !== b.cluster.isLeader())).toBe(true);
+
+      const [leader, follower] = a.cluster.isLeader() ? [a, b] : [b, a];
+      await leader.service.detachCluster();
+
+      expect(await waitFor(() => follower.cluster.isLeader())).toBe(true);
+    });
+  });
+} else {
+  console.warn(
+    `⚠️  Redis not available at ${redisConfig.host}:${redisConfig.port}, skipping SocketIoService cluster tests`
+  );
+}
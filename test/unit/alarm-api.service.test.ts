@@ -0,0 +1,98 @@
+/**
+ * AlarmApiService 单元测试
+ *
+ * 测试覆盖:
+ * - 告警状态流转规则
+ * - 确认/解决操作遵循状态流转
+ * - 设备告警静音设置
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { ObjectId } from 'mongodb';
+import { AlarmApiService } from '../../src/services/alarm-api.service';
+import {
+  ALARM_COLLECTION,
+  USER_ALARM_SETUP_COLLECTION,
+  alarmStatusesAllowing,
+  canTransitionAlarm,
+  createAlarm,
+  type AlarmStatus,
+} from '../../src/entities/mongodb';
+import { createMockDb, type MockDb } from '../helpers/mock-db';
+
+describe('alarm status transitions', () => {
+  test('should only allow forward transitions', () => {
+    expect(canTransitionAlarm('active', 'acknowledged')).toBe(true);
+    expect(canTransitionAlarm('acknowledged', 'resolved')).toBe(true);
+    expect(canTransitionAlarm('acknowledged', 'active')).toBe(false);
+    expect(canTransitionAlarm('resolved', 'acknowledged')).toBe(false);
+    expect(canTransitionAlarm('auto_resolved', 'resolved')).toBe(false);
+  });
+
+  test('should list source statuses for a target', () => {
+    expect(alarmStatusesAllowing('acknowledged')).toEqual(['active']);
+    expect(alarmStatusesAllowing('auto_resolved')).toEqual(['active', 'acknowledged']);
+  });
+});
+
+describe('AlarmApiService', () => {
+  let db: MockDb;
+  let service: AlarmApiService;
+
+  const insertAlarm = async (status: AlarmStatus): Promise<ObjectId> => {
+    const alarm = createAlarm({
+      type: 'threshold',
+      level: 'warning',
+      tag: 'Threshold',
+      mac: 'AABBCCDDEE01',
+      pid: 1,
+      protocol: 'modbus',
+      msg: '温度过高',
+      timeStamp: Date.now(),
+      triggeredAt: new Date(),
+    });
+    const result = await db.collection(ALARM_COLLECTION).insertOne({ ...alarm, status });
+    return result.insertedId;
+  };
+
+  beforeEach(() => {
+    db = createMockDb();
+    service = new AlarmApiService(db.asDb());
+  });
+
+  test('should acknowledge then resolve an active alarm', async () => {
+    const id = await insertAlarm('active');
+
+    expect(await service.confirmAlarm(id, 'user-1')).toBe(true);
+    expect(await service.resolveAlarm(id, 'user-1', '更换传感器')).toBe(true);
+
+    const alarm = await service.getAlarmById(id);
+    expect(alarm?.status).toBe('resolved');
+    expect(alarm?.resolvedBy).toBe('user-1');
+  });
+
+  test('should reject transitions out of terminal states', async () => {
+    const id = await insertAlarm('auto_resolved');
+
+    expect(await service.confirmAlarm(id, 'user-1')).toBe(false);
+    expect(await service.resolveAlarm(id, 'user-1')).toBe(false);
+    expect(await service.getTransitionError(id, 'resolved')).toContain('auto_resolved');
+    expect(await service.getTransitionError(new ObjectId(), 'resolved')).toBe('告警不存在');
+  });
+
+  test('should replace duplicate mutes and unmute by terminal or pid', async () => {
+    await service.muteDevice('user-1', { mac: 'aabbccddee01' });
+    await service.muteDevice('user-1', { mac: 'AABBCCDDEE01', pid: 2 });
+    const mutes = await service.muteDevice('user-1', { mac: 'AABBCCDDEE01', pid: 2, until: new Date(Date.now() + 60000) });
+
+    expect(mutes.map(({ mac, pid, until }) => [mac, pid, until !== undefined])).toEqual([
+      ['AABBCCDDEE01', undefined, false],
+      ['AABBCCDDEE01', 2, true],
+    ]);
+
+    expect(await service.unmuteDevice('user-1', 'AABBCCDDEE01', 3)).toBe(0);
+    expect(await service.unmuteDevice('user-1', 'AABBCCDDEE01', 2)).toBe(1);
+    expect(await service.unmuteDevice('user-1', 'AABBCCDDEE01')).toBe(1);
+    expect(db.collection(USER_ALARM_SETUP_COLLECTION).docs[0]!.mutes).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * AlarmEscalationService 单元测试
+ *
+ * 测试覆盖:
+ * - 按策略层级安排延迟升级任务
+ * - 重复通知次数上限
+ * - 告警确认后停止升级
+ * - 规则绑定的策略优先于协议匹配
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { ObjectId } from 'mongodb';
+import {
+  AlarmEscalationService,
+  ESCALATION_QUEUE,
+  type EscalationJob,
+} from '../../src/services/alarm-escalation.service';
+import type { AlarmNotificationService } from '../../src/services/alarm-notification.service';
+import type { QueueService, JobOptions } from '../../src/services/queue/queue.interface';
+import {
+  ALARM_COLLECTION,
+  ALARM_RULE_COLLECTION,
+  ESCALATION_POLICY_COLLECTION,
+  createAlarm,
+  createEscalationPolicy,
+  createThresholdRule,
+  type AlarmDocument,
+  type EscalationTier,
+} from '../../src/entities/mongodb';
+import { createMockDb, type MockDb } from '../helpers/mock-db';
+
+interface QueuedJob {
+  queueName: string;
+  data: EscalationJob;
+  options?: JobOptions;
+}
+
+/**
+ * 记录 addJob 调用的队列
+ */
+function createFakeQueue(jobs: QueuedJob[]): QueueService {
+  return {
+    addJob: async (queueName: string, _jobName: string, data: any, options?: JobOptions) => {
+      jobs.push({ queueName, data, options });
+      return { id: String(jobs.length), name: _jobName, data, attempts: 0, maxAttempts: 3, createdAt: new Date() } as any;
+    },
+    registerProcessor: () => {},
+    getQueueStats: () => ({ pending: 0, processing: 0, completed: 0, failed: 0 }),
+    cleanup: async () => {},
+    getQueueNames: async () => [],
+    getDeadLetterJobs: async () => ({ jobs: [], total: 0 }),
+    replayDeadLetterJob: async () => false,
+    purgeDeadLetterJobs: async () => 0,
+    close: async () => {},
+  };
+}
+
+describe('AlarmEscalationService', () => {
+  let db: MockDb;
+  let jobs: QueuedJob[];
+  let sent: Array<{ alarmId: string; tierIndex: number; sequence: number }>;
+  let service: AlarmEscalationService;
+
+  const insertAlarm = async (parentId?: string): Promise<AlarmDocument> => {
+    const alarm = createAlarm({
+      parentId,
+      type: 'threshold',
+      level: 'error',
+      tag: 'Threshold',
+      mac: 'AABBCCDDEE01',
+      pid: 1,
+      protocol: 'modbus',
+      msg: '温度过高',
+      timeStamp: Date.now(),
+      triggeredAt: new Date(),
+    });
+    const result = await db.collection(ALARM_COLLECTION).insertOne(alarm);
+    return { ...alarm, _id: result.insertedId };
+  };
+
+  const insertPolicy = async (
+    name: string,
+    tiers: EscalationTier[],
+    protocols?: string[]
+  ): Promise<ObjectId> => {
+    const result = await db
+      .collection(ESCALATION_POLICY_COLLECTION)
+      .insertOne(createEscalationPolicy({ name, tiers, protocols, createdBy: 'admin' }));
+    return result.insertedId;
+  };
+
+  beforeEach(() => {
+    db = createMockDb();
+    jobs = [];
+    sent = [];
+    const notifier = {
+      sendEscalationNotification: async (alarm: AlarmDocument, _tier: EscalationTier, tierIndex: number, sequence: number) => {
+        sent.push({ alarmId: alarm._id!.toString(), tierIndex, sequence });
+      },
+    } as unknown as AlarmNotificationService;
+    service = new AlarmEscalationService(db.asDb(), createFakeQueue(jobs), notifier);
+  });
+
+  test('should schedule one delayed job per tier', async () => {
+    await insertPolicy(
+      '值班升级',
+      [
+        { afterMinutes: 10, users: ['duty'] },
+        { afterMinutes: 30, users: ['manager'] },
+      ],
+      ['modbus']
+    );
+    const alarm = await insertAlarm();
+
+    const policy = await service.scheduleEscalation(alarm);
+
+    expect(policy?.name).toBe('值班升级');
+    expect(jobs.map((job) => job.queueName)).toEqual([ESCALATION_QUEUE, ESCALATION_QUEUE]);
+    expect(jobs.map((job) => job.options?.delay)).toEqual([10 * 60_000, 30 * 60_000]);
+    expect(jobs[1]!.data).toMatchObject({ alarmId: alarm._id!.toString(), tierIndex: 1, sequence: 1 });
+  });
+
+  test('should not schedule when no policy matches', async () => {
+    await insertPolicy('其他协议', [{ afterMinutes: 10, users: ['duty'] }], ['other']);
+
+    expect(await service.scheduleEscalation(await insertAlarm())).toBeNull();
+    expect(jobs).toHaveLength(0);
+  });
+
+  test('should repeat notifications up to the tier limit', async () => {
+    const policyId = await insertPolicy(
+      '重复通知',
+      [{ afterMinutes: 5, users: ['duty'], repeatMinutes: 15, maxNotifications: 2 }],
+      ['modbus']
+    );
+    const alarm = await insertAlarm();
+    const job = { alarmId: alarm._id!.toString(), policyId: policyId.toString(), tierIndex: 0, sequence: 1 };
+
+    expect((await service.processEscalation(job)).notified).toBe(true);
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]!.data.sequence).toBe(2);
+    expect(jobs[0]!.options?.delay).toBe(15 * 60_000);
+
+    expect((await service.processEscalation(jobs[0]!.data)).notified).toBe(true);
+    expect(jobs).toHaveLength(1);
+    expect(sent.map((s) => s.sequence)).toEqual([1, 2]);
+  });
+
+  test('should stop escalation once the alarm is acknowledged', async () => {
+    const policyId = await insertPolicy('确认停止', [{ afterMinutes: 5, users: ['duty'] }], ['modbus']);
+    const alarm = await insertAlarm();
+    await db
+      .collection(ALARM_COLLECTION)
+      .updateOne({ _id: alarm._id }, { $set: { status: 'acknowledged' } });
+
+    const result = await service.processEscalation({
+      alarmId: alarm._id!.toString(),
+      policyId: policyId.toString(),
+      tierIndex: 0,
+      sequence: 1,
+    });
+
+    expect(result).toEqual({ notified: false, reason: 'alarm acknowledged' });
+    expect(sent).toHaveLength(0);
+  });
+
+  test('should prefer the policy bound to the rule', async () => {
+    await insertPolicy('协议策略', [{ afterMinutes: 10, users: ['duty'] }], ['modbus']);
+    const boundId = await insertPolicy('规则策略', [{ afterMinutes: 1, users: ['owner'] }]);
+    const rule = await db.collection(ALARM_RULE_COLLECTION).insertOne({
+      ...createThresholdRule('温度过高', 'modbus', 'temperature', 0, 80, 'error', 'admin'),
+      escalationPolicyId: boundId.toString(),
+    });
+
+    const policy = await service.scheduleEscalation(await insertAlarm(rule.insertedId.toString()));
+
+    expect(policy?.name).toBe('规则策略');
+    expect(jobs.map((job) => job.options?.delay)).toEqual([60_000]);
+  });
+});
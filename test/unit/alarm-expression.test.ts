@@ -0,0 +1,77 @@
+/**
+ * 自定义告警表达式单元测试
+ *
+ * 测试覆盖:
+ * - 语法白名单 (禁止赋值、函数定义、多语句、非白名单函数)
+ * - 数据点引用收集 (直接变量和 value("..."))
+ * - 求值结果和缺失数据点处理
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  compileAlarmExpression,
+  evaluateAlarmExpression,
+  validateAlarmExpression,
+} from '../../src/utils/alarm-expression';
+
+describe('validateAlarmExpression', () => {
+  test('should accept comparisons, logic and whitelisted functions', () => {
+    expect(validateAlarmExpression('Ia > 50 and (Ua < 200 or Ub < 200)').valid).toBe(true);
+    expect(validateAlarmExpression('abs(Ia - Ib) > 10 ? 1 : 0').valid).toBe(true);
+    expect(validateAlarmExpression('equalText(value("运行状态"), "停机")').valid).toBe(true);
+  });
+
+  test('should reject empty and malformed expressions', () => {
+    expect(validateAlarmExpression('').valid).toBe(false);
+
+    const result = validateAlarmExpression('Ia > ');
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('语法错误');
+  });
+
+  test('should reject assignments, definitions and multiple statements', () => {
+    expect(validateAlarmExpression('Ia = 1').valid).toBe(false);
+    expect(validateAlarmExpression('f(x) = x').valid).toBe(false);
+    expect(validateAlarmExpression('Ia > 1; Ib > 1').valid).toBe(false);
+    expect(validateAlarmExpression('a.b > 1').valid).toBe(false);
+    expect(validateAlarmExpression('{a: 1}').valid).toBe(false);
+  });
+
+  test('should reject functions outside the whitelist', () => {
+    const result = validateAlarmExpression('import({}) > 0');
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('不允许调用函数');
+
+    expect(validateAlarmExpression('evaluate("1") > 0').valid).toBe(false);
+    expect(validateAlarmExpression('value(name) > 0').valid).toBe(false);
+  });
+});
+
+describe('evaluateAlarmExpression', () => {
+  test('should collect referenced data points', () => {
+    const expression = compileAlarmExpression('max(Ia, Ib) > 50 and value("温度") > pi');
+
+    expect(expression.symbols).toEqual(['Ia', 'Ib']);
+    expect(expression.quotedSymbols).toEqual(['温度']);
+  });
+
+  test('should evaluate against data point values', () => {
+    const expression = compileAlarmExpression('Ia > 50 and equalText(value("状态"), "停机")');
+
+    expect(evaluateAlarmExpression(expression, new Map<string, number | string>([['Ia', 60], ['状态', '停机']]))).toBe(true);
+    expect(evaluateAlarmExpression(expression, new Map<string, number | string>([['Ia', 60], ['状态', '运行']]))).toBe(false);
+  });
+
+  test('should treat non-zero numeric results as triggered', () => {
+    const expression = compileAlarmExpression('bitAnd(status, 4)');
+
+    expect(evaluateAlarmExpression(expression, new Map([['status', 6]]))).toBe(true);
+    expect(evaluateAlarmExpression(expression, new Map([['status', 3]]))).toBe(false);
+  });
+
+  test('should return null when a referenced data point is missing', () => {
+    const expression = compileAlarmExpression('Ia > 50 or value("温度") > 30');
+
+    expect(evaluateAlarmExpression(expression, new Map([['Ia', 60]]))).toBeNull();
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * AlarmRuleEngineService 单元测试
+ *
+ * 测试覆盖:
+ * - 查询结果转换为 ParsedData (toParsedData)
+ * - 阈值/常量/范围/自定义规则评估
+ * - 离线/超时事件规则评估
+ * - 条件清除后自动恢复 (回差、恢复延迟)
+ * - 告警持久化和规则触发统计
+ * - 去重后仍报告告警参数
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { AlarmRuleEngineService } from '../../src/services/alarm-rule-engine.service';
+import {
+  ALARM_COLLECTION,
+  ALARM_RULE_COLLECTION,
+  createThresholdRule,
+  createConstantRule,
+  createAlarmRule,
+} from '../../src/entities/mongodb';
+import { toParsedData } from '../../src/utils/data-parsing.utils';
+import { createMockDb, type MockDb } from '../helpers/mock-db';
+
+const MAC = 'AA:BB:CC:DD:EE:01';
+const PID = 1;
+
+describe('toParsedData', () => {
+  test('should prefer parseValue and convert numeric strings', () => {
+    const data = toParsedData(MAC, PID, 'modbus', [
+      { name: 'Ia', value: '512', parseValue: '51.2' },
+      { name: 'state', value: '1', parseValue: '运行' },
+    ]);
+
+    expect(data.mac).toBe(MAC);
+    expect(data.dataPoints[0]).toEqual({ name: 'Ia', value: 51.2, unit: undefined, isValid: true });
+    expect(data.dataPoints[1]!.value).toBe('运行');
+  });
+
+  test('should mark empty values as invalid', () => {
+    const data = toParsedData(MAC, PID, 'modbus', [{ name: 'Ia', value: '', parseValue: '' }]);
+
+    expect(data.dataPoints[0]!.isValid).toBe(false);
+  });
+});
+
+describe('AlarmRuleEngineService', () => {
+  let db: MockDb;
+  let engine: AlarmRuleEngineService;
+
+  beforeEach(async () => {
+    db = createMockDb();
+    engine = new AlarmRuleEngineService(db.asDb());
+    await engine.addRule(createThresholdRule('温度过高', 'modbus', 'temperature', 0, 80, 'error', 'admin'));
+    await engine.addRule(createConstantRule('运行状态', 'modbus', 'state', ['1'], 'warning', 'admin'));
+  });
+
+  test('should trigger and persist threshold alarm', async () => {
+    const result = await engine.evaluateData(
+      toParsedData(MAC, PID, 'modbus', [
+        { name: 'temperature', value: '85.5', parseValue: '85.5' },
+        { name: 'state', value: '1', parseValue: '1' },
+      ])
+    );
+
+    expect(result.triggered).toBe(true);
+    expect(result.alarms).toHaveLength(1);
+    expect(result.alarms[0]!.tag).toBe('Threshold');
+    expect(result.alarms[0]!._id).toBeDefined();
+    expect(result.alarmParams).toEqual(['temperature']);
+    expect(db.collection(ALARM_COLLECTION).docs).toHaveLength(1);
+
+    const rule = db.collection(ALARM_RULE_COLLECTION).docs.find((r) => r.name === '温度过高');
+    expect(rule?.triggerCount).toBe(1);
+    expect(rule?.lastTriggeredAt).toBeInstanceOf(Date);
+  });
+
+  test('should trigger constant alarm for abnormal state', async () => {
+    const result = await engine.evaluateData(
+      toParsedData(MAC, PID, 'modbus', [{ name: 'state', value: '0', parseValue: '0' }])
+    );
+
+    expect(result.alarms[0]!.tag).toBe('AlarmStat');
+  });
+
+  test('should ignore data from other protocols', async () => {
+    const result = await engine.evaluateData(
+      toParsedData(MAC, PID, 'other', [{ name: 'temperature', value: '99', parseValue: '99' }])
+    );
+
+    expect(result.triggered).toBe(false);
+    expect(result.alarmParams).toEqual([]);
+  });
+
+  test('should keep reporting alarm params while deduplicated', async () => {
+    const data = toParsedData(MAC, PID, 'modbus', [
+      { name: 'temperature', value: '90', parseValue: '90' },
+    ]);
+
+    await engine.evaluateData(data);
+    const second = await engine.evaluateData(data);
+
+    expect(second.triggered).toBe(false);
+    expect(second.alarms).toHaveLength(0);
+    expect(second.alarmParams).toEqual(['temperature']);
+    expect(db.collection(ALARM_COLLECTION).docs).toHaveLength(1);
+  });
+
+  test('should trigger custom expression rule', async () => {
+    await engine.addRule(
+      createAlarmRule({
+        name: '三相不平衡',
+        type: 'custom',
+        level: 'warning',
+        protocol: 'modbus',
+        customScript: 'abs(Ia - Ib) > 10 and value("状态") == 1',
+        createdBy: 'admin',
+      })
+    );
+
+    const normal = await engine.evaluateData(
+      toParsedData(MAC, PID, 'modbus', [
+        { name: 'Ia', value: '50', parseValue: '50' },
+        { name: 'Ib', value: '45', parseValue: '45' },
+        { name: '状态', value: '1', parseValue: '1' },
+      ])
+    );
+    expect(normal.triggered).toBe(false);
+
+    const result = await engine.evaluateData(
+      toParsedData(MAC, PID, 'modbus', [
+        { name: 'Ia', value: '60', parseValue: '60' },
+        { name: 'Ib', value: '45', parseValue: '45' },
+        { name: '状态', value: '1', parseValue: '1' },
+      ])
+    );
+
+    expect(result.alarms).toHaveLength(1);
+    expect(result.alarms[0]!.tag).toBe('custom');
+    expect(result.alarms[0]!.paramName).toBe('Ia');
+    expect(result.alarms[0]!.msg).toContain('Ia = 60');
+  });
+
+  test('should trigger range rule with numeric and text operators', async () => {
+    await engine.addRule(
+      createAlarmRule({
+        name: '频率偏低',
+        type: 'range',
+        level: 'warning',
+        protocol: 'modbus',
+        paramName: 'freq',
+        range: { operator: '<', value: 49.5 },
+        createdBy: 'admin',
+      })
+    );
+    await engine.addRule(
+      createAlarmRule({
+        name: '停机',
+        type: 'range',
+        level: 'info',
+        protocol: 'modbus',
+        paramName: 'mode',
+        range: { operator: '==', value: '停机' },
+        createdBy: 'admin',
+      })
+    );
+
+    const result = await engine.evaluateData(
+      toParsedData(MAC, PID, 'modbus', [
+        { name: 'freq', value: '49.2', parseValue: '49.2' },
+        { name: 'mode', value: '0', parseValue: '停机' },
+      ])
+    );
+
+    expect(result.alarms.map((alarm) => alarm.paramName).sort()).toEqual(['freq', 'mode']);
+    expect(result.alarms.every((alarm) => alarm.type === 'range')).toBe(true);
+  });
+
+  test('should trigger offline and timeout rules only from matching events', async () => {
+    await engine.addRule(
+      createAlarmRule({ name: '设备离线', type: 'offline', level: 'error', protocol: 'modbus', createdBy: 'admin' })
+    );
+    await engine.addRule(
+      createAlarmRule({ name: '指令超时', type: 'timeout', level: 'warning', pid: '1', createdBy: 'admin' })
+    );
+
+    const offline = await engine.evaluateEvent({ type: 'offline', mac: MAC, pid: PID, protocol: 'modbus', msg: '终端离线' });
+    expect(offline.alarms).toHaveLength(1);
+    expect(offline.alarms[0]!.tag).toBe('offline');
+    expect(offline.alarms[0]!.msg).toBe('设备离线: 终端离线');
+
+    const otherProtocol = await engine.evaluateEvent({ type: 'offline', mac: MAC, pid: 2, protocol: 'other', msg: '终端离线' });
+    expect(otherProtocol.triggered).toBe(false);
+
+    const timeout = await engine.evaluateEvent({ type: 'timeout', mac: MAC, pid: PID, msg: '设备指令超时' });
+    expect(timeout.alarms[0]!.tag).toBe('timeout');
+
+    // 去重窗口内不重复触发
+    const repeated = await engine.evaluateEvent({ type: 'timeout', mac: MAC, pid: PID, msg: '设备指令超时' });
+    expect(repeated.triggered).toBe(false);
+    expect(db.collection(ALARM_COLLECTION).docs).toHaveLength(2);
+  });
+
+  test('should auto resolve alarm when condition clears', async () => {
+    const hot = toParsedData(MAC, PID, 'modbus', [{ name: 'temperature', value: '90', parseValue: '90' }]);
+    const normal = toParsedData(MAC, PID, 'modbus', [{ name: 'temperature', value: '25', parseValue: '25' }]);
+
+    await engine.evaluateData(hot);
+    const result = await engine.evaluateData(normal);
+
+    expect(result.resolved).toHaveLength(1);
+    expect(result.resolved[0]!.notifyRecovery).toBe(false);
+    expect(result.resolved[0]!.alarm.resolutionNote).toBe('temperature 已恢复正常 (当前值: 25)');
+
+    const stored = db.collection(ALARM_COLLECTION).docs[0]!;
+    expect(stored.status).toBe('auto_resolved');
+    expect(stored.autoResolved).toBe(true);
+
+    // 恢复后重置去重，条件再次成立立即告警
+    const again = await engine.evaluateData(hot);
+    expect(again.triggered).toBe(true);
+  });
+
+  test('should respect hysteresis and clear delay', async () => {
+    const rule = createThresholdRule('电压', 'modbus', 'voltage', 200, 240, 'warning', 'admin');
+    const ruleId = await engine.addRule({ ...rule, hysteresis: 5, clearDelay: 60, notifyRecovery: true });
+    const voltage = (value: string) =>
+      toParsedData(MAC, PID, 'modbus', [{ name: 'voltage', value, parseValue: value }]);
+
+    await engine.evaluateData(voltage('245'));
+
+    // 回差范围内不恢复
+    expect((await engine.evaluateData(voltage('238'))).resolved).toHaveLength(0);
+
+    // 条件清除但未达到恢复延迟
+    expect((await engine.evaluateData(voltage('230'))).resolved).toHaveLength(0);
+
+    const realNow = Date.now;
+    Date.now = () => realNow() + 61_000;
+    try {
+      const result = await engine.evaluateData(voltage('230'));
+      expect(result.resolved).toHaveLength(1);
+      expect(result.resolved[0]!.notifyRecovery).toBe(true);
+      expect(result.resolved[0]!.alarm.parentId).toBe(ruleId.toString());
+    } finally {
+      Date.now = realNow;
+    }
+  });
+
+  test('should resolve offline alarm when device data arrives', async () => {
+    await engine.addRule(
+      createAlarmRule({ name: '设备离线', type: 'offline', level: 'error', createdBy: 'admin' })
+    );
+    await engine.evaluateEvent({ type: 'offline', mac: MAC, pid: PID, protocol: 'modbus', msg: '终端离线' });
+
+    const result = await engine.evaluateData(
+      toParsedData(MAC, PID, 'modbus', [{ name: 'state', value: '1', parseValue: '1' }])
+    );
+
+    expect(result.resolved.map((r) => r.alarm.tag)).toEqual(['offline']);
+    expect(result.resolved[0]!.alarm.resolutionNote).toBe('设备离线: 设备已恢复通信');
+  });
+});
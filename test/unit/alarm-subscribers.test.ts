@@ -0,0 +1,163 @@
+/**
+ * 告警通知接收人解析单元测试
+ *
+ * 测试覆盖:
+ * - 协议订阅与设备绑定取交集 (绑定记录、devices 列表、终端 bindUsers、老系统 user.binddevices)
+ * - 管理员角色和停用账户不视为设备所有者
+ * - 挂载设备授权范围和过期绑定
+ * - 用户告警级别过滤
+ * - 设备/挂载设备静音及静音过期
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { ObjectId } from 'mongodb';
+import { AlarmNotificationService, type NotificationJob } from '../../src/services/alarm-notification.service';
+import type { QueueService } from '../../src/services/queue/queue.interface';
+import {
+  TERMINAL_COLLECTION,
+  USER_ALARM_SETUP_COLLECTION,
+  USER_BIND_DEVICE_COLLECTION,
+  USER_COLLECTION,
+  DevicePermissionLevel,
+  UserRole,
+  createAlarm,
+  createUserAlarmSetup,
+  createUserBindDevice,
+  type AlarmLevel,
+  type UserAlarmSetupDocument,
+} from '../../src/entities/mongodb';
+import { createMockDb, type MockDb } from '../helpers/mock-db';
+
+const MAC = 'AABBCCDDEE01';
+const PROTOCOL = 'modbus';
+
+/**
+ * 记录入队通知的队列
+ */
+function createFakeQueue(jobs: NotificationJob[]): QueueService {
+  return {
+    addJob: async (_queueName: string, jobName: string, data: any) => {
+      jobs.push(data);
+      return { id: String(jobs.length), name: jobName, data, attempts: 0, maxAttempts: 3, createdAt: new Date() } as any;
+    },
+    registerProcessor: () => {},
+    getQueueStats: () => ({ pending: 0, processing: 0, completed: 0, failed: 0 }),
+    cleanup: async () => {},
+    getQueueNames: async () => [],
+    getDeadLetterJobs: async () => ({ jobs: [], total: 0 }),
+    replayDeadLetterJob: async () => false,
+    purgeDeadLetterJobs: async () => 0,
+    close: async () => {},
+  };
+}
+
+describe('AlarmNotificationService 接收人解析', () => {
+  let db: MockDb;
+  let jobs: NotificationJob[];
+  let service: AlarmNotificationService;
+
+  const addSetup = async (user: string, extra: Partial<UserAlarmSetupDocument> = {}) => {
+    await db.collection(USER_ALARM_SETUP_COLLECTION).insertOne({
+      ...createUserAlarmSetup(user),
+      ProtocolSetup: [{ Protocol: PROTOCOL }],
+      mails: [`${user}@example.com`],
+      ...extra,
+    });
+  };
+
+  const addUser = async (username: string, extra: Record<string, any> = {}): Promise<ObjectId> => {
+    const result = await db.collection(USER_COLLECTION).insertOne({
+      username,
+      role: UserRole.USER,
+      isActive: true,
+      devices: [],
+      ...extra,
+    });
+    return result.insertedId;
+  };
+
+  const notify = async (pid = 1, level: AlarmLevel = 'warning') => {
+    jobs.length = 0;
+    await service.sendAlarmNotification({
+      ...createAlarm({
+        type: 'threshold',
+        level,
+        tag: 'Threshold',
+        mac: MAC,
+        pid,
+        protocol: PROTOCOL,
+        msg: '温度过高',
+        timeStamp: Date.now(),
+        triggeredAt: new Date(),
+      }),
+      _id: new ObjectId(),
+    });
+    return jobs.map((job) => job.userId).sort();
+  };
+
+  beforeEach(() => {
+    db = createMockDb();
+    jobs = [];
+    service = new AlarmNotificationService(db.asDb(), createFakeQueue(jobs));
+  });
+
+  test('只通知绑定了该设备的协议订阅用户', async () => {
+    for (const user of ['binding', 'devices', 'bind-users', 'legacy', 'other', 'admin', 'inactive']) {
+      await addSetup(user);
+    }
+
+    const bindingId = await addUser('binding');
+    await db
+      .collection(USER_BIND_DEVICE_COLLECTION)
+      .insertOne(createUserBindDevice({ userId: bindingId, deviceMac: MAC }));
+    await addUser('devices', { devices: [MAC.toLowerCase()] });
+    const bindUserId = await addUser('bind-users');
+    await db.collection(TERMINAL_COLLECTION).insertOne({ DevMac: MAC, bindUsers: [bindUserId.toHexString()] });
+    await db.collection('user.binddevices').insertOne({ user: 'legacy', UTs: [MAC] });
+    await addUser('other', { devices: ['AABBCCDDEE02'] });
+    await addUser('admin', { role: UserRole.ADMIN });
+    await addUser('inactive', { devices: [MAC], isActive: false });
+
+    expect(await notify()).toEqual(['bind-users', 'binding', 'devices', 'legacy']);
+  });
+
+  test('绑定记录限定挂载设备范围，过期绑定优先于 devices 列表', async () => {
+    await addSetup('partial');
+    await addSetup('expired');
+
+    const partialId = await addUser('partial');
+    await db.collection(USER_BIND_DEVICE_COLLECTION).insertOne(
+      createUserBindDevice({ userId: partialId, deviceMac: MAC, pids: [2], permissionLevel: DevicePermissionLevel.READ })
+    );
+    const expiredId = await addUser('expired', { devices: [MAC] });
+    await db.collection(USER_BIND_DEVICE_COLLECTION).insertOne(
+      createUserBindDevice({ userId: expiredId, deviceMac: MAC, expiresAt: new Date(Date.now() - 1000) })
+    );
+
+    expect(await notify(1)).toEqual([]);
+    expect(await notify(2)).toEqual(['partial']);
+  });
+
+  test('按用户设置的告警级别过滤，未设置时接收全部级别', async () => {
+    await addSetup('critical-only', { alarmLevels: ['critical'] });
+    await addSetup('all');
+    await addUser('critical-only', { devices: [MAC] });
+    await addUser('all', { devices: [MAC] });
+
+    expect(await notify(1, 'warning')).toEqual(['all']);
+    expect(await notify(1, 'critical')).toEqual(['all', 'critical-only']);
+  });
+
+  test('静音整个终端或指定挂载设备，过期的静音不生效', async () => {
+    const createdAt = new Date();
+    await addSetup('terminal-muted', { mutes: [{ mac: MAC.toLowerCase(), createdAt }] });
+    await addSetup('pid-muted', { mutes: [{ mac: MAC, pid: 1, createdAt }] });
+    await addSetup('mute-expired', { mutes: [{ mac: MAC, until: new Date(Date.now() - 1000), createdAt }] });
+    for (const user of ['terminal-muted', 'pid-muted', 'mute-expired']) {
+      await addUser(user, { devices: [MAC] });
+    }
+
+    expect(await notify(1)).toEqual(['mute-expired']);
+    expect(await notify(2)).toEqual(['mute-expired', 'pid-muted']);
+  });
+});
@@ -5,6 +5,9 @@
  * - RS232 协议解析
  * - RS485/Modbus 协议解析
  * - 数据类型转换 (bit2, utf8, hex/short, float)
+ * - 非标协议 scriptEnd 响应校验/提取
+ * - 从协议文档加载解析配置 (server 解析模式)
+ * - 定宽寄存器类型与字节序 (int16/uint16/int32/uint32/float/double × ABCD/CDAB/BADC/DCBA)
  * - CRC16、IEEE 754 工具函数
  */
 
@@ -21,7 +24,85 @@ import {
   singleToHex,
   parseCoefficient,
   value2BytesInt16,
+  parseStateUnit,
+  toBigEndian,
+  readRegisterValue,
 } from '../../src/utils/data-parsing.utils';
+import { runResponseScript } from '../../src/services/parsers/response-script';
+import type { RegisterByteOrder, RegisterDataType } from '../../src/services/data-parsing.types';
+import type { Protocol } from '../../src/services/protocol.service';
+
+/**
+ * 定宽寄存器字节序样例: 同一数值在 4 种字节序下的原始字节
+ */
+const REGISTER_FIXTURES: Array<{
+  dataType: RegisterDataType;
+  value: number;
+  bytes: Record<RegisterByteOrder, number[]>;
+}> = [
+  {
+    dataType: 'int16',
+    value: -1234,
+    bytes: {
+      ABCD: [0xfb, 0x2e],
+      CDAB: [0xfb, 0x2e],
+      BADC: [0x2e, 0xfb],
+      DCBA: [0x2e, 0xfb],
+    },
+  },
+  {
+    dataType: 'uint16',
+    value: 54321,
+    bytes: {
+      ABCD: [0xd4, 0x31],
+      CDAB: [0xd4, 0x31],
+      BADC: [0x31, 0xd4],
+      DCBA: [0x31, 0xd4],
+    },
+  },
+  {
+    dataType: 'int32',
+    value: -123456789,
+    bytes: {
+      ABCD: [0xf8, 0xa4, 0x32, 0xeb],
+      CDAB: [0x32, 0xeb, 0xf8, 0xa4],
+      BADC: [0xa4, 0xf8, 0xeb, 0x32],
+      DCBA: [0xeb, 0x32, 0xa4, 0xf8],
+    },
+  },
+  {
+    dataType: 'uint32',
+    value: 3000000000,
+    bytes: {
+      ABCD: [0xb2, 0xd0, 0x5e, 0x00],
+      CDAB: [0x5e, 0x00, 0xb2, 0xd0],
+      BADC: [0xd0, 0xb2, 0x00, 0x5e],
+      DCBA: [0x00, 0x5e, 0xd0, 0xb2],
+    },
+  },
+  {
+    dataType: 'float',
+    value: -12.5,
+    bytes: {
+      ABCD: [0xc1, 0x48, 0x00, 0x00],
+      CDAB: [0x00, 0x00, 0xc1, 0x48],
+      BADC: [0x48, 0xc1, 0x00, 0x00],
+      DCBA: [0x00, 0x00, 0x48, 0xc1],
+    },
+  },
+  {
+    dataType: 'double',
+    value: 1234.5678,
+    bytes: {
+      ABCD: [0x40, 0x93, 0x4a, 0x45, 0x6d, 0x5c, 0xfa, 0xad],
+      CDAB: [0xfa, 0xad, 0x6d, 0x5c, 0x4a, 0x45, 0x40, 0x93],
+      BADC: [0x93, 0x40, 0x45, 0x4a, 0x5c, 0x6d, 0xad, 0xfa],
+      DCBA: [0xad, 0xfa, 0x5c, 0x6d, 0x45, 0x4a, 0x93, 0x40],
+    },
+  },
+];
+
+const BYTE_ORDERS: RegisterByteOrder[] = ['ABCD', 'CDAB', 'BADC', 'DCBA'];
 
 describe('Data Parsing Utils', () => {
   describe('CRC16 Modbus', () => {
@@ -118,6 +199,59 @@ describe('Data Parsing Utils', () => {
       expect(bytes[1]).toBe(0x18);
     });
   });
+
+  describe('State Unit Parsing', () => {
+    it('should parse legacy state units', () => {
+      expect(parseStateUnit('{0:关机|1:开机}')).toEqual(
+        new Map([
+          ['0', '关机'],
+          ['1', '开机'],
+        ])
+      );
+      expect(parseStateUnit(' {0: 正常 | 1: 告警} ')?.get('1')).toBe('告警');
+    });
+
+    it('should ignore plain units', () => {
+      expect(parseStateUnit('V')).toBeNull();
+      expect(parseStateUnit('{}')).toBeNull();
+    });
+  });
+
+  describe('Register Byte Order', () => {
+    for (const { dataType, value, bytes } of REGISTER_FIXTURES) {
+      for (const byteOrder of BYTE_ORDERS) {
+        it(`should read ${dataType} in ${byteOrder} order`, () => {
+          expect([...toBigEndian(Buffer.from(bytes[byteOrder]), byteOrder)]).toEqual(bytes.ABCD);
+          expect(readRegisterValue(Buffer.from(bytes[byteOrder]), 0, dataType, byteOrder)).toBe(value);
+        });
+      }
+    }
+
+    it('should read at offset and reject short buffers', () => {
+      const buffer = Buffer.from([0xff, 0x00, 0x00, 0xc1, 0x48]);
+
+      expect(readRegisterValue(buffer, 1, 'float', 'CDAB')).toBe(-12.5);
+      expect(readRegisterValue(buffer, 2, 'int32')).toBeUndefined();
+      expect(readRegisterValue(buffer, -1, 'int16')).toBeUndefined();
+    });
+
+    it('should not modify the source buffer', () => {
+      const buffer = Buffer.from([0x01, 0x02, 0x03, 0x04]);
+
+      toBigEndian(buffer, 'DCBA');
+
+      expect([...buffer]).toEqual([0x01, 0x02, 0x03, 0x04]);
+    });
+
+    it('should keep the trailing byte of odd-length buffers', () => {
+      const buffer = Buffer.from([0x01, 0x02, 0x03, 0x04, 0x05]);
+
+      expect([...toBigEndian(buffer, 'CDAB')]).toEqual([0x03, 0x04, 0x01, 0x02, 0x05]);
+      expect([...toBigEndian(buffer, 'BADC')]).toEqual([0x02, 0x01, 0x04, 0x03, 0x05]);
+      expect([...toBigEndian(buffer, 'DCBA')]).toEqual([0x04, 0x03, 0x02, 0x01, 0x05]);
+      expect([...toBigEndian(Buffer.from([0x01, 0x02, 0x03]), 'DCBA')]).toEqual([0x02, 0x01, 0x03]);
+    });
+  });
 });
 
 describe('Data Parsing Service', () => {
@@ -262,6 +396,34 @@ describe('Data Parsing Service', () => {
       expect(result[0].parseValue).toBe('50.0');
     });
 
+    it('should use per-call instruct names when protocols share instruct content', async () => {
+      const instruct = (name: string, field: string): ProtocolInstruct => ({
+        name,
+        resultType: 'hex',
+        formResize: [{ name: field, regx: '1-2', unit: 'V', isState: false, bl: '0.1' }],
+      });
+      service.setProtocolInstruct('proto_a', new Map([['A_READ', instruct('A_READ', 'voltage_a')]]));
+      service.setProtocolInstruct('proto_b', new Map([['B_READ', instruct('B_READ', 'voltage_b')]]));
+
+      const queryResult = (protocol: string): QueryResult => ({
+        mac: 'AA:BB:CC:DD:EE:FF',
+        pid: 1,
+        protocol,
+        type: 485,
+        contents: [{ content: '010300010001', buffer: { data: [0x01, 0x03, 0x02, 0x01, 0xf4, 0x00, 0x00] } }],
+        useTime: 100,
+      });
+
+      // 两个协议生成相同的指令内容，并发解析互不覆盖
+      const [a, b] = await Promise.all([
+        service.parse(queryResult('proto_a'), new Map([['010300010001', 'A_READ']])),
+        service.parse(queryResult('proto_b'), new Map([['010300010001', 'B_READ']])),
+      ]);
+
+      expect(a.map((item) => item.name)).toEqual(['voltage_a']);
+      expect(b.map((item) => item.name)).toEqual(['voltage_b']);
+    });
+
     it('should parse Modbus float data', async () => {
       const protocol: ProtocolInstruct = {
         name: 'READ_FLOAT',
@@ -594,6 +756,299 @@ describe('Data Parsing Service', () => {
     });
   });
 
+  describe('Register Data Types and Byte Order', () => {
+    /**
+     * 构造单条指令的 Modbus 响应 (PID=1, FC=03, CRC 占位)
+     */
+    const parseRegisters = async (protocol: ProtocolInstruct, data: number[]) => {
+      const instructMap = new Map<string, ProtocolInstruct>();
+      instructMap.set(protocol.name, protocol);
+
+      service.setProtocolInstruct('test_registers', instructMap);
+      service.setContentToName('010300000004', protocol.name);
+
+      return service.parse({
+        mac: 'AA:BB:CC:DD:EE:FF',
+        pid: 1,
+        protocol: 'test_registers',
+        type: 485,
+        contents: [
+          {
+            content: '010300000004',
+            buffer: { data: [0x01, 0x03, data.length, ...data, 0x00, 0x00] },
+          },
+        ],
+        useTime: 100,
+      });
+    };
+
+    for (const { dataType, value, bytes } of REGISTER_FIXTURES) {
+      for (const byteOrder of BYTE_ORDERS) {
+        it(`should parse ${dataType} instruct in ${byteOrder} order`, async () => {
+          const result = await parseRegisters(
+            {
+              name: `READ_${dataType}_${byteOrder}`,
+              resultType: dataType,
+              byteOrder,
+              // float 指令沿用 regx 宽度，其余定宽类型只需起始位置
+              formResize: [{ name: 'value', regx: dataType === 'float' ? '1-4' : '1', isState: false }],
+            },
+            bytes[byteOrder]
+          );
+
+          const expected =
+            dataType === 'float' || dataType === 'double' ? value.toFixed(2) : value.toString();
+          expect(result[0]!.parseValue).toBe(expected);
+        });
+      }
+    }
+
+    it('should let data points override type and byte order', async () => {
+      // 同一条指令: 老式 hex 电压 + 小端 uint32 电能 + 字交换 float 功率
+      const result = await parseRegisters(
+        {
+          name: 'READ_MIXED',
+          resultType: 'hex',
+          formResize: [
+            { name: 'voltage', regx: '1-2', isState: false, bl: '0.1' },
+            { name: 'energy', regx: '3', isState: false, dataType: 'uint32', byteOrder: 'DCBA', bl: '0.01' },
+            { name: 'power', regx: '7', isState: false, dataType: 'float', byteOrder: 'CDAB' },
+          ],
+        },
+        [0x08, 0xfc, 0x00, 0x5e, 0xd0, 0xb2, 0x00, 0x00, 0xc1, 0x48]
+      );
+
+      expect(result.map((r) => r.parseValue)).toEqual(['230.0', '30000000.0', '-12.50']);
+    });
+
+    it('should apply instruct byte order to legacy hex data points', async () => {
+      const result = await parseRegisters(
+        {
+          name: 'READ_HEX_SWAPPED',
+          resultType: 'hex',
+          byteOrder: 'BADC',
+          formResize: [{ name: 'current', regx: '1-2', isState: false, bl: '0.1' }],
+        },
+        [0xf4, 0x01]
+      );
+
+      expect(result[0]!.parseValue).toBe('50.0');
+    });
+
+    it('should return undefined when data is shorter than the type width', async () => {
+      const result = await parseRegisters(
+        {
+          name: 'READ_SHORT_INT32',
+          resultType: 'int32',
+          formResize: [{ name: 'counter', regx: '1', isState: false }],
+        },
+        [0x00, 0x01]
+      );
+
+      expect(result[0]!.value).toBeUndefined();
+      expect(result[0]!.parseValue).toBe('');
+    });
+  });
+
+  describe('Non-standard Protocol Parsing', () => {
+    /**
+     * 厂商 UPS 协议: 查询 "Q1"，响应 "(" 开头、"\r" 结尾
+     */
+    const setupProtocol = (instruct: Partial<ProtocolInstruct>) => {
+      const instructMap = new Map<string, ProtocolInstruct>();
+      instructMap.set('Q1', {
+        name: 'Q1',
+        noStandard: true,
+        resultType: 'hex',
+        formResize: [
+          { name: 'voltage', regx: '1-2', isState: false, bl: '0.1' },
+          { name: 'load', regx: '3-1', isState: false },
+        ],
+        ...instruct,
+      });
+
+      service.setProtocolInstruct('vendor_ups', instructMap);
+      service.setContentToName('5131', 'Q1');
+    };
+
+    const parseResponse = (data: number[]) =>
+      service.parse({
+        mac: 'AA:BB:CC:DD:EE:FF',
+        pid: 0,
+        protocol: 'vendor_ups',
+        type: 485,
+        contents: [{ content: '5131', buffer: { data } }],
+        useTime: 100,
+      });
+
+    // ( 08FC 2D \r
+    const frame = [0x28, 0x08, 0xfc, 0x2d, 0x0d];
+
+    it('should use data extracted by scriptEnd', async () => {
+      setupProtocol({
+        scriptEnd: "if (arr[0] !== 0x28 || arr[arr.length - 1] !== 0x0d) return false; return arr.slice(1, -1);",
+      });
+
+      const result = await parseResponse(frame);
+
+      expect(result.map((r) => r.parseValue)).toEqual(['230.0', '45']);
+    });
+
+    it('should apply shift/pop when scriptEnd only validates', async () => {
+      setupProtocol({
+        scriptEnd: "return content === '5131' && arr[0] === 0x28;",
+        shift: true,
+        shiftNum: 1,
+        pop: true,
+        popNum: 1,
+      });
+
+      const result = await parseResponse(frame);
+
+      expect(result.map((r) => r.parseValue)).toEqual(['230.0', '45']);
+    });
+
+    it('should drop responses rejected by scriptEnd', async () => {
+      setupProtocol({ scriptEnd: 'return arr[0] === 0x28;' });
+
+      expect(await parseResponse([0x15, 0x00, 0x00, 0x00, 0x0d])).toHaveLength(0);
+    });
+
+    it('should fall back to the protocol level scriptEnd', async () => {
+      setupProtocol({});
+      service.setProtocolScript('vendor_ups', 'return arr.slice(1, -1);');
+
+      const result = await parseResponse(frame);
+
+      expect(result.map((r) => r.parseValue)).toEqual(['230.0', '45']);
+    });
+
+    it('should drop non-standard responses without scriptEnd', async () => {
+      setupProtocol({});
+
+      expect(await parseResponse(frame)).toHaveLength(0);
+    });
+
+    it('should run scriptEnd in an isolated sandbox', async () => {
+      setupProtocol({ scriptEnd: 'return process.exit(1);' });
+      expect(await parseResponse(frame)).toHaveLength(0);
+
+      setupProtocol({ scriptEnd: 'while (true) {}' });
+      expect(await parseResponse(frame)).toHaveLength(0);
+
+      setupProtocol({ scriptEnd: "return ['x', 1];" });
+      expect(await parseResponse(frame)).toHaveLength(0);
+    });
+
+    it('should not expose host constructors to scriptEnd', () => {
+      const escape = (target: string) =>
+        runResponseScript(
+          `return ${target}.constructor.constructor('return process')() ? arr.slice(1, -1) : false;`,
+          '5131',
+          frame
+        );
+
+      for (const target of ['arr', 'this', 'content']) {
+        expect(escape(target)).toMatchObject({ accepted: false, error: expect.stringContaining('process') });
+      }
+    });
+
+    it('should not call methods on values returned by scriptEnd', () => {
+      // 替换返回数组的 map，借宿主回调的 constructor 拿到宿主 process
+      const result = runResponseScript(
+        `const a = [1];
+         a.map = function (f) { f.constructor('return process')().env.SCRIPT_END_ESCAPED = '1'; return [2]; };
+         return a;`,
+        '5131',
+        frame
+      );
+
+      expect(result).toEqual({ accepted: true, data: [1] });
+      expect(process.env.SCRIPT_END_ESCAPED).toBeUndefined();
+
+      // 序列化函数在脚本执行前已取得，脚本内替换 JSON.stringify 不影响返回值
+      expect(
+        runResponseScript('JSON.stringify = () => ({ toString() { return "[1]"; } }); return [3];', '5131', frame)
+      ).toEqual({ accepted: true, data: [3] });
+    });
+  });
+
+  describe('Protocol Loading', () => {
+    // 老系统 device.protocols 文档
+    const protocolDoc = {
+      Type: 485,
+      ProtocolType: 'air',
+      Protocol: 'legacy_air',
+      scriptEnd: 'return arr.slice(1, -1);',
+      instruct: [
+        {
+          name: '0300000002',
+          isUse: true,
+          resultType: 'hex',
+          shift: false,
+          shiftNum: 0,
+          pop: false,
+          popNum: 0,
+          noStandard: false,
+          formResize: [
+            { name: '回风温度', regx: '1-2', bl: '0.1', unit: '℃', isState: false },
+            { name: '运行状态', regx: '3-2', bl: '1', unit: '{0:停机|1:运行}', isState: true },
+          ],
+        },
+        {
+          name: 'VENDOR',
+          isUse: true,
+          resultType: 'hex',
+          shift: false,
+          pop: false,
+          noStandard: true,
+          formResize: [{ name: '湿度', regx: '1-1', bl: '1', unit: '%', isState: false }],
+        },
+      ],
+    } as unknown as Protocol;
+
+    it('should parse frames with instructs and state maps loaded from the protocol', async () => {
+      service.loadProtocol(protocolDoc);
+      service.setContentToName('010300000002c40b', '0300000002');
+
+      const result = await service.parse({
+        mac: 'AA:BB:CC:DD:EE:FF',
+        pid: 1,
+        protocol: 'legacy_air',
+        type: 485,
+        contents: [
+          {
+            content: '010300000002c40b',
+            buffer: { data: [0x01, 0x03, 0x04, 0x00, 0xfa, 0x00, 0x01, 0x00, 0x00] },
+          },
+        ],
+        useTime: 100,
+      });
+
+      expect(service.hasProtocol('legacy_air')).toBe(true);
+      expect(result.map((r) => [r.name, r.parseValue])).toEqual([
+        ['回风温度', '25.0'],
+        ['运行状态', '运行'],
+      ]);
+    });
+
+    it('should use the protocol level scriptEnd for non-standard instructs', async () => {
+      service.loadProtocol(protocolDoc);
+      service.setContentToName('VENDOR', 'VENDOR');
+
+      const result = await service.parse({
+        mac: 'AA:BB:CC:DD:EE:FF',
+        pid: 1,
+        protocol: 'legacy_air',
+        type: 485,
+        contents: [{ content: 'VENDOR', buffer: { data: [0x7e, 0x37, 0x0d] } }],
+        useTime: 100,
+      });
+
+      expect(result.map((r) => r.parseValue)).toEqual(['55']);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle empty instruction results', async () => {
       const queryResult: QueryResult = {
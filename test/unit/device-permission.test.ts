@@ -0,0 +1,220 @@
+/**
+ * 设备权限单元测试
+ * 测试权限级别校验、管理员绕过和路由级 403 响应
+ */
+
+import { describe, test, expect, beforeEach, afterAll, spyOn } from 'bun:test';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { ObjectId } from 'mongodb';
+import { createMockDb, type MockDb } from '../helpers/mock-db';
+import {
+  DevicePermissionService,
+  devicePermissionService,
+} from '../../src/services/device-permission.service';
+import {
+  DevicePermissionLevel,
+  UserRole,
+  USER_BIND_DEVICE_COLLECTION,
+  createUserBindDevice,
+} from '../../src/entities/mongodb';
+import { Controller, Get, Post } from '../../src/decorators/controller';
+import { RequireDevicePermission } from '../../src/decorators/device-permission';
+import { registerControllers } from '../../src/utils/route-loader';
+import '../../src/types';
+
+const { READ, WRITE, ADMIN } = DevicePermissionLevel;
+const MAC = 'AABBCCDDEEFF';
+
+describe('DevicePermissionService', () => {
+  let db: MockDb;
+  let service: DevicePermissionService;
+  const userId = new ObjectId();
+  const user = { _id: userId, role: UserRole.USER, devices: [] as string[] };
+
+  const bind = (
+    permissionLevel: DevicePermissionLevel,
+    isActive = true,
+    grant: { pids?: number[]; expiresAt?: Date } = {}
+  ) =>
+    db.collection(USER_BIND_DEVICE_COLLECTION).insertOne({
+      _id: new ObjectId(),
+      ...createUserBindDevice({ userId, deviceMac: MAC.toLowerCase(), permissionLevel, ...grant }),
+      isActive,
+    });
+
+  beforeEach(() => {
+    db = createMockDb();
+    service = new DevicePermissionService(db.asDb());
+  });
+
+  const matrix: Array<[DevicePermissionLevel, DevicePermissionLevel, boolean]> = [
+    [READ, READ, true],
+    [READ, WRITE, false],
+    [READ, ADMIN, false],
+    [WRITE, READ, true],
+    [WRITE, WRITE, true],
+    [WRITE, ADMIN, false],
+    [ADMIN, READ, true],
+    [ADMIN, WRITE, true],
+    [ADMIN, ADMIN, true],
+  ];
+
+  for (const [level, required, expected] of matrix) {
+    test(`${level} 绑定${expected ? '满足' : '不满足'} ${required}`, async () => {
+      await bind(level);
+      expect(await service.authorize(user, MAC, required)).toBe(expected);
+    });
+  }
+
+  test('未绑定和停用的绑定无权限', async () => {
+    expect(await service.authorize(user, MAC, READ)).toBe(false);
+
+    await bind(ADMIN, false);
+    expect(await service.getPermissionLevel(user, MAC)).toBeNull();
+    expect(await service.authorize(user, MAC, READ)).toBe(false);
+  });
+
+  test('过期授权无权限，且不出现在可访问设备列表中', async () => {
+    await bind(WRITE, true, { expiresAt: new Date(Date.now() - 1000) });
+    expect(await service.authorize(user, MAC, READ)).toBe(false);
+
+    const legacyUser = { ...user, devices: [MAC, 'OTHERMAC0001'] };
+    expect(await service.getAccessibleMacs(legacyUser)).toEqual(['OTHERMAC0001']);
+  });
+
+  test('部分挂载设备授权: 只能操作授权的 PID', async () => {
+    await bind(WRITE, true, { pids: [1, 2], expiresAt: new Date(Date.now() + 60_000) });
+
+    expect(await service.authorize(user, MAC, READ)).toBe(true);
+    expect(await service.authorize(user, MAC, WRITE)).toBe(false);
+    expect(await service.authorize(user, MAC, WRITE, 2)).toBe(true);
+    expect(await service.authorize(user, MAC, READ, 3)).toBe(false);
+    expect(await service.getAccessibleMacs(user)).toEqual([MAC]);
+  });
+
+  test('管理员绕过绑定检查', async () => {
+    const admin = { _id: new ObjectId(), role: UserRole.ADMIN };
+    expect(await service.authorize(admin, MAC, ADMIN)).toBe(true);
+  });
+
+  test('绑定记录优先于老系统 devices 列表', async () => {
+    const legacyUser = { ...user, devices: [MAC.toLowerCase()] };
+    expect(await service.getPermissionLevel(legacyUser, MAC)).toBe(ADMIN);
+
+    await bind(READ);
+    expect(await service.authorize(legacyUser, MAC, WRITE)).toBe(false);
+  });
+
+  test('按用户 ID 检查: 停用用户拒绝，老系统订阅绑定兼容', async () => {
+    await db.collection('users').insertOne({ _id: userId, role: UserRole.USER, isActive: false });
+    await bind(ADMIN);
+    expect(await service.authorizeUserId(userId.toHexString(), MAC, READ)).toBe(false);
+
+    await db.collection('user.terminalBindings').insertOne({ userId: 'legacy-user', mac: MAC });
+    expect(await service.authorizeUserId('legacy-user', MAC, READ)).toBe(true);
+    expect(await service.authorizeUserId('other-user', MAC, READ)).toBe(false);
+  });
+
+  test('按用户 ID 检查: 部分挂载设备授权只能订阅授权的 PID', async () => {
+    await db.collection('users').insertOne({ _id: userId, role: UserRole.USER, isActive: true });
+    await bind(READ, true, { pids: [2] });
+
+    expect(await service.authorizeUserId(userId.toHexString(), MAC, READ, 2)).toBe(true);
+    expect(await service.authorizeUserId(userId.toHexString(), MAC, READ, 1)).toBe(false);
+  });
+});
+
+describe('@RequireDevicePermission', () => {
+  let app: FastifyInstance;
+  const levels: Record<string, DevicePermissionLevel> = {
+    READERMAC0001: READ,
+    WRITERMAC0001: WRITE,
+  };
+  const mockGetAccess = spyOn(devicePermissionService, 'getDeviceAccess');
+
+  @Controller('/api/device-test')
+  class DeviceTestController {
+    @Get('/:mac')
+    @RequireDevicePermission(READ)
+    read() {
+      return { status: 'ok' };
+    }
+
+    @Post('/write')
+    @RequireDevicePermission(WRITE, { source: 'body' })
+    write() {
+      return { status: 'ok' };
+    }
+  }
+
+  beforeEach(async () => {
+    mockGetAccess.mockReset();
+    mockGetAccess.mockImplementation(async (user, mac) => {
+      if (user.role === UserRole.ADMIN) return { level: ADMIN };
+      if (mac === 'PARTIALMAC01') return { level: WRITE, pids: [1] };
+      return levels[mac] ? { level: levels[mac]! } : null;
+    });
+
+    app = Fastify();
+    // 模拟全局认证 hook
+    app.addHook('preHandler', async (request) => {
+      const role = request.headers['x-role'];
+      if (typeof role === 'string') {
+        request.user = { _id: new ObjectId(), role } as any;
+      }
+    });
+    registerControllers(app, [DeviceTestController]);
+    await app.ready();
+  });
+
+  afterAll(() => {
+    mockGetAccess.mockRestore();
+  });
+
+  const request = (method: 'GET' | 'POST', url: string, role?: string, mac?: string, pid?: number) =>
+    app.inject({
+      method,
+      url,
+      headers: role ? { 'x-role': role } : {},
+      payload: method === 'POST' ? { mac, pid } : undefined,
+    });
+
+  test('未认证返回 401', async () => {
+    const response = await request('GET', '/api/device-test/READERMAC0001');
+    expect(response.statusCode).toBe(401);
+  });
+
+  test('缺少 MAC 返回 400', async () => {
+    const response = await request('POST', '/api/device-test/write', 'user');
+    expect(response.statusCode).toBe(400);
+  });
+
+  test('READ 权限可读不可写', async () => {
+    expect((await request('GET', '/api/device-test/READERMAC0001', 'user')).statusCode).toBe(200);
+
+    const response = await request('POST', '/api/device-test/write', 'user', 'READERMAC0001');
+    expect(response.statusCode).toBe(403);
+    expect(JSON.parse(response.body)).toMatchObject({
+      status: 'error',
+      code: 'DEVICE_ACCESS_DENIED',
+      details: { device: 'READERMAC0001', required: WRITE },
+    });
+  });
+
+  test('WRITE 权限可写，未绑定设备 403', async () => {
+    expect((await request('POST', '/api/device-test/write', 'user', 'WRITERMAC0001')).statusCode).toBe(200);
+    expect((await request('GET', '/api/device-test/OTHERMAC0001', 'user')).statusCode).toBe(403);
+  });
+
+  test('部分挂载设备授权按 PID 校验', async () => {
+    expect((await request('GET', '/api/device-test/PARTIALMAC01', 'user')).statusCode).toBe(200);
+    expect((await request('POST', '/api/device-test/write', 'user', 'PARTIALMAC01', 1)).statusCode).toBe(200);
+    expect((await request('POST', '/api/device-test/write', 'user', 'PARTIALMAC01', 2)).statusCode).toBe(403);
+    expect((await request('POST', '/api/device-test/write', 'user', 'PARTIALMAC01')).statusCode).toBe(403);
+  });
+
+  test('管理员访问任意设备', async () => {
+    expect((await request('GET', '/api/device-test/OTHERMAC0001', 'admin')).statusCode).toBe(200);
+    expect((await request('POST', '/api/device-test/write', 'admin', 'OTHERMAC0001')).statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * 设备分享邀请单元测试
+ * 测试邀请创建校验、接受授权、过期和撤销
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { ObjectId } from 'mongodb';
+import { createMockDb, type MockDb } from '../helpers/mock-db';
+import { DeviceShareService } from '../../src/services/device-share.service';
+import { DevicePermissionService } from '../../src/services/device-permission.service';
+import {
+  DevicePermissionLevel,
+  DeviceShareStatus,
+  UserRole,
+  DEVICE_SHARE_COLLECTION,
+  TERMINAL_COLLECTION,
+  USER_BIND_DEVICE_COLLECTION,
+  createUserBindDevice,
+} from '../../src/entities/mongodb';
+
+const { READ, WRITE, ADMIN } = DevicePermissionLevel;
+const MAC = 'AABBCCDDEEFF';
+
+describe('DeviceShareService', () => {
+  let db: MockDb;
+  let service: DeviceShareService;
+  let permissions: DevicePermissionService;
+  const ownerId = new ObjectId();
+  const recipientId = new ObjectId();
+  const recipient = { _id: recipientId, role: UserRole.USER, devices: [] as string[] };
+
+  beforeEach(async () => {
+    db = createMockDb();
+    service = new DeviceShareService(db.asDb());
+    permissions = new DevicePermissionService(db.asDb());
+
+    await db.collection(TERMINAL_COLLECTION).insertOne({
+      DevMac: MAC,
+      mountDevs: [
+        { pid: 1, protocol: 'p1', mountDev: 'd1' },
+        { pid: 2, protocol: 'p2', mountDev: 'd2' },
+      ],
+    });
+  });
+
+  test('创建邀请校验权限级别、过期时间和挂载设备', async () => {
+    const create = (overrides: Record<string, unknown>) =>
+      service.createInvitation({ ownerId, mac: MAC, permissionLevel: READ, ...overrides });
+
+    await expect(create({ permissionLevel: ADMIN })).rejects.toMatchObject({ code: 'INVALID_PERMISSION_LEVEL' });
+    await expect(create({ expiresAt: new Date(Date.now() - 1000) })).rejects.toMatchObject({ code: 'INVALID_EXPIRY' });
+    await expect(create({ pids: [1, 3] })).rejects.toMatchObject({ code: 'MOUNT_DEVICE_NOT_FOUND' });
+    await expect(create({ mac: '001122334455' })).rejects.toMatchObject({ code: 'TERMINAL_NOT_FOUND' });
+
+    const share = await create({ pids: [2, 2] });
+    expect(share.status).toBe(DeviceShareStatus.PENDING);
+    expect(share.pids).toEqual([2]);
+    expect(share.code).toHaveLength(16);
+
+    // 路径中的小写 MAC 按大写匹配终端
+    expect((await create({ mac: MAC.toLowerCase() })).deviceMac).toBe(MAC);
+  });
+
+  test('接受邀请后获得对应权限，邀请只能接受一次', async () => {
+    const expiresAt = new Date(Date.now() + 60_000);
+    const share = await service.createInvitation({ ownerId, mac: MAC, permissionLevel: WRITE, pids: [1], expiresAt });
+
+    await expect(service.acceptInvitation(share.code, ownerId)).rejects.toMatchObject({ code: 'SHARE_SELF_ACCEPT' });
+
+    const binding = await service.acceptInvitation(share.code, recipientId);
+    expect(binding).toMatchObject({ deviceMac: MAC, permissionLevel: WRITE, pids: [1], expiresAt });
+    expect(binding.shareId!.equals(share._id)).toBe(true);
+
+    expect(await permissions.authorize(recipient, MAC, WRITE, 1)).toBe(true);
+    expect(await permissions.authorize(recipient, MAC, WRITE, 2)).toBe(false);
+
+    await expect(service.acceptInvitation(share.code, new ObjectId())).rejects.toMatchObject({
+      code: 'SHARE_ALREADY_ACCEPTED',
+    });
+  });
+
+  test('过期邀请无法接受，过期授权不再生效', async () => {
+    const share = await service.createInvitation({ ownerId, mac: MAC, permissionLevel: READ });
+    await service.acceptInvitation(share.code, recipientId);
+
+    // 模拟到期 (TTL 清理之前)
+    const past = new Date(Date.now() - 1000);
+    await db.collection(USER_BIND_DEVICE_COLLECTION).updateOne({ shareId: share._id }, { $set: { expiresAt: past } });
+    expect(await permissions.authorize(recipient, MAC, READ)).toBe(false);
+
+    const expired = await service.createInvitation({ ownerId, mac: MAC, permissionLevel: READ });
+    await db.collection(DEVICE_SHARE_COLLECTION).updateOne({ _id: expired._id }, { $set: { expiresAt: past } });
+    await expect(service.acceptInvitation(expired.code, new ObjectId())).rejects.toMatchObject({
+      code: 'SHARE_EXPIRED',
+    });
+  });
+
+  test('不覆盖接收者已有的直接绑定', async () => {
+    await db.collection(USER_BIND_DEVICE_COLLECTION).insertOne(
+      createUserBindDevice({ userId: recipientId, deviceMac: MAC, permissionLevel: ADMIN })
+    );
+
+    const share = await service.createInvitation({ ownerId, mac: MAC, permissionLevel: READ });
+    await expect(service.acceptInvitation(share.code, recipientId)).rejects.toMatchObject({
+      code: 'DEVICE_ALREADY_BOUND',
+    });
+    expect(await permissions.getPermissionLevel(recipient, MAC)).toBe(ADMIN);
+  });
+
+  test('撤销邀请删除授权，撤销后无法接受', async () => {
+    const accepted = await service.createInvitation({ ownerId, mac: MAC, permissionLevel: READ });
+    await service.acceptInvitation(accepted.code, recipientId);
+    const pending = await service.createInvitation({ ownerId, mac: MAC, permissionLevel: READ });
+
+    expect(await service.listShares(MAC)).toHaveLength(2);
+
+    expect(await service.revokeShare(MAC, accepted._id)).toBe(1);
+    expect(await permissions.authorize(recipient, MAC, READ)).toBe(false);
+
+    await service.revokeShare(MAC, pending._id);
+    await expect(service.acceptInvitation(pending.code, recipientId)).rejects.toMatchObject({
+      code: 'SHARE_REVOKED',
+    });
+
+    await expect(service.revokeShare('001122334455', pending._id)).rejects.toMatchObject({
+      code: 'SHARE_NOT_FOUND',
+    });
+  });
+});
@@ -18,6 +18,7 @@ class RateLimiter {
     OprateInstruct: 5000,
     setTerminal: 10000,
     getTerminal: 5000,
+    writeParameter: 3000,
   };
 
   checkRateLimit(
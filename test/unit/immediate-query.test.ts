@@ -0,0 +1,143 @@
+/**
+ * 即时查询单元测试
+ * 测试即时查询指令下发、结果等待、并发合并与超时
+ */
+
+import { describe, test, expect, beforeEach, afterAll, spyOn, mock } from 'bun:test';
+import { socketIoService } from '../../src/services/socket-io.service';
+import { terminalService } from '../../src/services/terminal.service';
+import { resultService } from '../../src/services/result.service';
+
+const MAC = 'AABBCCDDEEFF';
+const service = socketIoService as any;
+
+describe('即时查询', () => {
+  const emit = mock((_event: string, _data: any) => {});
+  const socket = { id: 'node-socket', emit };
+
+  const mockGetTerminal = spyOn(terminalService, 'getTerminal');
+  const mockLastEmit = spyOn(terminalService, 'updateMountDeviceLastEmit');
+  const mockLastRecord = spyOn(terminalService, 'updateMountDeviceLastRecord');
+  const mockOnline = spyOn(terminalService, 'updateMountDeviceOnlineStatus');
+  const mockSaveResult = spyOn(resultService, 'saveQueryResult');
+  const mockCacheProtocol = spyOn(service, 'cacheProtocol');
+  const mockInstructs = spyOn(service, 'generateQueryInstructs');
+  const mockResolveResult = spyOn(service, 'resolveResultData');
+  const mockEvaluateAlarms = spyOn(service, 'evaluateAlarms');
+
+  const originalIo = service.io;
+
+  beforeEach(() => {
+    emit.mockClear();
+    mockGetTerminal.mockResolvedValue({
+      DevMac: MAC,
+      online: true,
+      mountNode: 'node-1',
+      mountDevs: [{ pid: 1, protocol: 'th-sensor' }],
+    } as any);
+    mockLastEmit.mockResolvedValue(true);
+    mockLastRecord.mockResolvedValue(true);
+    mockOnline.mockResolvedValue(true);
+    mockSaveResult.mockResolvedValue(undefined as any);
+    mockCacheProtocol.mockResolvedValue({ Protocol: 'th-sensor', instruct: [] });
+    mockInstructs.mockReturnValue(['010300000002c40b']);
+    mockResolveResult.mockResolvedValue({
+      result: [{ name: '温度', value: '25.5', parseValue: '25.5' }],
+      timeStamp: 1700000000000,
+      useTime: 120,
+      hasAlarm: 0,
+    });
+    mockEvaluateAlarms.mockResolvedValue(new Set(['温度']));
+
+    service.nodeNameMap.set('node-1', socket.id);
+    service.io = { of: () => ({ sockets: new Map([[socket.id, socket]]) }) };
+  });
+
+  afterAll(() => {
+    service.io = originalIo;
+    service.nodeNameMap.delete('node-1');
+    mockGetTerminal.mockRestore();
+    mockLastEmit.mockRestore();
+    mockLastRecord.mockRestore();
+    mockOnline.mockRestore();
+    mockSaveResult.mockRestore();
+    mockCacheProtocol.mockRestore();
+    mockInstructs.mockRestore();
+    mockResolveResult.mockRestore();
+    mockEvaluateAlarms.mockRestore();
+  });
+
+  /**
+   * 等待指令下发并取出查询请求
+   */
+  const waitForInstruct = async () => {
+    for (let i = 0; i < 50 && emit.mock.calls.length === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    const call = emit.mock.calls.find(([event]) => event === 'InstructQuery');
+    return call![1];
+  };
+
+  test('下发查询指令并返回解析后的结果', async () => {
+    const pending = socketIoService.queryMountDevNow(MAC, 1, 1000);
+    const request = await waitForInstruct();
+
+    expect(request.eventName).toStartWith(`immediate_${MAC}_1_`);
+    expect(request.content).toBe('010300000002c40b');
+    expect(request.Interval).toBe(5000);
+
+    await service.handleQueryResult(socket, { ...request, success: true });
+    const result = await pending;
+
+    expect(result.ok).toBe(1);
+    expect(result.data!.result).toEqual([
+      { name: '温度', value: '25.5', parseValue: '25.5', alarm: true },
+    ]);
+    expect(result.data!.useTime).toBe(120);
+  });
+
+  test('同一设备的并发请求合并为一次查询', async () => {
+    const first = socketIoService.queryMountDevNow(MAC, 1, 1000);
+    const second = socketIoService.queryMountDevNow(MAC, 1, 1000);
+    const request = await waitForInstruct();
+
+    await service.handleQueryResult(socket, { ...request, success: false, error: 'timeout' });
+    const [a, b] = await Promise.all([first, second]);
+
+    expect(emit.mock.calls.filter(([event]) => event === 'InstructQuery')).toHaveLength(1);
+    expect(a).toEqual({ ok: 0, msg: 'timeout' });
+    expect(b).toBe(a);
+  });
+
+  test('即时查询进行中时调度循环让出该终端', async () => {
+    const pending = socketIoService.queryMountDevNow(MAC, 1, 1000);
+    const request = await waitForInstruct();
+
+    service.queryScheduler.configure(MAC, 2, { baseInterval: 5000 });
+    await service.sendQueryInstruct({ TerminalMac: MAC, pid: 2, devs: 2 });
+
+    const [schedule] = socketIoService.getQuerySchedule(MAC);
+    expect(schedule!.lastDecision!.status).toBe('immediate_query');
+    expect(emit.mock.calls.filter(([event]) => event === 'InstructQuery')).toHaveLength(1);
+    service.queryScheduler.remove(MAC, 2);
+
+    await service.handleQueryResult(socket, { ...request, success: false, error: 'timeout' });
+    await pending;
+  });
+
+  test('未收到结果时按超时返回', async () => {
+    const result = await socketIoService.queryMountDevNow(MAC, 1, 20);
+
+    expect(result.ok).toBe(0);
+    expect(result.msg).toContain('超时');
+    expect(service.immediateWaiters.size).toBe(0);
+  });
+
+  test('设备离线或未挂载时不下发指令', async () => {
+    mockGetTerminal.mockResolvedValueOnce({ DevMac: MAC, online: false, mountDevs: [] } as any);
+    expect(await socketIoService.queryMountDevNow(MAC, 1)).toEqual({ ok: 0, msg: '设备离线' });
+
+    expect((await socketIoService.queryMountDevNow(MAC, 9)).ok).toBe(0);
+    expect(emit).not.toHaveBeenCalled();
+  });
+});
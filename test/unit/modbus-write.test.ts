@@ -0,0 +1,270 @@
+/**
+ * Modbus 参数写入单元测试
+ * 测试写指令生成、响应校验和写入服务流程
+ */
+
+import { describe, test, expect, beforeEach, afterAll, spyOn } from 'bun:test';
+import {
+  ModbusWriteError,
+  buildReadInstruct,
+  buildWriteInstruct,
+  decodeReadResponse,
+  resolveWritableRegister,
+  verifyWriteResponse,
+} from '../../src/utils/modbus-write.utils';
+import { crc16Modbus } from '../../src/utils/data-parsing.utils';
+import type { ProtocolInstruct } from '../../src/services/data-parsing.types';
+import { modbusWriteService } from '../../src/services/modbus-write.service';
+import { socketIoService } from '../../src/services/socket-io.service';
+import { terminalService } from '../../src/services/terminal.service';
+import { protocolService } from '../../src/services/protocol.service';
+import { resultService } from '../../src/services/result.service';
+import { dtuOperationLogService } from '../../src/services/dtu-operation-log.service';
+
+const instructs: ProtocolInstruct[] = [
+  {
+    name: '0300000004',
+    resultType: 'hex',
+    formResize: [
+      { name: '温度设定', regx: '1-2', bl: '0.1', isState: false },
+      { name: '湿度设定', regx: '3-2', isState: false },
+      { name: '功率上限', regx: '5-4', dataType: 'float', byteOrder: 'CDAB', isState: false },
+      { name: '错位参数', regx: '2-2', isState: false },
+    ],
+  },
+  {
+    name: '0100100008',
+    resultType: 'bit2',
+    formResize: [{ name: '开机', regx: '3', isState: true }],
+  },
+  {
+    name: '0400000002',
+    resultType: 'hex',
+    formResize: [{ name: '实际温度', regx: '1-2', bl: '0.1', isState: false }],
+  },
+];
+
+/**
+ * 构造 Modbus 响应帧字节
+ */
+const frame = (pid: number, body: string) => [...Buffer.from(crc16Modbus(pid, body), 'hex')];
+
+describe('Modbus 写指令生成', () => {
+  test('保持寄存器地址按字节偏移换算', () => {
+    const register = resolveWritableRegister(instructs, '湿度设定');
+    expect(register).toMatchObject({ kind: 'holding', address: 1, dataType: 'int16' });
+  });
+
+  test('16 位寄存器生成 06 指令并反算系数', () => {
+    const register = resolveWritableRegister(instructs, '温度设定');
+    const instruct = buildWriteInstruct(register, 25.5);
+
+    expect(instruct.functionCode).toBe(0x06);
+    expect(instruct.rawValue).toBe(255);
+    expect(instruct.content).toBe('06000000ff');
+  });
+
+  test('CRC 与查询指令计算一致', () => {
+    const register = resolveWritableRegister(instructs, '湿度设定');
+    const instruct = buildWriteInstruct(register, 3);
+
+    // 标准示例帧: 01 06 0001 0003 98 0B
+    expect(crc16Modbus(1, instruct.content)).toBe('010600010003980b');
+  });
+
+  test('32 位浮点按字节序生成 10 指令', () => {
+    const register = resolveWritableRegister(instructs, '功率上限');
+    const instruct = buildWriteInstruct(register, 1.5);
+
+    // 1.5 = 0x3FC00000, CDAB 低字在前
+    expect(instruct.functionCode).toBe(0x10);
+    expect(instruct.content).toBe('1000020002040000' + '3fc0');
+  });
+
+  test('线圈生成 05 指令', () => {
+    const register = resolveWritableRegister(instructs, '开机');
+    expect(register).toMatchObject({ kind: 'coil', address: 0x12 });
+    expect(buildWriteInstruct(register, 1).content).toBe('050012ff00');
+    expect(buildWriteInstruct(register, 0).content).toBe('0500120000');
+  });
+
+  test('只读、未对齐和超出范围的参数拒绝写入', () => {
+    expect(() => resolveWritableRegister(instructs, '实际温度')).toThrow(ModbusWriteError);
+    expect(() => resolveWritableRegister(instructs, '错位参数')).toThrow('未按寄存器对齐');
+    expect(() => resolveWritableRegister(instructs, '不存在')).toThrow('参数不存在');
+
+    const register = resolveWritableRegister(instructs, '温度设定');
+    expect(() => buildWriteInstruct(register, 4000)).toThrow('超出');
+  });
+
+  test('非数值系数无法反算', () => {
+    const register = { ...resolveWritableRegister(instructs, '湿度设定'), bl: '(a)/10' };
+    expect(() => buildWriteInstruct(register, 1)).toThrow('系数不支持反算');
+  });
+});
+
+describe('Modbus 写响应校验', () => {
+  test('06 响应回显请求', () => {
+    const instruct = buildWriteInstruct(resolveWritableRegister(instructs, '湿度设定'), 3);
+    expect(verifyWriteResponse(1, instruct, frame(1, instruct.content))).toBeNull();
+    expect(verifyWriteResponse(1, instruct, frame(1, '0600010004'))).toBe('响应与写指令不匹配');
+  });
+
+  test('10 响应为起始地址和寄存器数量', () => {
+    const instruct = buildWriteInstruct(resolveWritableRegister(instructs, '功率上限'), 1.5);
+    expect(verifyWriteResponse(1, instruct, frame(1, '1000020002'))).toBeNull();
+  });
+
+  test('异常响应返回异常码', () => {
+    const instruct = buildWriteInstruct(resolveWritableRegister(instructs, '湿度设定'), 3);
+    expect(verifyWriteResponse(1, instruct, frame(1, '8602'))).toBe('设备返回异常码 0x02');
+    expect(verifyWriteResponse(1, instruct, undefined)).toBe('设备无响应数据');
+  });
+
+  test('回读指令和响应解析', () => {
+    const register = resolveWritableRegister(instructs, '功率上限');
+    expect(buildReadInstruct(register)).toBe('0300020002');
+    expect(decodeReadResponse(1, register, frame(1, '030400003fc0'))).toBe(1.5);
+
+    const coil = resolveWritableRegister(instructs, '开机');
+    expect(buildReadInstruct(coil)).toBe('0100120001');
+    expect(decodeReadResponse(1, coil, frame(1, '010101'))).toBe(1);
+  });
+});
+
+describe('ModbusWriteService', () => {
+  const mac = 'AABBCCDDEEFF';
+  const mockGetTerminal = spyOn(terminalService, 'getTerminal');
+  const mockGetProtocol = spyOn(protocolService, 'getProtocol');
+  const mockLatestResult = spyOn(resultService, 'getLatestResult');
+  const mockInstructQuery = spyOn(socketIoService, 'InstructQuery');
+  const mockFindNode = spyOn(socketIoService, 'findNode');
+  const mockLog = spyOn(dtuOperationLogService, 'log');
+
+  beforeEach(() => {
+    mockGetTerminal.mockReset();
+    mockGetProtocol.mockReset();
+    mockLatestResult.mockReset();
+    mockInstructQuery.mockReset();
+    mockFindNode.mockReset();
+    mockLog.mockReset();
+
+    mockGetTerminal.mockResolvedValue({
+      DevMac: mac,
+      mountNode: 'node1',
+      mountDevs: [{ pid: 1, protocol: '温控器', Type: 'air', mountDev: 'air', minQueryLimit: 0 }],
+    } as any);
+    mockGetProtocol.mockResolvedValue({
+      Type: 485,
+      ProtocolType: 'air',
+      Protocol: '温控器',
+      instruct: instructs as any,
+    });
+    mockLatestResult.mockResolvedValue({
+      result: [{ name: '温度设定', value: '200', parseValue: '20.0', unit: '℃', issimulate: false }],
+    } as any);
+    mockFindNode.mockResolvedValue({ Name: 'node1', Connections: 1, parseMode: 'server', connectedAt: new Date() });
+    mockLog.mockResolvedValue(undefined);
+  });
+
+  afterAll(() => {
+    mockGetTerminal.mockRestore();
+    mockGetProtocol.mockRestore();
+    mockLatestResult.mockRestore();
+    mockInstructQuery.mockRestore();
+    mockFindNode.mockRestore();
+    mockLog.mockRestore();
+  });
+
+  test('写入并回读确认，记录写入前后的值', async () => {
+    mockInstructQuery
+      .mockResolvedValueOnce({ ok: 1, data: frame(1, '06000000ff') })
+      .mockResolvedValueOnce({ ok: 1, data: { contents: [{ content: '', buffer: { data: frame(1, '030200ff') } }] } });
+
+    const result = await modbusWriteService.writeParameter({
+      mac,
+      pid: 1,
+      parameter: '温度设定',
+      value: 25.5,
+      operatedBy: 'tester',
+    });
+
+    expect(result.ok).toBe(1);
+    expect(result.data).toMatchObject({ before: '20.0', instruct: '06000000ff' });
+    expect(result.data!.after).toBeCloseTo(25.5);
+    expect(mockInstructQuery.mock.calls[0]).toEqual([mac, '温控器', 1, '06000000ff']);
+    expect(mockInstructQuery.mock.calls[1]).toEqual([mac, '温控器', 1, '0300000001']);
+
+    const log = mockLog.mock.calls[0]![0];
+    expect(log).toMatchObject({ mac, operation: 'writeParameter', success: true, operatedBy: 'tester' });
+    expect(log.data).toMatchObject({ before: '20.0' });
+  });
+
+  test('响应不匹配时写入失败并记录日志', async () => {
+    mockInstructQuery.mockResolvedValueOnce({ ok: 1, data: frame(1, '8603') });
+
+    const result = await modbusWriteService.writeParameter({
+      mac,
+      pid: 1,
+      parameter: '温度设定',
+      value: 25.5,
+      readBack: false,
+      operatedBy: 'tester',
+    });
+
+    expect(result.ok).toBe(0);
+    expect(result.msg).toBe('设备返回异常码 0x03');
+    expect(mockInstructQuery).toHaveBeenCalledTimes(1);
+    expect(mockLog.mock.calls[0]![0]).toMatchObject({ success: false, data: { before: '20.0', after: null } });
+  });
+
+  test('只读参数不下发指令', async () => {
+    const result = await modbusWriteService.writeParameter({
+      mac,
+      pid: 1,
+      parameter: '实际温度',
+      value: 1,
+      operatedBy: 'tester',
+    });
+
+    expect(result.ok).toBe(0);
+    expect(mockInstructQuery).not.toHaveBeenCalled();
+    expect(mockLog).toHaveBeenCalledTimes(1);
+  });
+
+  test('client 解析模式的 Node 拒绝写入', async () => {
+    mockFindNode.mockResolvedValue({ Name: 'node1', Connections: 1, parseMode: 'client', connectedAt: new Date() });
+
+    const result = await modbusWriteService.writeParameter({
+      mac,
+      pid: 1,
+      parameter: '温度设定',
+      value: 25.5,
+      operatedBy: 'tester',
+    });
+
+    expect(result.ok).toBe(0);
+    expect(result.msg).toContain('需要 server 解析模式');
+    expect(mockFindNode).toHaveBeenCalledWith('node1');
+    expect(mockInstructQuery).not.toHaveBeenCalled();
+    expect(mockLog.mock.calls[0]![0]).toMatchObject({ success: false });
+  });
+
+  test('节点离线或未挂载节点时不下发指令', async () => {
+    mockFindNode.mockResolvedValue(null);
+
+    const write = () =>
+      modbusWriteService.writeParameter({ mac, pid: 1, parameter: '温度设定', value: 25.5, operatedBy: 'tester' });
+
+    expect(await write()).toMatchObject({ ok: 0, msg: '设备所在节点离线' });
+
+    mockGetTerminal.mockResolvedValue({
+      DevMac: mac,
+      mountDevs: [{ pid: 1, protocol: '温控器', Type: 'air', mountDev: 'air', minQueryLimit: 0 }],
+    } as any);
+    expect(await write()).toMatchObject({ ok: 0, msg: '设备所在节点离线' });
+
+    expect(mockInstructQuery).not.toHaveBeenCalled();
+    expect(mockLog.mock.calls[0]![0]).toMatchObject({ success: false, message: '设备所在节点离线' });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * 终端迁移单元测试
+ * 测试按容量规划迁移目标、节点排空、心跳超时故障转移和终端改连后的挂载节点更新
+ */
+
+import { describe, test, expect, beforeEach, afterAll, spyOn, mock } from 'bun:test';
+import { socketIoService } from '../../src/services/socket-io.service';
+import { nodeService } from '../../src/services/node.service';
+import { terminalService } from '../../src/services/terminal.service';
+import { socketUserService } from '../../src/services/socket-user.service';
+import { planRelocations, type NodeCapacity } from '../../src/utils/node-balance.utils';
+
+const service = socketIoService as any;
+
+const capacity = (Name: string, MaxConnections: number, Connections: number): NodeCapacity => ({
+  Name,
+  IP: `10.0.0.${Name.slice(-1)}`,
+  Port: 9000,
+  MaxConnections,
+  Connections,
+  online: true,
+  draining: false,
+});
+
+describe('迁移目标规划', () => {
+  test('按负载率均匀分配并跳过源节点', () => {
+    const plan = planRelocations(
+      ['m1', 'm2', 'm3'],
+      [capacity('node-1', 10, 0), capacity('node-2', 100, 10), capacity('node-3', 10, 5)],
+      'node-1'
+    );
+
+    expect(plan.assignments.map(({ target }) => target.Name)).toEqual(['node-2', 'node-2', 'node-2']);
+    expect(plan.unassigned).toEqual([]);
+  });
+
+  test('排除离线、排空中和已满的节点', () => {
+    const plan = planRelocations(
+      ['m1', 'm2', 'm3'],
+      [
+        { ...capacity('node-2', 10, 0), online: false },
+        { ...capacity('node-3', 10, 0), draining: true },
+        capacity('node-4', 10, 9),
+      ],
+      'node-1'
+    );
+
+    expect(plan.assignments).toEqual([{ mac: 'm1', target: capacity('node-4', 10, 9) }]);
+    expect(plan.unassigned).toEqual(['m2', 'm3']);
+  });
+});
+
+describe('节点排空与故障转移', () => {
+  const emit = mock((_event: string, _data: any) => {});
+  const disconnect = mock((_close: boolean) => {});
+  const socket = { id: 'socket-1', emit, disconnect };
+
+  const mockGetAllNodes = spyOn(nodeService, 'getAllNodes');
+  const mockGetNodeByName = spyOn(nodeService, 'getNodeByName');
+  const mockSetDraining = spyOn(nodeService, 'setDraining');
+  const mockSaveLog = spyOn(nodeService, 'saveLog');
+  const mockGetTerminalsByNode = spyOn(terminalService, 'getTerminalsByNode');
+  const mockGetTerminal = spyOn(terminalService, 'getTerminal');
+  const mockUpdateTerminal = spyOn(terminalService, 'updateTerminal');
+  const mockUpdateOnline = spyOn(terminalService, 'updateOnlineStatus');
+  const mockSendMacUpdate = spyOn(socketUserService, 'sendMacUpdate');
+  const mockMountDevCache = spyOn(socketIoService, 'setTerminalMountDevCache');
+
+  const originalIo = service.io;
+
+  const nodeInfo = (socketId: string, Name: string, Connections: number, lastHeartbeat = new Date()) => ({
+    socketId,
+    Name,
+    IP: `10.0.0.${Name.slice(-1)}`,
+    Port: 9000,
+    MaxConnections: 10,
+    Connections,
+    parseMode: 'server',
+    connectedAt: new Date(),
+    lastHeartbeat,
+  });
+
+  beforeEach(() => {
+    emit.mockClear();
+    disconnect.mockClear();
+    mockSaveLog.mockClear();
+    mockUpdateTerminal.mockClear();
+
+    mockGetAllNodes.mockResolvedValue([
+      { Name: 'node-1', IP: '10.0.0.1', Port: 9000, MaxConnections: 10 },
+      { Name: 'node-2', IP: '10.0.0.2', Port: 9000, MaxConnections: 10 },
+      { Name: 'node-3', IP: '10.0.0.3', Port: 9000, MaxConnections: 10, Draining: true },
+    ]);
+    mockGetNodeByName.mockResolvedValue({ Name: 'node-1', IP: '10.0.0.1', Port: 9000, MaxConnections: 10 });
+    mockSetDraining.mockResolvedValue(true);
+    mockSaveLog.mockResolvedValue(undefined);
+    mockGetTerminalsByNode.mockResolvedValue([
+      { DevMac: 'AA0000000001', mountNode: 'node-1', online: true },
+      { DevMac: 'AA0000000002', mountNode: 'node-1', online: false },
+    ] as any);
+    mockUpdateTerminal.mockResolvedValue(true);
+    mockUpdateOnline.mockResolvedValue(true);
+    mockSendMacUpdate.mockResolvedValue(undefined as any);
+    mockMountDevCache.mockResolvedValue(undefined);
+
+    service.nodeMap.clear();
+    service.nodeNameMap.clear();
+    service.nodeMap.set('socket-1', nodeInfo('socket-1', 'node-1', 2));
+    service.nodeMap.set('socket-2', nodeInfo('socket-2', 'node-2', 3));
+    service.nodeMap.set('socket-3', nodeInfo('socket-3', 'node-3', 0));
+    service.nodeNameMap.set('node-1', 'socket-1');
+    service.nodeNameMap.set('node-2', 'socket-2');
+    service.nodeNameMap.set('node-3', 'socket-3');
+    service.io = { of: () => ({ sockets: new Map([[socket.id, socket]]) }) };
+  });
+
+  afterAll(() => {
+    service.io = originalIo;
+    service.nodeMap.clear();
+    service.nodeNameMap.clear();
+    service.terminalCache.clear();
+    mockGetAllNodes.mockRestore();
+    mockGetNodeByName.mockRestore();
+    mockSetDraining.mockRestore();
+    mockSaveLog.mockRestore();
+    mockGetTerminalsByNode.mockRestore();
+    mockGetTerminal.mockRestore();
+    mockUpdateTerminal.mockRestore();
+    mockUpdateOnline.mockRestore();
+    mockSendMacUpdate.mockRestore();
+    mockMountDevCache.mockRestore();
+  });
+
+  test('容量信息排除心跳超时的节点', async () => {
+    service.nodeMap.set('socket-2', nodeInfo('socket-2', 'node-2', 3, new Date(Date.now() - 120000)));
+
+    const capacities = await socketIoService.getNodeCapacities();
+
+    expect(capacities.map((node) => [node.Name, node.online, node.draining])).toEqual([
+      ['node-1', true, false],
+      ['node-2', false, false],
+      ['node-3', true, true],
+    ]);
+  });
+
+  test('排空节点将在线终端迁移到有容量的节点', async () => {
+    emit.mockImplementation((event, data) => {
+      if (event === 'RelocateTerminal') {
+        service.handleRelocateTerminalResult({ eventName: data.eventName, mac: data.mac, success: true });
+      }
+    });
+
+    const result = await socketIoService.drainNode('node-1');
+
+    expect(mockSetDraining).toHaveBeenCalledWith('node-1', true);
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit.mock.calls[0]![1]).toMatchObject({
+      mac: 'AA0000000001',
+      target: { Name: 'node-2', IP: '10.0.0.2', Port: 9000 },
+      reason: 'drain',
+    });
+    expect(result).toEqual({
+      nodeName: 'node-1',
+      total: 1,
+      relocated: [{ mac: 'AA0000000001', target: 'node-2' }],
+      failed: [],
+    });
+    expect(mockSaveLog.mock.calls[0]![0]).toMatchObject({ type: '排空', Name: 'node-1', relocated: 1 });
+
+    emit.mockImplementation(() => {});
+  });
+
+  test('心跳超时先下发迁移指令再断开连接', async () => {
+    service.nodeMap.set('socket-1', nodeInfo('socket-1', 'node-1', 2, new Date(Date.now() - 120000)));
+    service.terminalCache.set('AA0000000001', {
+      mac: 'AA0000000001',
+      socketId: 'socket-1',
+      mountNode: 'node-1',
+      online: true,
+    });
+
+    service.checkHeartbeats();
+    for (let i = 0; i < 50 && disconnect.mock.calls.length === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+
+    expect(emit.mock.calls.map(([event, data]) => [event, data.target.Name, data.reason])).toEqual([
+      ['RelocateTerminal', 'node-2', 'failover'],
+    ]);
+    expect(disconnect).toHaveBeenCalledWith(true);
+    expect(mockSaveLog.mock.calls[0]![0]).toMatchObject({ type: '故障转移', relocated: 1 });
+
+    service.terminalCache.delete('AA0000000001');
+  });
+
+  test('终端在新节点上线后更新挂载节点和查询缓存', async () => {
+    mockGetTerminal.mockResolvedValue({
+      DevMac: 'AA0000000001',
+      name: 'DTU',
+      mountNode: 'node-1',
+      online: true,
+      mountDevs: [],
+    } as any);
+
+    await service.handleTerminalOnline({ id: 'socket-2' }, { mac: 'AA0000000001' });
+
+    expect(mockUpdateTerminal).toHaveBeenCalledWith('AA0000000001', { mountNode: 'node-2' });
+    expect(service.terminalCache.get('AA0000000001').mountNode).toBe('node-2');
+    expect(mockMountDevCache).toHaveBeenCalledWith('AA0000000001');
+
+    service.terminalCache.delete('AA0000000001');
+  });
+});
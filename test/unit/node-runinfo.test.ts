@@ -0,0 +1,86 @@
+/**
+ * 节点运行信息与日志单元测试
+ * 测试运行信息当前状态/历史存储和节点日志查询
+ */
+
+import { describe, test, expect, beforeEach, afterAll, spyOn } from 'bun:test';
+import { mongodb } from '../../src/database/mongodb';
+import { nodeService } from '../../src/services/node.service';
+import type { NodeRunInfo } from '../../src/types/entities';
+import { createMockDb, type MockDb } from '../helpers/mock-db';
+
+const runInfo = (Connections: number, updateTime: Date): Omit<NodeRunInfo, '_id'> => ({
+  NodeName: 'node-1',
+  hostname: 'uart-node-1',
+  totalmem: '8GB',
+  freemem: '2GB',
+  loadavg: [0.5, 0.4, 0.3],
+  type: 'Linux',
+  uptime: '3600',
+  Connections,
+  SocketMaps: [],
+  updateTime,
+});
+
+describe('节点运行信息', () => {
+  let db: MockDb;
+  const mockGetCollection = spyOn(mongodb, 'getCollection');
+
+  beforeEach(() => {
+    db = createMockDb();
+    mockGetCollection.mockImplementation(((name: string) => db.collection(name)) as any);
+  });
+
+  afterAll(() => {
+    mockGetCollection.mockRestore();
+  });
+
+  test('覆盖当前状态并追加历史快照', async () => {
+    await nodeService.saveRunInfo(runInfo(10, new Date('2026-01-01T00:00:00Z')));
+    await nodeService.saveRunInfo(runInfo(12, new Date('2026-01-01T00:01:00Z')));
+
+    expect(db.collection('node.runinfos').docs).toHaveLength(1);
+    expect((await nodeService.getRunInfo('node-1'))!.Connections).toBe(12);
+
+    const history = db.collection('log.noderuninfos').docs;
+    expect(history.map((item) => item.Connections)).toEqual([10, 12]);
+    expect(history[0]!.SocketMaps).toBeUndefined();
+  });
+
+  test('连接数趋势按时间范围升序返回', async () => {
+    await nodeService.saveRunInfo(runInfo(12, new Date('2026-01-01T00:02:00Z')));
+    await nodeService.saveRunInfo(runInfo(10, new Date('2026-01-01T00:01:00Z')));
+    await nodeService.saveRunInfo(runInfo(8, new Date('2026-01-01T02:00:00Z')));
+
+    const history = await nodeService.getRunInfoHistory(
+      'node-1',
+      new Date('2026-01-01T00:00:00Z'),
+      new Date('2026-01-01T01:00:00Z'),
+      100
+    );
+
+    expect(history.map((item) => item.Connections)).toEqual([10, 12]);
+  });
+
+  test('节点日志按类型过滤', async () => {
+    await nodeService.saveLog({ type: '连接', ID: 's1', IP: '10.0.0.1', Name: 'node-1' });
+    await nodeService.saveLog({ type: '断开', ID: 's1', IP: '10.0.0.1', Name: 'node-1', reason: 'ping timeout' });
+    await nodeService.saveLog({ type: '连接', ID: 's2', IP: '10.0.0.2', Name: 'node-2' });
+
+    expect(await nodeService.getLogs('node-1', { limit: 10 })).toHaveLength(2);
+
+    const [log] = await nodeService.getLogs('node-1', { type: '断开', limit: 10 });
+    expect(log!.reason).toBe('ping timeout');
+    expect(log!.timeStamp).toBeInstanceOf(Date);
+  });
+
+  test('日志写入失败不抛出异常', async () => {
+    mockGetCollection.mockImplementationOnce((() => {
+      throw new Error('database unavailable');
+    }) as any);
+
+    await expect(
+      nodeService.saveLog({ type: 'TcpServer启动失败', ID: 's1', IP: '10.0.0.1', Name: 'node-1', error: 'EADDRINUSE' })
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * 免打扰时段和通知汇总单元测试
+ *
+ * 测试覆盖:
+ * - 免打扰时段计算 (跨午夜、时区)
+ * - 免打扰时段内推迟发送，严重告警默认不受限制
+ * - 非严重告警按渠道累积为一条汇总通知，严重告警立即发送
+ * - 汇总发送时仍在免打扰时段内继续推迟
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { ObjectId } from 'mongodb';
+import { AlarmNotificationService, type NotificationJob } from '../../src/services/alarm-notification.service';
+import type { JobOptions, QueueService } from '../../src/services/queue/queue.interface';
+import {
+  NOTIFICATION_DIGEST_COLLECTION,
+  NOTIFICATION_LOG_COLLECTION,
+  USER_ALARM_SETUP_COLLECTION,
+  USER_COLLECTION,
+  UserRole,
+  createAlarm,
+  createUserAlarmSetup,
+  getQuietHoursRemaining,
+  type AlarmLevel,
+  type QuietHours,
+  type UserAlarmSetupDocument,
+} from '../../src/entities/mongodb';
+import { createMockDb, type MockDb } from '../helpers/mock-db';
+
+const MAC = 'AABBCCDDEE01';
+const HOUR = 60 * 60_000;
+
+interface QueuedJob {
+  name: string;
+  data: NotificationJob;
+  options?: JobOptions;
+}
+
+/**
+ * 记录入队任务的队列
+ */
+function createFakeQueue(jobs: QueuedJob[]): QueueService {
+  return {
+    addJob: async (_queueName: string, name: string, data: any, options?: JobOptions) => {
+      jobs.push({ name, data, options });
+      return { id: String(jobs.length), name, data, attempts: 0, maxAttempts: 3, createdAt: new Date() } as any;
+    },
+    registerProcessor: () => {},
+    getQueueStats: () => ({ pending: 0, processing: 0, completed: 0, failed: 0 }),
+    cleanup: async () => {},
+    getQueueNames: async () => [],
+    getDeadLetterJobs: async () => ({ jobs: [], total: 0 }),
+    replayDeadLetterJob: async () => false,
+    purgeDeadLetterJobs: async () => 0,
+    close: async () => {},
+  };
+}
+
+/**
+ * 以 UTC 表示的、相对当前时间偏移的 HH:mm
+ */
+function utcTime(offset: number): string {
+  return new Date(Date.now() + offset).toISOString().slice(11, 16);
+}
+
+describe('免打扰时段计算', () => {
+  const overnight: QuietHours = { enabled: true, start: '22:00', end: '07:00', timezone: 'UTC' };
+
+  test('跨午夜时段返回距结束的时间', () => {
+    expect(getQuietHoursRemaining(overnight, new Date('2026-01-01T23:30:00Z'))).toBe(7.5 * HOUR);
+    expect(getQuietHoursRemaining(overnight, new Date('2026-01-01T06:59:30Z'))).toBe(30_000);
+    expect(getQuietHoursRemaining(overnight, new Date('2026-01-01T07:00:00Z'))).toBe(0);
+    expect(getQuietHoursRemaining(overnight, new Date('2026-01-01T12:00:00Z'))).toBe(0);
+  });
+
+  test('按用户时区计算，停用时不生效', () => {
+    const shanghai = { ...overnight, timezone: 'Asia/Shanghai' };
+
+    // 15:00 UTC = 23:00 北京时间
+    expect(getQuietHoursRemaining(shanghai, new Date('2026-01-01T15:00:00Z'))).toBe(8 * HOUR);
+    expect(getQuietHoursRemaining(shanghai, new Date('2026-01-01T23:30:00Z'))).toBe(0);
+    expect(getQuietHoursRemaining({ ...overnight, enabled: false }, new Date('2026-01-01T23:30:00Z'))).toBe(0);
+  });
+});
+
+describe('AlarmNotificationService 免打扰和汇总', () => {
+  let db: MockDb;
+  let jobs: QueuedJob[];
+  let service: AlarmNotificationService;
+
+  const setup = async (extra: Partial<UserAlarmSetupDocument>) => {
+    await db.collection(USER_COLLECTION).insertOne({
+      username: 'night-owl',
+      role: UserRole.USER,
+      isActive: true,
+      devices: [MAC],
+    });
+    await db.collection(USER_ALARM_SETUP_COLLECTION).insertOne({
+      ...createUserAlarmSetup('night-owl'),
+      ProtocolSetup: [{ Protocol: 'modbus' }],
+      mails: ['ops@example.com'],
+      ...extra,
+    });
+  };
+
+  const notify = async (level: AlarmLevel = 'warning', msg = '温度过高') => {
+    await service.sendAlarmNotification({
+      ...createAlarm({
+        type: 'threshold',
+        level,
+        tag: 'Threshold',
+        mac: MAC,
+        devName: '1# UPS',
+        pid: 1,
+        protocol: 'modbus',
+        msg,
+        timeStamp: Date.now(),
+        triggeredAt: new Date(),
+      }),
+      _id: new ObjectId(),
+    });
+  };
+
+  const quietNow = (extra: Partial<QuietHours> = {}): QuietHours => ({
+    enabled: true,
+    start: utcTime(-HOUR),
+    end: utcTime(HOUR),
+    timezone: 'UTC',
+    ...extra,
+  });
+
+  beforeEach(() => {
+    db = createMockDb();
+    jobs = [];
+    service = new AlarmNotificationService(db.asDb(), createFakeQueue(jobs));
+  });
+
+  test('免打扰时段内推迟非严重告警，严重告警默认立即发送', async () => {
+    await setup({ quietHours: quietNow() });
+
+    await notify('warning');
+    await notify('critical');
+
+    expect(jobs.map((job) => job.name)).toEqual(['alarm_notification', 'alarm_notification']);
+    expect(jobs[0]!.options!.delay).toBeGreaterThan(HOUR - 2 * 60_000);
+    expect(jobs[0]!.options!.delay).toBeLessThanOrEqual(HOUR);
+    expect(jobs[1]!.options!.delay).toBeUndefined();
+  });
+
+  test('关闭严重告警例外后严重告警同样推迟', async () => {
+    await setup({ quietHours: quietNow({ allowCritical: false }) });
+
+    await notify('critical');
+
+    expect(jobs[0]!.options!.delay).toBeGreaterThan(0);
+  });
+
+  test('非严重告警合并为一条汇总，发送后新告警进入新汇总', async () => {
+    await setup({ digest: { enabled: true, windowMinutes: 15 } });
+
+    await notify('warning', '温度过高');
+    await notify('error', '湿度过高');
+    await notify('info', '门禁打开');
+    await notify('critical', '市电中断');
+
+    expect(jobs.map((job) => job.name)).toEqual(['digest_notification', 'alarm_notification']);
+    expect(jobs[0]!.options!.delay).toBe(15 * 60_000);
+
+    const digests = db.collection(NOTIFICATION_DIGEST_COLLECTION).docs;
+    expect(digests).toHaveLength(1);
+    expect(digests[0]!.alarms.map((entry: any) => entry.msg)).toEqual(['温度过高', '湿度过高', '门禁打开']);
+
+    const result = await (service as any).processNotification(jobs[0]!.data);
+    expect(result.success).toBe(true);
+    expect(db.collection(NOTIFICATION_DIGEST_COLLECTION).docs).toHaveLength(0);
+
+    const [log] = db.collection(NOTIFICATION_LOG_COLLECTION).docs;
+    expect(log!.params.subject).toStartWith('【告警通知】共 3 条告警');
+    expect(log!.params.html).toContain('<strong>告警级别:</strong> 错误');
+    expect(log!.params.html).toContain('1. [警告] 1# UPS: 温度过高');
+
+    // 重复投递的汇总任务不再发送
+    expect((await (service as any).processNotification(jobs[0]!.data)).success).toBe(true);
+    expect(db.collection(NOTIFICATION_LOG_COLLECTION).docs).toHaveLength(1);
+
+    await notify('warning', '温度过高');
+    expect(jobs.map((job) => job.name)).toEqual([
+      'digest_notification',
+      'alarm_notification',
+      'digest_notification',
+    ]);
+  });
+
+  test('汇总发送时仍在免打扰时段内继续推迟并保留汇总', async () => {
+    await setup({ digest: { enabled: true, windowMinutes: 5 }, quietHours: quietNow() });
+
+    await notify('warning');
+    expect(jobs[0]!.options!.delay).toBeGreaterThan(HOUR - 2 * 60_000);
+
+    await (service as any).processNotification(jobs[0]!.data);
+
+    expect(jobs).toHaveLength(2);
+    expect(jobs[1]!.name).toBe('digest_notification');
+    expect(jobs[1]!.options!.delay).toBeGreaterThan(0);
+    expect(db.collection(NOTIFICATION_DIGEST_COLLECTION).docs[0]!.status).toBe('open');
+    expect(db.collection(NOTIFICATION_LOG_COLLECTION).docs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * 通知限流和短信预算单元测试
+ *
+ * 测试覆盖:
+ * - 按用户、设备和整个部署限流，窗口结束后恢复
+ * - 短信月度预算预警 (每个比例一次) 和用尽后抑制
+ * - 频繁抖动的设备超出限额后不再发送短信，抑制记录计入通知统计
+ * - 发送失败释放额度，队列重试不被限流抑制
+ */
+
+import { describe, test, expect, beforeEach, spyOn } from 'bun:test';
+import { ObjectId } from 'mongodb';
+import { AlarmNotificationService, type NotificationJob } from '../../src/services/alarm-notification.service';
+import {
+  NotificationLimiterService,
+  type NotificationLimitOptions,
+} from '../../src/services/notification-limiter.service';
+import {
+  NOTIFICATION_LOG_COLLECTION,
+  NOTIFICATION_RATE_COUNTER_COLLECTION,
+  NOTIFICATION_USAGE_COLLECTION,
+  USER_ALARM_SETUP_COLLECTION,
+  USER_COLLECTION,
+  UserRole,
+  createAlarm,
+  createUserAlarmSetup,
+} from '../../src/entities/mongodb';
+import { createMockDb, type MockDb } from '../helpers/mock-db';
+
+const MAC = 'AABBCCDDEE01';
+const NOW = new Date('2026-03-10T08:00:00');
+
+const options = (extra: Partial<NotificationLimitOptions> = {}): NotificationLimitOptions => ({
+  windowSeconds: 3600,
+  limits: {
+    sms: { user: 3, device: 2, tenant: 4 },
+    wechat: { user: 0, device: 0, tenant: 0 },
+    email: { user: 0, device: 0, tenant: 0 },
+  },
+  smsMonthlyBudget: 0,
+  smsBudgetWarnRatios: [0.8],
+  ...extra,
+});
+
+describe('NotificationLimiterService', () => {
+  let db: MockDb;
+
+  beforeEach(() => {
+    db = createMockDb();
+  });
+
+  test('按设备、用户和整个部署限流，窗口结束后恢复', async () => {
+    const limiter = new NotificationLimiterService(db.asDb(), options());
+    const acquire = (userId: string, mac: string, now = NOW) => limiter.acquire('sms', { userId, mac }, 1, now);
+
+    expect(await acquire('alice', 'MAC1')).toBeNull();
+    expect(await acquire('alice', 'MAC1')).toBeNull();
+    expect(await acquire('alice', 'MAC1')).toBe('device');
+    expect(await acquire('alice', 'MAC2')).toBeNull();
+    expect(await acquire('alice', 'MAC3')).toBe('user');
+    expect(await acquire('bob', 'MAC4')).toBeNull();
+    expect(await acquire('carol', 'MAC5')).toBe('tenant');
+
+    // 被抑制的请求不占用额度，下一个窗口重新计数
+    expect(await acquire('alice', 'MAC1', new Date(NOW.getTime() + 3600_000))).toBeNull();
+
+    // 未限流的渠道不计数
+    expect(await limiter.acquire('email', { userId: 'alice', mac: 'MAC1' }, 1, NOW)).toBeNull();
+
+    const [usage] = db.collection(NOTIFICATION_USAGE_COLLECTION).docs;
+    expect(usage).toMatchObject({ channel: 'sms', period: '2026-03', sent: 0, suppressed: 3 });
+  });
+
+  test('释放额度后窗口计数恢复，重试计数不检查限额', async () => {
+    const limiter = new NotificationLimiterService(db.asDb(), options());
+    const target = { userId: 'alice', mac: 'MAC1' };
+
+    expect(await limiter.acquire('sms', target, 1, NOW)).toBeNull();
+    expect(await limiter.acquire('sms', target, 1, NOW)).toBeNull();
+    await limiter.release('sms', target, NOW);
+    expect(await limiter.acquire('sms', target, 1, NOW)).toBeNull();
+    expect(await limiter.acquire('sms', target, 1, NOW)).toBe('device');
+
+    await limiter.consume('sms', target, NOW);
+    const counter = db.collection(NOTIFICATION_RATE_COUNTER_COLLECTION).docs.find((doc) => doc.key === 'sms:device:MAC1');
+    expect(counter?.count).toBe(3);
+
+    // 计数为 0 时不会减为负数
+    await limiter.release('sms', { userId: 'bob' }, NOW);
+    await limiter.release('sms', { userId: 'bob' }, NOW);
+    expect(db.collection(NOTIFICATION_RATE_COUNTER_COLLECTION).docs.every((doc) => doc.count >= 0)).toBe(true);
+  });
+
+  test('短信预算达到比例时预警一次，用尽后抑制', async () => {
+    const warn = spyOn(console, 'warn').mockImplementation(() => {});
+    const limiter = new NotificationLimiterService(
+      db.asDb(),
+      options({
+        smsMonthlyBudget: 10,
+        limits: { ...options().limits, sms: { user: 0, device: 0, tenant: 0 } },
+      })
+    );
+
+    try {
+      await limiter.recordSent('sms', 8, NOW);
+      await limiter.recordSent('sms', 1, NOW);
+      expect(await limiter.acquire('sms', { userId: 'alice' }, 2, NOW)).toBe('budget');
+      expect(await limiter.acquire('sms', { userId: 'alice' }, 1, NOW)).toBeNull();
+      await limiter.recordSent('sms', 1, NOW);
+
+      const messages = warn.mock.calls.map((call) => String(call[0]));
+      expect(messages.filter((message) => message.includes('80% used'))).toHaveLength(1);
+      expect(messages.filter((message) => message.includes('exhausted'))).toHaveLength(1);
+
+      expect(await limiter.getSmsBudget(NOW)).toEqual({
+        period: '2026-03',
+        limit: 10,
+        used: 10,
+        remaining: 0,
+        suppressed: 1,
+        warnings: [0.8, 1],
+      });
+
+      // 下个月重新计算
+      expect(await limiter.acquire('sms', { userId: 'alice' }, 1, new Date('2026-04-01T00:00:00'))).toBeNull();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
+
+describe('AlarmNotificationService 限流', () => {
+  test('频繁抖动的设备超出限额后不再发送短信，抑制记录计入统计', async () => {
+    const db = createMockDb();
+    await db.collection(USER_COLLECTION).insertOne({
+      username: 'ops',
+      role: UserRole.USER,
+      isActive: true,
+      devices: [MAC],
+    });
+    await db.collection(USER_ALARM_SETUP_COLLECTION).insertOne({
+      ...createUserAlarmSetup('ops'),
+      ProtocolSetup: [{ Protocol: 'modbus' }],
+      tels: ['13800000000', '13900000000'],
+    });
+
+    const service = new AlarmNotificationService(db.asDb());
+
+    // 默认每个设备每小时最多 10 条短信
+    for (let i = 0; i < 12; i++) {
+      await service.sendAlarmNotification({
+        ...createAlarm({
+          type: 'threshold',
+          level: 'critical',
+          tag: 'Threshold',
+          mac: MAC,
+          devName: '1# UPS',
+          pid: 1,
+          protocol: 'modbus',
+          msg: `温度过高 #${i}`,
+          timeStamp: Date.now(),
+          triggeredAt: new Date(),
+        }),
+        _id: new ObjectId(),
+      });
+    }
+
+    const logs = db.collection(NOTIFICATION_LOG_COLLECTION).docs;
+    expect(logs.filter((log) => !log.suppressed)).toHaveLength(10);
+    expect(logs.filter((log) => log.suppressed === 'device')).toHaveLength(2);
+
+    const stats = await service.getNotificationStats('ops');
+    expect(stats).toMatchObject({
+      total: 12,
+      suppressed: 2,
+      byChannel: { sms: 12, wechat: 0, email: 0, webhook: 0 },
+      suppressedByReason: { user: 0, device: 2, tenant: 0, budget: 0 },
+    });
+    expect(stats.sent + stats.failed).toBe(10);
+    expect(stats.smsBudget.used).toBe(stats.sent * 2);
+  });
+
+  test('发送失败释放额度，重试不被限流抑制', async () => {
+    const db = createMockDb();
+    await db.collection(USER_COLLECTION).insertOne({
+      username: 'ops',
+      role: UserRole.USER,
+      isActive: true,
+      devices: [MAC],
+    });
+    await db.collection(USER_ALARM_SETUP_COLLECTION).insertOne({
+      ...createUserAlarmSetup('ops'),
+      ProtocolSetup: [{ Protocol: 'modbus' }],
+      tels: ['13800000000'],
+    });
+
+    const service = new AlarmNotificationService(db.asDb());
+    const job = (i: number): NotificationJob => ({
+      alarm: {
+        ...createAlarm({
+          type: 'threshold',
+          level: 'critical',
+          tag: 'Threshold',
+          mac: MAC,
+          devName: '1# UPS',
+          pid: 1,
+          protocol: 'modbus',
+          msg: `温度过高 #${i}`,
+          timeStamp: Date.now(),
+          triggeredAt: new Date(),
+        }),
+        _id: new ObjectId(),
+      },
+      userId: 'ops',
+      channel: 'sms',
+      contact: { phones: ['13800000000'] },
+    });
+    const process = (i: number, attempt = 0) => (service as any).processNotification(job(i), attempt);
+
+    const send = spyOn(service as any, 'sendSmsNotification').mockRejectedValue(new Error('SMS gateway down'));
+    try {
+      for (let i = 0; i < 12; i++) {
+        expect((await process(i)).success).toBe(false);
+      }
+    } finally {
+      send.mockRestore();
+    }
+
+    // 失败的发送不占用额度，默认每个设备每小时 10 条
+    for (let i = 0; i < 10; i++) {
+      expect((await process(i)).suppressed).toBeUndefined();
+    }
+    expect((await process(10)).suppressed).toBe('device');
+
+    // 限额已满时重试仍然发送
+    const retry = await process(11, 1);
+    expect(retry.success).toBe(true);
+    expect(retry.suppressed).toBeUndefined();
+
+    const logs = db.collection(NOTIFICATION_LOG_COLLECTION).docs;
+    expect(logs.filter((log) => log.suppressed)).toHaveLength(1);
+    expect(logs.filter((log) => log.success)).toHaveLength(11);
+  });
+});
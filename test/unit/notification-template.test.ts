@@ -0,0 +1,188 @@
+/**
+ * 通知模板单元测试
+ *
+ * 测试覆盖:
+ * - 占位符替换、HTML 转义和未知占位符
+ * - 级别和时间按语言本地化
+ * - 按标签、语言匹配模板及回退顺序
+ * - 告警通知按用户语言渲染邮件/短信
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { ObjectId } from 'mongodb';
+import { AlarmNotificationService } from '../../src/services/alarm-notification.service';
+import { NotificationTemplateService } from '../../src/services/notification-template.service';
+import {
+  findUnknownPlaceholders,
+  renderNotification,
+  renderTemplate,
+} from '../../src/services/notification/template-renderer';
+import { CreateTemplateRequestSchema } from '../../src/schemas/notification-template.schema';
+import {
+  NOTIFICATION_LOG_COLLECTION,
+  NOTIFICATION_TEMPLATE_COLLECTION,
+  USER_ALARM_SETUP_COLLECTION,
+  USER_COLLECTION,
+  UserRole,
+  createAlarm,
+  createNotificationTemplate,
+  createUserAlarmSetup,
+  type AlarmDocument,
+  type NotificationTemplateDocument,
+} from '../../src/entities/mongodb';
+import { createMockDb, type MockDb } from '../helpers/mock-db';
+
+const MAC = 'AABBCCDDEE01';
+
+const alarm = (extra: Partial<AlarmDocument> = {}): AlarmDocument => ({
+  ...createAlarm({
+    type: 'threshold',
+    level: 'critical',
+    tag: 'Threshold',
+    mac: MAC,
+    devName: '1# <UPS>',
+    pid: 1,
+    protocol: 'modbus',
+    paramName: '温度',
+    currentValue: 38.5,
+    unit: '℃',
+    threshold: '0 - 35',
+    msg: '温度超限',
+    timeStamp: Date.now(),
+    triggeredAt: new Date('2026-01-02T03:04:05Z'),
+  }),
+  _id: new ObjectId(),
+  ...extra,
+});
+
+describe('通知模板渲染', () => {
+  test('替换占位符，HTML 模板转义变量，未知占位符原样保留', () => {
+    const variables = { devName: '1# <UPS>', value: '38.5' };
+
+    expect(renderTemplate('{{devName}}: {{ value }} {{foo}}', variables)).toBe('1# <UPS>: 38.5 {{foo}}');
+    expect(renderTemplate('<b>{{devName}}</b>', variables, true)).toBe('<b>1# &lt;UPS&gt;</b>');
+    expect(findUnknownPlaceholders('{{param}} {{foo}} {{bar}} {{foo}}')).toEqual(['foo', 'bar']);
+  });
+
+  test('级别和时间按语言格式化，未内置的语言按主语言匹配', () => {
+    const template = {
+      subject: '[{{level}}] {{devName}}',
+      body: '{{param}}={{value}}{{unit}} ({{threshold}}) {{time}}',
+      format: 'text' as const,
+    };
+    const source = alarm();
+
+    const zh = renderNotification(template, source, 'zh-CN');
+    expect(zh.subject).toBe('[严重] 1# <UPS>');
+    expect(zh.body).toBe(`温度=38.5℃ (0 - 35) ${source.triggeredAt.toLocaleString('zh-CN')}`);
+    expect(zh.remark).toBe('请及时处理');
+
+    const en = renderNotification(template, source, 'en-GB');
+    expect(en.subject).toBe('[Critical] 1# <UPS>');
+    expect(en.variables.time).toBe(source.triggeredAt.toLocaleString('en-GB'));
+
+    // 经队列序列化后时间为字符串
+    const serialized = JSON.parse(JSON.stringify(source));
+    expect(renderNotification(template, serialized, 'zh-CN').variables.time).toBe(zh.variables.time);
+  });
+
+  test('创建模板时拒绝未知占位符和非邮件的 HTML 模板', () => {
+    const parse = (data: Record<string, unknown>) => CreateTemplateRequestSchema.safeParse({ data });
+
+    expect(parse({ name: 'a', channel: 'sms', body: '{{msg}}' }).success).toBe(true);
+    expect(parse({ name: 'a', channel: 'sms', body: '{{message}}' }).success).toBe(false);
+    expect(parse({ name: 'a', channel: 'sms', body: '{{msg}}', format: 'html' }).success).toBe(false);
+    expect(parse({ name: 'a', channel: 'email', body: '<p>{{msg}}</p>', format: 'html' }).success).toBe(true);
+  });
+});
+
+describe('NotificationTemplateService 模板匹配', () => {
+  let db: MockDb;
+  let service: NotificationTemplateService;
+
+  const addTemplate = async (template: Partial<NotificationTemplateDocument>) => {
+    await db.collection(NOTIFICATION_TEMPLATE_COLLECTION).insertOne({
+      ...createNotificationTemplate({
+        name: template.name!,
+        channel: 'sms',
+        body: template.name!,
+        createdBy: 'admin',
+      }),
+      ...template,
+    });
+  };
+
+  beforeEach(() => {
+    db = createMockDb();
+    service = new NotificationTemplateService(db.asDb());
+  });
+
+  test('标签 + 语言优先，其次通用模板，再回退到默认语言和内置模板', async () => {
+    const render = async (tag: AlarmDocument['tag'], language: string) =>
+      (await service.render('sms', alarm({ tag }), language)).body;
+
+    expect(await render('Threshold', 'en-US')).toBe('温度超限');
+
+    await addTemplate({ name: 'zh-generic' });
+    await addTemplate({ name: 'zh-offline', tag: 'offline' });
+    await addTemplate({ name: 'en-threshold', tag: 'Threshold', language: 'en-US' });
+    await addTemplate({ name: 'en-disabled', language: 'en-US', enabled: false });
+    await addTemplate({ name: 'email', channel: 'email' });
+
+    expect(await render('Threshold', 'en-US')).toBe('en-threshold');
+    expect(await render('offline', 'en-US')).toBe('zh-offline');
+    expect(await render('AlarmStat', 'en-US')).toBe('zh-generic');
+    expect(await render('offline', 'zh-CN')).toBe('zh-offline');
+
+    const fallback = await service.render('sms', alarm({ tag: 'ups' }), 'en-US');
+    expect(fallback.language).toBe('zh-CN');
+    expect(fallback.variables.level).toBe('严重');
+  });
+});
+
+describe('AlarmNotificationService 模板渲染', () => {
+  test('按用户语言渲染邮件和短信通知', async () => {
+    const db = createMockDb();
+    await db.collection(USER_COLLECTION).insertOne({
+      username: 'overseas',
+      role: UserRole.USER,
+      isActive: true,
+      devices: [MAC],
+    });
+    await db.collection(USER_ALARM_SETUP_COLLECTION).insertOne({
+      ...createUserAlarmSetup('overseas'),
+      ProtocolSetup: [{ Protocol: 'modbus' }],
+      mails: ['ops@example.com'],
+      tels: ['13800000000'],
+      language: 'en-US',
+    });
+    await db.collection(NOTIFICATION_TEMPLATE_COLLECTION).insertOne(
+      createNotificationTemplate({
+        name: 'en-sms',
+        channel: 'sms',
+        language: 'en-US',
+        body: '{{devName}} {{param}} {{value}}{{unit}}',
+        externalTemplateId: 'SMS_EN_ALARM',
+        createdBy: 'admin',
+      })
+    );
+
+    const service = new AlarmNotificationService(db.asDb());
+    await service.sendAlarmNotification(alarm());
+
+    const logs = db.collection(NOTIFICATION_LOG_COLLECTION).docs;
+    const sms = logs.find((log) => log.type === 'sms')!;
+    const email = logs.find((log) => log.type === 'email')!;
+
+    expect(sms.params.TemplateCode).toBe('SMS_EN_ALARM');
+    expect(JSON.parse(sms.params.TemplateParam)).toMatchObject({
+      level: 'Critical',
+      message: '1# <UPS> 温度 38.5℃',
+    });
+
+    expect(email.success).toBe(true);
+    expect(email.params.subject).toBe('[Alarm] 温度超限');
+    expect(email.params.html).toContain('<strong>Level:</strong> Critical');
+    expect(email.params.html).toContain('1# &lt;UPS&gt; (AABBCCDDEE01 - 1)');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * 查询调度器单元测试
+ * 测试到期判断、分时段查询计划、超时退避、串口公平分配和调度结论记录
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { QueryScheduler } from '../../src/services/query-scheduler';
+
+const MAC = 'AABBCCDDEEFF';
+
+/**
+ * 本地时间
+ */
+const at = (hours: number, minutes = 0, seconds = 0) => new Date(2026, 0, 1, hours, minutes, seconds);
+
+const entries = (...pids: number[]) => pids.map((pid) => ({ TerminalMac: MAC, pid }));
+
+describe('QueryScheduler', () => {
+  let scheduler: QueryScheduler;
+
+  const decision = (pid: number, now = at(12)) =>
+    scheduler.getTerminalSchedule(MAC, now).find((state) => state.pid === pid)!.lastDecision;
+
+  beforeEach(() => {
+    scheduler = new QueryScheduler();
+  });
+
+  test('到期设备被选中，未到期时记录原因', () => {
+    scheduler.configure(MAC, 1, { baseInterval: 5000 });
+
+    expect(scheduler.plan(entries(1), at(12))).toEqual([{ mac: MAC, pid: 1 }]);
+    scheduler.markSent(MAC, 1, at(12));
+    scheduler.recordResult(MAC, 1, 200, at(12));
+
+    expect(scheduler.plan(entries(1), at(12, 0, 3))).toEqual([]);
+    expect(decision(1)!.status).toBe('not_due');
+    expect(scheduler.plan(entries(1), at(12, 0, 5))).toHaveLength(1);
+  });
+
+  test('分时段计划放大夜间查询间隔 (跨零点)', () => {
+    scheduler.configure(MAC, 1, {
+      baseInterval: 5000,
+      pollSchedule: [{ start: '22:00', end: '06:00', intervalFactor: 4 }],
+    });
+    scheduler.markSent(MAC, 1, at(2));
+    scheduler.recordResult(MAC, 1, 200);
+
+    expect(scheduler.plan(entries(1), at(2, 0, 10))).toEqual([]);
+    expect(scheduler.getTerminalSchedule(MAC, at(2))[0]!.effectiveInterval).toBe(20000);
+    expect(scheduler.getTerminalSchedule(MAC, at(12))[0]!.effectiveInterval).toBe(5000);
+  });
+
+  test('连续超时按优先级上限退避，收到结果后恢复', () => {
+    scheduler.configure(MAC, 1, { baseInterval: 5000, priority: 'high' });
+
+    for (let i = 0; i < 4; i++) {
+      scheduler.markSent(MAC, 1, at(12));
+      scheduler.recordTimeout(MAC, 1);
+    }
+
+    expect(scheduler.getTerminalSchedule(MAC)[0]!.backoffFactor).toBe(4);
+    expect(scheduler.plan(entries(1), at(12, 0, 10))).toEqual([]);
+    expect(decision(1)!.status).toBe('backoff');
+
+    scheduler.recordTimeout(MAC, 1, 10);
+    expect(scheduler.getTerminalSchedule(MAC)[0]!.consecutiveTimeouts).toBe(10);
+
+    scheduler.recordResult(MAC, 1, 300);
+    expect(scheduler.getTerminalSchedule(MAC)[0]!.backoffFactor).toBe(1);
+  });
+
+  test('等待结果期间同一 DTU 的其他设备让出串口，等待超时后按超时处理', () => {
+    scheduler.configure(MAC, 1, { baseInterval: 5000 });
+    scheduler.configure(MAC, 2, { baseInterval: 5000 });
+    scheduler.markSent(MAC, 1, at(12));
+
+    expect(scheduler.plan(entries(1, 2), at(12, 0, 1))).toEqual([]);
+    expect(decision(1)!.status).toBe('awaiting_result');
+    expect(decision(2)!.reason).toContain('PID 1');
+
+    expect(scheduler.plan(entries(1, 2), at(12, 0, 11))).toEqual([{ mac: MAC, pid: 2 }]);
+    expect(scheduler.getTerminalSchedule(MAC)[0]!.consecutiveTimeouts).toBe(1);
+  });
+
+  test('同一 DTU 每轮只下发一个设备，按权重折算的串口占用时间公平分配', () => {
+    scheduler.configure(MAC, 1, { baseInterval: 1000, priority: 'low' });
+    scheduler.configure(MAC, 2, { baseInterval: 1000, priority: 'high' });
+
+    const sent: number[] = [];
+    for (let second = 0; second < 20; second++) {
+      const now = at(12, 0, second);
+      const picks = scheduler.plan(entries(1, 2), now);
+      expect(picks.length).toBeLessThanOrEqual(1);
+
+      for (const { pid } of picks) {
+        sent.push(pid);
+        scheduler.markSent(MAC, pid, now);
+        scheduler.recordResult(MAC, pid, 400, now);
+      }
+    }
+
+    // 高优先级权重是低优先级的 4 倍
+    const high = sent.filter((pid) => pid === 2).length;
+    const low = sent.filter((pid) => pid === 1).length;
+    expect(high).toBeGreaterThan(low * 2);
+    expect(low).toBeGreaterThan(0);
+  });
+
+  test('DTU 被阻止时记录原因，汇总按结论统计', () => {
+    scheduler.configure(MAC, 1, { baseInterval: 5000 });
+    scheduler.configure('AABBCCDDEE00', 1, { baseInterval: 5000, priority: 'low' });
+
+    const picks = scheduler.plan(
+      [...entries(1), { TerminalMac: 'AABBCCDDEE00', pid: 1 }],
+      at(12),
+      (mac) => (mac === MAC ? { status: 'immediate_query', reason: '即时查询进行中' } : undefined)
+    );
+
+    expect(picks).toEqual([{ mac: 'AABBCCDDEE00', pid: 1 }]);
+    expect(decision(1)!.status).toBe('immediate_query');
+    expect(scheduler.getSummary()).toMatchObject({
+      devices: 2,
+      terminals: 2,
+      byStatus: { immediate_query: 1 },
+      byPriority: { high: 0, normal: 1, low: 1 },
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * TimeSeriesWriterService 单元测试
+ *
+ * 测试覆盖:
+ * - 查询结果按参数拆分为数值数据点
+ * - 非数值数据点跳过
+ * - 达到批量大小自动写入 / 手动写入剩余数据
+ * - 参数最新值更新
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { TimeSeriesWriterService } from '../../src/services/time-series-writer.service';
+import { PARSED_DATA_COLLECTION, SINGLE_DATA_COLLECTION } from '../../src/entities/mongodb';
+import { createMockDb, type MockDb } from '../helpers/mock-db';
+
+describe('TimeSeriesWriterService', () => {
+  let db: MockDb;
+  let writer: TimeSeriesWriterService;
+
+  const result = (timeStamp: number, temperature: string) => ({
+    mac: 'AABBCCDDEE01',
+    pid: 1,
+    protocol: 'modbus',
+    timeStamp,
+    result: [
+      { name: 'temperature', value: '253', parseValue: temperature, unit: '℃' },
+      { name: 'humidity', value: '60', parseValue: '60' },
+      { name: 'status', value: '1', parseValue: '运行' },
+      { name: 'empty', value: '', parseValue: '' },
+    ],
+  });
+
+  beforeEach(() => {
+    db = createMockDb();
+    writer = new TimeSeriesWriterService(db.asDb(), { batchSize: 4, flushInterval: 60_000 });
+  });
+
+  test('should fan out numeric parameters into data points', async () => {
+    const timeStamp = Date.now();
+
+    expect(writer.write(result(timeStamp, '25.3'))).toBe(2);
+    expect(writer.pendingCount).toBe(2);
+    expect(db.collection(PARSED_DATA_COLLECTION).docs).toHaveLength(0);
+
+    await writer.flush();
+
+    const docs = db.collection(PARSED_DATA_COLLECTION).docs;
+    expect(docs.map((doc) => [doc.name, doc.value, doc.unit])).toEqual([
+      ['temperature', 25.3, '℃'],
+      ['humidity', 60, undefined],
+    ]);
+    expect(docs[0]!.timestamp).toEqual(new Date(timeStamp));
+    expect(docs[0]!.protocol).toBe('modbus');
+    expect(writer.pendingCount).toBe(0);
+  });
+
+  test('should write automatically once the batch size is reached', async () => {
+    writer.write(result(Date.now(), '25.3'));
+    writer.write(result(Date.now(), '25.4'));
+
+    await writer.flush();
+
+    expect(db.collection(PARSED_DATA_COLLECTION).docs).toHaveLength(4);
+  });
+
+  test('should keep the latest value per parameter', async () => {
+    const now = Date.now();
+    writer.write(result(now - 1000, '25.3'));
+    writer.write(result(now, '26.1'));
+    await writer.flush();
+
+    writer.write(result(now + 1000, '27.0'));
+    await writer.stop();
+
+    const single = db.collection(SINGLE_DATA_COLLECTION).docs;
+    expect(single).toHaveLength(2);
+    expect(single.find((doc) => doc.name === 'temperature')).toMatchObject({
+      mac: 'AABBCCDDEE01',
+      pid: 1,
+      value: 27,
+      timestamp: new Date(now + 1000),
+    });
+  });
+
+  test('should drop a batch that fails to write', async () => {
+    db.collection(PARSED_DATA_COLLECTION).insertMany = async () => {
+      throw new Error('write failed');
+    };
+
+    writer.write(result(Date.now(), '25.3'));
+    await writer.flush();
+
+    expect(writer.pendingCount).toBe(0);
+    expect(db.collection(SINGLE_DATA_COLLECTION).docs).toHaveLength(0);
+  });
+});
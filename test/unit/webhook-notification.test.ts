@@ -0,0 +1,289 @@
+/**
+ * Webhook 通知单元测试
+ *
+ * 使用本地 HTTP 桩服务测试端到端投递:
+ * - HMAC 签名和请求头
+ * - 按事件、设备所有权和启用状态选择端点
+ * - 通知日志和端点投递状态
+ * - 投递失败时按指数退避重试
+ * - 拒绝内网地址和重定向，非管理员端点只记录状态码
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterAll, spyOn } from 'bun:test';
+import { ObjectId } from 'mongodb';
+import { AlarmNotificationService, type NotificationJob } from '../../src/services/alarm-notification.service';
+import {
+  WebhookService,
+  isPublicAddress,
+  webhookService,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../../src/services/notification/webhook.service';
+import type { JobOptions, QueueService } from '../../src/services/queue/queue.interface';
+import {
+  NOTIFICATION_LOG_COLLECTION,
+  USER_COLLECTION,
+  WEBHOOK_ENDPOINT_COLLECTION,
+  UserRole,
+  createAlarm,
+  createWebhookEndpoint,
+  type AlarmDocument,
+  type WebhookEndpointDocument,
+} from '../../src/entities/mongodb';
+import { createMockDb, type MockDb } from '../helpers/mock-db';
+
+const MAC = 'AABBCCDDEE01';
+const SECRET = 'whsec_test_secret_0123456789';
+
+interface ReceivedRequest {
+  headers: Headers;
+  body: string;
+}
+
+describe('Webhook 通知', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  let db: MockDb;
+
+  const alarm = (): AlarmDocument => ({
+    ...createAlarm({
+      type: 'threshold',
+      level: 'error',
+      tag: 'Threshold',
+      mac: MAC,
+      pid: 1,
+      protocol: 'modbus',
+      msg: '温度过高',
+      timeStamp: Date.now(),
+      triggeredAt: new Date(),
+    }),
+    _id: new ObjectId(),
+  });
+
+  const addEndpoint = async (
+    endpoint: Partial<WebhookEndpointDocument> = {}
+  ): Promise<WebhookEndpointDocument> => {
+    const document = {
+      ...createWebhookEndpoint({
+        name: 'test',
+        url: `http://127.0.0.1:${server.port}/hook`,
+        secret: SECRET,
+        createdBy: 'admin',
+      }),
+      ...endpoint,
+    };
+    await db.collection(WEBHOOK_ENDPOINT_COLLECTION).insertOne(document);
+    return document;
+  };
+
+  // 桩服务在本机，全局实例跳过地址检查 (地址检查使用单独的实例测试)
+  const assertPublicUrl = spyOn(webhookService, 'assertPublicUrl').mockResolvedValue(undefined);
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch: async (request) => {
+        received.push({ headers: request.headers, body: await request.text() });
+        return new Response(responseStatus === 200 ? 'ok' : 'boom', {
+          status: responseStatus,
+          headers: responseStatus >= 300 && responseStatus < 400 ? { Location: '/elsewhere' } : undefined,
+        });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    assertPublicUrl.mockRestore();
+  });
+
+  beforeEach(() => {
+    received = [];
+    responseStatus = 200;
+    db = createMockDb();
+  });
+
+  test('签名可以用同一密钥校验', () => {
+    const signature = webhookService.sign(SECRET, 1700000000, '{"a":1}');
+
+    expect(signature).toStartWith('sha256=');
+    expect(webhookService.verify(SECRET, 1700000000, '{"a":1}', signature)).toBe(true);
+    expect(webhookService.verify(SECRET, 1700000001, '{"a":1}', signature)).toBe(false);
+    expect(webhookService.verify('other-secret', 1700000000, '{"a":1}', signature)).toBe(false);
+  });
+
+  test('告警触发时推送到订阅该事件的全局端点和设备所有者的端点', async () => {
+    const service = new AlarmNotificationService(db.asDb());
+    await db.collection(USER_COLLECTION).insertOne({
+      username: 'alice',
+      role: UserRole.USER,
+      isActive: true,
+      devices: [MAC],
+    });
+
+    const global = await addEndpoint({ name: 'global' });
+    const owned = await addEndpoint({ name: 'alice', owner: 'alice' });
+    await addEndpoint({ name: 'bob', owner: 'bob' });
+    await addEndpoint({ name: 'disabled', enabled: false });
+    await addEndpoint({ name: 'resolved-only', events: ['alarm.resolved'] });
+    await addEndpoint({ name: 'other-device', macs: ['AABBCCDDEE02'] });
+
+    const triggered = alarm();
+    await service.sendAlarmNotification(triggered);
+
+    expect(received).toHaveLength(2);
+
+    for (const request of received) {
+      const timestamp = Number(request.headers.get(WEBHOOK_TIMESTAMP_HEADER));
+      const signature = request.headers.get(WEBHOOK_SIGNATURE_HEADER)!;
+      expect(webhookService.verify(SECRET, timestamp, request.body, signature)).toBe(true);
+      expect(request.headers.get(WEBHOOK_EVENT_HEADER)).toBe('alarm.triggered');
+      expect(request.headers.get('content-type')).toBe('application/json');
+
+      const payload = JSON.parse(request.body);
+      expect(payload.id).toBe(request.headers.get(WEBHOOK_DELIVERY_HEADER)!);
+      expect(payload).toMatchObject({
+        event: 'alarm.triggered',
+        alarm: { id: triggered._id!.toString(), mac: MAC, pid: 1, level: 'error', msg: '温度过高' },
+      });
+    }
+
+    const deliveryIds = received.map((request) => request.headers.get(WEBHOOK_DELIVERY_HEADER));
+    expect(deliveryIds.sort()).toEqual(
+      [global, owned].map((endpoint) => `${triggered._id}:alarm.triggered:${endpoint._id}`).sort()
+    );
+
+    const logs = db.collection(NOTIFICATION_LOG_COLLECTION).docs;
+    expect(logs.map((log) => [log.type, log.success, log.response?.status])).toEqual([
+      ['webhook', true, 200],
+      ['webhook', true, 200],
+    ]);
+    expect(logs.map((log) => log.userId).sort()).toEqual(['admin', 'alice']);
+    // 非管理员的端点只记录状态码
+    expect(logs.find((log) => log.userId === 'alice')!.response).toEqual({ status: 200 });
+    expect(logs.find((log) => log.userId === 'admin')!.response).toMatchObject({ status: 200, body: 'ok' });
+    expect(db.collection(WEBHOOK_ENDPOINT_COLLECTION).docs[0]!.lastDeliverySuccess).toBe(true);
+  });
+
+  test('投递失败时记录错误并由队列指数退避重试', async () => {
+    const jobs: Array<{ name: string; data: NotificationJob; options?: JobOptions }> = [];
+    const queue = {
+      addJob: async (_queueName: string, name: string, data: any, options?: JobOptions) => {
+        jobs.push({ name, data, options });
+        return { id: String(jobs.length), name, data } as any;
+      },
+      registerProcessor: () => {},
+    } as unknown as QueueService;
+
+    const service = new AlarmNotificationService(db.asDb(), queue);
+    const endpoint = await addEndpoint();
+    responseStatus = 500;
+
+    await service.sendWebhookEvent('alarm.acknowledged', alarm());
+
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]!.name).toBe('webhook_notification');
+    expect(jobs[0]!.options).toMatchObject({ attempts: 6, backoff: 5000 });
+    expect(jobs[0]!.data).toMatchObject({
+      channel: 'webhook',
+      event: 'alarm.acknowledged',
+      contact: { webhookId: endpoint._id!.toString() },
+    });
+
+    const result = await (service as any).processNotification(jobs[0]!.data);
+
+    expect(received).toHaveLength(1);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('HTTP 500');
+    expect(db.collection(NOTIFICATION_LOG_COLLECTION).docs[0]!.error).toContain('HTTP 500');
+    expect(db.collection(WEBHOOK_ENDPOINT_COLLECTION).docs[0]!.lastDeliverySuccess).toBe(false);
+
+    // 端点停用后剩余的重试不再投递
+    await db.collection(WEBHOOK_ENDPOINT_COLLECTION).updateOne({}, { $set: { enabled: false } });
+    expect((await (service as any).processNotification(jobs[0]!.data)).success).toBe(true);
+    expect(received).toHaveLength(1);
+  });
+
+  test('非管理员端点投递失败时只记录状态码', async () => {
+    const service = new AlarmNotificationService(db.asDb());
+    await db.collection(USER_COLLECTION).insertOne({
+      username: 'alice',
+      role: UserRole.USER,
+      isActive: true,
+      devices: [MAC],
+    });
+    const endpoint = await addEndpoint({ name: 'alice', owner: 'alice' });
+    responseStatus = 500;
+
+    const result = await (service as any).processNotification({
+      alarm: alarm(),
+      userId: 'alice',
+      channel: 'webhook',
+      contact: { webhookId: endpoint._id!.toString() },
+      event: 'alarm.triggered',
+    } satisfies NotificationJob);
+
+    expect(result.success).toBe(false);
+    const [log] = db.collection(NOTIFICATION_LOG_COLLECTION).docs;
+    expect(log!.error).toBe('Webhook responded with HTTP 500');
+    expect(JSON.stringify(log)).not.toContain('boom');
+  });
+
+  test('拒绝回环、私有、链路本地和元数据地址', async () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.100.100.200',
+      '0.0.0.0',
+      '::1',
+      'fe80::1',
+      'fd00:ec2::254',
+      '::ffff:127.0.0.1',
+    ]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+    expect(isPublicAddress('8.8.8.8')).toBe(true);
+    expect(isPublicAddress('2606:4700:4700::1111')).toBe(true);
+
+    const service = new WebhookService();
+    for (const url of ['https://localhost/hook', 'https://[::1]/hook', 'http://169.254.169.254/latest/meta-data']) {
+      await expect(service.assertPublicUrl(url)).rejects.toThrow('non-public address');
+    }
+
+    // 投递时再次检查，不发出请求
+    await expect(
+      service.deliver({
+        url: `http://127.0.0.1:${server.port}/hook`,
+        secret: SECRET,
+        event: 'alarm.triggered',
+        deliveryId: '1',
+        payload: {},
+      })
+    ).rejects.toThrow('non-public address 127.0.0.1');
+    expect(received).toHaveLength(0);
+
+    await expect(new WebhookService({ allowPrivateNetwork: true }).assertPublicUrl('https://localhost/hook')).resolves.toBeUndefined();
+  });
+
+  test('重定向视为投递失败，不跟随', async () => {
+    const service = new WebhookService({ allowPrivateNetwork: true });
+    responseStatus = 302;
+
+    await expect(
+      service.deliver({
+        url: `http://127.0.0.1:${server.port}/hook`,
+        secret: SECRET,
+        event: 'alarm.triggered',
+        deliveryId: '1',
+        payload: {},
+      })
+    ).rejects.toThrow('redirect HTTP 302');
+    expect(received).toHaveLength(1);
+  });
+});
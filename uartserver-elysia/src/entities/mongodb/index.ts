@@ -28,6 +28,9 @@ export * from './login-log.entity';
 // User Bind Device (用户设备绑定)
 export * from './user-bind-device.entity';
 
+// Role Permission (角色权限 RBAC)
+export * from './role-permission.entity';
+
 // Terminal (终端设备)
 export * from './terminal.entity';
 
@@ -81,6 +84,12 @@ import {
   type UserBindDeviceDocument,
 } from './user-bind-device.entity';
 
+import {
+  ROLE_PERMISSION_COLLECTION,
+  ROLE_PERMISSION_INDEXES,
+  type RolePermissionDocument,
+} from './role-permission.entity';
+
 import {
   TERMINAL_COLLECTION,
   TERMINAL_INDEXES,
@@ -154,6 +163,10 @@ export const PHASE3_COLLECTIONS: CollectionConfig[] = [
     name: USER_BIND_DEVICE_COLLECTION,
     indexes: USER_BIND_DEVICE_INDEXES as unknown as IndexDescription[],
   },
+  {
+    name: ROLE_PERMISSION_COLLECTION,
+    indexes: ROLE_PERMISSION_INDEXES as unknown as IndexDescription[],
+  },
   {
     name: TERMINAL_COLLECTION,
     indexes: TERMINAL_INDEXES as unknown as IndexDescription[],
@@ -265,6 +278,10 @@ export class Phase3Collections {
     return this.db.collection<UserBindDeviceDocument>(USER_BIND_DEVICE_COLLECTION);
   }
 
+  get rolePermissions() {
+    return this.db.collection<RolePermissionDocument>(ROLE_PERMISSION_COLLECTION);
+  }
+
   get terminals() {
     return this.db.collection<TerminalDocument>(TERMINAL_COLLECTION);
   }
@@ -0,0 +1,68 @@
+/**
+ * 角色权限实体
+ *
+ * 记录角色 → 权限的映射 (RBAC)，由管理员通过 /api/admin/roles 维护
+ * 未配置的角色使用 DEFAULT_PERMISSIONS 中的默认权限
+ */
+
+import { ObjectId } from 'mongodb';
+import { PERMISSIONS, type Permission } from './user.entity';
+
+/**
+ * 角色权限文档接口
+ */
+export interface RolePermissionDocument {
+  _id: ObjectId;
+
+  /** 角色名称 (与用户 role 字段对应) */
+  role: string;
+
+  /** 权限列表 */
+  permissions: Permission[];
+
+  /** 角色说明 */
+  description?: string;
+
+  /** 最后修改人 */
+  updatedBy?: string;
+
+  /** 创建时间 */
+  createdAt: Date;
+
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 拥有全部权限的超级角色 (不受角色权限配置影响，防止管理员被锁定)
+ */
+export const SUPER_ROLES: readonly string[] = ['admin', 'root'];
+
+/**
+ * 全部权限
+ */
+export const ALL_PERMISSIONS: Permission[] = Object.values(PERMISSIONS);
+
+/**
+ * 检查是否为有效权限
+ */
+export function isValidPermission(value: string): value is Permission {
+  return (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+/**
+ * 集合名称
+ */
+export const ROLE_PERMISSION_COLLECTION = 'role_permissions';
+
+/**
+ * 集合索引
+ */
+export const ROLE_PERMISSION_INDEXES = [
+  // 唯一索引：角色名称
+  {
+    key: { role: 1 },
+    name: 'idx_role_permissions_role',
+    unique: true,
+  },
+] as const;
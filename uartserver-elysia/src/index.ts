@@ -32,6 +32,7 @@ import { terminalManagementRoutes } from './routes/terminal-management.route';
 import { wechatRoutes } from './routes/wechat.route';
 import { smsRoutes } from './routes/sms.route';
 import { adminLogRoutes } from './routes/admin-log.route';
+import { roleRoutes } from './routes/role.route';
 
 // 数据库
 import { mongodb } from './database/mongodb';
@@ -136,6 +137,9 @@ const app = new Elysia()
   // ✅ Admin Log Routes (Phase 8.6)
   .use(adminLogRoutes)
 
+  // ✅ Role Routes (RBAC 角色权限管理)
+  .use(roleRoutes)
+
   // 迁移完成! 🎉
   // All Phase 8 controllers migrated successfully
 
@@ -16,6 +16,9 @@
  * .get('/admin', requireRole(['admin', 'root']), async ({ user }) => {
  *   return { admin: user.username };
  * })
+ *
+ * // 要求权限 (按角色权限配置检查)
+ * .get('/stats', handler, { beforeHandle: requirePermissions(PERMISSIONS.USER_ADMIN) })
  * ```
  */
 
@@ -23,7 +26,9 @@ import { Elysia, NotFoundError } from 'elysia';
 import { jwt } from '@elysiajs/jwt';
 import type { JWTPayload } from '../schemas/auth.schema';
 import { AuthService } from '../services/auth.service';
+import { getRbacService } from '../services/rbac.service';
 import { mongodb } from '../database/mongodb';
+import { isValidPermission, type Permission, type UserDocument } from '../entities/mongodb';
 
 // JWT 配置
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-this';
@@ -263,27 +268,70 @@ export async function getCurrentUserId(ctx: any): Promise<string | null> {
 
 /**
  * 检查用户是否有权限访问资源
+ *
+ * resource + action 对应权限目录中的 `${resource}:${action}` (如 device:read)，
+ * 目录中不存在的组合一律拒绝
  */
 export async function checkPermission(
   userId: string,
   resource: string,
   action: 'read' | 'write' | 'delete'
 ): Promise<boolean> {
-  // TODO: 实现基于角色的权限控制 (RBAC)
-  // 可以根据用户角色和资源类型判断权限
+  const permission = `${resource}:${action}`;
+  if (!isValidPermission(permission)) {
+    return false;
+  }
 
   const authService = new AuthService(mongodb.getDatabase());
   const user = await authService.findUserById(userId);
 
-  if (!user) return false;
+  if (!user || !user.isActive) return false;
 
-  // 示例: root 和 admin 有所有权限
-  if (user.role === 'root' || user.role === 'admin') {
-    return true;
-  }
+  return await getRbacService().roleHasPermissions(user.role, [permission]);
+}
+
+/**
+ * 要求权限 - 路由级守卫 (beforeHandle)
+ *
+ * 根据用户角色的权限配置 (role_permissions) 检查，需要全部所列权限；
+ * 未登录返回 401，权限不足返回 403
+ *
+ * 使用方式:
+ * ```typescript
+ * .use(requireAuth)
+ * .get('/statistics', handler, {
+ *   beforeHandle: requirePermissions(PERMISSIONS.USER_ADMIN),
+ * })
+ * ```
+ */
+export function requirePermissions(...permissions: Permission[]) {
+  return async (ctx: any) => {
+    let user: UserDocument;
+    try {
+      ({ user } = await getAuthUser(ctx));
+    } catch (error) {
+      ctx.set.status = 401;
+      return {
+        status: 'error' as const,
+        message: error instanceof Error ? error.message : 'Unauthorized',
+        data: null,
+      };
+    }
 
-  // 其他角色的权限逻辑
-  return true; // 默认允许 (需要根据实际业务调整)
+    const allowed = await getRbacService().roleHasPermissions(user.role, permissions);
+    if (!allowed) {
+      console.warn(`[RBAC] User ${user._id} (${user.role}) denied, requires: ${permissions.join(', ')}`);
+      ctx.set.status = 403;
+      return {
+        status: 'error' as const,
+        message: `Forbidden - Requires permissions: ${permissions.join(', ')}`,
+        data: null,
+      };
+    }
+
+    // 未返回值时继续执行路由处理器
+    return undefined;
+  };
 }
 
 /**
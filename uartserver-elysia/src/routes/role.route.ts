@@ -0,0 +1,169 @@
+/**
+ * Role Routes
+ *
+ * 角色权限管理 API (RBAC) - 所有端点需要 user:admin 权限
+ *
+ * 端点列表:
+ * - GET    /api/admin/roles         - 获取所有角色及权限目录
+ * - GET    /api/admin/roles/:role   - 获取角色权限
+ * - PUT    /api/admin/roles/:role   - 设置角色权限 (创建或覆盖)
+ * - DELETE /api/admin/roles/:role   - 删除角色配置 (恢复默认权限)
+ */
+
+import { Elysia } from 'elysia';
+import {
+  requireAuth,
+  requirePermissions,
+  getCurrentUserId,
+} from '../middleware/jwt-auth.middleware';
+import { getRbacService } from '../services/rbac.service';
+import { ALL_PERMISSIONS, PERMISSIONS } from '../entities/mongodb';
+import {
+  RoleParamsSchema,
+  UpdateRolePermissionsRequestSchema,
+  type GetRolesResponse,
+  type RoleResponse,
+  type ResetRoleResponse,
+} from '../schemas/role.schema';
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export const roleRoutes = new Elysia({ prefix: '/api/admin/roles' })
+  .use(requireAuth)
+
+  /**
+   * GET /api/admin/roles
+   * 获取所有角色及权限目录
+   */
+  .get(
+    '/',
+    async (): Promise<GetRolesResponse> => {
+      try {
+        const roles = await getRbacService().listRoles();
+
+        return {
+          status: 'ok',
+          data: {
+            roles,
+            permissions: ALL_PERMISSIONS,
+          },
+        };
+      } catch (error) {
+        console.error('Error listing roles:', error);
+        return {
+          status: 'error',
+          message: error instanceof Error ? error.message : '获取角色列表失败',
+          data: null,
+        };
+      }
+    },
+    {
+      beforeHandle: requirePermissions(PERMISSIONS.USER_ADMIN),
+    }
+  )
+
+  /**
+   * GET /api/admin/roles/:role
+   * 获取角色权限
+   */
+  .get(
+    '/:role',
+    async ({ params }): Promise<RoleResponse> => {
+      try {
+        const role = await getRbacService().getRole(params.role);
+
+        return {
+          status: 'ok',
+          data: role,
+        };
+      } catch (error) {
+        console.error('Error getting role:', error);
+        return {
+          status: 'error',
+          message: error instanceof Error ? error.message : '获取角色失败',
+          data: null,
+        };
+      }
+    },
+    {
+      params: RoleParamsSchema,
+      beforeHandle: requirePermissions(PERMISSIONS.USER_ADMIN),
+    }
+  )
+
+  /**
+   * PUT /api/admin/roles/:role
+   * 设置角色权限 (admin / root 拥有全部权限，不可修改)
+   */
+  .put(
+    '/:role',
+    async (ctx): Promise<RoleResponse> => {
+      try {
+        const { params, body } = ctx;
+        const operatorId = await getCurrentUserId(ctx);
+
+        const role = await getRbacService().setRolePermissions(
+          params.role,
+          body.data.permissions,
+          {
+            description: body.data.description,
+            updatedBy: operatorId ?? undefined,
+          }
+        );
+
+        return {
+          status: 'ok',
+          message: '角色权限已更新',
+          data: role,
+        };
+      } catch (error) {
+        console.error('Error updating role permissions:', error);
+        return {
+          status: 'error',
+          message: error instanceof Error ? error.message : '更新角色权限失败',
+          data: null,
+        };
+      }
+    },
+    {
+      params: RoleParamsSchema,
+      body: UpdateRolePermissionsRequestSchema,
+      beforeHandle: requirePermissions(PERMISSIONS.USER_ADMIN),
+    }
+  )
+
+  /**
+   * DELETE /api/admin/roles/:role
+   * 删除角色配置，恢复为默认权限
+   */
+  .delete(
+    '/:role',
+    async ({ params }): Promise<ResetRoleResponse> => {
+      try {
+        const service = getRbacService();
+        const success = await service.resetRole(params.role);
+
+        return {
+          status: 'ok',
+          message: success ? '已恢复默认权限' : '角色未配置，使用默认权限',
+          data: {
+            success,
+            role: await service.getRole(params.role),
+          },
+        };
+      } catch (error) {
+        console.error('Error resetting role:', error);
+        return {
+          status: 'error',
+          message: error instanceof Error ? error.message : '重置角色失败',
+          data: { success: false },
+        };
+      }
+    },
+    {
+      params: RoleParamsSchema,
+      beforeHandle: requirePermissions(PERMISSIONS.USER_ADMIN),
+    }
+  );
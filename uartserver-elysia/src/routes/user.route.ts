@@ -9,7 +9,7 @@
 import { Elysia } from 'elysia';
 
 // JWT 认证中间件
-import { requireAuth, requireRole } from '../middleware/jwt-auth.middleware';
+import { requireAuth, requirePermissions } from '../middleware/jwt-auth.middleware';
 
 // Schemas
 import {
@@ -58,7 +58,7 @@ import {
 // Services
 import { UserService } from '../services/user.service';
 import { mongodb } from '../database/mongodb';
-import { Phase3Collections } from '../entities/mongodb';
+import { Phase3Collections, PERMISSIONS } from '../entities/mongodb';
 
 // 延迟初始化服务实例
 let userService: UserService | null = null;
@@ -135,9 +135,7 @@ export const userRoutes = new Elysia({ prefix: '/api/users' })
 
   /**
    * GET /api/users/:id
-   * 获取指定用户信息（管理员）
-   *
-   * TODO: 添加管理员权限检查
+   * 获取指定用户信息（需要 user:read 权限）
    */
   .get(
     '/:id',
@@ -167,6 +165,7 @@ export const userRoutes = new Elysia({ prefix: '/api/users' })
     },
     {
       params: GetUserByIdParamsSchema,
+      beforeHandle: requirePermissions(PERMISSIONS.USER_READ),
     }
   )
 
@@ -549,9 +548,7 @@ export const userRoutes = new Elysia({ prefix: '/api/users' })
 
   /**
    * GET /api/users/statistics
-   * 获取用户统计信息（管理员）
-   *
-   * TODO: 添加管理员权限检查
+   * 获取用户统计信息（需要 user:admin 权限）
    */
   .get('/statistics', async ({ userId }): Promise<GetUsersStatisticsResponse> => {
     try {
@@ -576,4 +573,6 @@ export const userRoutes = new Elysia({ prefix: '/api/users' })
       console.error('Error getting users statistics:', error);
       throw error;
     }
+  }, {
+    beforeHandle: requirePermissions(PERMISSIONS.USER_ADMIN),
   });
@@ -0,0 +1,89 @@
+/**
+ * Role Schemas
+ *
+ * 角色权限管理 (RBAC) 的 Zod 验证 schemas
+ */
+
+import { z } from 'zod';
+import { PERMISSIONS, type Permission } from '../entities/mongodb/user.entity';
+import type { RoleInfo } from '../services/rbac.service';
+
+// ============================================================================
+// 基础验证
+// ============================================================================
+
+/**
+ * 权限验证 (必须在权限目录中)
+ */
+export const PermissionSchema = z.enum(
+  Object.values(PERMISSIONS) as [Permission, ...Permission[]]
+);
+
+/**
+ * 角色名称验证
+ */
+export const RoleNameSchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9_-]{1,31}$/, '角色名称只能包含小写字母、数字、下划线和连字符');
+
+// ============================================================================
+// 角色管理
+// ============================================================================
+
+/**
+ * GET /api/admin/roles
+ * 获取所有角色及权限目录
+ */
+export interface GetRolesResponse {
+  status: 'ok' | 'error';
+  message?: string;
+  data: {
+    roles: RoleInfo[];
+    permissions: Permission[];
+  } | null;
+}
+
+/**
+ * 角色路由参数
+ */
+export const RoleParamsSchema = z.object({
+  role: RoleNameSchema,
+});
+
+export type RoleParams = z.infer<typeof RoleParamsSchema>;
+
+/**
+ * GET /api/admin/roles/:role
+ * PUT /api/admin/roles/:role
+ */
+export interface RoleResponse {
+  status: 'ok' | 'error';
+  message?: string;
+  data: RoleInfo | null;
+}
+
+/**
+ * PUT /api/admin/roles/:role
+ * 设置角色权限
+ */
+export const UpdateRolePermissionsRequestSchema = z.object({
+  data: z.object({
+    permissions: z.array(PermissionSchema),
+    description: z.string().max(200, '角色说明不能超过 200 个字符').optional(),
+  }),
+});
+
+export type UpdateRolePermissionsRequest = z.infer<typeof UpdateRolePermissionsRequestSchema>;
+
+/**
+ * DELETE /api/admin/roles/:role
+ * 恢复角色默认权限
+ */
+export interface ResetRoleResponse {
+  status: 'ok' | 'error';
+  message?: string;
+  data: {
+    success: boolean;
+    role?: RoleInfo;
+  };
+}
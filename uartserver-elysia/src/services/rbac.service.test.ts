@@ -0,0 +1,31 @@
+import { describe, test, expect } from 'bun:test';
+import { resolveRolePermissions, hasAllPermissions } from './rbac.service';
+import { PERMISSIONS } from '../entities/mongodb/user.entity';
+import { ALL_PERMISSIONS, isValidPermission } from '../entities/mongodb/role-permission.entity';
+
+describe('RBAC 权限解析', () => {
+  test('admin / root 始终拥有全部权限，忽略角色配置', () => {
+    expect(resolveRolePermissions('admin', { permissions: [] })).toEqual(ALL_PERMISSIONS);
+    expect(resolveRolePermissions('root')).toEqual(ALL_PERMISSIONS);
+  });
+
+  test('未配置的角色使用默认权限，未知角色无权限', () => {
+    expect(resolveRolePermissions('guest')).toEqual([PERMISSIONS.DEVICE_READ]);
+    expect(resolveRolePermissions('user')).not.toContain(PERMISSIONS.USER_ADMIN);
+    expect(resolveRolePermissions('test')).toEqual([]);
+  });
+
+  test('数据库配置覆盖默认权限', () => {
+    const permissions = resolveRolePermissions('user', {
+      permissions: [PERMISSIONS.DEVICE_READ, PERMISSIONS.SYSTEM_MONITOR],
+    });
+
+    expect(hasAllPermissions(permissions, [PERMISSIONS.SYSTEM_MONITOR])).toBe(true);
+    expect(hasAllPermissions(permissions, [PERMISSIONS.DEVICE_READ, PERMISSIONS.DEVICE_CONTROL])).toBe(false);
+  });
+
+  test('权限目录校验', () => {
+    expect(isValidPermission('device:read')).toBe(true);
+    expect(isValidPermission('system:read')).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * RBAC 服务
+ *
+ * 角色 → 权限映射 (role_permissions 集合)，与 Fastify 端 requirePermissions() 的权限目录一致
+ *
+ * 权限解析规则:
+ * 1. admin / root 拥有全部权限 (不受配置影响)
+ * 2. 角色在 role_permissions 中有配置时使用配置的权限
+ * 3. 未配置的角色使用 DEFAULT_PERMISSIONS 默认权限，未知角色没有权限
+ */
+
+import type { Db } from 'mongodb';
+import { mongodb } from '../database/mongodb';
+import {
+  Phase3Collections,
+  ALL_PERMISSIONS,
+  SUPER_ROLES,
+  type RolePermissionDocument,
+} from '../entities/mongodb';
+import {
+  DEFAULT_PERMISSIONS,
+  type Permission,
+  type UserRole,
+} from '../entities/mongodb/user.entity';
+
+/**
+ * 角色权限缓存时间 (毫秒)
+ */
+const ROLE_CACHE_TTL = 60 * 1000;
+
+/**
+ * 角色权限信息
+ */
+export interface RoleInfo {
+  role: string;
+  permissions: Permission[];
+  description?: string;
+  /** 是否为超级角色 (拥有全部权限，不可修改) */
+  isSuperRole: boolean;
+  /** 是否已在数据库中配置 (false 表示使用默认权限) */
+  isCustomized: boolean;
+  updatedAt?: Date;
+}
+
+/**
+ * 解析角色的有效权限
+ *
+ * @param role - 角色名称
+ * @param config - 数据库中的角色配置 (可选)
+ */
+export function resolveRolePermissions(
+  role: string,
+  config?: Pick<RolePermissionDocument, 'permissions'> | null
+): Permission[] {
+  if (SUPER_ROLES.includes(role)) {
+    return [...ALL_PERMISSIONS];
+  }
+
+  if (config) {
+    return [...config.permissions];
+  }
+
+  return [...(DEFAULT_PERMISSIONS[role as UserRole] ?? [])];
+}
+
+/**
+ * 检查权限列表是否包含全部所需权限
+ */
+export function hasAllPermissions(granted: readonly Permission[], required: readonly Permission[]): boolean {
+  return required.every((permission) => granted.includes(permission));
+}
+
+export class RbacService {
+  private collections: Phase3Collections;
+  private cache = new Map<string, { permissions: Permission[]; expiresAt: number }>();
+
+  constructor(db: Db) {
+    this.collections = new Phase3Collections(db);
+  }
+
+  // ==================== 权限检查 ====================
+
+  /**
+   * 获取角色的有效权限 (带缓存)
+   */
+  async getRolePermissions(role: string): Promise<Permission[]> {
+    const cached = this.cache.get(role);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.permissions;
+    }
+
+    const config = SUPER_ROLES.includes(role)
+      ? null
+      : await this.collections.rolePermissions.findOne({ role });
+    const permissions = resolveRolePermissions(role, config);
+
+    this.cache.set(role, { permissions, expiresAt: Date.now() + ROLE_CACHE_TTL });
+    return permissions;
+  }
+
+  /**
+   * 检查角色是否拥有全部所需权限
+   */
+  async roleHasPermissions(role: string, required: readonly Permission[]): Promise<boolean> {
+    if (SUPER_ROLES.includes(role)) {
+      return true;
+    }
+
+    return hasAllPermissions(await this.getRolePermissions(role), required);
+  }
+
+  // ==================== 角色管理 ====================
+
+  /**
+   * 获取所有角色 (默认角色 + 数据库中配置的角色)
+   */
+  async listRoles(): Promise<RoleInfo[]> {
+    const configs = await this.collections.rolePermissions.find({}).sort({ role: 1 }).toArray();
+    const configByRole = new Map(configs.map((config) => [config.role, config]));
+    const roles = new Set([...SUPER_ROLES, ...Object.keys(DEFAULT_PERMISSIONS), ...configByRole.keys()]);
+
+    return [...roles].map((role) => this.toRoleInfo(role, configByRole.get(role)));
+  }
+
+  /**
+   * 获取单个角色
+   */
+  async getRole(role: string): Promise<RoleInfo> {
+    const config = await this.collections.rolePermissions.findOne({ role });
+    return this.toRoleInfo(role, config);
+  }
+
+  /**
+   * 设置角色权限 (创建或覆盖)
+   *
+   * @throws 超级角色不允许修改
+   */
+  async setRolePermissions(
+    role: string,
+    permissions: Permission[],
+    options: { description?: string; updatedBy?: string } = {}
+  ): Promise<RoleInfo> {
+    if (SUPER_ROLES.includes(role)) {
+      throw new Error(`角色 ${role} 拥有全部权限，不可修改`);
+    }
+
+    const now = new Date();
+    await this.collections.rolePermissions.updateOne(
+      { role },
+      {
+        $set: {
+          permissions: [...new Set(permissions)],
+          ...(options.description !== undefined && { description: options.description }),
+          updatedBy: options.updatedBy,
+          updatedAt: now,
+        },
+        $setOnInsert: { createdAt: now },
+      },
+      { upsert: true }
+    );
+
+    this.cache.delete(role);
+    console.log(`[RBAC] Role ${role} permissions updated by ${options.updatedBy ?? 'unknown'}`);
+
+    return this.getRole(role);
+  }
+
+  /**
+   * 删除角色配置 (恢复为默认权限)
+   *
+   * @returns 是否删除了配置
+   */
+  async resetRole(role: string): Promise<boolean> {
+    const result = await this.collections.rolePermissions.deleteOne({ role });
+    this.cache.delete(role);
+    return result.deletedCount > 0;
+  }
+
+  private toRoleInfo(role: string, config?: RolePermissionDocument | null): RoleInfo {
+    const isSuperRole = SUPER_ROLES.includes(role);
+    return {
+      role,
+      permissions: resolveRolePermissions(role, config),
+      description: config?.description,
+      isSuperRole,
+      isCustomized: !isSuperRole && !!config,
+      updatedAt: config?.updatedAt,
+    };
+  }
+}
+
+// 延迟初始化单例 (角色权限缓存需在请求间共享)
+let rbacServiceInstance: RbacService | null = null;
+
+/**
+ * 获取 RbacService 单例实例
+ */
+export function getRbacService(): RbacService {
+  if (!rbacServiceInstance) {
+    rbacServiceInstance = new RbacService(mongodb.getDatabase());
+  }
+  return rbacServiceInstance;
+}